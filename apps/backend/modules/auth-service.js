@@ -0,0 +1,310 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { generateKeyPairSync, createPrivateKey, createPublicKey, sign, verify, randomUUID, timingSafeEqual } from 'crypto';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Error for missing, invalid or expired access tokens (HTTP 401)
+ */
+class AuthError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+/**
+ * Auth Service Module
+ * Local token issuer modelled on the TI identity provider: institutions
+ * registered in the SMC-B key store (data/auth/smcb-identities.json) obtain
+ * ES256-signed JWTs that bind every request to their telematik-ID.
+ */
+class AuthService {
+  constructor() {
+    this.authPath = join(__dirname, '..', 'data', 'auth');
+    this.issuer = process.env.AUTH_ISSUER || 'http://localhost/ti-flow-idp';
+    this.audience = 'ti-flow';
+    this.tokenLifetime = Number(process.env.AUTH_TOKEN_LIFETIME || 3600);
+    this.identities = this.loadIdentities();
+    this.signingKey = this.loadSigningKey();
+    this.keyId = 'ti-flow-local-1';
+  }
+
+  /**
+   * Load the registered SMC-B identities
+   */
+  loadIdentities() {
+    const keyStore = JSON.parse(readFileSync(join(this.authPath, 'smcb-identities.json'), 'utf8'));
+    console.log(`🔐 Loaded ${keyStore.identities.length} SMC-B identities`);
+    return keyStore.identities;
+  }
+
+  /**
+   * Load the token signing key, generating it on first start
+   */
+  loadSigningKey() {
+    const keyPath = process.env.AUTH_SIGNING_KEY_PATH || join(this.authPath, 'signing-key.pem');
+
+    if (!existsSync(keyPath)) {
+      console.log('🔑 Generating token signing key...');
+      const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      writeFileSync(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    }
+
+    return createPrivateKey(readFileSync(keyPath, 'utf8'));
+  }
+
+  /**
+   * Find a registered identity by telematik-ID
+   */
+  findIdentity(telematikId) {
+    return this.identities.find(identity => identity.telematikId === telematikId) || null;
+  }
+
+  /**
+   * Issue an access token for a registered identity
+   * @returns {Object|null} Token response, or null if the credentials are invalid
+   */
+  issueToken(telematikId, clientSecret) {
+    const identity = this.findIdentity(telematikId);
+    if (!identity || typeof clientSecret !== 'string') {
+      return null;
+    }
+
+    const expected = Buffer.from(identity.clientSecret);
+    const given = Buffer.from(clientSecret);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims = {
+      iss: this.issuer,
+      aud: this.audience,
+      sub: identity.telematikId,
+      idNummer: identity.telematikId,
+      organizationName: identity.organizationName,
+      professionOID: identity.professionOID,
+      iat: now,
+      exp: now + this.tokenLifetime,
+      jti: randomUUID()
+    };
+
+    return {
+      access_token: this.signJwt(claims),
+      token_type: 'Bearer',
+      expires_in: this.tokenLifetime
+    };
+  }
+
+  /**
+   * Create a compact ES256 JWS for the given claims
+   */
+  signJwt(claims) {
+    const header = { alg: 'ES256', typ: 'JWT', kid: this.keyId };
+    const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+    const signature = sign('sha256', Buffer.from(signingInput), { key: this.signingKey, dsaEncoding: 'ieee-p1363' });
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Verify an access token and return the authenticated identity
+   * @throws {AuthError} If the token is malformed, forged, expired or unknown
+   */
+  verifyToken(token) {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthError('Malformed access token');
+    }
+
+    const [encodedHeader, encodedClaims, encodedSignature] = parts;
+    let header;
+    let claims;
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+      claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthError('Malformed access token');
+    }
+
+    if (header.alg !== 'ES256') {
+      throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      { key: createPublicKey(this.signingKey), dsaEncoding: 'ieee-p1363' },
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!valid) {
+      throw new AuthError('Invalid token signature');
+    }
+
+    if (claims.iss !== this.issuer || claims.aud !== this.audience) {
+      throw new AuthError('Token was not issued for this service');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+      throw new AuthError('Access token expired');
+    }
+
+    const identity = this.findIdentity(claims.idNummer);
+    if (!identity) {
+      throw new AuthError(`Unknown telematik-ID: ${claims.idNummer}`);
+    }
+
+    return {
+      telematikId: identity.telematikId,
+      organizationName: identity.organizationName,
+      professionOID: identity.professionOID
+    };
+  }
+
+  /**
+   * Public signing key as JSON Web Key Set
+   */
+  getJwks() {
+    return {
+      keys: [
+        {
+          ...createPublicKey(this.signingKey).export({ format: 'jwk' }),
+          kid: this.keyId,
+          use: 'sig',
+          alg: 'ES256'
+        }
+      ]
+    };
+  }
+
+  /**
+   * Express middleware binding the caller to a telematik-ID
+   * Sets req.auth for requests with a valid Bearer token; requests without
+   * a token continue unauthenticated, invalid tokens are rejected with 401.
+   * Clients that cannot set headers (EventSource) may pass the token as
+   * access_token query parameter (RFC 6750, section 2.3).
+   */
+  authenticate() {
+    return (req, res, next) => {
+      const queryToken = typeof req.query.access_token === 'string' ? req.query.access_token : null;
+      const authorization = req.headers.authorization || (queryToken && `Bearer ${queryToken}`);
+      req.auth = null;
+
+      if (!authorization) {
+        return next();
+      }
+
+      const [scheme, token] = authorization.split(' ');
+      try {
+        if (scheme !== 'Bearer' || !token) {
+          throw new AuthError('Authorization header must use the Bearer scheme');
+        }
+        req.auth = this.verifyToken(token);
+        next();
+      } catch (error) {
+        if (!(error instanceof AuthError)) {
+          return next(error);
+        }
+        console.log(`🔒 Rejected access token: ${error.message}`);
+        res.setHeader('WWW-Authenticate', `Bearer error="invalid_token", error_description="${error.message}"`);
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: error.message
+        });
+      }
+    };
+  }
+}
+
+/**
+ * Express middleware for routes that require an authenticated caller
+ */
+export function requireAuth(req, res, next) {
+  if (!req.auth) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid access token is required (Authorization: Bearer <token>)'
+    });
+  }
+  next();
+}
+
+/**
+ * Express middleware for admin routes: the caller's telematik-ID must be listed
+ * in FLOW_ADMIN_TELEMATIK_IDS (comma-separated); without it no caller is admin
+ */
+export function requireAdmin(req, res, next) {
+  const admins = (process.env.FLOW_ADMIN_TELEMATIK_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  if (!admins.includes(req.auth?.telematikId)) {
+    console.log(`🔒 Rejected admin operation ${req.method} ${req.path} by ${req.auth?.telematikId}`);
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'Admin operations require a telematik-ID listed in FLOW_ADMIN_TELEMATIK_IDS'
+    });
+  }
+  next();
+}
+
+/**
+ * Setup auth service routes
+ * @param {Express} app - Express application instance
+ * @param {Function} registerEndpoint - Function to register endpoints for documentation
+ * @returns {AuthService} Service instance providing the authentication middleware
+ */
+export function setupAuthService(app, registerEndpoint) {
+  const authService = new AuthService();
+
+  // POST /auth/token - Issue an access token for a registered SMC-B identity
+  app.post('/auth/token', (req, res) => {
+    try {
+      const { telematikId, clientSecret } = req.body || {};
+
+      if (!telematikId || !clientSecret) {
+        return res.status(400).json({
+          error: 'invalid_request',
+          message: 'telematikId and clientSecret are required'
+        });
+      }
+
+      const token = authService.issueToken(telematikId, clientSecret);
+
+      if (!token) {
+        console.log(`🔒 Token request rejected for ${telematikId}`);
+        return res.status(401).json({
+          error: 'invalid_client',
+          message: 'Unknown telematik-ID or wrong client secret'
+        });
+      }
+
+      console.log(`🔑 Issued access token for ${telematikId}`);
+      res.json(token);
+    } catch (error) {
+      console.error('Error issuing access token:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /auth/jwks - Public key for verifying access tokens
+  app.get('/auth/jwks', (req, res) => {
+    res.json(authService.getJwks());
+  });
+
+  // Register endpoints for documentation
+  registerEndpoint('Auth Service', 'POST', '/auth/token', 'Issue an access token for a registered SMC-B identity');
+  registerEndpoint('Auth Service', 'GET', '/auth/jwks', 'Public key set for verifying access tokens');
+
+  console.log('✅ Auth Service module loaded');
+  console.log('🔐 Auth service endpoints configured:');
+  console.log('   POST /auth/token - Issue access token');
+  console.log('   GET /auth/jwks - Get token signing key');
+
+  return authService;
+}
+
+export { AuthService, AuthError };
@@ -0,0 +1,305 @@
+import fhirpath from 'fhirpath';
+
+/**
+ * Content Validation Module
+ * Checks the forms and CodeSystems the backend serves: the FHIR structure of each
+ * Questionnaire, linkId uniqueness, answerValueSet resolution, FHIRPath syntax of
+ * expression extensions, CodeSystem counts and the mapping of operation concepts
+ * to forms. Problems are reported as OperationOutcome issues whose text starts
+ * with the file they were found in.
+ */
+
+const QUESTIONNAIRE_STATUSES = ['draft', 'active', 'retired', 'unknown'];
+
+// https://hl7.org/fhir/R4/valueset-item-type.html
+const ITEM_TYPES = [
+  'group', 'display', 'boolean', 'decimal', 'integer', 'date', 'dateTime', 'time', 'string', 'text',
+  'url', 'choice', 'open-choice', 'attachment', 'reference', 'quantity'
+];
+
+const ENABLE_WHEN_OPERATORS = ['exists', '=', '!=', '>', '<', '>=', '<='];
+
+const BOOLEAN_ITEM_ELEMENTS = ['required', 'repeats', 'readOnly'];
+
+// Folder of the forms of the request operations; document operations have a folder per top-level concept
+const REQUEST_OPERATIONS_FOLDER = 'request-operations';
+
+const valueKeys = (element, prefix) =>
+  Object.keys(element || {}).filter(key => key.startsWith(prefix) && key.length > prefix.length && element[key] !== undefined);
+
+const itemPath = (parentPath, linkId) => `${parentPath}.item.where(linkId='${linkId}')`;
+
+/**
+ * Check a Questionnaire against the FHIR R4 structure and the rules the backend relies on
+ * @param {Object} questionnaire - FHIR Questionnaire
+ * @param {Function} addIssue - (severity, code, text, expression) callback
+ */
+function validateQuestionnaire(questionnaire, addIssue) {
+  if (!QUESTIONNAIRE_STATUSES.includes(questionnaire.status)) {
+    addIssue('error', 'required', `Questionnaire.status must be one of ${QUESTIONNAIRE_STATUSES.join(', ')}`, 'Questionnaire.status');
+  }
+  if (questionnaire.url !== undefined && typeof questionnaire.url !== 'string') {
+    addIssue('error', 'structure', 'Questionnaire.url must be a string', 'Questionnaire.url');
+  }
+  if (questionnaire.item !== undefined && !Array.isArray(questionnaire.item)) {
+    addIssue('error', 'structure', 'Questionnaire.item must be an array', 'Questionnaire.item');
+    return;
+  }
+
+  // Every linkId of the questionnaire, for uniqueness and enableWhen references
+  const linkIds = new Map();
+  const collectLinkIds = (items, parentPath) => {
+    for (const item of items || []) {
+      if (typeof item?.linkId !== 'string' || item.linkId === '') continue;
+      const path = itemPath(parentPath, item.linkId);
+      if (linkIds.has(item.linkId)) {
+        addIssue('error', 'duplicate', `linkId '${item.linkId}' is used more than once`, path);
+      } else {
+        linkIds.set(item.linkId, item);
+      }
+      if (Array.isArray(item.item)) collectLinkIds(item.item, path);
+    }
+  };
+  collectLinkIds(questionnaire.item, 'Questionnaire');
+
+  const containedValueSets = resources => (resources || [])
+    .filter(resource => resource?.resourceType === 'ValueSet')
+    .map(resource => resource.id);
+
+  const validateItem = (item, parentPath, index) => {
+    if (typeof item?.linkId !== 'string' || item.linkId === '') {
+      addIssue('error', 'required', `Item ${index} of ${parentPath} has no linkId`, `${parentPath}.item[${index}]`);
+      return;
+    }
+
+    const path = itemPath(parentPath, item.linkId);
+
+    if (!ITEM_TYPES.includes(item.type)) {
+      addIssue('error', 'value', `Item '${item.linkId}' has unknown type '${item.type}'`, `${path}.type`);
+    }
+    for (const element of BOOLEAN_ITEM_ELEMENTS) {
+      if (item[element] !== undefined && typeof item[element] !== 'boolean') {
+        addIssue('error', 'structure', `${element} of item '${item.linkId}' must be a boolean`, `${path}.${element}`);
+      }
+    }
+
+    // que-1: groups have items, displays have neither items nor answers (que-6, que-13)
+    if (item.type === 'group' && !(item.item?.length > 0)) {
+      addIssue('error', 'structure', `Group '${item.linkId}' has no items`, path);
+    }
+    if (item.type === 'display' && (item.item?.length > 0 || item.required || item.repeats)) {
+      addIssue('error', 'structure', `Display item '${item.linkId}' cannot have items or be required or repeating`, path);
+    }
+
+    // que-4, que-5: options and value sets only on choice items, not both
+    if (item.answerOption !== undefined || item.answerValueSet !== undefined) {
+      if (!['choice', 'open-choice'].includes(item.type)) {
+        addIssue('error', 'structure', `Only choice and open-choice items can have answer options ('${item.linkId}' is ${item.type})`, path);
+      }
+      if (item.answerOption !== undefined && item.answerValueSet !== undefined) {
+        addIssue('error', 'structure', `Item '${item.linkId}' has both answerOption and answerValueSet`, path);
+      }
+    }
+    (item.answerOption || []).forEach((option, optionIndex) => {
+      if (valueKeys(option, 'value').length !== 1) {
+        addIssue('error', 'structure', `answerOption ${optionIndex} of '${item.linkId}' must contain exactly one value`, `${path}.answerOption[${optionIndex}]`);
+      }
+    });
+
+    // Contained value sets resolve against the questionnaire (or, as in older forms, the item)
+    if (typeof item.answerValueSet === 'string') {
+      if (item.answerValueSet.startsWith('#')) {
+        const valueSetIds = [...containedValueSets(questionnaire.contained), ...containedValueSets(item.contained)];
+        if (!valueSetIds.includes(item.answerValueSet.slice(1))) {
+          addIssue('error', 'not-found', `answerValueSet ${item.answerValueSet} of '${item.linkId}' is not contained in the questionnaire`, `${path}.answerValueSet`);
+        }
+      } else {
+        addIssue('warning', 'not-found', `answerValueSet ${item.answerValueSet} of '${item.linkId}' cannot be resolved locally`, `${path}.answerValueSet`);
+      }
+    }
+
+    (item.enableWhen || []).forEach((condition, conditionIndex) => {
+      const conditionPath = `${path}.enableWhen[${conditionIndex}]`;
+      if (!linkIds.has(condition.question)) {
+        addIssue('error', 'not-found', `enableWhen of '${item.linkId}' refers to unknown question '${condition.question}'`, `${conditionPath}.question`);
+      } else if (linkIds.get(condition.question).type === 'group' || linkIds.get(condition.question).type === 'display') {
+        addIssue('error', 'business-rule', `enableWhen of '${item.linkId}' refers to '${condition.question}', which has no answers`, `${conditionPath}.question`);
+      }
+      if (!ENABLE_WHEN_OPERATORS.includes(condition.operator)) {
+        addIssue('error', 'value', `enableWhen of '${item.linkId}' has unknown operator '${condition.operator}'`, `${conditionPath}.operator`);
+      }
+      if (valueKeys(condition, 'answer').length !== 1) {
+        addIssue('error', 'structure', `enableWhen of '${item.linkId}' must contain exactly one answer`, conditionPath);
+      } else if (condition.operator === 'exists' && typeof condition.answerBoolean !== 'boolean') {
+        addIssue('error', 'value', `enableWhen of '${item.linkId}' with operator exists needs answerBoolean`, conditionPath);
+      }
+    });
+    if (item.enableBehavior !== undefined && !['all', 'any'].includes(item.enableBehavior)) {
+      addIssue('error', 'value', `enableBehavior of '${item.linkId}' must be all or any`, `${path}.enableBehavior`);
+    }
+    if ((item.enableWhen?.length || 0) > 1 && !item.enableBehavior) {
+      addIssue('error', 'required', `Item '${item.linkId}' has several enableWhen conditions but no enableBehavior`, path);
+    }
+
+    if (item.item !== undefined && !Array.isArray(item.item)) {
+      addIssue('error', 'structure', `item of '${item.linkId}' must be an array`, `${path}.item`);
+    } else {
+      (item.item || []).forEach((child, childIndex) => validateItem(child, path, childIndex));
+    }
+  };
+
+  (questionnaire.item || []).forEach((item, index) => validateItem(item, 'Questionnaire', index));
+
+  validateExpressions(questionnaire, 'Questionnaire', addIssue);
+}
+
+/**
+ * Check the syntax of every FHIRPath expression in extensions (initialExpression,
+ * variable, itemPopulationContext, ...), nested extensions included
+ */
+function validateExpressions(element, path, addIssue) {
+  if (Array.isArray(element)) {
+    element.forEach((entry, index) => validateExpressions(entry, `${path}[${index}]`, addIssue));
+    return;
+  }
+  if (!element || typeof element !== 'object') {
+    return;
+  }
+
+  const expression = element.valueExpression;
+  if (expression?.language === 'text/fhirpath' && typeof expression.expression === 'string') {
+    try {
+      fhirpath.parse(expression.expression);
+    } catch (error) {
+      addIssue('error', 'invalid', `FHIRPath expression '${expression.expression}' of ${element.url} is invalid: ${error.message.split('\n')[0]}`, `${path}.valueExpression.expression`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(element)) {
+    if (key === 'item' && Array.isArray(value)) {
+      value.forEach(item => validateExpressions(item, itemPath(path, item?.linkId), addIssue));
+    } else if (typeof value === 'object' && key !== 'valueExpression') {
+      validateExpressions(value, `${path}.${key}`, addIssue);
+    }
+  }
+}
+
+/**
+ * Number of concepts of a CodeSystem, nested concepts included (CodeSystem.count)
+ */
+function countConcepts(concepts) {
+  return (concepts || []).reduce((count, concept) => count + 1 + countConcepts(concept.concept), 0);
+}
+
+/**
+ * Check the count and codes of a CodeSystem
+ */
+function validateCodeSystem(codeSystem, addIssue) {
+  const actual = countConcepts(codeSystem.concept);
+  if (codeSystem.count !== undefined && codeSystem.count !== actual) {
+    addIssue('error', 'value', `CodeSystem.count is ${codeSystem.count}, but ${actual} concepts are defined`, 'CodeSystem.count');
+  }
+
+  const codes = new Set();
+  const checkCodes = (concepts, path) => (concepts || []).forEach(concept => {
+    const conceptPath = `${path}.concept.where(code='${concept.code}')`;
+    if (codes.has(concept.code)) {
+      addIssue('error', 'duplicate', `Code '${concept.code}' is defined more than once`, conceptPath);
+    }
+    codes.add(concept.code);
+    checkCodes(concept.concept, conceptPath);
+  });
+  checkCodes(codeSystem.concept, 'CodeSystem');
+}
+
+/**
+ * Validate all forms and the operation CodeSystems
+ * @param {Object} content - Content to validate
+ * @param {QuestionnaireRegistry} content.questionnaireRegistry - Registry of the forms
+ * @param {Object} content.documentOperations - DocumentOperationsCS; a folder per top-level concept, a form per leaf concept
+ * @param {Object} content.requestOperations - RequestOperationsCS; a form per concept in request-operations
+ * @param {Object} content.codeSystemFiles - File names of the CodeSystems, for the issue texts
+ * @returns {Object} FHIR OperationOutcome
+ */
+function validateContent({ questionnaireRegistry, documentOperations, requestOperations, codeSystemFiles = {} }) {
+  const issues = [];
+
+  const issueAdder = source => (severity, code, text, expression) => {
+    issues.push({
+      severity,
+      code,
+      details: { text: `${source}: ${text}` },
+      ...(expression ? { expression: [expression] } : {})
+    });
+  };
+
+  for (const error of questionnaireRegistry.errors) {
+    issueAdder(error.file)('error', 'structure', error.message);
+  }
+  for (const conflict of questionnaireRegistry.conflicts) {
+    issueAdder(conflict.files.join(', '))('error', 'duplicate', `Different forms define ${conflict.index} ${conflict.key} (using ${conflict.using})`);
+  }
+  for (const entry of questionnaireRegistry.entries) {
+    validateQuestionnaire(entry.questionnaire, issueAdder(entry.file));
+  }
+
+  // Every operation concept needs a form in its folder; forms of no concept are reported as warnings
+  const mappedFiles = new Set();
+  const expectForm = (codeSystemFile, folder, concept) => {
+    const entries = questionnaireRegistry.entries.filter(candidate => candidate.code === concept.code);
+    const entry = entries.find(candidate => candidate.file.startsWith(`${folder}/`)) || entries[0];
+    if (!entry) {
+      issueAdder(codeSystemFile)('error', 'not-found', `No form ${folder}/${concept.code}-form.json for concept '${concept.code}' (${concept.display})`,
+        `CodeSystem.concept.where(code='${concept.code}')`);
+    } else if (!entry.file.startsWith(`${folder}/`)) {
+      issueAdder(codeSystemFile)('error', 'business-rule', `Form ${entry.file} of concept '${concept.code}' is not in folder ${folder}`,
+        `CodeSystem.concept.where(code='${concept.code}')`);
+    } else {
+      mappedFiles.add(entry.file);
+    }
+  };
+
+  const checkCodeSystem = (name, codeSystem, mapForms) => {
+    const file = codeSystemFiles[name] || name;
+    if (!codeSystem) {
+      issueAdder(file)('fatal', 'not-found', 'CodeSystem could not be read');
+      return;
+    }
+    validateCodeSystem(codeSystem, issueAdder(file));
+    mapForms(file, codeSystem);
+  };
+
+  checkCodeSystem('documentOperations', documentOperations, (file, codeSystem) => {
+    for (const concept of codeSystem.concept || []) {
+      const leaves = concept.concept?.length > 0 ? concept.concept : [concept];
+      leaves.forEach(leaf => expectForm(file, concept.code, leaf));
+    }
+  });
+  checkCodeSystem('requestOperations', requestOperations, (file, codeSystem) => {
+    (codeSystem.concept || []).forEach(concept => expectForm(file, REQUEST_OPERATIONS_FOLDER, concept));
+  });
+
+  for (const entry of questionnaireRegistry.entries) {
+    if (!mappedFiles.has(entry.file)) {
+      issueAdder(entry.file)('warning', 'informational', `Form is not the form of any operation concept (code '${entry.code}')`);
+    }
+  }
+
+  return {
+    resourceType: 'OperationOutcome',
+    issue: issues.length > 0
+      ? issues
+      : [{ severity: 'information', code: 'informational', details: { text: 'No issues detected during content validation' } }]
+  };
+}
+
+/**
+ * Error and warning counts of a content validation OperationOutcome
+ */
+function summarizeContentValidation(outcome) {
+  const errors = outcome.issue.filter(issue => issue.severity === 'error' || issue.severity === 'fatal').length;
+  const warnings = outcome.issue.filter(issue => issue.severity === 'warning').length;
+  return { valid: errors === 0, errors, warnings };
+}
+
+export { validateContent, summarizeContentValidation, countConcepts };
@@ -1,12 +1,30 @@
-import { readFileSync, writeFileSync, existsSync, readdirSync, statSync } from 'fs';
+import { EventEmitter } from 'events';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { createFlowStorage } from './flow-storage.js';
+import { QuestionnaireRegistry } from './questionnaire-registry.js';
+import { TerminologyService } from './terminology-service.js';
+import { requireAuth, requireAdmin } from './auth-service.js';
+import { TaskSearchError, parseTaskSearch, matchesTaskSearch, sortTasks, buildPagingLinks } from './task-search.js';
+import { validateQuestionnaireResponse, hasValidationErrors } from './questionnaire-validation.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/**
+ * Error reading or writing the flow database; requests that hit it are
+ * answered with 500 instead of working on an empty or stale database
+ */
+class FlowDatabaseError extends Error {
+  constructor(message, cause) {
+    super(message, { cause });
+    this.name = 'FlowDatabaseError';
+    this.status = 500;
+  }
+}
+
 // Task status constants based on the state diagram
 const TASK_STATUS = {
   REQUESTED: 'requested',
@@ -18,6 +36,51 @@ const TASK_STATUS = {
   COMPLETED: 'completed'
 };
 
+// Roles a participant can play on a task
+const TASK_ROLE = {
+  REQUESTER: 'requester',
+  RECEIVER: 'receiver'
+};
+
+// Task state machine: for each status, the operations that may be applied,
+// keyed by the role allowed to trigger them and the resulting status.
+// Terminal states have no outgoing transitions.
+const TASK_TRANSITIONS = {
+  [TASK_STATUS.REQUESTED]: {
+    'receive': { [TASK_ROLE.RECEIVER]: TASK_STATUS.RECEIVED },
+    'reject': { [TASK_ROLE.REQUESTER]: TASK_STATUS.REJECTED, [TASK_ROLE.RECEIVER]: TASK_STATUS.REJECTED }
+  },
+  [TASK_STATUS.RECEIVED]: {
+    'counter-offer': { [TASK_ROLE.RECEIVER]: TASK_STATUS.IN_PROGRESS_PROCESSOR },
+    'accept': { [TASK_ROLE.RECEIVER]: TASK_STATUS.ACCEPTED },
+    'reject': { [TASK_ROLE.REQUESTER]: TASK_STATUS.REJECTED, [TASK_ROLE.RECEIVER]: TASK_STATUS.REJECTED }
+  },
+  // The requester made the last counter-offer, the receiver has to respond
+  [TASK_STATUS.IN_PROGRESS_REQUESTER]: {
+    'counter-offer': { [TASK_ROLE.RECEIVER]: TASK_STATUS.IN_PROGRESS_PROCESSOR },
+    'accept': { [TASK_ROLE.RECEIVER]: TASK_STATUS.ACCEPTED },
+    'reject': { [TASK_ROLE.REQUESTER]: TASK_STATUS.REJECTED, [TASK_ROLE.RECEIVER]: TASK_STATUS.REJECTED }
+  },
+  // The receiver made the last counter-offer, the requester has to respond
+  [TASK_STATUS.IN_PROGRESS_PROCESSOR]: {
+    'counter-offer': { [TASK_ROLE.REQUESTER]: TASK_STATUS.IN_PROGRESS_REQUESTER },
+    'accept': { [TASK_ROLE.REQUESTER]: TASK_STATUS.ACCEPTED },
+    'reject': { [TASK_ROLE.REQUESTER]: TASK_STATUS.REJECTED, [TASK_ROLE.RECEIVER]: TASK_STATUS.REJECTED }
+  },
+  [TASK_STATUS.ACCEPTED]: {
+    'close': { [TASK_ROLE.RECEIVER]: TASK_STATUS.COMPLETED },
+    'reject': { [TASK_ROLE.REQUESTER]: TASK_STATUS.REJECTED, [TASK_ROLE.RECEIVER]: TASK_STATUS.REJECTED }
+  },
+  [TASK_STATUS.REJECTED]: {},
+  [TASK_STATUS.COMPLETED]: {}
+};
+
+// Extension carrying the history event details on a Task version
+const TASK_HISTORY_EVENT_EXTENSION = 'http://gematik.de/fhir/ti-flow/StructureDefinition/task-history-event';
+
+// Extension linking a QuestionnaireResponse revision to the revision it answers
+const QR_PREDECESSOR_EXTENSION = 'http://gematik.de/fhir/ti-flow/StructureDefinition/questionnaire-response-predecessor';
+
 /**
  * Flow Service Module
  * Hand  console.log('✅ Flow Se  console.log('✅ Flow Service module loaded');
@@ -31,25 +94,60 @@ const TASK_STATUS = {
   console.log('   GET /Task?user=<user> - Get all tasks for user');
   console.log('   GET /Task/:id - Get task status'); questionnaire population and flow request processing with state management
  */
-class FlowService {
-  constructor() {
+class FlowService extends EventEmitter {
+  /**
+   * @param {Object} options - Service options
+   * @param {string} options.storage - Storage backend, 'json' or 'sqlite' (default: FLOW_DB_STORAGE or 'json')
+   * @param {boolean} options.resetOnStart - Wipe the database on startup (default: FLOW_DB_RESET_ON_START === 'true')
+   * @param {string} options.databasePath - Directory holding the database files (default: data)
+   */
+  constructor(options = {}) {
+    super();
     this.dataPath = join(__dirname, '..', 'data');
-    this.dbPath = join(this.dataPath, 'flow-db.json');
-    this.resetDatabase(); // Reset database on startup
+    this.storage = createFlowStorage({
+      type: options.storage || process.env.FLOW_DB_STORAGE || 'json',
+      dataPath: options.databasePath || this.dataPath
+    });
+    console.log(`💾 Flow database storage: ${this.storage.describe()}`);
+
+    // Forms the QuestionnaireResponses of the tasks are validated against
+    this.questionnaireRegistry = new QuestionnaireRegistry(join(this.dataPath, 'forms'));
+    // Expands the answerValueSets of their choice items
+    this.terminologyService = new TerminologyService(this.questionnaireRegistry, join(this.dataPath, 'codesystems'));
+
+    const resetOnStart = options.resetOnStart ?? process.env.FLOW_DB_RESET_ON_START === 'true';
+    if (resetOnStart) {
+      this.resetDatabase();
+    } else {
+      this.initializeDatabase();
+    }
   }
 
   /**
-   * Initialize the local database
+   * Create an empty database object
+   */
+  createEmptyDatabase() {
+    return {
+      tasks: {},
+      questionnaires: {},
+      history: {},
+      prescriptions: {},
+      nextTaskId: 1,
+      nextQuestionnaireId: 1,
+      nextPrescriptionNumber: 1
+    };
+  }
+
+  /**
+   * Initialize the local database if nothing has been stored yet
    */
   initializeDatabase() {
-    if (!existsSync(this.dbPath)) {
-      const initialDb = {
-        tasks: {},
-        questionnaires: {},
-        nextTaskId: 1,
-        nextQuestionnaireId: 1
-      };
-      writeFileSync(this.dbPath, JSON.stringify(initialDb, null, 2));
+    if (!this.storage.exists()) {
+      this.storage.save(this.createEmptyDatabase());
+      console.log('✅ Flow database initialized');
+    } else {
+      const db = this.loadDatabase();
+      console.log(`✅ Flow database loaded (${Object.keys(db.tasks).length} tasks)`);
     }
   }
 
@@ -58,37 +156,34 @@ class FlowService {
    */
   resetDatabase() {
     console.log('🔄 Resetting flow database...');
-    const initialDb = {
-      tasks: {},
-      questionnaires: {},
-      nextTaskId: 1,
-      nextQuestionnaireId: 1
-    };
-    writeFileSync(this.dbPath, JSON.stringify(initialDb, null, 2));
+    this.storage.save(this.createEmptyDatabase());
     console.log('✅ Flow database reset complete');
   }
 
   /**
-   * Load database from file
+   * Load database from storage
+   * @throws {FlowDatabaseError} If the stored database cannot be read
    */
   loadDatabase() {
     try {
-      const data = readFileSync(this.dbPath, 'utf8');
-      return JSON.parse(data);
+      // Databases written before a collection existed are completed with defaults
+      return { ...this.createEmptyDatabase(), ...this.storage.load() };
     } catch (error) {
       console.error('Error loading database:', error);
-      return { tasks: {}, questionnaires: {}, nextTaskId: 1, nextQuestionnaireId: 1 };
+      throw new FlowDatabaseError(`Flow database could not be read: ${error.message}`, error);
     }
   }
 
   /**
-   * Save database to file
+   * Save database to storage
+   * @throws {FlowDatabaseError} If the database cannot be written
    */
   saveDatabase(db) {
     try {
-      writeFileSync(this.dbPath, JSON.stringify(db, null, 2));
+      this.storage.save(db);
     } catch (error) {
       console.error('Error saving database:', error);
+      throw new FlowDatabaseError(`Flow database could not be written: ${error.message}`, error);
     }
   }
 
@@ -111,46 +206,56 @@ class FlowService {
   }
 
   /**
-   * Create a new flow request
+   * Append a new version of a task to its history
+   * @param {Object} db - Loaded database
+   * @param {Object} task - Task in its new state
+   * @param {Object} event - Operation, actor, previous status and attached resource references
    */
-  createRequest(requester, receiver, questionnaireResponse) {
-    const db = this.loadDatabase();
-    
-    // Generate IDs
-    const taskId = this.generateTaskId(db);
-    const questionnaireResponseId = this.generateQuestionnaireId(db);
-    const now = new Date().toISOString();
-
-    // Store questionnaire response
-    db.questionnaires[questionnaireResponseId] = {
-      id: questionnaireResponseId,
-      ...questionnaireResponse,
-      created: now
-    };
+  recordHistory(db, task, { operation, actor = null, previousStatus = null, references = [] }) {
+    if (!db.history) {
+      db.history = {};
+    }
+    if (!db.history[task.id]) {
+      db.history[task.id] = [];
+    }
 
-    // Create task
-    const task = {
-      id: taskId,
-      requester,
-      receiver,
-      created: now,
-      updated: now,
-      status: TASK_STATUS.REQUESTED,
-      owner: requester, // Initially owned by requester
-      questionnaireResponseId,
-      type: 'flow-request'
+    const versions = db.history[task.id];
+    task.versionId = (versions.length + 1).toString();
+
+    const version = {
+      versionId: task.versionId,
+      operation,
+      actor,
+      previousStatus,
+      status: task.status,
+      timestamp: task.updated,
+      references,
+      task: { ...task }
     };
 
-    db.tasks[taskId] = task;
-    this.saveDatabase(db);
+    versions.push(version);
+    return version;
+  }
 
-    return { taskId, questionnaireResponseId, task };
+  /**
+   * Get the history of a task (oldest version first)
+   * @returns {Array|null} Versions or null if the task does not exist
+   */
+  getTaskHistory(taskId) {
+    const db = this.loadDatabase();
+    if (!db.tasks[taskId]) {
+      return null;
+    }
+    return db.history?.[taskId] || [];
   }
 
   /**
-   * Create a new document request with enhanced validation
+   * Store a QuestionnaireResponse as first revision of a new negotiation and
+   * create the task for it, addressed from the requester to the receiver
+   * @param {string} type - Task type, 'flow-request' or 'document-request'
+   * @param {Object|null} code - Coding of the requested operation (from the questionnaire)
    */
-  createDocumentRequest(requester_tid, receiver_tid, questionnaireResponse) {
+  createTaskWithRevision(type, requester_tid, receiver_tid, questionnaireResponse, code = null) {
     const db = this.loadDatabase();
     
     // Generate IDs
@@ -158,14 +263,15 @@ class FlowService {
     const questionnaireResponseId = this.generateQuestionnaireId(db);
     const now = new Date().toISOString();
 
-    // Store questionnaire response
+    // Store questionnaire response as first revision of the negotiation
     db.questionnaires[questionnaireResponseId] = {
       id: questionnaireResponseId,
+      author: { reference: `Organization/${requester_tid}` },
       ...questionnaireResponse,
       created: now
     };
 
-    // Create task for document request with proper telematik-id format
+    // Create task with proper telematik-id format
     const task = {
       id: taskId,
       requester: `Organization/${requester_tid}`,
@@ -175,17 +281,41 @@ class FlowService {
       status: TASK_STATUS.REQUESTED,
       owner: `Organization/${receiver_tid}`, // Owner is the receiver (where request goes to)
       questionnaireResponseId,
-      type: 'document-request'
+      revisions: [questionnaireResponseId],
+      type,
+      ...(code && { code })
     };
 
+    this.recordHistory(db, task, {
+      operation: 'create',
+      actor: requester_tid,
+      references: [`QuestionnaireResponse/${questionnaireResponseId}`]
+    });
     db.tasks[taskId] = task;
     this.saveDatabase(db);
+    this.emit('task-changed', { task, operation: 'create' });
 
-    console.log(`📄 Document request created: Task ${taskId} from ${requester_tid} to ${receiver_tid}`);
-    
     return { taskId, questionnaireResponseId, task };
   }
 
+  /**
+   * Create a new flow request
+   */
+  createRequest(requester_tid, receiver_tid, questionnaireResponse, code = null) {
+    const result = this.createTaskWithRevision('flow-request', requester_tid, receiver_tid, questionnaireResponse, code);
+    console.log(`📋 Flow request created: Task ${result.taskId} from ${requester_tid} to ${receiver_tid}`);
+    return result;
+  }
+
+  /**
+   * Create a new document request
+   */
+  createDocumentRequest(requester_tid, receiver_tid, questionnaireResponse, code = null) {
+    const result = this.createTaskWithRevision('document-request', requester_tid, receiver_tid, questionnaireResponse, code);
+    console.log(`📄 Document request created: Task ${result.taskId} from ${requester_tid} to ${receiver_tid}`);
+    return result;
+  }
+
   /**
    * Get task by ID
    */
@@ -204,9 +334,8 @@ class FlowService {
     
     for (const taskId in db.tasks) {
       const task = db.tasks[taskId];
-      // Support both direct telematik-id and Organization/telematik-id format
-      const requesterMatch = task.requester === user || task.requester === `Organization/${user}`;
-      const receiverMatch = task.receiver === user || task.receiver === `Organization/${user}`;
+      const requesterMatch = this.matchesParticipant(task.requester, user);
+      const receiverMatch = this.matchesParticipant(task.receiver, user);
       
       if (requesterMatch || receiverMatch) {
         userTasks.push(task);
@@ -218,41 +347,151 @@ class FlowService {
   }
 
   /**
-   * Find questionnaire form by URL
+   * Search tasks with FHIR search criteria (see task-search.js)
+   * Returns the matching tasks of the requested page and the total match count
    */
-  findQuestionnaireByUrl(url) {
-    try {
-      const formsPath = join(this.dataPath, 'forms');
-      const categories = readdirSync(formsPath);
-      
-      for (const category of categories) {
-        const categoryPath = join(formsPath, category);
-        if (statSync(categoryPath).isDirectory()) {
-          const files = readdirSync(categoryPath);
-          
-          for (const file of files) {
-            if (file.endsWith('.json')) {
-              const filePath = join(categoryPath, file);
-              try {
-                const content = readFileSync(filePath, 'utf8');
-                const questionnaire = JSON.parse(content);
-                
-                if (questionnaire.url === url) {
-                  return questionnaire;
-                }
-              } catch (error) {
-                console.warn(`Error reading form file ${filePath}:`, error.message);
-              }
-            }
-          }
-        }
+  searchTasks(search) {
+    const db = this.loadDatabase();
+    const candidates = search.user
+      ? this.getTasksForUser(search.user)
+      : Object.values(db.tasks);
+
+    const matches = sortTasks(
+      candidates.filter(task => matchesTaskSearch(task, this.toFhirTask(task), search, (participant, value) => this.matchesParticipant(participant, value))),
+      search.sort
+    );
+
+    const tasks = search.count === null
+      ? matches.slice(search.offset)
+      : matches.slice(search.offset, search.offset + search.count);
+
+    return { total: matches.length, tasks };
+  }
+
+  /**
+   * Take the coding of the requested operation from a questionnaire, stored as Task.code
+   */
+  toTaskCode(questionnaire) {
+    const coding = questionnaire?.code?.[0];
+    if (!coding) return null;
+    return { system: coding.system, code: coding.code, display: coding.display };
+  }
+
+  /**
+   * Check whether a user identifies the given task participant
+   * Supports both direct telematik-id and Organization/telematik-id format
+   */
+  matchesParticipant(participant, user) {
+    if (!participant || !user) return false;
+    return participant === user || participant === `Organization/${user}`;
+  }
+
+  /**
+   * Check whether a user is the requester or receiver of a task
+   */
+  isParticipant(task, user) {
+    return this.matchesParticipant(task.requester, user) || this.matchesParticipant(task.receiver, user);
+  }
+
+  /**
+   * IDs of the QuestionnaireResponse revisions of a task, oldest first
+   * Tasks stored before counter-offers were versioned only know their initial response.
+   */
+  getRevisionIds(task) {
+    return task.revisions || [task.questionnaireResponseId];
+  }
+
+  /**
+   * ID of the QuestionnaireResponse revision currently under negotiation
+   */
+  getCurrentRevisionId(task) {
+    const revisions = this.getRevisionIds(task);
+    return revisions[revisions.length - 1];
+  }
+
+  /**
+   * Find the task a stored questionnaire or questionnaire response belongs to
+   */
+  findTaskByQuestionnaireId(questionnaireId) {
+    const db = this.loadDatabase();
+    const references = [`Questionnaire/${questionnaireId}`, `QuestionnaireResponse/${questionnaireId}`];
+
+    return Object.values(db.tasks).find(task =>
+      this.getRevisionIds(task).includes(questionnaireId) ||
+      task.questionnaireId === questionnaireId ||
+      (db.history?.[task.id] || []).some(version => version.references.some(ref => references.includes(ref)))
+    ) || null;
+  }
+
+  /**
+   * Determine the role an actor plays on a task.
+   * Actors that are not the requester act as the receiver.
+   */
+  resolveRole(task, actor) {
+    return this.matchesParticipant(task.requester, actor) ? TASK_ROLE.REQUESTER : TASK_ROLE.RECEIVER;
+  }
+
+  /**
+   * Get all transitions leaving the given status
+   * @returns {Array<{operation: string, role: string, to: string}>}
+   */
+  getAllowedTransitions(status) {
+    const transitions = [];
+    for (const [operation, targets] of Object.entries(TASK_TRANSITIONS[status] || {})) {
+      for (const [role, to] of Object.entries(targets)) {
+        transitions.push({ operation, role, to });
       }
-      
-      return null;
-    } catch (error) {
-      console.error('Error searching for questionnaire by URL:', error);
-      return null;
     }
+    return transitions;
+  }
+
+  /**
+   * Validate an operation on a task against the transition table
+   * @returns {Object} Result with allowed flag, actor role, target status and all allowed transitions
+   */
+  validateTransition(task, operation, actor) {
+    const role = this.resolveRole(task, actor);
+    const allowedTransitions = this.getAllowedTransitions(task.status);
+    const transition = allowedTransitions.find(t => t.operation === operation && t.role === role);
+
+    return {
+      allowed: !!transition,
+      role,
+      to: transition ? transition.to : null,
+      allowedTransitions
+    };
+  }
+
+  /**
+   * Build a FHIR OperationOutcome for an illegal transition
+   */
+  toTransitionOutcome(task, operation, validation) {
+    const allowedNext = validation.allowedTransitions
+      .map(t => `${t.operation} -> ${t.to} (${t.role})`);
+
+    return {
+      resourceType: 'OperationOutcome',
+      issue: [
+        {
+          severity: 'error',
+          code: 'business-rule',
+          details: {
+            text: `Operation $${operation} is not allowed for the ${validation.role} of Task/${task.id} in state '${task.status}'`
+          },
+          diagnostics: allowedNext.length > 0
+            ? `Current state: ${task.status}. Attempted transition: ${operation}. Allowed next states: ${allowedNext.join(', ')}`
+            : `Current state: ${task.status}. Attempted transition: ${operation}. No further transitions are allowed from this state`,
+          expression: ['Task.status']
+        }
+      ]
+    };
+  }
+
+  /**
+   * Find questionnaire form by canonical URL ('url' or 'url|version'), latest version if none is given
+   */
+  findQuestionnaireByUrl(url) {
+    return this.questionnaireRegistry.findByUrl(url);
   }
 
   /**
@@ -298,9 +537,10 @@ class FlowService {
   }
 
   /**
-   * Update task status and owner
+   * Update task status and owner, recording the change in the task history
+   * @param {Object} event - History details: operation and attached resource references
    */
-  updateTaskStatus(taskId, newStatus, newOwner = null) {
+  updateTaskStatus(taskId, newStatus, newOwner = null, event = {}) {
     const db = this.loadDatabase();
     const task = db.tasks[taskId];
     
@@ -308,14 +548,17 @@ class FlowService {
       return null;
     }
 
+    const previousStatus = task.status;
     task.status = newStatus;
     task.updated = new Date().toISOString();
     if (newOwner) {
       task.owner = newOwner;
     }
 
+    this.recordHistory(db, task, { actor: newOwner, previousStatus, ...event });
     db.tasks[taskId] = task;
     this.saveDatabase(db);
+    this.emit('task-changed', { task, operation: event.operation });
     return task;
   }
 
@@ -324,44 +567,73 @@ class FlowService {
    */
   markAsReceived(taskId, receiver) {
     const task = this.getTask(taskId);
-    if (!task || task.status !== TASK_STATUS.REQUESTED) {
+    const transition = task && this.validateTransition(task, 'receive', receiver);
+    if (!transition || !transition.allowed) {
       return null;
     }
 
-    return this.updateTaskStatus(taskId, TASK_STATUS.RECEIVED, receiver);
+    return this.updateTaskStatus(taskId, transition.to, receiver, { operation: 'receive' });
+  }
+
+  /**
+   * Check a counter-offer against the revision it answers
+   * @returns {string|null} Reason why the counter-offer is invalid, or null if it is valid
+   */
+  validateCounterOffer(task, questionnaireResponse) {
+    if (!questionnaireResponse || questionnaireResponse.resourceType !== 'QuestionnaireResponse') {
+      return 'Counter-offer must be a FHIR QuestionnaireResponse resource';
+    }
+
+    const current = this.getQuestionnaire(this.getCurrentRevisionId(task));
+    if (current && questionnaireResponse.questionnaire !== current.questionnaire) {
+      return `Counter-offer must answer the questionnaire of the request (${current.questionnaire})`;
+    }
+
+    const { requester_tid, receiver_tid } = this.extractRequesterAndReceiver(questionnaireResponse);
+    if (!this.matchesParticipant(task.requester, requester_tid) || !this.matchesParticipant(task.receiver, receiver_tid)) {
+      return 'Counter-offer must keep requester_tid and receiver_tid of the request';
+    }
+
+    return null;
   }
 
   /**
    * Process counter-offer
+   * The QuestionnaireResponse is stored as new revision linked to the
+   * revision it answers and becomes the revision under negotiation.
    */
-  processCounterOffer(taskId, questionnaire, actor) {
+  processCounterOffer(taskId, questionnaireResponse, actor) {
     const task = this.getTask(taskId);
-    if (!task || ![TASK_STATUS.RECEIVED, TASK_STATUS.IN_PROGRESS_REQUESTER, TASK_STATUS.IN_PROGRESS_PROCESSOR].includes(task.status)) {
+    const transition = task && this.validateTransition(task, 'counter-offer', actor);
+    if (!transition || !transition.allowed) {
       return null;
     }
 
     const db = this.loadDatabase();
-    
-    // Update questionnaire
-    const questionnaireId = this.generateQuestionnaireId(db);
-    db.questionnaires[questionnaireId] = {
-      id: questionnaireId,
-      ...questionnaire,
-      created: new Date().toISOString()
-    };
+    const now = new Date().toISOString();
+    const predecessorId = this.getCurrentRevisionId(task);
 
-    // Update task
-    task.questionnaireId = questionnaireId;
-    db.tasks[taskId] = task;
-    
-    // Determine new status based on who is making the counter-offer
-    const newStatus = actor === task.requester ? 
-      TASK_STATUS.IN_PROGRESS_REQUESTER : 
-      TASK_STATUS.IN_PROGRESS_PROCESSOR;
+    const questionnaireResponseId = this.generateQuestionnaireId(db);
+    db.questionnaires[questionnaireResponseId] = {
+      ...questionnaireResponse,
+      id: questionnaireResponseId,
+      authored: now,
+      author: { reference: `Organization/${actor}` },
+      extension: [
+        ...(questionnaireResponse.extension || []).filter(ext => ext.url !== QR_PREDECESSOR_EXTENSION),
+        { url: QR_PREDECESSOR_EXTENSION, valueReference: { reference: `QuestionnaireResponse/${predecessorId}` } }
+      ],
+      created: now
+    };
 
-    const updatedTask = this.updateTaskStatus(taskId, newStatus, actor);
-    
+    db.tasks[taskId].revisions = [...this.getRevisionIds(task), questionnaireResponseId];
     this.saveDatabase(db);
+
+    // New status depends on who is making the counter-offer
+    const updatedTask = this.updateTaskStatus(taskId, transition.to, actor, {
+      operation: 'counter-offer',
+      references: [`QuestionnaireResponse/${questionnaireResponseId}`]
+    });
     return updatedTask;
   }
 
@@ -370,11 +642,12 @@ class FlowService {
    */
   rejectTask(taskId, actor) {
     const task = this.getTask(taskId);
-    if (!task || task.status === TASK_STATUS.COMPLETED || task.status === TASK_STATUS.REJECTED) {
+    const transition = task && this.validateTransition(task, 'reject', actor);
+    if (!transition || !transition.allowed) {
       return null;
     }
 
-    return this.updateTaskStatus(taskId, TASK_STATUS.REJECTED, actor);
+    return this.updateTaskStatus(taskId, transition.to, actor, { operation: 'reject' });
   }
 
   /**
@@ -382,11 +655,16 @@ class FlowService {
    */
   acceptTask(taskId, actor) {
     const task = this.getTask(taskId);
-    if (!task || ![TASK_STATUS.RECEIVED, TASK_STATUS.IN_PROGRESS_REQUESTER, TASK_STATUS.IN_PROGRESS_PROCESSOR].includes(task.status)) {
+    const transition = task && this.validateTransition(task, 'accept', actor);
+    if (!transition || !transition.allowed) {
       return null;
     }
 
-    return this.updateTaskStatus(taskId, TASK_STATUS.ACCEPTED, actor);
+    // Accepting agrees to the revision currently under negotiation
+    return this.updateTaskStatus(taskId, transition.to, actor, {
+      operation: 'accept',
+      references: [`QuestionnaireResponse/${this.getCurrentRevisionId(task)}`]
+    });
   }
 
   /**
@@ -401,11 +679,11 @@ class FlowService {
     const task = this.getTask(taskId);
     console.log('📋 Current task:', task);
     
-    if (!task || task.status !== TASK_STATUS.ACCEPTED) {
-      console.log('❌ Task not found or not in accepted status');
+    const transition = task && this.validateTransition(task, 'close', actor);
+    if (!transition || !transition.allowed) {
+      console.log('❌ Task not found or close not allowed');
       console.log('   Task exists:', !!task);
       console.log('   Task status:', task?.status);
-      console.log('   Required status:', TASK_STATUS.ACCEPTED);
       return null;
     }
 
@@ -420,7 +698,10 @@ class FlowService {
     
     console.log('💾 Database after storing docData:', db.tasks[taskId]);
     
-    const updatedTask = this.updateTaskStatus(taskId, TASK_STATUS.COMPLETED, actor);
+    const updatedTask = this.updateTaskStatus(taskId, transition.to, actor, {
+      operation: 'close',
+      references: [`DocumentReference/${docData.docId}`]
+    });
     
     console.log('✅ Final updated task:', updatedTask);
     
@@ -451,12 +732,23 @@ class FlowService {
     const fhirTask = {
       resourceType: "Task",
       id: task.id,
+      ...(task.versionId && {
+        meta: {
+          versionId: task.versionId,
+          lastUpdated: task.updated
+        }
+      }),
       status: this.mapStatusToFhir(task.status),
       businessStatus: {
         text: task.status
       },
       intent: "order",
       priority: "routine",
+      ...(task.code && {
+        code: {
+          coding: [task.code]
+        }
+      }),
       description: "Flow request task",
       authoredOn: task.created,
       lastModified: task.updated,
@@ -469,16 +761,16 @@ class FlowService {
       for: {
         reference: ensureOrgReference(task.receiver)
       },
-      input: [
-        {
-          type: {
-            text: "questionnaire-response"
-          },
-          valueReference: {
-            reference: `QuestionnaireResponse/${task.questionnaireResponseId}`
-          }
+      // Every revision of the negotiation, oldest first; the last one is under negotiation
+      input: this.getRevisionIds(task).map((questionnaireResponseId, index) => ({
+        type: {
+          text: "questionnaire-response"
+        },
+        valueReference: {
+          reference: `QuestionnaireResponse/${questionnaireResponseId}`,
+          display: `Revision ${index + 1}`
         }
-      ]
+      }))
     };
 
     // Add document data as output when task is completed
@@ -511,6 +803,64 @@ class FlowService {
     return fhirTask;
   }
 
+  /**
+   * Convert a history version to a FHIR Task carrying the event details as extension
+   */
+  toFhirTaskVersion(version) {
+    const fhirTask = this.toFhirTask(version.task);
+    fhirTask.meta = {
+      versionId: version.versionId,
+      lastUpdated: version.timestamp
+    };
+
+    const eventExtension = [
+      { url: 'operation', valueCode: version.operation }
+    ];
+    if (version.actor) {
+      eventExtension.push({ url: 'actor', valueString: version.actor });
+    }
+    if (version.previousStatus) {
+      eventExtension.push({ url: 'previousStatus', valueString: version.previousStatus });
+    }
+    for (const reference of version.references || []) {
+      eventExtension.push({ url: 'reference', valueReference: { reference } });
+    }
+
+    fhirTask.extension = [
+      {
+        url: TASK_HISTORY_EVENT_EXTENSION,
+        extension: eventExtension
+      }
+    ];
+
+    return fhirTask;
+  }
+
+  /**
+   * Convert task versions to a FHIR history Bundle (newest version first)
+   */
+  toFhirHistoryBundle(taskId, versions) {
+    const entries = [...versions].reverse().map(version => ({
+      fullUrl: `Task/${taskId}/_history/${version.versionId}`,
+      resource: this.toFhirTaskVersion(version),
+      request: {
+        method: 'POST',
+        url: version.operation === 'create' ? 'Task' : `Task/${taskId}/$${version.operation}`
+      },
+      response: {
+        status: version.operation === 'create' ? '201 Created' : '200 OK',
+        lastModified: version.timestamp
+      }
+    }));
+
+    return {
+      resourceType: 'Bundle',
+      type: 'history',
+      total: entries.length,
+      entry: entries
+    };
+  }
+
   /**
    * Map internal status to FHIR task status
    */
@@ -547,53 +897,132 @@ class FlowService {
  * Setup flow service routes
  * @param {Express} app - Express application instance
  * @param {Function} registerEndpoint - Function to register endpoints for documentation
+ * @returns {FlowService} Service instance emitting 'task-changed' events
  */
 export function setupFlowService(app, registerEndpoint) {
   const flowService = new FlowService();
+  flowService.questionnaireRegistry.watch();
 
-  // GET /Task?user=<user> - Get all tasks for a user (where user is requester or receiver)
-  app.get('/Task', (req, res) => {
+  // Check that the authenticated caller is the requester or receiver of a task.
+  // Sends 403 and returns false otherwise.
+  const checkParticipant = (res, task, actor) => {
+    if (flowService.isParticipant(task, actor)) {
+      return true;
+    }
+
+    console.log(`⛔ ${actor} is not a participant of task ${task.id}`);
+    res.status(403).json({
+      error: 'Forbidden',
+      message: `${actor} is neither requester nor receiver of Task/${task.id}`
+    });
+    return false;
+  };
+
+  // Check an operation against the task state machine.
+  // Sends 404 / 403 / 409 (OperationOutcome) and returns null if the operation is not allowed.
+  const checkTransition = (res, taskId, operation, actor) => {
+    const task = flowService.getTask(taskId);
+    if (!task) {
+      res.status(404).json({
+        error: 'Task not found',
+        message: `Task with ID ${taskId} does not exist`
+      });
+      return null;
+    }
+
+    if (!checkParticipant(res, task, actor)) {
+      return null;
+    }
+
+    const validation = flowService.validateTransition(task, operation, actor);
+    if (!validation.allowed) {
+      console.log(`⛔ Rejected ${operation} on task ${taskId} in state ${task.status} by ${actor}`);
+      res.status(409)
+        .type('application/fhir+json')
+        .json(flowService.toTransitionOutcome(task, operation, validation));
+      return null;
+    }
+
+    return validation;
+  };
+
+  // Validate a submitted QuestionnaireResponse against its questionnaire.
+  // Sends 422 (OperationOutcome) and returns false if it has errors.
+  const checkQuestionnaireResponse = (res, questionnaire, questionnaireResponse) => {
+    const outcome = validateQuestionnaireResponse(questionnaire, questionnaireResponse, flowService.terminologyService);
+    if (hasValidationErrors(outcome)) {
+      console.log(`⛔ QuestionnaireResponse for ${questionnaire.url} has ${outcome.issue.length} validation issue(s)`);
+      res.status(422)
+        .type('application/fhir+json')
+        .json(outcome);
+      return false;
+    }
+
+    return true;
+  };
+
+  // GET /Task?user=<user> - Search the tasks of the authenticated user (requester or receiver)
+  app.get('/Task', requireAuth, (req, res) => {
     try {
-      const user = req.query.user;
+      const user = req.query.user || req.auth.telematikId;
       
-      if (!user) {
-        return res.status(400).json({
-          error: 'Bad Request',
-          message: 'Missing required query parameter: user'
+      if (user !== req.auth.telematikId) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Tasks can only be searched for the authenticated telematik-ID'
         });
       }
 
-      const tasks = flowService.getTasksForUser(user);
-      
-      // Mark tasks as received if this is the first time the receiver accesses them
-      const updatedTasks = tasks.map(task => {
-        if (task.status === TASK_STATUS.REQUESTED && 
-            (task.receiver === user || task.receiver === `Organization/${user}`)) {
-          console.log(`📥 Marking task ${task.id} as received by ${user}`);
-          flowService.markAsReceived(task.id, user);
-          return { ...task, status: TASK_STATUS.RECEIVED, updated: new Date().toISOString() };
+      const search = parseTaskSearch({ ...req.query, user });
+
+      const { total, tasks } = flowService.searchTasks(search);
+      const baseUrl = `${req.protocol}://${req.get('host')}/Task`;
+
+      const entry = tasks.map(task => ({
+        fullUrl: `${baseUrl}/${task.id}`,
+        resource: flowService.toFhirTask(task),
+        search: { mode: 'match' }
+      }));
+
+      // _include=Task:input - add the referenced QuestionnaireResponse revisions
+      if (search.includeInput) {
+        const included = new Set();
+        for (const task of tasks) {
+          for (const questionnaireResponseId of flowService.getRevisionIds(task)) {
+            const questionnaireResponse = flowService.getQuestionnaire(questionnaireResponseId);
+            if (questionnaireResponse && !included.has(questionnaireResponseId)) {
+              included.add(questionnaireResponseId);
+              entry.push({
+                fullUrl: `${req.protocol}://${req.get('host')}/QuestionnaireResponse/${questionnaireResponseId}`,
+                resource: questionnaireResponse,
+                search: { mode: 'include' }
+              });
+            }
+          }
         }
-        return task;
-      });
-      
-      const fhirTasks = updatedTasks.map(task => flowService.toFhirTask(task));
-      
+      }
+
       res.json({
         resourceType: 'Bundle',
         type: 'searchset',
-        total: fhirTasks.length,
-        entry: fhirTasks.map(task => ({
-          resource: task
-        }))
+        total,
+        link: buildPagingLinks(baseUrl, req.query, search, total),
+        entry
       });
     } catch (error) {
-      console.error('Error getting tasks for user:', error);
+      if (error instanceof TaskSearchError) {
+        return res.status(400).json({
+          error: 'Invalid search parameter',
+          message: error.message
+        });
+      }
+      console.error('Error searching tasks:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   });
 
   // GET /Task/:id - Get task status as FHIR Task
-  app.get('/Task/:id', (req, res) => {
+  app.get('/Task/:id', requireAuth, (req, res) => {
     try {
       const taskId = req.params.id;
       const task = flowService.getTask(taskId);
@@ -605,18 +1034,8 @@ export function setupFlowService(app, registerEndpoint) {
         });
       }
 
-      // Mark as received if this is the first time the receiver accesses it
-      if (task.status === TASK_STATUS.REQUESTED) {
-        // Check if the request is from the receiver using the same logic as getTasksForUser
-        const actorId = req.headers['x-actor-id'];
-        const user = req.query.user || actorId; // Allow user param or fall back to actor-id
-        
-        if (user && (task.receiver === user || task.receiver === `Organization/${user}`)) {
-          console.log(`📥 Marking task ${taskId} as received by ${user}`);
-          flowService.markAsReceived(taskId, user);
-          task.status = TASK_STATUS.RECEIVED;
-          task.updated = new Date().toISOString();
-        }
+      if (!checkParticipant(res, task, req.auth.telematikId)) {
+        return;
       }
 
       const fhirTask = flowService.toFhirTask(task);
@@ -627,8 +1046,66 @@ export function setupFlowService(app, registerEndpoint) {
     }
   });
 
+  // GET /Task/:id/_history - Get all versions of a task as FHIR history Bundle
+  app.get('/Task/:id/_history', requireAuth, (req, res) => {
+    try {
+      const taskId = req.params.id;
+      const versions = flowService.getTaskHistory(taskId);
+
+      if (!versions) {
+        return res.status(404).json({
+          error: 'Task not found',
+          message: `Task with ID ${taskId} does not exist`
+        });
+      }
+
+      if (!checkParticipant(res, flowService.getTask(taskId), req.auth.telematikId)) {
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/fhir+json');
+      res.json(flowService.toFhirHistoryBundle(taskId, versions));
+    } catch (error) {
+      console.error('Error getting task history:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /Task/:id/_history/:vid - Get a single version of a task as FHIR history Bundle
+  app.get('/Task/:id/_history/:vid', requireAuth, (req, res) => {
+    try {
+      const { id: taskId, vid } = req.params;
+      const versions = flowService.getTaskHistory(taskId);
+
+      if (!versions) {
+        return res.status(404).json({
+          error: 'Task not found',
+          message: `Task with ID ${taskId} does not exist`
+        });
+      }
+
+      if (!checkParticipant(res, flowService.getTask(taskId), req.auth.telematikId)) {
+        return;
+      }
+
+      const version = versions.find(v => v.versionId === vid);
+      if (!version) {
+        return res.status(404).json({
+          error: 'Version not found',
+          message: `Task ${taskId} has no version ${vid}`
+        });
+      }
+
+      res.setHeader('Content-Type', 'application/fhir+json');
+      res.json(flowService.toFhirHistoryBundle(taskId, [version]));
+    } catch (error) {
+      console.error('Error getting task version:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // GET /Questionnaire/:id - Get questionnaire as FHIR Questionnaire
-  app.get('/Questionnaire/:id', (req, res) => {
+  app.get('/Questionnaire/:id', requireAuth, (req, res) => {
     try {
       const questionnaireId = req.params.id;
       const questionnaire = flowService.getQuestionnaire(questionnaireId);
@@ -640,6 +1117,18 @@ export function setupFlowService(app, registerEndpoint) {
         });
       }
 
+      const task = flowService.findTaskByQuestionnaireId(questionnaireId);
+      if (!task) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: `Questionnaire ${questionnaireId} does not belong to a task of ${req.auth.telematikId}`
+        });
+      }
+
+      if (!checkParticipant(res, task, req.auth.telematikId)) {
+        return;
+      }
+
       const fhirQuestionnaire = flowService.toFhirQuestionnaire(questionnaire);
       res.json(fhirQuestionnaire);
     } catch (error) {
@@ -649,7 +1138,7 @@ export function setupFlowService(app, registerEndpoint) {
   });
 
   // GET /QuestionnaireResponse/:id - Get questionnaire response as FHIR QuestionnaireResponse
-  app.get('/QuestionnaireResponse/:id', (req, res) => {
+  app.get('/QuestionnaireResponse/:id', requireAuth, (req, res) => {
     try {
       const questionnaireResponseId = req.params.id;
       const questionnaireResponse = flowService.getQuestionnaire(questionnaireResponseId); // Using same storage for now
@@ -661,6 +1150,18 @@ export function setupFlowService(app, registerEndpoint) {
         });
       }
 
+      const task = flowService.findTaskByQuestionnaireId(questionnaireResponseId);
+      if (!task) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: `QuestionnaireResponse ${questionnaireResponseId} does not belong to a task of ${req.auth.telematikId}`
+        });
+      }
+
+      if (!checkParticipant(res, task, req.auth.telematikId)) {
+        return;
+      }
+
       res.json(questionnaireResponse);
     } catch (error) {
       console.error('Error getting questionnaire response:', error);
@@ -668,124 +1169,161 @@ export function setupFlowService(app, registerEndpoint) {
     }
   });
 
-  // POST /Task/$start-flow-request - Create new flow request
-  app.post('/Task/\\$start-flow-request', (req, res) => {
+  // POST /QuestionnaireResponse/$validate - Validate a QuestionnaireResponse against its Questionnaire
+  app.post('/QuestionnaireResponse/\\$validate', (req, res) => {
     try {
-      const { questionnaireResponse } = req.body;
-      
-      // Validate required fields
-      if (!questionnaireResponse) {
-        return res.status(400).json({
-          error: 'Missing required field',
-          message: 'questionnaireResponse is required'
-        });
-      }
+      // Accept a Parameters resource with a resource parameter or the bare QuestionnaireResponse
+      const questionnaireResponse = req.body?.resourceType === 'Parameters'
+        ? req.body.parameter?.find(param => param.name === 'resource')?.resource
+        : req.body;
 
-      // Validate QuestionnaireResponse FHIR format
-      if (!questionnaireResponse.resourceType || questionnaireResponse.resourceType !== 'QuestionnaireResponse') {
+      if (questionnaireResponse?.resourceType !== 'QuestionnaireResponse') {
         return res.status(400).json({
           error: 'Invalid FHIR resource',
-          message: 'questionnaireResponse must be a FHIR QuestionnaireResponse resource with resourceType: "QuestionnaireResponse"'
+          message: 'Request body must be a FHIR QuestionnaireResponse resource or Parameters with a resource parameter'
         });
       }
 
-      // Extract requester and receiver from questionnaire response
-      const { requester_tid, receiver_tid } = flowService.extractRequesterAndReceiver(questionnaireResponse);
-      
-      if (!requester_tid || !receiver_tid) {
-        return res.status(400).json({
-          error: 'Missing participant information',
-          message: 'QuestionnaireResponse must contain requester_tid and receiver_tid fields'
+      const questionnaire = questionnaireResponse.questionnaire && flowService.findQuestionnaireByUrl(questionnaireResponse.questionnaire);
+      if (!questionnaire) {
+        return res.status(404).json({
+          error: 'Questionnaire not found',
+          message: `No questionnaire found with URL: ${questionnaireResponse.questionnaire}`
         });
       }
 
-      // Mock implementation - just return 201 as requested
-      const mockTaskId = `flow-task-${Date.now()}`;
-      const mockQuestionnaireResponseId = `flow-qr-${Date.now()}`;
-      
-      res.status(201).json({
-        message: 'Flow request created successfully',
-        taskId: mockTaskId,
-        questionnaireResponseId: mockQuestionnaireResponseId,
-        requester_tid,
-        receiver_tid,
-        task: {
-          resourceType: 'Task',
-          id: mockTaskId,
-          status: 'requested',
-          intent: 'order',
-          description: 'Flow request task'
-        }
-      });
+      res.type('application/fhir+json').json(validateQuestionnaireResponse(questionnaire, questionnaireResponse, flowService.terminologyService));
     } catch (error) {
-      console.error('Error creating flow request:', error);
+      console.error('Error validating questionnaire response:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   });
 
-  // POST /Task/$start-document-request - Create new document request
-  app.post('/Task/\\$start-document-request', (req, res) => {
+  /**
+   * Validate the QuestionnaireResponse of a start operation and resolve its
+   * questionnaire and participants. Sends the error response and returns null
+   * if the request is invalid or the caller is not the requester.
+   */
+  const resolveStartRequest = (res, questionnaireResponse, actor) => {
+    // Validate required fields
+    if (!questionnaireResponse || typeof questionnaireResponse !== 'object') {
+      res.status(400).json({
+        error: 'Missing required resource',
+        message: 'Request body must contain a QuestionnaireResponse resource'
+      });
+      return null;
+    }
+
+    // Validate QuestionnaireResponse FHIR format
+    if (!questionnaireResponse.resourceType || questionnaireResponse.resourceType !== 'QuestionnaireResponse') {
+      res.status(400).json({
+        error: 'Invalid FHIR resource',
+        message: 'Request body must be a FHIR QuestionnaireResponse resource with resourceType: "QuestionnaireResponse"'
+      });
+      return null;
+    }
+
+    // Validate questionnaire field exists
+    if (!questionnaireResponse.questionnaire) {
+      res.status(400).json({
+        error: 'Missing questionnaire reference',
+        message: 'QuestionnaireResponse must contain a "questionnaire" field with the questionnaire URL'
+      });
+      return null;
+    }
+
+    // Find questionnaire form by URL
+    const questionnaireUrl = questionnaireResponse.questionnaire;
+    const questionnaire = flowService.findQuestionnaireByUrl(questionnaireUrl);
+    
+    if (!questionnaire) {
+      res.status(404).json({
+        error: 'Questionnaire not found',
+        message: `No questionnaire found with URL: ${questionnaireUrl}`
+      });
+      return null;
+    }
+
+    console.log(`✅ Validated questionnaire: ${questionnaire.title} (${questionnaire.id})`);
+
+    // Debug: Log the QuestionnaireResponse structure
+    console.log('🔍 QuestionnaireResponse structure:', JSON.stringify(questionnaireResponse, null, 2));
+    console.log('🔍 QuestionnaireResponse items:', questionnaireResponse.item?.map(item => ({ linkId: item.linkId, hasAnswer: !!item.answer })));
+
+    // Extract requester and receiver from questionnaire response
+    const { requester_tid, receiver_tid } = flowService.extractRequesterAndReceiver(questionnaireResponse);
+    
+    console.log('🔍 Extracted values:', { requester_tid, receiver_tid });
+    
+    if (!requester_tid || !receiver_tid) {
+      res.status(400).json({
+        error: 'Missing participant information',
+        message: 'QuestionnaireResponse must contain requester_tid and receiver_tid fields with values'
+      });
+      return null;
+    }
+
+    if (requester_tid !== actor) {
+      console.log(`⛔ ${actor} tried to start a request as ${requester_tid}`);
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `requester_tid ${requester_tid} does not match the authenticated telematik-ID ${actor}`
+      });
+      return null;
+    }
+
+    if (!checkQuestionnaireResponse(res, questionnaire, questionnaireResponse)) {
+      return null;
+    }
+
+    return { questionnaire, requester_tid, receiver_tid };
+  };
+
+  // POST /Task/$start-flow-request - Create new flow request
+  app.post('/Task/\\$start-flow-request', requireAuth, (req, res) => {
     try {
-      // Accept QuestionnaireResponse directly in request body
-      const questionnaireResponse = req.body;
-      
-      // Validate required fields
-      if (!questionnaireResponse || typeof questionnaireResponse !== 'object') {
-        return res.status(400).json({
-          error: 'Missing required resource',
-          message: 'Request body must contain a QuestionnaireResponse resource'
-        });
-      }
+      // Accept QuestionnaireResponse directly in request body; the former
+      // { questionnaireResponse } wrapper is still supported
+      const questionnaireResponse = req.body?.resourceType ? req.body : req.body?.questionnaireResponse;
 
-      // Validate QuestionnaireResponse FHIR format
-      if (!questionnaireResponse.resourceType || questionnaireResponse.resourceType !== 'QuestionnaireResponse') {
-        return res.status(400).json({
-          error: 'Invalid FHIR resource',
-          message: 'Request body must be a FHIR QuestionnaireResponse resource with resourceType: "QuestionnaireResponse"'
-        });
+      const resolved = resolveStartRequest(res, questionnaireResponse, req.auth.telematikId);
+      if (!resolved) {
+        return;
       }
 
-      // Validate questionnaire field exists
-      if (!questionnaireResponse.questionnaire) {
-        return res.status(400).json({
-          error: 'Missing questionnaire reference',
-          message: 'QuestionnaireResponse must contain a "questionnaire" field with the questionnaire URL'
-        });
-      }
+      const { requester_tid, receiver_tid } = resolved;
+      console.log(`📋 Flow request from ${requester_tid} to ${receiver_tid}`);
 
-      // Find questionnaire form by URL
-      const questionnaireUrl = questionnaireResponse.questionnaire;
-      const questionnaire = flowService.findQuestionnaireByUrl(questionnaireUrl);
-      
-      if (!questionnaire) {
-        return res.status(404).json({
-          error: 'Questionnaire not found',
-          message: `No questionnaire found with URL: ${questionnaireUrl}`
-        });
-      }
+      const result = flowService.createRequest(requester_tid, receiver_tid, questionnaireResponse, flowService.toTaskCode(resolved.questionnaire));
 
-      console.log(`✅ Validated questionnaire: ${questionnaire.title} (${questionnaire.id})`);
+      res.setHeader('Content-Type', 'application/fhir+json');
+      res.setHeader('Location', `/Task/${result.taskId}/_history/${result.task.versionId}`);
+      res.status(201).json(flowService.toFhirTask(result.task));
+    } catch (error) {
+      console.error('Error creating flow request:', error);
+      res.status(500).json({ 
+        error: 'Internal server error',
+        message: error.message 
+      });
+    }
+  });
 
-      // Debug: Log the QuestionnaireResponse structure
-      console.log('🔍 QuestionnaireResponse structure:', JSON.stringify(questionnaireResponse, null, 2));
-      console.log('🔍 QuestionnaireResponse items:', questionnaireResponse.item?.map(item => ({ linkId: item.linkId, hasAnswer: !!item.answer })));
+  // POST /Task/$start-document-request - Create new document request
+  app.post('/Task/\\$start-document-request', requireAuth, (req, res) => {
+    try {
+      // Accept QuestionnaireResponse directly in request body
+      const questionnaireResponse = req.body;
 
-      // Extract requester and receiver from questionnaire response
-      const { requester_tid, receiver_tid } = flowService.extractRequesterAndReceiver(questionnaireResponse);
-      
-      console.log('🔍 Extracted values:', { requester_tid, receiver_tid });
-      
-      if (!requester_tid || !receiver_tid) {
-        return res.status(400).json({
-          error: 'Missing participant information',
-          message: 'QuestionnaireResponse must contain requester_tid and receiver_tid fields with values'
-        });
+      const resolved = resolveStartRequest(res, questionnaireResponse, req.auth.telematikId);
+      if (!resolved) {
+        return;
       }
 
+      const { requester_tid, receiver_tid } = resolved;
       console.log(`📋 Document request from ${requester_tid} to ${receiver_tid}`);
 
       // Create document request with telematik-ids extracted from form
-      const result = flowService.createDocumentRequest(requester_tid, receiver_tid, questionnaireResponse);
+      const result = flowService.createDocumentRequest(requester_tid, receiver_tid, questionnaireResponse, flowService.toTaskCode(resolved.questionnaire));
       
       res.status(201).json({
         message: 'Document request created successfully',
@@ -805,27 +1343,41 @@ export function setupFlowService(app, registerEndpoint) {
   });
 
   // POST Task/:id/$counter-offer - Submit counter-offer
-  app.post('/Task/:id/$counter-offer', (req, res) => {
+  app.post('/Task/:id/\\$counter-offer', requireAuth, (req, res) => {
     try {
       const taskId = req.params.id;
-      const { questionnaire } = req.body;
-      const actor = req.headers['x-actor-id']; // Actor identification
-      
-      if (!questionnaire) {
+      const actor = req.auth.telematikId; // Authenticated caller
+
+      // Accept a Parameters resource with a questionnaireResponse parameter or the bare QuestionnaireResponse
+      const questionnaireResponse = req.body?.resourceType === 'Parameters'
+        ? req.body.parameter?.find(param => param.name === 'questionnaireResponse')?.resource
+        : req.body;
+
+      if (!questionnaireResponse) {
         return res.status(400).json({
-          error: 'Missing questionnaire',
-          message: 'questionnaire is required for counter-offer'
+          error: 'Missing questionnaireResponse',
+          message: 'A QuestionnaireResponse revision is required for counter-offer'
         });
       }
 
-      if (!actor) {
+      if (!checkTransition(res, taskId, 'counter-offer', actor)) {
+        return;
+      }
+
+      const invalidReason = flowService.validateCounterOffer(flowService.getTask(taskId), questionnaireResponse);
+      if (invalidReason) {
         return res.status(400).json({
-          error: 'Missing actor identification',
-          message: 'x-actor-id header is required'
+          error: 'Invalid counter-offer',
+          message: invalidReason
         });
       }
 
-      const updatedTask = flowService.processCounterOffer(taskId, questionnaire, actor);
+      const questionnaire = flowService.findQuestionnaireByUrl(questionnaireResponse.questionnaire);
+      if (questionnaire && !checkQuestionnaireResponse(res, questionnaire, questionnaireResponse)) {
+        return;
+      }
+
+      const updatedTask = flowService.processCounterOffer(taskId, questionnaireResponse, actor);
       
       if (!updatedTask) {
         return res.status(400).json({
@@ -845,16 +1397,13 @@ export function setupFlowService(app, registerEndpoint) {
   });
 
   // POST /Task/:id/$reject - Reject request
-  app.post('/Task/:id/$reject', (req, res) => {
+  app.post('/Task/:id/\\$reject', requireAuth, (req, res) => {
     try {
       const taskId = req.params.id;
-      const actor = req.headers['x-actor-id']; // Actor identification
-      
-      if (!actor) {
-        return res.status(400).json({
-          error: 'Missing actor identification',
-          message: 'x-actor-id header is required'
-        });
+      const actor = req.auth.telematikId; // Authenticated caller
+
+      if (!checkTransition(res, taskId, 'reject', actor)) {
+        return;
       }
 
       const updatedTask = flowService.rejectTask(taskId, actor);
@@ -876,19 +1425,46 @@ export function setupFlowService(app, registerEndpoint) {
     }
   });
 
-  // POST /:id/$accept - Accept request
-  app.post('/Task/:id/\\$accept', (req, res) => {
+  // POST /:id/$receive - Mark request as received (receiver opened it)
+  app.post('/Task/:id/\\$receive', requireAuth, (req, res) => {
     try {
       const taskId = req.params.id;
-      const actor = req.headers['x-actor-id']; // Actor identification
+      const actor = req.auth.telematikId; // Authenticated caller
+
+      if (!checkTransition(res, taskId, 'receive', actor)) {
+        return;
+      }
+
+      console.log(`📥 Marking task ${taskId} as received by ${actor}`);
+      const updatedTask = flowService.markAsReceived(taskId, actor);
       
-      if (!actor) {
+      if (!updatedTask) {
         return res.status(400).json({
-          error: 'Missing actor identification',
-          message: 'x-actor-id header is required'
+          error: 'Invalid operation',
+          message: 'Cannot receive this task in current state'
         });
       }
 
+      res.json({
+        message: 'Task received successfully',
+        task: flowService.toFhirTask(updatedTask)
+      });
+    } catch (error) {
+      console.error('Error receiving task:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // POST /:id/$accept - Accept request
+  app.post('/Task/:id/\\$accept', requireAuth, (req, res) => {
+    try {
+      const taskId = req.params.id;
+      const actor = req.auth.telematikId; // Authenticated caller
+
+      if (!checkTransition(res, taskId, 'accept', actor)) {
+        return;
+      }
+
       const updatedTask = flowService.acceptTask(taskId, actor);
       
       if (!updatedTask) {
@@ -909,11 +1485,11 @@ export function setupFlowService(app, registerEndpoint) {
   });
 
   // POST /:id/$close - Close/Complete request
-  app.post('/Task/:id/\\$close', (req, res) => {
+  app.post('/Task/:id/\\$close', requireAuth, (req, res) => {
     try {
       const taskId = req.params.id;
       const { docId, docPw } = req.body;
-      const actor = req.headers['x-actor-id']; // Actor identification
+      const actor = req.auth.telematikId; // Authenticated caller
       
       console.log('🔄 $close endpoint called:');
       console.log('📋 taskId:', taskId);
@@ -930,17 +1506,13 @@ export function setupFlowService(app, registerEndpoint) {
         });
       }
 
-      if (!actor) {
-        console.log('❌ Missing actor');
-        return res.status(400).json({
-          error: 'Missing actor identification',
-          message: 'x-actor-id header is required'
-        });
-      }
-
       const documentData = { docId, docPw };
       console.log('📄 documentData to be stored:', documentData);
       
+      if (!checkTransition(res, taskId, 'close', actor)) {
+        return;
+      }
+
       const updatedTask = flowService.closeTask(taskId, documentData, actor);
       
       if (!updatedTask) {
@@ -963,30 +1535,57 @@ export function setupFlowService(app, registerEndpoint) {
     }
   });
 
+  // POST /$reset-database - Wipe all tasks, questionnaires and history (admin)
+  app.post('/\\$reset-database', requireAuth, requireAdmin, (req, res) => {
+    try {
+      console.log('🔄 POST /$reset-database - Reset requested by:', req.auth.telematikId);
+      flowService.resetDatabase();
+
+      res.json({
+        message: 'Flow database reset successfully',
+        storage: flowService.storage.describe()
+      });
+    } catch (error) {
+      console.error('❌ Error resetting database:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Register endpoints for documentation
-  registerEndpoint('Flow Service', 'GET', '/Task', 'Get all tasks for a user (query param: user)');
+  registerEndpoint('Flow Service', 'GET', '/Task', 'Search tasks (user, status, business-status, requester, owner, authored-on, modified, code, _sort, _count, _include)');
   registerEndpoint('Flow Service', 'GET', '/Task/:id', 'Get task status as FHIR Task resource');
+  registerEndpoint('Flow Service', 'GET', '/Task/:id/_history', 'Get task history as FHIR history Bundle');
+  registerEndpoint('Flow Service', 'GET', '/Task/:id/_history/:vid', 'Get a single task version as FHIR history Bundle');
   registerEndpoint('Flow Service', 'GET', '/Questionnaire/:id', 'Get questionnaire as FHIR Questionnaire resource');
   registerEndpoint('Flow Service', 'GET', '/QuestionnaireResponse/:id', 'Get questionnaire response as FHIR QuestionnaireResponse resource');
+  registerEndpoint('Flow Service', 'POST', '/QuestionnaireResponse/$validate', 'Validate a QuestionnaireResponse against its Questionnaire');
   registerEndpoint('Flow Service', 'POST', '/Task/$start-flow-request', 'Create new flow request with questionnaire response');
   registerEndpoint('Flow Service', 'POST', '/Task/$start-document-request', 'Create new document request with questionnaire response');
-  registerEndpoint('Flow Service', 'POST', '/Task/:id/$counter-offer', 'Submit counter-offer with updated questionnaire');
+  registerEndpoint('Flow Service', 'POST', '/Task/:id/$receive', 'Mark a flow request as received by the receiver');
+  registerEndpoint('Flow Service', 'POST', '/Task/:id/$counter-offer', 'Submit counter-offer as new QuestionnaireResponse revision');
   registerEndpoint('Flow Service', 'POST', '/Task/:id/$reject', 'Reject a flow request (no content)');
   registerEndpoint('Flow Service', 'POST', '/Task/:id/$accept', 'Accept a flow request (no content)');
   registerEndpoint('Flow Service', 'POST', '/Task/:id/$close', 'Close/complete a request with document data');
+  registerEndpoint('Flow Service', 'POST', '/$reset-database', 'Reset the flow database (admin)');
 
   console.log('✅ Flow Service module loaded');
   console.log('📋 Flow service endpoints configured:');
-  console.log('   GET /Task?user=<user> - Get all tasks for user');
+  console.log('   GET /Task?user=<user> - Search tasks for user');
   console.log('   GET /Task/:id - Get task status');
+  console.log('   GET /Task/:id/_history - Get task history');
+  console.log('   GET /Task/:id/_history/:vid - Get task version');
   console.log('   GET /Questionnaire/:id - Get questionnaire');
   console.log('   GET /QuestionnaireResponse/:id - Get questionnaire response');
   console.log('   POST /Task/$start-flow-request - Create new flow request');
   console.log('   POST /Task/$start-document-request - Create new document request');
+  console.log('   POST /Task/:id/$receive - Mark request as received');
   console.log('   POST /Task/:id/$counter-offer - Submit counter-offer');
   console.log('   POST /Task/:id/$reject - Reject request');
   console.log('   POST /Task/:id/$accept - Accept request');
   console.log('   POST /Task/:id/$close - Close/complete request');
+  console.log('   POST /$reset-database - Reset flow database (admin)');
+
+  return flowService;
 }
 
-export { FlowService };
+export { FlowService, FlowDatabaseError };
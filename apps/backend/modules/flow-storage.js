@@ -0,0 +1,152 @@
+import { readFileSync, existsSync, openSync, writeSync, fsyncSync, closeSync, renameSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Flow Storage Module
+ * Persistence backends for the flow database. Every backend implements the
+ * same interface:
+ *   exists()   - whether a database has been stored before
+ *   load()     - return the stored database object
+ *   save(db)   - persist the complete database object
+ *   describe() - short description for logging and status output
+ */
+
+/**
+ * JSON file storage (data/flow-db.json)
+ * Writes go to a temp file that is renamed over the database, so a crash
+ * mid-write never leaves a truncated flow-db.json behind.
+ */
+class JsonFileStorage {
+  constructor(filePath) {
+    this.filePath = filePath;
+  }
+
+  exists() {
+    return existsSync(this.filePath);
+  }
+
+  load() {
+    const data = readFileSync(this.filePath, 'utf8');
+    return JSON.parse(data);
+  }
+
+  save(db) {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const fd = openSync(tempPath, 'w');
+
+    try {
+      writeSync(fd, JSON.stringify(db, null, 2));
+      fsyncSync(fd);
+    } catch (error) {
+      closeSync(fd);
+      unlinkSync(tempPath);
+      throw error;
+    }
+
+    closeSync(fd);
+    renameSync(tempPath, this.filePath);
+  }
+
+  describe() {
+    return `JSON file (${this.filePath})`;
+  }
+}
+
+/**
+ * Embedded SQLite storage (data/flow-db.sqlite)
+ * Collections (tasks, questionnaires, history, ...) are stored as one row per
+ * record, numeric counters (nextTaskId, ...) in a separate table. A save
+ * replaces the stored state in a single transaction.
+ */
+class SqliteStorage {
+  constructor(filePath) {
+    // Loaded lazily so the native module is only required when SQLite is configured
+    const Database = require('better-sqlite3');
+
+    this.filePath = filePath;
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      );
+      CREATE TABLE IF NOT EXISTS counters (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      );
+    `);
+
+    this.replaceAll = this.db.transaction((db) => {
+      this.db.prepare('DELETE FROM records').run();
+      this.db.prepare('DELETE FROM counters').run();
+
+      const insertRecord = this.db.prepare('INSERT INTO records (collection, id, data) VALUES (?, ?, ?)');
+      const insertCounter = this.db.prepare('INSERT INTO counters (name, value) VALUES (?, ?)');
+
+      for (const [key, value] of Object.entries(db)) {
+        if (typeof value === 'number') {
+          insertCounter.run(key, value);
+        } else if (value && typeof value === 'object') {
+          for (const [id, record] of Object.entries(value)) {
+            insertRecord.run(key, id, JSON.stringify(record));
+          }
+        }
+      }
+    });
+  }
+
+  exists() {
+    return this.db.prepare('SELECT COUNT(*) AS count FROM counters').get().count > 0;
+  }
+
+  load() {
+    const db = {};
+
+    for (const { name, value } of this.db.prepare('SELECT name, value FROM counters').all()) {
+      db[name] = value;
+    }
+
+    for (const { collection, id, data } of this.db.prepare('SELECT collection, id, data FROM records').all()) {
+      if (!db[collection]) {
+        db[collection] = {};
+      }
+      db[collection][id] = JSON.parse(data);
+    }
+
+    return db;
+  }
+
+  save(db) {
+    this.replaceAll(db);
+  }
+
+  describe() {
+    return `SQLite (${this.filePath})`;
+  }
+}
+
+/**
+ * Create the storage backend configured for the flow database
+ * @param {Object} options - Storage options
+ * @param {string} options.type - 'json' (default) or 'sqlite'
+ * @param {string} options.dataPath - Directory holding the database files
+ * @returns {JsonFileStorage|SqliteStorage} Storage backend
+ */
+export function createFlowStorage({ type = 'json', dataPath }) {
+  switch (type) {
+    case 'json':
+      return new JsonFileStorage(join(dataPath, 'flow-db.json'));
+    case 'sqlite':
+      return new SqliteStorage(join(dataPath, 'flow-db.sqlite'));
+    default:
+      throw new Error(`Unknown flow storage type: ${type} (expected 'json' or 'sqlite')`);
+  }
+}
+
+export { JsonFileStorage, SqliteStorage };
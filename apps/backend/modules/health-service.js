@@ -7,6 +7,32 @@ class HealthService {
     this.startTime = new Date();
     this.version = '1.0.0';
     this.serviceName = 'ti-flow-service';
+    this.checks = new Map();
+  }
+
+  /**
+   * Register a check reported by the system status
+   * @param {string} name - Name of the check in the status output
+   * @param {Function} check - Returns { status: 'pass' | 'warn' | 'fail', ...details }
+   */
+  registerCheck(name, check) {
+    this.checks.set(name, check);
+  }
+
+  /**
+   * Run all registered checks; a check that throws fails
+   * @returns {Object} Check results by name
+   */
+  runChecks() {
+    const results = {};
+    for (const [name, check] of this.checks) {
+      try {
+        results[name] = check();
+      } catch (error) {
+        results[name] = { status: 'fail', error: error.message };
+      }
+    }
+    return results;
   }
 
   /**
@@ -24,12 +50,15 @@ class HealthService {
   }
 
   /**
-   * Get detailed system status
+   * Get detailed system status; degraded if a registered check fails
    * @returns {Object} Detailed system information
    */
   getSystemStatus() {
+    const checks = this.runChecks();
+    const failed = Object.values(checks).some(result => result.status === 'fail');
+
     return {
-      status: 'operational',
+      status: failed ? 'degraded' : 'operational',
       service: this.serviceName,
       version: this.version,
       timestamp: new Date().toISOString(),
@@ -42,11 +71,13 @@ class HealthService {
         memory: this.getMemoryUsage(),
         pid: process.pid
       },
+      checks,
       endpoints: {
         health: '/health',
         status: '/status',
         documentOperations: '/$document-operations',
         requestOperations: '/$request-operations',
+        validateContent: '/$validate-content',
         flowOperations: '/$flow-operations',
         populate: '/$populate',
         flowRequest: '/$flow-request',
@@ -96,6 +127,7 @@ class HealthService {
  * Setup health service routes
  * @param {Express} app - Express application instance
  * @param {Function} registerEndpoint - Function to register endpoints for documentation
+ * @returns {HealthService} Service instance other modules register their checks with
  */
 export function setupHealthService(app, registerEndpoint) {
   const healthService = new HealthService();
@@ -109,13 +141,13 @@ export function setupHealthService(app, registerEndpoint) {
     res.json(status);
   });
 
-  // Detailed status endpoint
+  // Detailed status endpoint; 503 while a check fails
   app.get('/status', (req, res) => {
     const status = healthService.getSystemStatus();
     console.log('📊 System status requested');
     
     res.setHeader('Content-Type', 'application/json');
-    res.json(status);
+    res.status(status.status === 'degraded' ? 503 : 200).json(status);
   });
 
   // Register endpoints for documentation
@@ -127,6 +159,8 @@ export function setupHealthService(app, registerEndpoint) {
   console.log('✅ Health Service module loaded');
   console.log('❤️  Health check endpoint: /health');
   console.log('📊 System status endpoint: /status');
+
+  return healthService;
 }
 
 export { HealthService };
@@ -6,4 +6,11 @@
 
 export { setupHealthService, HealthService } from './health-service.js';
 export { setupInformationService, InformationService } from './information-service.js';
+export { validateContent, summarizeContentValidation } from './content-validation.js';
 export { setupFlowService, FlowService } from './flow-service.js';
+export { createFlowStorage, JsonFileStorage, SqliteStorage } from './flow-storage.js';
+export { QuestionnaireRegistry } from './questionnaire-registry.js';
+export { setupTerminologyService, TerminologyService, TerminologyError } from './terminology-service.js';
+export { setupPrescriptionService, PrescriptionService, PrescriptionImportError, PrescriptionTaskError } from './prescription-service.js';
+export { setupAuthService, AuthService, requireAuth } from './auth-service.js';
+export { setupSubscriptionService, SubscriptionService } from './subscription-service.js';
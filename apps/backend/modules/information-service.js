@@ -1,140 +1,105 @@
-import { readFileSync, existsSync, readdirSync } from 'fs';
+import { readFileSync } from 'fs';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import fhirpath from 'fhirpath';
+import fhirpathR4Model from 'fhirpath/fhir-context/r4/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import { requireAuth } from './auth-service.js';
+import { getAnswerOptions } from './questionnaire-validation.js';
+import { QuestionnaireRegistry } from './questionnaire-registry.js';
+import { TerminologyService } from './terminology-service.js';
+import { validateContent, summarizeContentValidation } from './content-validation.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const DOCUMENT_OPERATIONS_FILE = 'CodeSystem-document-operations-cs.json';
+const REQUEST_OPERATIONS_FILE = 'CodeSystem-request-operations-cs.json';
+
+// SDC population extensions
+const SDC_LAUNCH_CONTEXT = 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-launchContext';
+const SDC_INITIAL_EXPRESSION = 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-initialExpression';
+const SDC_ITEM_POPULATION_CONTEXT = 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-itemPopulationContext';
+const FHIR_VARIABLE = 'http://hl7.org/fhir/StructureDefinition/variable';
+
+// SDC extension setting a fixed value on an extracted resource (sub-extensions 'definition' and 'fixed-value')
+const SDC_DEFINITION_EXTRACT_VALUE = 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-definitionExtractValue';
+
+// Elements definition-based $extract can write to, with their FHIR type and whether they repeat.
+// Repeating intermediate elements are filled in their first entry; item definitions
+// pointing to any other element are reported as warning and skipped.
+const EXTRACTABLE_ELEMENTS = {
+  'Patient.identifier': { repeats: true },
+  'Patient.identifier.system': { type: 'uri' },
+  'Patient.identifier.value': { type: 'string' },
+  'Patient.name': { repeats: true },
+  'Patient.name.text': { type: 'string' },
+  'Patient.name.family': { type: 'string' },
+  'Patient.name.given': { type: 'string', repeats: true },
+  'Patient.birthDate': { type: 'date' },
+  'Medication.code.text': { type: 'string' },
+  'Medication.code.coding': { repeats: true },
+  'Medication.code.coding.system': { type: 'uri' },
+  'Medication.code.coding.code': { type: 'code' },
+  'Medication.code.coding.display': { type: 'string' },
+  'Medication.form.text': { type: 'string' },
+  'MedicationRequest.status': { type: 'code' },
+  'MedicationRequest.intent': { type: 'code' },
+  'MedicationRequest.authoredOn': { type: 'dateTime' },
+  'MedicationRequest.note': { repeats: true },
+  'MedicationRequest.note.text': { type: 'markdown' },
+  'MedicationRequest.dosageInstruction': { repeats: true },
+  'MedicationRequest.dosageInstruction.text': { type: 'string' },
+  'MedicationRequest.dispenseRequest.quantity': { type: 'Quantity' },
+  'MedicationRequest.dispenseRequest.quantity.value': { type: 'decimal' },
+  'MedicationRequest.dispenseRequest.quantity.unit': { type: 'string' },
+  'MedicationRequest.dispenseRequest.quantity.system': { type: 'uri' },
+  'MedicationRequest.dispenseRequest.quantity.code': { type: 'code' }
+};
+
+// Order of the extracted resources within a context, referenced resources first
+const EXTRACT_RESOURCE_ORDER = ['Patient', 'Medication', 'MedicationRequest'];
+
 /**
  * Information Service Module
  * Provides access to FHIR CodeSystems for operations and documents
  */
 class InformationService {
-  constructor() {
+  /**
+   * @param {QuestionnaireRegistry} [questionnaireRegistry] - Registry of the forms (default: a registry of data/forms)
+   * @param {TerminologyService} [terminologyService] - Terminology for choice items (default: the CodeSystems of data/codesystems)
+   */
+  constructor(questionnaireRegistry, terminologyService) {
     this.dataPath = join(__dirname, '..', 'data', 'codesystems');
     this.formsPath = join(__dirname, '..', 'data', 'forms');
+    this.questionnaireRegistry = questionnaireRegistry || new QuestionnaireRegistry(this.formsPath);
+    this.terminologyService = terminologyService || new TerminologyService(this.questionnaireRegistry, this.dataPath);
   }
 
   /**
-   * Validate folder structure based on DocumentOperationsCS
-   * @returns {Object} Validation result with status and any missing items
+   * Validate the forms and operation CodeSystems (structure, linkIds, value sets,
+   * FHIRPath expressions, CodeSystem counts and concept-to-form mapping)
+   * @returns {Object} FHIR OperationOutcome
    */
-  validateFolderStructure() {
-    const result = {
-      valid: true,
-      missingFolders: [],
-      missingForms: [],
-      errors: []
-    };
-
-    try {
-      // Read the document operations CodeSystem
-      const docOpsCS = this.getDocumentOperations();
-      
-      // Check if forms directory exists
-      if (!existsSync(this.formsPath)) {
-        result.valid = false;
-        result.errors.push('Forms directory does not exist: ' + this.formsPath);
-        return result;
-      }
-
-      // Check each top-level concept
-      for (const concept of docOpsCS.concept) {
-        const folderPath = join(this.formsPath, concept.code);
-        
-        // Check if folder exists for this concept
-        if (!existsSync(folderPath)) {
-          result.valid = false;
-          result.missingFolders.push(concept.code);
-          continue;
-        }
-
-        // Check if subconcepts have corresponding form files
-        if (concept.concept && concept.concept.length > 0) {
-          for (const subConcept of concept.concept) {
-            const formFileName = `${subConcept.code}-form.json`;
-            const formPath = join(folderPath, formFileName);
-            
-            if (!existsSync(formPath)) {
-              result.valid = false;
-              result.missingForms.push({
-                folder: concept.code,
-                form: formFileName,
-                path: formPath
-              });
-            }
-          }
-        } else {
-          // For concepts without subconcepts, check for a form with the concept code
-          const formFileName = `${concept.code}-form.json`;
-          const formPath = join(folderPath, formFileName);
-          
-          if (!existsSync(formPath)) {
-            result.valid = false;
-            result.missingForms.push({
-              folder: concept.code,
-              form: formFileName,
-              path: formPath
-            });
-          }
-        }
+  validateContent() {
+    const readOrNull = read => {
+      try {
+        return read();
+      } catch {
+        return null;
       }
-
-    } catch (error) {
-      result.valid = false;
-      result.errors.push(`Error validating folder structure: ${error.message}`);
-    }
-
-    return result;
-  }
-
-  /**
-   * Validate RequestOperationsCS forms structure
-   * @returns {Object} Validation result with status and any missing items
-   */
-  validateRequestOperationsForms() {
-    const result = {
-      valid: true,
-      missingForms: [],
-      errors: []
     };
 
-    try {
-      // Read the request operations CodeSystem
-      const requestOpsCS = this.getRequestOperations();
-      
-      // Check if request-operations forms directory exists
-      const requestOpsFormsPath = join(this.formsPath, 'request-operations');
-      if (!existsSync(requestOpsFormsPath)) {
-        result.valid = false;
-        result.errors.push('Request operations forms directory does not exist: ' + requestOpsFormsPath);
-        return result;
-      }
-
-      // Check each request operation concept has a corresponding form
-      for (const concept of requestOpsCS.concept) {
-        const formFileName = `${concept.code}-form.json`;
-        const formPath = join(requestOpsFormsPath, formFileName);
-        
-        if (!existsSync(formPath)) {
-          result.valid = false;
-          result.missingForms.push({
-            code: concept.code,
-            form: formFileName,
-            path: formPath,
-            display: concept.display
-          });
-        }
+    return validateContent({
+      questionnaireRegistry: this.questionnaireRegistry,
+      documentOperations: readOrNull(() => this.getDocumentOperations()),
+      requestOperations: readOrNull(() => this.getRequestOperations()),
+      codeSystemFiles: {
+        documentOperations: DOCUMENT_OPERATIONS_FILE,
+        requestOperations: REQUEST_OPERATIONS_FILE
       }
-
-    } catch (error) {
-      result.valid = false;
-      result.errors.push(`Error validating request operations forms: ${error.message}`);
-    }
-
-    return result;
+    });
   }
 
   /**
@@ -158,7 +123,7 @@ class InformationService {
    * @returns {Object} Document operations CodeSystem
    */
   getDocumentOperations() {
-    return this.readCodeSystem('CodeSystem-document-operations-cs.json');
+    return this.readCodeSystem(DOCUMENT_OPERATIONS_FILE);
   }
 
   /**
@@ -166,7 +131,7 @@ class InformationService {
    * @returns {Object} Request operations CodeSystem
    */
   getRequestOperations() {
-    return this.readCodeSystem('CodeSystem-request-operations-cs.json');
+    return this.readCodeSystem(REQUEST_OPERATIONS_FILE);
   }
 
   /**
@@ -175,61 +140,15 @@ class InformationService {
    * @returns {Object|null} Questionnaire or null if not found
    */
   getQuestionnaireById(questionnaireId) {
-    try {
-      // First try to find questionnaire by exact ID match in e16A folder
-      const e16APath = join(this.formsPath, 'e16A');
-      if (existsSync(e16APath)) {
-        const files = readdirSync(e16APath).filter(f => f.endsWith('.json'));
-        for (const file of files) {
-          const filePath = join(e16APath, file);
-          try {
-            const data = readFileSync(filePath, 'utf8');
-            const questionnaire = JSON.parse(data);
-            if (questionnaire.id === questionnaireId) {
-              console.log(`📋 Found questionnaire by ID: ${questionnaireId} in ${file}`);
-              return questionnaire;
-            }
-          } catch (error) {
-            console.warn(`Warning: Could not parse ${file}:`, error.message);
-          }
-        }
-      }
-
-      // Try other directories
-      const directories = readdirSync(this.formsPath, { withFileTypes: true })
-        .filter(dirent => dirent.isDirectory())
-        .map(dirent => dirent.name);
-
-      for (const dir of directories) {
-        if (dir === 'e16A') continue; // Already checked
-        
-        const dirPath = join(this.formsPath, dir);
-        if (existsSync(dirPath)) {
-          const files = readdirSync(dirPath).filter(f => f.endsWith('.json'));
-          for (const file of files) {
-            const filePath = join(dirPath, file);
-            try {
-              const data = readFileSync(filePath, 'utf8');
-              const questionnaire = JSON.parse(data);
-              if (questionnaire.id === questionnaireId) {
-                console.log(`📋 Found questionnaire by ID: ${questionnaireId} in ${dir}/${file}`);
-                return questionnaire;
-              }
-            } catch (error) {
-              console.warn(`Warning: Could not parse ${dir}/${file}:`, error.message);
-            }
-          }
-        }
-      }
-
-      // Fallback: try by code matching (legacy behavior)
-      console.log(`📋 No questionnaire found with ID ${questionnaireId}, trying by code...`);
-      return this.getQuestionnaireByCode(questionnaireId);
-
-    } catch (error) {
-      console.error(`Error loading questionnaire for ID ${questionnaireId}:`, error);
-      return null;
+    const questionnaire = this.questionnaireRegistry.getById(questionnaireId);
+    if (questionnaire) {
+      console.log(`📋 Found questionnaire by ID: ${questionnaireId}`);
+      return questionnaire;
     }
+
+    // Fallback: try by code matching (legacy behavior)
+    console.log(`📋 No questionnaire found with ID ${questionnaireId}, trying by code...`);
+    return this.getQuestionnaireByCode(questionnaireId);
   }
 
   /**
@@ -238,60 +157,16 @@ class InformationService {
    * @returns {Object|null} Questionnaire or null if not found
    */
   getQuestionnaireByCode(code) {
-    try {
-      const formPath = join(this.formsPath, 'request-operations', `${code}-form.json`);
-      
-      if (existsSync(formPath)) {
-        const formData = readFileSync(formPath, 'utf8');
-        return JSON.parse(formData);
-      }
-
-      // Try other form directories
-      const requestOpsCS = this.getRequestOperations();
-      for (const concept of requestOpsCS.concept) {
-        const altFormPath = join(this.formsPath, concept.code, `${code}-form.json`);
-        if (existsSync(altFormPath)) {
-          const formData = readFileSync(altFormPath, 'utf8');
-          return JSON.parse(formData);
-        }
-      }
-
-      // Try document operations forms
-      const docOpsCS = this.getDocumentOperations();
-      for (const concept of docOpsCS.concept) {
-        if (concept.concept) {
-          for (const subConcept of concept.concept) {
-            if (subConcept.code === code) {
-              const formPath = join(this.formsPath, concept.code, `${code}-form.json`);
-              if (existsSync(formPath)) {
-                const formData = readFileSync(formPath, 'utf8');
-                return JSON.parse(formData);
-              }
-            }
-          }
-        } else if (concept.code === code) {
-          const formPath = join(this.formsPath, concept.code, `${code}-form.json`);
-          if (existsSync(formPath)) {
-            const formData = readFileSync(formPath, 'utf8');
-            return JSON.parse(formData);
-          }
-        }
-      }
-
-      return null;
-    } catch (error) {
-      console.error(`Error loading questionnaire for code ${code}:`, error);
-      return null;
-    }
+    return this.questionnaireRegistry.getByCode(code);
   }
 
   /**
    * Populate a QuestionnaireResponse using SDC expression-based population
    * @param {Object} questionnaire - FHIR Questionnaire
-   * @param {Object} fhirBundle - FHIR Bundle with resources for population
+   * @param {Array<{name: string|null, content: Object}>} contexts - Launch contexts from the $populate 'context' parameters
    * @returns {Object} Populated FHIR QuestionnaireResponse
    */
-  populateQuestionnaireResponse(questionnaire, fhirBundle) {
+  populateQuestionnaireResponse(questionnaire, contexts) {
     const responseId = `populated-${Date.now()}`;
     
     const response = {
@@ -308,85 +183,154 @@ class InformationService {
       item: []
     };
 
+    const environment = this.evaluateVariables(questionnaire, this.resolveLaunchContexts(questionnaire, contexts));
+
     // Process each questionnaire item
     if (questionnaire.item) {
-      for (const item of questionnaire.item) {
-        const responseItem = this.populateItem(item, fhirBundle);
-        if (responseItem) {
-          response.item.push(responseItem);
+      response.item = this.populateItems(questionnaire.item, environment, questionnaire);
+    }
+
+    return response;
+  }
+
+  /**
+   * Build the FHIRPath environment from the launch contexts: every context is available
+   * under its name (e.g. %patient), declared launch contexts the caller did not pass are
+   * taken from the first context, or entry of a context Bundle, of the declared type
+   * @param {Object} questionnaire - FHIR Questionnaire with sdc-questionnaire-launchContext extensions
+   * @param {Array<{name: string|null, content: Object}>} contexts - Launch contexts
+   * @returns {Object} FHIRPath environment variables by name
+   */
+  resolveLaunchContexts(questionnaire, contexts) {
+    const environment = {};
+    for (const context of contexts) {
+      if (context.name) {
+        environment[context.name] = context.content;
+      }
+    }
+
+    const launchContexts = (questionnaire.extension || []).filter(ext => ext.url === SDC_LAUNCH_CONTEXT);
+    for (const launchContext of launchContexts) {
+      const name = launchContext.extension?.find(ext => ext.url === 'name')?.valueCoding?.code;
+      const type = launchContext.extension?.find(ext => ext.url === 'type')?.valueCode;
+      if (!name || environment[name] !== undefined) continue;
+
+      const resource = contexts
+        .flatMap(context => [context.content, ...(context.content.entry || []).map(entry => entry.resource)])
+        .find(candidate => candidate?.resourceType === type);
+
+      if (resource) {
+        console.log(`🧭 Launch context %${name} taken from the ${type} in the passed contexts`);
+        environment[name] = resource;
+      } else {
+        console.warn(`⚠️ Launch context %${name} (${type}) was not provided`);
+        environment[name] = [];
+      }
+    }
+
+    // Forms written before launch contexts address the context bundle as %resource
+    if (environment.resource === undefined && contexts.length > 0) {
+      environment.resource = contexts[0].content;
+    }
+
+    return environment;
+  }
+
+  /**
+   * Evaluate the variable extensions of a questionnaire or item in order;
+   * each variable is available to later variables and to all descendant items
+   * @param {Object} element - Questionnaire or questionnaire item
+   * @param {Object} environment - FHIRPath environment of the enclosing scope
+   * @returns {Object} Environment extended by the element's variables
+   */
+  evaluateVariables(element, environment) {
+    const variables = (element.extension || []).filter(ext => ext.url === FHIR_VARIABLE);
+    if (variables.length === 0) {
+      return environment;
+    }
+
+    const scope = { ...environment };
+    for (const variable of variables) {
+      const { name, expression } = variable.valueExpression || {};
+      if (name && expression) {
+        scope[name] = this.evaluateExpression(expression, scope);
+      }
+    }
+    return scope;
+  }
+
+  /**
+   * Populate a list of questionnaire items; a group with an itemPopulationContext
+   * yields one response item per element of its context
+   * @param {Array} items - Questionnaire items
+   * @param {Object} environment - FHIRPath environment
+   * @param {Object} questionnaire - FHIR Questionnaire the items belong to
+   * @returns {Array} Populated response items
+   */
+  populateItems(items, environment, questionnaire) {
+    const responseItems = [];
+
+    for (const item of items) {
+      const populationContext = item.extension?.find(ext => ext.url === SDC_ITEM_POPULATION_CONTEXT)?.valueExpression;
+
+      if (populationContext?.name && populationContext.expression) {
+        let contextValues = this.evaluateExpression(populationContext.expression, environment);
+        if (!item.repeats) {
+          contextValues = contextValues.slice(0, 1);
         }
+
+        // Without context elements the group is still offered once, unpopulated
+        const scopes = contextValues.length > 0
+          ? contextValues.map(value => ({ ...environment, [populationContext.name]: value }))
+          : [{ ...environment, [populationContext.name]: [] }];
+
+        for (const scope of scopes) {
+          responseItems.push(this.populateItem(item, scope, questionnaire));
+        }
+      } else {
+        responseItems.push(this.populateItem(item, environment, questionnaire));
       }
     }
 
-    return response;
+    return responseItems;
   }
 
   /**
    * Populate a single questionnaire item using FHIRPath expressions
    * @param {Object} item - Questionnaire item
-   * @param {Object} fhirBundle - FHIR Bundle for population context
-   * @returns {Object|null} Populated response item or null
+   * @param {Object} environment - FHIRPath environment
+   * @param {Object} questionnaire - FHIR Questionnaire the item belongs to
+   * @returns {Object} Populated response item
    */
-  populateItem(item, fhirBundle) {
+  populateItem(item, environment, questionnaire) {
     const responseItem = {
       linkId: item.linkId,
       text: item.text
     };
+    const scope = this.evaluateVariables(item, environment);
 
     // Handle group items (items with nested items)
     if (item.item && item.item.length > 0) {
-      responseItem.item = [];
-      for (const subItem of item.item) {
-        const responseSubItem = this.populateItem(subItem, fhirBundle);
-        if (responseSubItem) {
-          responseItem.item.push(responseSubItem);
-        }
-      }
+      responseItem.item = this.populateItems(item.item, scope, questionnaire);
       return responseItem;
     }
 
     // Handle regular items with initialExpressions
-    // Look for initialExpression extension
-    const initialExpression = item.extension?.find(ext => 
-      ext.url === 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-initialExpression'
-    );
+    const initialExpression = item.extension?.find(ext => ext.url === SDC_INITIAL_EXPRESSION)?.valueExpression;
 
-    if (initialExpression && initialExpression.valueExpression) {
-      try {
-        // Simple FHIRPath expression evaluation for common patterns
-        const expression = initialExpression.valueExpression.expression;
-        
-        // Add special logging for medication_name field
-        if (item.linkId === 'medication_name') {
-          console.log(`🔍 Evaluating medication_name with expression: ${expression}`);
-          console.log(`📦 Bundle entries count: ${fhirBundle?.entry?.length || 0}`);
-          if (fhirBundle?.entry) {
-            console.log(`📦 Entry types: ${fhirBundle.entry.map(e => e.resource?.resourceType).join(', ')}`);
-            const medEntry = fhirBundle.entry.find(e => e.resource?.resourceType === 'Medication');
-            if (medEntry) {
-              console.log(`💊 Found Medication resource:`, JSON.stringify(medEntry.resource, null, 2));
-            } else {
-              console.log(`❌ No Medication resource found in bundle`);
-            }
-          }
-        }
-        
-        const populatedValue = this.evaluateSimpleFHIRPath(expression, fhirBundle);
-        
-        // Add logging for medication_name result
-        if (item.linkId === 'medication_name') {
-          console.log(`💊 Medication name evaluation result: "${populatedValue}"`);
-        }
-        
-        if (populatedValue !== null && populatedValue !== undefined && populatedValue !== '') {
-          // Create answer based on item type
-          const answer = this.createAnswerForType(item.type, populatedValue);
-          if (answer) {
-            responseItem.answer = [answer];
-          }
-        }
-      } catch (error) {
-        console.warn(`Failed to evaluate expression for item ${item.linkId}:`, error.message);
+    if (initialExpression?.expression) {
+      let answers = this.evaluateTypedExpression(initialExpression.expression, scope)
+        .filter(({ value }) => value !== null && value !== undefined && value !== '')
+        .map(({ value, type }) => this.createAnswer(item, value, type, questionnaire))
+        .filter(answer => answer);
+
+      // Only repeating items take more than one answer
+      if (!item.repeats) {
+        answers = answers.slice(0, 1);
+      }
+
+      if (answers.length > 0) {
+        responseItem.answer = answers;
       }
     }
 
@@ -394,135 +338,526 @@ class InformationService {
   }
 
   /**
-   * SDC-compliant FHIRPath expression evaluator
-   * @param {string} expression - FHIRPath expression from questionnaire initialExpression
-   * @param {Object} bundle - FHIR Bundle context
-   * @returns {string|null} Evaluated value or null
+   * Evaluate an SDC FHIRPath expression with the launch contexts and variables as environment
+   * @param {string} expression - FHIRPath expression, e.g. from an initialExpression
+   * @param {Object} environment - FHIRPath environment variables by name
+   * @returns {Array} Result collection, empty if the expression fails
    */
-  evaluateSimpleFHIRPath(expression, bundle) {
+  evaluateExpression(expression, environment) {
+    return this.evaluateTypedExpression(expression, environment).map(({ value }) => value);
+  }
+
+  /**
+   * Evaluate an SDC FHIRPath expression and keep the FHIRPath type of each result
+   * @param {string} expression - FHIRPath expression
+   * @param {Object} environment - FHIRPath environment variables by name
+   * @returns {Array<{value: *, type: string}>} Results with their type without namespace
+   *   (e.g. Quantity, Coding, Date, String), empty if the expression fails
+   */
+  evaluateTypedExpression(expression, environment) {
     try {
-      console.log(`📊 Evaluating FHIRPath: ${expression}`);
-      //console.log(`📦 Bundle context:`, JSON.stringify(bundle, null, 2));
-      
-      // Handle %resource replacement properly - %resource refers to the bundle in our case
-      // Remove %resource. prefix since we're evaluating against the bundle directly
-      let processedExpression = expression.replace(/%resource\./g, '');
-      console.log(`🔄 Processed expression: ${processedExpression}`);
-      
-      // Use the fhirpath library for proper FHIRPath evaluation
-      const result = fhirpath.evaluate(bundle, processedExpression);
-      console.log(`📊 FHIRPath result:`, result);
-      
-      if (Array.isArray(result) && result.length > 0) {
-        // Return the first result, converted to string
-        const firstResult = result[0];
-        const stringResult = firstResult !== null && firstResult !== undefined ? String(firstResult) : null;
-        console.log(`✅ Returning: ${stringResult}`);
-        return stringResult;
-      }
-      
-      console.log(`❌ No result found`);
-      return null;
-      
+      const result = fhirpath.evaluate(environment.resource ?? {}, expression, environment, fhirpathR4Model, {
+        resolveInternalTypes: false
+      });
+      const types = fhirpath.types(result);
+      console.log(`📊 FHIRPath ${expression} → ${result.length} value(s)${types.length > 0 ? ` (${types.join(', ')})` : ''}`);
+
+      return fhirpath.resolveInternalTypes(result).map((value, index) => ({
+        value,
+        type: (types[index] || '').replace(/^(System|FHIR)\./, '')
+      }));
     } catch (error) {
       console.warn(`❌ FHIRPath evaluation failed for expression: ${expression}`);
       console.warn(`❌ Error: ${error.message}`);
-      return null;
+      return [];
     }
   }
 
   /**
-   * Create answer object based on item type
-   * @param {string} type - Question item type
-   * @param {*} value - Value to set
-   * @returns {Object|null} Answer object
+   * Create the answer of an item from a FHIRPath result, taking both the item type
+   * and the type of the result into account
+   * @param {Object} item - Questionnaire item
+   * @param {*} value - Result value
+   * @param {string} type - FHIRPath type of the value (e.g. Quantity, Coding, DateTime)
+   * @param {Object} questionnaire - FHIR Questionnaire (for contained answer ValueSets)
+   * @returns {Object|null} Answer object or null if the value does not fit the item
    */
-  createAnswerForType(type, value) {
-    if (value === null || value === undefined) {
-      return null;
-    }
+  createAnswer(item, value, type, questionnaire) {
+    const kind = this.detectValueKind(value, type);
 
-    switch (type) {
+    switch (item.type) {
+      case 'boolean': {
+        const boolean = kind === 'boolean' ? value : { true: true, false: false }[String(value).toLowerCase()];
+        return boolean === undefined ? null : { valueBoolean: boolean };
+      }
+      case 'decimal': {
+        const number = this.toNumber(kind === 'Quantity' ? value.value : value);
+        return number === null ? null : { valueDecimal: number };
+      }
+      case 'integer': {
+        const number = this.toNumber(kind === 'Quantity' ? value.value : value);
+        return number === null || !Number.isInteger(number) ? null : { valueInteger: number };
+      }
+      case 'date': {
+        const date = typeof value === 'string' ? value.match(/^\d{4}(-\d{2}(-\d{2})?)?/)?.[0] : null;
+        return date ? { valueDate: date } : null;
+      }
+      case 'dateTime':
+        return typeof value === 'string' && /^\d{4}(-\d{2}(-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?)?)?$/.test(value)
+          ? { valueDateTime: value }
+          : null;
+      case 'time': {
+        const time = typeof value === 'string' ? value.match(/(?:T|^)(\d{2}:\d{2}(:\d{2})?)/)?.[1] : null;
+        return time ? { valueTime: time.length === 5 ? `${time}:00` : time } : null;
+      }
+      case 'url':
+        return kind === 'primitive' ? { valueUri: String(value) } : null;
+      case 'choice':
+      case 'open-choice':
+        return this.createChoiceAnswer(item, value, kind, questionnaire);
+      case 'quantity':
+        return this.toQuantity(value, kind);
+      case 'reference':
+        return this.toReference(value, kind);
+      case 'attachment':
+        return kind === 'Attachment' ? { valueAttachment: value } : null;
+      case 'group':
+      case 'display':
+        return null;
       case 'string':
       case 'text':
-        return { valueString: String(value) };
-      case 'date':
-        return { valueDate: value };
-      case 'dateTime':
-        return { valueDateTime: value };
+      default: {
+        const text = this.toDisplayText(value, kind);
+        return text ? { valueString: text } : null;
+      }
+    }
+  }
+
+  /**
+   * Classify a FHIRPath result by its FHIRPath type, or by its shape for
+   * values from the environment that carry no type information
+   * @returns {string} primitive, boolean, Quantity, Ratio, Coding, CodeableConcept,
+   *   Reference, Attachment, Resource or object
+   */
+  detectValueKind(value, type) {
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value !== 'object' || value === null) return 'primitive';
+    if (['Quantity', 'Age', 'Duration', 'Distance', 'Count', 'SimpleQuantity', 'MoneyQuantity'].includes(type)) return 'Quantity';
+    if (['Ratio', 'Coding', 'CodeableConcept', 'Reference', 'Attachment'].includes(type)) return type;
+    if (value.resourceType) return 'Resource';
+    if (value.numerator || value.denominator) return 'Ratio';
+    if (Array.isArray(value.coding)) return 'CodeableConcept';
+    if (value.reference !== undefined || value.identifier !== undefined && value.display !== undefined) return 'Reference';
+    if (value.contentType !== undefined || value.data !== undefined) return 'Attachment';
+    if (value.value !== undefined && (value.unit !== undefined || value.code !== undefined)) return 'Quantity';
+    if (value.code !== undefined || value.system !== undefined) return 'Coding';
+    return 'object';
+  }
+
+  /**
+   * Number of a primitive FHIRPath result, or null if it is not numeric
+   */
+  toNumber(value) {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value);
+    return null;
+  }
+
+  /**
+   * Text of a value for string and text items
+   */
+  toDisplayText(value, kind) {
+    switch (kind) {
+      case 'primitive':
       case 'boolean':
-        return { valueBoolean: Boolean(value) };
-      case 'integer':
-        return { valueInteger: parseInt(value) };
-      case 'decimal':
-        return { valueDecimal: parseFloat(value) };
+        return String(value);
+      case 'Coding':
+        return value.display || value.code || null;
+      case 'CodeableConcept':
+        return value.text || value.coding?.[0]?.display || value.coding?.[0]?.code || null;
+      case 'Quantity':
+        return value.value !== undefined ? `${value.value} ${value.unit || value.code || ''}`.trim() : null;
+      case 'Reference':
+        return value.display || value.reference || null;
       default:
-        return { valueString: String(value) };
+        return null;
     }
   }
 
-}
+  /**
+   * valueQuantity from a Quantity, a Ratio (numerator per denominator) or a number
+   */
+  toQuantity(value, kind) {
+    if (kind === 'Quantity') {
+      return value.value !== undefined ? { valueQuantity: value } : null;
+    }
 
-/**
- * Setup information service routes
- * @param {Express} app - Express application instance
- * @param {Function} registerEndpoint - Function to register endpoints for documentation
- */
-export function setupInformationService(app, registerEndpoint) {
-  const informationService = new InformationService();
-
-  // Validate folder structure on startup
-  console.log('🔍 Validating forms folder structure...');
-  const validation = informationService.validateFolderStructure();
-  
-  if (validation.valid) {
-    console.log('✅ Forms folder structure is valid');
-  } else {
-    console.log('⚠️  Forms folder structure validation failed:');
-    
-    if (validation.missingFolders.length > 0) {
-      console.log('   Missing folders:', validation.missingFolders.join(', '));
+    if (kind === 'Ratio') {
+      const numerator = value.numerator || {};
+      const denominator = value.denominator?.value ?? 1;
+      if (numerator.value === undefined || !denominator) return null;
+
+      const { extension, ...quantity } = numerator;
+      return { valueQuantity: { ...quantity, value: numerator.value / denominator } };
     }
-    
-    if (validation.missingForms.length > 0) {
-      console.log('   Missing forms:');
-      validation.missingForms.forEach(item => {
-        console.log(`     - ${item.folder}/${item.form}`);
-      });
+
+    const number = kind === 'primitive' ? this.toNumber(value) : null;
+    return number === null ? null : { valueQuantity: { value: number } };
+  }
+
+  /**
+   * valueReference from a Reference, a resource with an id or a reference string
+   */
+  toReference(value, kind) {
+    if (kind === 'Reference') {
+      return { valueReference: value };
     }
-    
-    if (validation.errors.length > 0) {
-      console.log('   Errors:');
-      validation.errors.forEach(error => {
-        console.log(`     - ${error}`);
+    if (kind === 'Resource' && value.id) {
+      return { valueReference: { reference: `${value.resourceType}/${value.id}` } };
+    }
+    if (kind === 'primitive' && typeof value === 'string') {
+      return { valueReference: { reference: value } };
+    }
+    return null;
+  }
+
+  /**
+   * valueCoding of a choice item, matched against its answerOptions or the expansion of its
+   * answerValueSet; open-choice items fall back to the value itself as valueString
+   */
+  createChoiceAnswer(item, value, kind, questionnaire) {
+    const codings = kind === 'Coding' ? [value] : kind === 'CodeableConcept' ? value.coding || [] : [];
+    const text = kind === 'primitive' ? String(value) : null;
+
+    const options = getAnswerOptions(item, questionnaire, this.terminologyService);
+    if (options.length > 0) {
+      const matches = option => {
+        if (option.valueCoding) {
+          return codings.some(coding => coding.code === option.valueCoding.code
+            && (!coding.system || !option.valueCoding.system || coding.system === option.valueCoding.system))
+            || (text !== null && (text === option.valueCoding.code || text === option.valueCoding.display));
+        }
+        const optionKey = Object.keys(option).find(key => key.startsWith('value'));
+        return optionKey && text !== null && String(option[optionKey]) === text;
+      };
+
+      const option = options.find(matches);
+      if (option) {
+        const optionKey = Object.keys(option).find(key => key.startsWith('value'));
+        return { [optionKey]: option[optionKey] };
+      }
+    } else if (codings.length > 0) {
+      // Without a list of options any coding is an acceptable answer
+      const { extension, ...coding } = codings[0];
+      return { valueCoding: coding };
+    }
+
+    if (item.type === 'open-choice') {
+      const fallback = this.toDisplayText(value, kind);
+      return fallback ? { valueString: fallback } : null;
+    }
+
+    console.warn(`⚠️ Value ${text ?? JSON.stringify(value)} is not an answer option of ${item.linkId}`);
+    return null;
+  }
+
+  /**
+   * Extract FHIR resources from a QuestionnaireResponse using SDC definition-based extraction.
+   * Each answered item with a definition (e.g. http://hl7.org/fhir/StructureDefinition/Patient#Patient.name.text)
+   * sets that element on a resource of the named type. The response forms one extraction context,
+   * each repetition of a repeating group its own; a context holds one resource per type.
+   * MedicationRequests are linked to the Medication of their context and the nearest Patient.
+   * @param {Object} questionnaire - FHIR Questionnaire the response answers
+   * @param {Object} questionnaireResponse - FHIR QuestionnaireResponse
+   * @returns {Object} Transaction Bundle and the issues found during extraction
+   */
+  extractQuestionnaireResponse(questionnaire, questionnaireResponse) {
+    const issues = [];
+    const rootContext = { parent: null, entries: new Map() };
+    const contexts = [rootContext];
+
+    const extracted = this.extractItems(questionnaire.item || [], questionnaireResponse.item || [], rootContext, contexts, issues);
+    if (extracted) {
+      this.applyFixedValues(questionnaire, rootContext, issues);
+    }
+
+    // Link the requests to the medication and patient they are about
+    for (const context of contexts) {
+      const medicationRequest = context.entries.get('MedicationRequest');
+      if (!medicationRequest) continue;
+
+      const medication = context.entries.get('Medication');
+      if (medication) {
+        medicationRequest.resource.medicationReference = { reference: medication.fullUrl };
+      }
+
+      for (let current = context; current; current = current.parent) {
+        const patient = current.entries.get('Patient');
+        if (patient) {
+          medicationRequest.resource.subject = { reference: patient.fullUrl };
+          break;
+        }
+      }
+    }
+
+    const entries = contexts.flatMap(context =>
+      EXTRACT_RESOURCE_ORDER
+        .filter(resourceType => context.entries.has(resourceType))
+        .map(resourceType => context.entries.get(resourceType))
+    );
+
+    if (entries.length === 0) {
+      issues.push({
+        severity: 'information',
+        code: 'informational',
+        diagnostics: `No answered item of ${questionnaire.url || questionnaire.id} has a definition to extract`
       });
     }
+
+    const bundle = {
+      resourceType: 'Bundle',
+      id: `extract-${Date.now()}`,
+      type: 'transaction',
+      timestamp: new Date().toISOString(),
+      entry: entries.map(({ fullUrl, resource }) => ({
+        fullUrl,
+        resource,
+        request: { method: 'POST', url: resource.resourceType }
+      }))
+    };
+
+    return { bundle, issues };
   }
 
-  // Validate request operations forms
-  console.log('🔍 Validating request operations forms...');
-  const requestOpsValidation = informationService.validateRequestOperationsForms();
-  
-  if (requestOpsValidation.valid) {
-    console.log('✅ Request operations forms are valid');
-  } else {
-    console.log('⚠️  Request operations forms validation failed:');
-    
-    if (requestOpsValidation.missingForms.length > 0) {
-      console.log('   Missing forms:');
-      requestOpsValidation.missingForms.forEach(item => {
-        console.log(`     - ${item.code}: ${item.form} (${item.display})`);
+  /**
+   * Extract the answers of response items into the resources of a context
+   * @returns {boolean} Whether any answer was extracted
+   */
+  extractItems(questionnaireItems, responseItems, context, contexts, issues) {
+    let extracted = false;
+
+    for (const responseItem of responseItems) {
+      const item = questionnaireItems.find(candidate => candidate.linkId === responseItem.linkId);
+      if (!item) {
+        issues.push({
+          severity: 'warning',
+          code: 'not-found',
+          diagnostics: `Item ${responseItem.linkId} is not part of the questionnaire`,
+          expression: [`QuestionnaireResponse.item.where(linkId='${responseItem.linkId}')`]
+        });
+        continue;
+      }
+
+      // Every repetition of a repeating group is extracted into resources of its own
+      let itemContext = context;
+      if (item.type === 'group' && item.repeats) {
+        itemContext = { parent: context, entries: new Map() };
+        contexts.push(itemContext);
+      }
+
+      let itemExtracted = false;
+      for (const answer of responseItem.answer || []) {
+        if (item.definition && this.extractAnswer(item, answer, itemContext, issues)) {
+          itemExtracted = true;
+        }
+        if (answer.item && this.extractItems(item.item || [], answer.item, itemContext, contexts, issues)) {
+          itemExtracted = true;
+        }
+      }
+
+      if (responseItem.item && this.extractItems(item.item || [], responseItem.item, itemContext, contexts, issues)) {
+        itemExtracted = true;
+      }
+
+      // Fixed values only complete resources that answers were extracted into
+      if (itemExtracted) {
+        this.applyFixedValues(item, itemContext, issues);
+        extracted = true;
+      }
+    }
+
+    return extracted;
+  }
+
+  /**
+   * Set the element named by the item's definition from one answer
+   * @returns {boolean} Whether the answer was extracted
+   */
+  extractAnswer(item, answer, context, issues) {
+    const path = this.toElementPath(item.definition, issues, item.linkId);
+    if (!path) return false;
+
+    const value = this.toElementValue(answer, EXTRACTABLE_ELEMENTS[path].type);
+    if (value === undefined) {
+      issues.push({
+        severity: 'warning',
+        code: 'value',
+        diagnostics: `Answer of item ${item.linkId} cannot be converted to ${path} (${EXTRACTABLE_ELEMENTS[path].type})`
       });
+      return false;
     }
-    
-    if (requestOpsValidation.errors.length > 0) {
-      console.log('   Errors:');
-      requestOpsValidation.errors.forEach(error => {
-        console.log(`     - ${error}`);
+
+    this.setElement(this.getContextResource(context, path), path, value);
+    return true;
+  }
+
+  /**
+   * Apply the sdc-questionnaire-definitionExtractValue fixed values of a questionnaire or item
+   */
+  applyFixedValues(element, context, issues) {
+    const fixedValues = (element.extension || []).filter(ext => ext.url === SDC_DEFINITION_EXTRACT_VALUE);
+
+    for (const fixedValue of fixedValues) {
+      const definition = fixedValue.extension?.find(ext => ext.url === 'definition')?.valueCanonical;
+      const valuePart = fixedValue.extension?.find(ext => ext.url === 'fixed-value');
+      const path = this.toElementPath(definition, issues, element.linkId || element.id);
+      if (!path || !valuePart) continue;
+
+      const valueKey = Object.keys(valuePart).find(key => key.startsWith('value'));
+      if (valueKey) {
+        this.setElement(this.getContextResource(context, path), path, valuePart[valueKey]);
+      }
+    }
+  }
+
+  /**
+   * Resolve an item definition to a supported element path
+   * @returns {string|null} Element path (e.g. Patient.name.text) or null if not supported
+   */
+  toElementPath(definition, issues, source) {
+    const path = definition?.split('#')[1];
+    if (path && EXTRACTABLE_ELEMENTS[path]?.type) {
+      return path;
+    }
+
+    issues.push({
+      severity: 'warning',
+      code: 'not-supported',
+      diagnostics: `Definition ${definition} of ${source} is not supported by $extract`
+    });
+    return null;
+  }
+
+  /**
+   * Get the resource of the path's type in a context, creating it on first use
+   */
+  getContextResource(context, path) {
+    const resourceType = path.split('.')[0];
+    if (!context.entries.has(resourceType)) {
+      context.entries.set(resourceType, {
+        fullUrl: `urn:uuid:${uuidv4()}`,
+        resource: { resourceType }
       });
     }
+    return context.entries.get(resourceType).resource;
+  }
+
+  /**
+   * Set an element on a resource, creating intermediate elements as needed
+   */
+  setElement(resource, path, value) {
+    const segments = path.split('.');
+    let node = resource;
+
+    for (let index = 1; index < segments.length; index++) {
+      const name = segments[index];
+      const repeats = EXTRACTABLE_ELEMENTS[segments.slice(0, index + 1).join('.')]?.repeats;
+
+      if (index === segments.length - 1) {
+        if (repeats) {
+          node[name] = [...(node[name] || []), value];
+        } else if (typeof value === 'object' && typeof node[name] === 'object') {
+          node[name] = { ...node[name], ...value };
+        } else {
+          node[name] = value;
+        }
+      } else if (repeats) {
+        node[name] = node[name] || [{}];
+        node = node[name][0];
+      } else {
+        node[name] = node[name] || {};
+        node = node[name];
+      }
+    }
+  }
+
+  /**
+   * Convert an answer value to the FHIR type of the target element
+   * @returns {*} Element value or undefined if the answer does not fit the type
+   */
+  toElementValue(answer, type) {
+    const valueKey = Object.keys(answer).find(key => key.startsWith('value'));
+    if (!valueKey) return undefined;
+
+    let value = answer[valueKey];
+    if (valueKey === 'valueCoding') {
+      value = type === 'code' ? value.code : value.display || value.code;
+    } else if (valueKey === 'valueQuantity') {
+      if (type === 'Quantity') return value;
+      value = value.value;
+    }
+
+    switch (type) {
+      case 'Quantity':
+        return typeof value === 'number' ? { value } : undefined;
+      case 'decimal': {
+        const number = Number(value);
+        return value === '' || Number.isNaN(number) ? undefined : number;
+      }
+      case 'boolean':
+        return typeof value === 'boolean' ? value : undefined;
+      default:
+        return value === null || value === undefined || typeof value === 'object' ? undefined : String(value);
+    }
   }
 
+}
+
+/**
+ * Setup information service routes
+ * @param {Express} app - Express application instance
+ * @param {Function} registerEndpoint - Function to register endpoints for documentation
+ * @param {FlowService} flowService - Flow service holding the submitted QuestionnaireResponses
+ * @returns {InformationService} Service instance validating the served content
+ */
+export function setupInformationService(app, registerEndpoint, flowService) {
+  const informationService = new InformationService(flowService.questionnaireRegistry, flowService.terminologyService);
+
+  // Validate forms and CodeSystems on startup; in strict mode the service refuses to start on errors
+  console.log('🔍 Validating forms and CodeSystems...');
+  const contentValidation = informationService.validateContent();
+  const { valid, errors, warnings } = summarizeContentValidation(contentValidation);
+
+  if (valid && warnings === 0) {
+    console.log('✅ Forms and CodeSystems are valid');
+  } else {
+    console.log(`${valid ? '⚠️ ' : '❌'} Content validation: ${errors} error(s), ${warnings} warning(s)`);
+    contentValidation.issue.forEach(issue => {
+      console.log(`     - [${issue.severity}] ${issue.details.text}`);
+    });
+  }
+
+  if (!valid && process.env.CONTENT_VALIDATION_STRICT === 'true') {
+    throw new Error(`Content validation failed with ${errors} error(s) (CONTENT_VALIDATION_STRICT is set)`);
+  }
+
+  // Content validation report of the forms and CodeSystems as currently loaded
+  app.get('/\\$validate-content', (req, res) => {
+    try {
+      console.log('🔍 Serving content validation report');
+      const outcome = informationService.validateContent();
+
+      res.setHeader('Content-Type', 'application/fhir+json');
+      res.json(outcome);
+    } catch (error) {
+      console.error('Error validating content:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Could not validate content'
+      });
+    }
+  });
+
   // Document Operations endpoint
   app.get('/\\$document-operations', (req, res) => {
     try {
@@ -576,6 +911,41 @@ export function setupInformationService(app, registerEndpoint) {
     }
   });
 
+  // Questionnaire search by canonical URL (optionally 'url|version'), version and operation code.
+  // The frontends render a QuestionnaireResponse from the Questionnaire it answers.
+  app.get('/Questionnaire', (req, res) => {
+    try {
+      const { url, version, code } = req.query;
+
+      if ([url, version, code].some(value => value !== undefined && typeof value !== 'string')) {
+        return res.status(400).json({
+          error: 'Invalid search parameter',
+          message: 'Search parameters url, version and code may only be given once'
+        });
+      }
+
+      const questionnaires = informationService.questionnaireRegistry.search({ url, version, code });
+
+      res.setHeader('Content-Type', 'application/fhir+json');
+      res.json({
+        resourceType: 'Bundle',
+        type: 'searchset',
+        total: questionnaires.length,
+        entry: questionnaires.map(questionnaire => ({
+          ...(questionnaire.url ? { fullUrl: questionnaire.url } : {}),
+          resource: questionnaire,
+          search: { mode: 'match' }
+        }))
+      });
+    } catch (error) {
+      console.error('Error searching questionnaires:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Could not search questionnaires'
+      });
+    }
+  });
+
   // Populate endpoint - new SDC-compliant version  
   app.post('/Questionnaire/:id/\\$populate', (req, res) => {
     try {
@@ -600,9 +970,9 @@ export function setupInformationService(app, registerEndpoint) {
         });
       }
 
-      // Find the context parameter
-      const contextParam = fhirParameters.parameter.find(p => p.name === 'context');
-      if (!contextParam || !contextParam.part) {
+      // Every context parameter is a launch context, available to the expressions as %<name>
+      const contextParams = fhirParameters.parameter.filter(p => p.name === 'context');
+      if (contextParams.length === 0 || contextParams.some(p => !p.part)) {
         return res.status(400).json({
           error: 'Missing context parameter',
           message: 'context parameter with parts is required'
@@ -610,26 +980,24 @@ export function setupInformationService(app, registerEndpoint) {
       }
 
       // Extract context.name and context.content
-      let contextName = null;
-      let contextContent = null;
-
-      for (const part of contextParam.part) {
-        if (part.name === 'name' && part.valueString) {
-          contextName = part.valueString;
-        } else if (part.name === 'content' && part.resource) {
-          contextContent = part.resource;
+      const contexts = [];
+      for (const contextParam of contextParams) {
+        const name = contextParam.part.find(part => part.name === 'name');
+        const content = contextParam.part.find(part => part.name === 'content' && part.resource);
+
+        if (!content) {
+          return res.status(400).json({
+            error: 'Missing context content',
+            message: 'context.content (resource) is required'
+          });
         }
-      }
 
-      if (!contextContent) {
-        return res.status(400).json({
-          error: 'Missing context content',
-          message: 'context.content (resource) is required'
-        });
+        contexts.push({ name: name?.valueString || name?.valueCode || null, content: content.resource });
       }
 
-      console.log(` Context name: ${contextName || 'not specified'}`);
-      console.log(`📦 Context content: ${contextContent.resourceType || 'unknown'} with ${contextContent.entry?.length || 0} entries`);
+      for (const context of contexts) {
+        console.log(`📦 Context %${context.name || 'unnamed'}: ${context.content.resourceType || 'unknown'}${context.content.entry ? ` with ${context.content.entry.length} entries` : ''}`);
+      }
 
       // Smart questionnaire lookup by ID
       const questionnaire = informationService.getQuestionnaireById(questionnaireId);
@@ -643,7 +1011,7 @@ export function setupInformationService(app, registerEndpoint) {
       console.log(`✅ Found questionnaire: ${questionnaire.title || questionnaire.id}`);
 
       // Populate the questionnaire response
-      const populatedResponse = informationService.populateQuestionnaireResponse(questionnaire, contextContent);
+      const populatedResponse = informationService.populateQuestionnaireResponse(questionnaire, contexts);
 
       // Return the response in SDC Parameters format
       const parametersResponse = {
@@ -734,7 +1102,7 @@ export function setupInformationService(app, registerEndpoint) {
       }
 
       // Populate the questionnaire response
-      const populatedResponse = informationService.populateQuestionnaireResponse(questionnaire, fhirBundle);
+      const populatedResponse = informationService.populateQuestionnaireResponse(questionnaire, [{ name: null, content: fhirBundle }]);
 
       res.setHeader('Content-Type', 'application/fhir+json');
       res.json(populatedResponse);
@@ -748,12 +1116,85 @@ export function setupInformationService(app, registerEndpoint) {
     }
   });
 
+  // Extract endpoint - SDC $extract of a submitted QuestionnaireResponse
+  app.post('/QuestionnaireResponse/:id/\\$extract', requireAuth, (req, res) => {
+    try {
+      const questionnaireResponseId = req.params.id;
+      console.log(`🧩 Processing SDC $extract request for QuestionnaireResponse ${questionnaireResponseId}`);
+
+      const questionnaireResponse = flowService.getQuestionnaire(questionnaireResponseId);
+      if (!questionnaireResponse) {
+        return res.status(404).json({
+          error: 'QuestionnaireResponse not found',
+          message: `QuestionnaireResponse with ID ${questionnaireResponseId} does not exist`
+        });
+      }
+
+      const task = flowService.findTaskByQuestionnaireId(questionnaireResponseId);
+      if (!task || !flowService.isParticipant(task, req.auth.telematikId)) {
+        console.log(`⛔ ${req.auth.telematikId} may not extract QuestionnaireResponse ${questionnaireResponseId}`);
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: `QuestionnaireResponse ${questionnaireResponseId} does not belong to a task of ${req.auth.telematikId}`
+        });
+      }
+
+      const questionnaire = flowService.findQuestionnaireByUrl(questionnaireResponse.questionnaire);
+      if (!questionnaire) {
+        return res.status(404).json({
+          error: 'Questionnaire not found',
+          message: `No questionnaire found with URL: ${questionnaireResponse.questionnaire}`
+        });
+      }
+
+      const { bundle, issues } = informationService.extractQuestionnaireResponse(questionnaire, questionnaireResponse);
+      console.log(`✅ Extracted ${bundle.entry.length} resources: ${bundle.entry.map(entry => entry.resource.resourceType).join(', ') || 'none'}`);
+
+      // Return the transaction Bundle in SDC Parameters format, with the issues found on the way
+      const parametersResponse = {
+        resourceType: 'Parameters',
+        id: `extract-response-${Date.now()}`,
+        meta: {
+          profile: [
+            'http://hl7.org/fhir/uv/sdc/StructureDefinition/parameters'
+          ]
+        },
+        parameter: [
+          {
+            name: 'return',
+            resource: bundle
+          }
+        ]
+      };
+
+      if (issues.length > 0) {
+        parametersResponse.parameter.push({
+          name: 'issues',
+          resource: { resourceType: 'OperationOutcome', issue: issues }
+        });
+      }
+
+      res.setHeader('Content-Type', 'application/fhir+json');
+      res.json(parametersResponse);
+
+    } catch (error) {
+      console.error('Error processing extract request:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Could not process extract request: ' + error.message
+      });
+    }
+  });
+
   // Register endpoints for documentation
   if (registerEndpoint) {
     registerEndpoint('Information Service', 'GET', '/$document-operations', 'FHIR DocumentOperations CodeSystem');
     registerEndpoint('Information Service', 'GET', '/$request-operations', 'FHIR RequestOperations CodeSystem');
+    registerEndpoint('Information Service', 'GET', '/$validate-content', 'Validation report of the forms and CodeSystems');
+    registerEndpoint('Information Service', 'GET', '/Questionnaire', 'Search questionnaires by canonical URL, version and operation code');
     registerEndpoint('Information Service', 'POST', '/Questionnaire/:id/$populate', 'SDC $populate operation for questionnaires');
     registerEndpoint('Information Service', 'POST', '/$populate', 'Legacy populate endpoint');
+    registerEndpoint('Information Service', 'POST', '/QuestionnaireResponse/:id/$extract', 'SDC $extract of a submitted QuestionnaireResponse into a transaction Bundle');
   }
 
   console.log('✅ Information Service module loaded');
@@ -761,6 +1202,10 @@ export function setupInformationService(app, registerEndpoint) {
   console.log('📋 Request Operations endpoint: /\\$request-operations');
   console.log('🔄 SDC Populate endpoint: /Questionnaire/:id/\\$populate');
   console.log('🔄 Legacy Populate endpoint: /\\$populate');
+  console.log('🧩 SDC Extract endpoint: /QuestionnaireResponse/:id/\\$extract');
+  console.log('🔍 Content validation endpoint: /\\$validate-content');
+
+  return informationService;
 }
 
 export { InformationService };
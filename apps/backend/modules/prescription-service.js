@@ -0,0 +1,823 @@
+import { EventEmitter } from 'events';
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import express from 'express';
+import { readFileSync, readdirSync, existsSync, mkdirSync, renameSync, watch } from 'fs';
+import { join, extname } from 'path';
+import { Fhir } from 'fhir';
+import { requireAuth } from './auth-service.js';
+
+const PRESCRIPTION_ID_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_PrescriptionId';
+const ACCESS_CODE_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_AccessCode';
+const SECRET_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_Secret';
+const FLOW_TYPE_SYSTEM = 'https://gematik.de/fhir/erp/CodeSystem/GEM_ERP_CS_FlowType';
+const DOCUMENT_TYPE_SYSTEM = 'https://gematik.de/fhir/erp/CodeSystem/GEM_ERP_CS_DocumentType';
+const PRESCRIPTION_TYPE_EXTENSION = 'https://gematik.de/fhir/erp/StructureDefinition/GEM_ERP_EX_PrescriptionType';
+const TASK_PROFILE = 'https://gematik.de/fhir/erp/StructureDefinition/GEM_ERP_PR_Task|1.2';
+
+// Workflow types of the E-Rezept-Fachdienst; a PrescriptionId starts with its workflow type
+const FLOW_TYPES = {
+  '160': 'Muster 16 (Apothekenpflichtige Arzneimittel)',
+  '162': 'Muster 16 (Digitale Gesundheitsanwendungen)',
+  '169': 'Muster 16 (Direkte Zuweisung)',
+  '200': 'PKV (Apothekenpflichtige Arzneimittel)',
+  '209': 'PKV (Direkte Zuweisung)'
+};
+
+// File types picked up from the inbox
+const INBOX_EXTENSIONS = ['.xml', '.json'];
+
+// Delay before scanning after a change in the inbox; the AVS may write files in several steps
+const INBOX_SCAN_DELAY_MS = 200;
+
+/**
+ * Error for bundles that cannot be imported (HTTP 400)
+ */
+class PrescriptionImportError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PrescriptionImportError';
+  }
+}
+
+/**
+ * Error of a prescription Task operation, with the HTTP status to answer
+ */
+class PrescriptionTaskError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {number} status - HTTP status (400 invalid request, 403 wrong AccessCode or Secret,
+   *   404 unknown Task, 409 operation not allowed in the Task status, 410 cancelled Task)
+   */
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'PrescriptionTaskError';
+    this.status = status;
+  }
+}
+
+/**
+ * PrescriptionId of the given workflow type and serial number:
+ * ttt.nnn.nnn.nnn.nnn.cc with the ISO 7064 MOD 97-10 check digits cc
+ */
+function formatPrescriptionId(flowType, serial) {
+  const digits = `${flowType}${String(serial).padStart(12, '0')}`;
+  const checkDigits = String(98 - Number((BigInt(digits) * 100n) % 97n)).padStart(2, '0');
+  return [...digits.match(/\d{3}/g), checkDigits].join('.');
+}
+
+/**
+ * Whether a given AccessCode or Secret matches the stored one (compared in constant time)
+ */
+function codeMatches(expected, given) {
+  if (!expected || typeof given !== 'string') {
+    return false;
+  }
+  const expectedBuffer = Buffer.from(expected);
+  const givenBuffer = Buffer.from(given);
+  return expectedBuffer.length === givenBuffer.length && timingSafeEqual(expectedBuffer, givenBuffer);
+}
+
+/**
+ * KBV bundle of the ePrescription parameter of $activate: a Binary with the
+ * (base64 encoded) FHIR XML or JSON, the Bundle itself, or the bundle as request body
+ * @throws {PrescriptionImportError} If there is no ePrescription parameter
+ */
+function ePrescriptionOf(body) {
+  if (typeof body === 'string' || body?.resourceType === 'Bundle') {
+    return body;
+  }
+
+  const resource = (body?.parameter || []).find(parameter => parameter.name === 'ePrescription')?.resource;
+  if (!resource) {
+    throw new PrescriptionImportError('Parameters have no ePrescription');
+  }
+  return resource.resourceType === 'Binary' ? Buffer.from(resource.data || '', 'base64').toString('utf8') : resource;
+}
+
+/**
+ * Prescription Service Module
+ * Local stand-in for the gematik E-Rezept-Fachdienst. It stores KBV
+ * e-prescription bundles in the 'prescriptions' collection of the flow
+ * database, one record per PrescriptionId with the state of its Task.
+ *
+ * Prescribers create a Task ($create) and activate it with the signed bundle
+ * ($activate, AccessCode); pharmacies accept it ($accept, AccessCode), and
+ * reject ($reject) or close ($close) it with the Secret they received.
+ * Bundles the pharmacy receives from its AVS are imported as FHIR XML or
+ * JSON and start as ready Tasks. Files dropped into the inbox directory are
+ * imported for the inbox owner and moved to inbox/processed (or inbox/failed
+ * if they cannot be imported).
+ *
+ * Bundles are only readable by the participants of a prescription (its
+ * prescriber or importer) and with its AccessCode or Secret; the pharmacy
+ * that accepted a prescription reads it with its Secret.
+ */
+class PrescriptionService extends EventEmitter {
+  /**
+   * @param {FlowService} flowService - Flow service whose database stores the prescriptions
+   * @param {string} inboxPath - Directory watched for bundle files (default: PRESCRIPTION_INBOX_PATH or data/inbox)
+   * @param {string|null} inboxOwner - Telematik-ID inbox imports belong to (default: PRESCRIPTION_INBOX_OWNER)
+   */
+  constructor(
+    flowService,
+    inboxPath = process.env.PRESCRIPTION_INBOX_PATH || join(flowService.dataPath, 'inbox'),
+    inboxOwner = process.env.PRESCRIPTION_INBOX_OWNER || null
+  ) {
+    super();
+    this.flowService = flowService;
+    this.inboxPath = inboxPath;
+    this.inboxOwner = inboxOwner;
+    this.fhir = new Fhir();
+    this.watcher = null;
+    this.scanTimer = null;
+  }
+
+  /**
+   * Parse a KBV bundle given as XML or JSON text, or as JSON object
+   * @throws {PrescriptionImportError} If the content is no Bundle with a PrescriptionId
+   */
+  parseBundle(content) {
+    let bundle = content;
+
+    if (typeof content === 'string') {
+      const text = content.trim();
+      try {
+        bundle = JSON.parse(text.startsWith('<') ? this.fhir.xmlToJson(text) : text);
+      } catch (error) {
+        throw new PrescriptionImportError(`Content is neither FHIR XML nor JSON: ${error.message}`);
+      }
+    }
+
+    if (bundle?.resourceType !== 'Bundle') {
+      throw new PrescriptionImportError(`Expected a FHIR Bundle, got ${bundle?.resourceType || 'no resource'}`);
+    }
+
+    if (!this.getPrescriptionId(bundle)) {
+      throw new PrescriptionImportError(`Bundle has no PrescriptionId (identifier with system ${PRESCRIPTION_ID_SYSTEM})`);
+    }
+
+    if (!(bundle.entry || []).some(entry => entry.resource?.resourceType === 'Composition')) {
+      throw new PrescriptionImportError(`Bundle ${this.getPrescriptionId(bundle)} has no Composition`);
+    }
+
+    return bundle;
+  }
+
+  /**
+   * PrescriptionId of a KBV bundle (Bundle.identifier)
+   */
+  getPrescriptionId(bundle) {
+    return [bundle.identifier].flat().find(identifier => identifier?.system === PRESCRIPTION_ID_SYSTEM)?.value || null;
+  }
+
+  /**
+   * Import a bundle; a bundle with a known PrescriptionId is not stored again
+   * @param {string|Object} content - FHIR XML or JSON of the bundle
+   * @param {string} source - Where the bundle came from (upload, inbox file name)
+   * @param {string|null} importer - Telematik-ID the bundle is imported for
+   * @returns {{prescription: Object, created: boolean}} Stored prescription and whether it is new
+   * @throws {PrescriptionImportError} If the content is no KBV bundle, or another
+   *   telematik-ID holds a bundle with its PrescriptionId
+   */
+  importBundle(content, source, importer) {
+    const bundle = this.parseBundle(content);
+    const id = this.getPrescriptionId(bundle);
+
+    const db = this.flowService.loadDatabase();
+    const existing = db.prescriptions[id];
+    // Bundles stored without prescriber and importer are held by nobody; importing them again is a duplicate
+    const heldByOthers = Boolean(existing?.requester || existing?.importer) && !this.isParticipant(existing, importer);
+    if (existing?.bundle && heldByOthers) {
+      throw new PrescriptionImportError(`Prescription ${id} is already held by another telematik-ID`);
+    }
+    if (existing?.bundle) {
+      console.log(`ℹ️ Prescription ${id} from ${source} is already imported`);
+      return { prescription: existing, created: false };
+    }
+    if (existing) {
+      throw new PrescriptionImportError(`Prescription ${id} is a ${existing.status} Task, activate it with $activate`);
+    }
+
+    // Bundles from the AVS were activated by their prescriber: they start as ready Tasks
+    const now = new Date().toISOString();
+    const prescription = {
+      ...this.createRecord(id, this.getFlowType(id), null, now),
+      status: 'ready',
+      importer,
+      source,
+      imported: now,
+      bundle
+    };
+    db.prescriptions[id] = prescription;
+    this.flowService.saveDatabase(db);
+
+    console.log(`📥 Imported prescription ${id} from ${source}`);
+    this.emit('prescription-imported', { prescription });
+    return { prescription, created: true };
+  }
+
+  /**
+   * Whether a telematik-ID takes part in a prescription: as its prescriber or as the importer of its bundle
+   */
+  isParticipant(prescription, telematikId) {
+    return Boolean(telematikId) && [prescription.requester, prescription.importer].includes(telematikId);
+  }
+
+  /**
+   * Prescriptions with a bundle (imported or activated) the telematik-ID takes part in, latest first
+   */
+  searchPrescriptions(telematikId) {
+    const db = this.flowService.loadDatabase();
+    return Object.values(db.prescriptions)
+      .filter(prescription => prescription.bundle && this.isParticipant(prescription, telematikId))
+      .sort((a, b) => b.imported.localeCompare(a.imported));
+  }
+
+  /**
+   * Prescription with a bundle, for a participant or the holder of its AccessCode or Secret
+   * @param {string} id - PrescriptionId
+   * @param {string} telematikId - Telematik-ID of the caller
+   * @param {{accessCode?: string, secret?: string}} [codes] - AccessCode or Secret of the caller
+   * @throws {PrescriptionTaskError} If there is no bundle with this PrescriptionId (404)
+   *   or the caller may not read it (403)
+   */
+  getPrescription(id, telematikId, { accessCode, secret } = {}) {
+    const prescription = this.flowService.loadDatabase().prescriptions[id];
+    if (!prescription?.bundle) {
+      throw new PrescriptionTaskError(`No prescription bundle ${id}`, 404);
+    }
+    if (!this.isParticipant(prescription, telematikId)
+      && !codeMatches(prescription.accessCode, accessCode) && !codeMatches(prescription.secret, secret)) {
+      throw new PrescriptionTaskError(`Prescription ${id} belongs to other participants and no AccessCode or Secret matches`, 403);
+    }
+    return prescription;
+  }
+
+  /**
+   * MedicationRequests of the bundles the telematik-ID takes part in, optionally of one patient
+   * @param {Object} params - Search parameters
+   * @param {string} [params.patient] - KVNR of the patient, its Patient id or Patient/<id>
+   * @param {string} telematikId - Telematik-ID of the caller
+   * @returns {Array<{prescription: Object, entry: Object}>} Bundle entry of each MedicationRequest
+   */
+  searchMedicationRequests({ patient } = {}, telematikId) {
+    return this.searchPrescriptions(telematikId).flatMap(prescription => {
+      const entries = prescription.bundle.entry || [];
+      const patients = entries.map(entry => entry.resource).filter(resource => resource?.resourceType === 'Patient');
+
+      if (patient && !patients.some(candidate =>
+        candidate.id === patient.replace(/^Patient\//, '')
+        || (candidate.identifier || []).some(identifier => identifier.value === patient))) {
+        return [];
+      }
+
+      return entries
+        .filter(entry => entry.resource?.resourceType === 'MedicationRequest')
+        .map(entry => ({ prescription, entry }));
+    });
+  }
+
+  /**
+   * Workflow type of a PrescriptionId (its first three digits), 160 if it has none
+   */
+  getFlowType(id) {
+    const prefix = id.slice(0, 3);
+    return FLOW_TYPES[prefix] ? prefix : '160';
+  }
+
+  /**
+   * New prescription record in draft status with a fresh AccessCode
+   */
+  createRecord(id, flowType, requester, now) {
+    return {
+      id,
+      flowType,
+      status: 'draft',
+      accessCode: randomBytes(32).toString('hex'),
+      secret: null,
+      requester,
+      importer: null,
+      owner: null,
+      created: now,
+      lastModified: now,
+      source: null,
+      imported: null,
+      bundle: null,
+      dispense: null
+    };
+  }
+
+  /**
+   * Stored prescription record of a Task
+   * @throws {PrescriptionTaskError} If the Task does not exist (404)
+   */
+  getTask(id, db = this.flowService.loadDatabase()) {
+    const prescription = db.prescriptions[id];
+    if (!prescription) {
+      throw new PrescriptionTaskError(`No prescription Task ${id}`, 404);
+    }
+    return prescription;
+  }
+
+  /**
+   * Prescription record of a Task the caller may access with the given AccessCode or Secret
+   * @throws {PrescriptionTaskError} If the Task does not exist (404) or neither code matches (403)
+   */
+  getAuthorizedTask(id, { accessCode, secret }, db = this.flowService.loadDatabase()) {
+    const prescription = this.getTask(id, db);
+    if (!codeMatches(prescription.accessCode, accessCode) && !codeMatches(prescription.secret, secret)) {
+      throw new PrescriptionTaskError(`AccessCode or Secret of Task ${id} is missing or wrong`, 403);
+    }
+    return prescription;
+  }
+
+  /**
+   * Check the status of a Task before an operation
+   * @throws {PrescriptionTaskError} If the Task is cancelled (410) or in another status (409)
+   */
+  requireStatus(prescription, operation, ...statuses) {
+    if (prescription.status === 'cancelled' && !statuses.includes('cancelled')) {
+      throw new PrescriptionTaskError(`Task ${prescription.id} is cancelled`, 410);
+    }
+    if (!statuses.includes(prescription.status)) {
+      throw new PrescriptionTaskError(`${operation} is not allowed for Task ${prescription.id} in status ${prescription.status}`, 409);
+    }
+  }
+
+  /**
+   * Save a changed prescription record
+   */
+  updateTask(db, prescription, changes) {
+    const updated = { ...prescription, ...changes, lastModified: new Date().toISOString() };
+    db.prescriptions[prescription.id] = updated;
+    this.flowService.saveDatabase(db);
+    return updated;
+  }
+
+  /**
+   * $create - New Task with a PrescriptionId of the workflow type and an AccessCode
+   * @param {string} flowType - Workflow type (160, 162, 169, 200, 209)
+   * @param {string} requester - Telematik-ID of the prescriber
+   * @throws {PrescriptionTaskError} If the workflow type is unknown (400)
+   */
+  createTask(flowType, requester) {
+    if (!FLOW_TYPES[flowType]) {
+      throw new PrescriptionTaskError(`Unknown workflow type ${flowType}, expected one of ${Object.keys(FLOW_TYPES).join(', ')}`);
+    }
+
+    const db = this.flowService.loadDatabase();
+    let id;
+    do {
+      id = formatPrescriptionId(flowType, db.nextPrescriptionNumber++);
+    } while (db.prescriptions[id]);
+
+    const prescription = this.createRecord(id, flowType, requester, new Date().toISOString());
+    db.prescriptions[id] = prescription;
+    this.flowService.saveDatabase(db);
+
+    console.log(`📝 Created prescription Task ${id} for ${requester}`);
+    return prescription;
+  }
+
+  /**
+   * $activate - Store the prescription bundle of a draft Task and make it ready
+   * @param {string} id - PrescriptionId of the Task
+   * @param {string} accessCode - AccessCode of the Task
+   * @param {string|Object} content - KBV bundle as FHIR XML or JSON
+   * @param {string} actor - Telematik-ID of the prescriber
+   * @throws {PrescriptionImportError} If the content is no KBV bundle of this PrescriptionId
+   */
+  activateTask(id, accessCode, content, actor) {
+    const db = this.flowService.loadDatabase();
+    const prescription = this.getAuthorizedTask(id, { accessCode }, db);
+    this.requireStatus(prescription, '$activate', 'draft');
+
+    const bundle = this.parseBundle(content);
+    if (this.getPrescriptionId(bundle) !== id) {
+      throw new PrescriptionImportError(`Bundle has PrescriptionId ${this.getPrescriptionId(bundle)}, expected ${id}`);
+    }
+
+    const activated = this.updateTask(db, prescription, {
+      status: 'ready',
+      source: `$activate by ${actor}`,
+      imported: new Date().toISOString(),
+      bundle
+    });
+
+    console.log(`✅ Activated prescription ${id}`);
+    this.emit('prescription-imported', { prescription: activated });
+    return activated;
+  }
+
+  /**
+   * $accept - Hand a ready prescription to a pharmacy, which receives a Secret for it
+   * @param {string} id - PrescriptionId of the Task
+   * @param {string} accessCode - AccessCode the patient gave the pharmacy
+   * @param {string} actor - Telematik-ID of the pharmacy
+   */
+  acceptTask(id, accessCode, actor) {
+    const db = this.flowService.loadDatabase();
+    const prescription = this.getAuthorizedTask(id, { accessCode }, db);
+    this.requireStatus(prescription, '$accept', 'ready');
+
+    console.log(`💊 Prescription ${id} accepted by ${actor}`);
+    return this.updateTask(db, prescription, {
+      status: 'in-progress',
+      secret: randomBytes(32).toString('hex'),
+      owner: actor
+    });
+  }
+
+  /**
+   * $reject - Return an accepted prescription; it is ready for other pharmacies again
+   * @param {string} id - PrescriptionId of the Task
+   * @param {string} secret - Secret of the accepting pharmacy
+   */
+  rejectTask(id, secret) {
+    const db = this.flowService.loadDatabase();
+    const prescription = this.getAuthorizedTask(id, { secret }, db);
+    this.requireStatus(prescription, '$reject', 'in-progress');
+
+    console.log(`↩️ Prescription ${id} rejected by ${prescription.owner}`);
+    return this.updateTask(db, prescription, { status: 'ready', secret: null, owner: null });
+  }
+
+  /**
+   * $close - Complete an accepted prescription with the dispensed medication
+   * @param {string} id - PrescriptionId of the Task
+   * @param {string} secret - Secret of the accepting pharmacy
+   * @param {Object} [dispense] - MedicationDispense of the pharmacy
+   * @throws {PrescriptionTaskError} If the body is no MedicationDispense (400)
+   */
+  closeTask(id, secret, dispense) {
+    const db = this.flowService.loadDatabase();
+    const prescription = this.getAuthorizedTask(id, { secret }, db);
+    this.requireStatus(prescription, '$close', 'in-progress');
+
+    if (dispense && dispense.resourceType !== 'MedicationDispense') {
+      throw new PrescriptionTaskError(`Expected a MedicationDispense, got ${dispense.resourceType || 'no resource'}`);
+    }
+
+    console.log(`✅ Prescription ${id} dispensed by ${prescription.owner}`);
+    return this.updateTask(db, prescription, { status: 'completed', dispense: dispense || null });
+  }
+
+  /**
+   * $abort - Cancel a prescription and delete its bundle: before it is accepted with
+   * the AccessCode (prescriber or patient), while it is accepted with the Secret (pharmacy)
+   * @param {string} id - PrescriptionId of the Task
+   * @param {{accessCode?: string, secret?: string}} codes - AccessCode or Secret of the caller
+   */
+  abortTask(id, codes) {
+    const db = this.flowService.loadDatabase();
+    const prescription = this.getAuthorizedTask(id, codes, db);
+
+    if (codeMatches(prescription.secret, codes.secret)) {
+      this.requireStatus(prescription, '$abort', 'in-progress');
+    } else {
+      this.requireStatus(prescription, '$abort', 'draft', 'ready');
+    }
+
+    console.log(`🗑️ Prescription ${id} cancelled`);
+    return this.updateTask(db, prescription, { status: 'cancelled', secret: null, bundle: null, dispense: null });
+  }
+
+  /**
+   * FHIR Task of a prescription record, as returned by the E-Rezept-Fachdienst
+   * @param {Object} prescription - Stored prescription record
+   * @param {{includeAccessCode?: boolean, includeSecret?: boolean}} [options] - Whether the AccessCode
+   *   (to the prescriber, from $create and $activate) and the Secret (to the pharmacy that accepted it) are returned
+   */
+  toFhirTask(prescription, { includeAccessCode = false, includeSecret = false } = {}) {
+    const identifier = [
+      { use: 'official', system: PRESCRIPTION_ID_SYSTEM, value: prescription.id }
+    ];
+    if (includeAccessCode) {
+      identifier.push({ use: 'official', system: ACCESS_CODE_SYSTEM, value: prescription.accessCode });
+    }
+    if (includeSecret && prescription.secret) {
+      identifier.push({ use: 'official', system: SECRET_SYSTEM, value: prescription.secret });
+    }
+
+    return {
+      resourceType: 'Task',
+      id: prescription.id,
+      meta: { profile: [TASK_PROFILE], lastUpdated: prescription.lastModified },
+      extension: [{
+        url: PRESCRIPTION_TYPE_EXTENSION,
+        valueCoding: { system: FLOW_TYPE_SYSTEM, code: prescription.flowType, display: FLOW_TYPES[prescription.flowType] }
+      }],
+      identifier,
+      status: prescription.status,
+      intent: 'order',
+      authoredOn: prescription.created,
+      lastModified: prescription.lastModified,
+      ...(prescription.owner && { owner: { reference: `Organization/${prescription.owner}` } }),
+      input: prescription.bundle ? [{
+        type: { coding: [{ system: DOCUMENT_TYPE_SYSTEM, code: '1', display: 'Health Care Provider Prescription' }] },
+        valueReference: { reference: `Bundle/${prescription.id}` }
+      }] : []
+    };
+  }
+
+  /**
+   * Receipt ('Quittung') the Fachdienst returns when a prescription is closed
+   */
+  toReceipt(prescription) {
+    return {
+      resourceType: 'Bundle',
+      id: randomUUID(),
+      identifier: { system: PRESCRIPTION_ID_SYSTEM, value: prescription.id },
+      type: 'document',
+      timestamp: prescription.lastModified,
+      entry: [{
+        fullUrl: `urn:uuid:${randomUUID()}`,
+        resource: {
+          resourceType: 'Composition',
+          id: randomUUID(),
+          status: 'final',
+          type: { coding: [{ system: DOCUMENT_TYPE_SYSTEM, code: '3', display: 'Receipt' }] },
+          date: prescription.lastModified,
+          author: [{ reference: `Organization/${prescription.owner}` }],
+          title: 'Quittung',
+          event: [{ period: { start: prescription.imported, end: prescription.lastModified } }]
+        }
+      }]
+    };
+  }
+
+  /**
+   * Import all bundle files in the inbox and move them out of it
+   * @returns {Array<Object>} Result per file: {file, id, created} or {file, error}
+   */
+  processInbox() {
+    if (!existsSync(this.inboxPath)) {
+      return [];
+    }
+
+    const files = readdirSync(this.inboxPath, { withFileTypes: true })
+      .filter(dirent => dirent.isFile() && INBOX_EXTENSIONS.includes(extname(dirent.name).toLowerCase()))
+      .map(dirent => dirent.name)
+      .sort();
+
+    return files.map(file => {
+      try {
+        const { prescription, created } = this.importBundle(
+          readFileSync(join(this.inboxPath, file), 'utf8'), `inbox/${file}`, this.inboxOwner);
+        this.moveInboxFile(file, 'processed');
+        return { file, id: prescription.id, created };
+      } catch (error) {
+        console.warn(`⚠️  Could not import inbox file ${file}: ${error.message}`);
+        this.moveInboxFile(file, 'failed');
+        return { file, error: error.message };
+      }
+    });
+  }
+
+  /**
+   * Move an inbox file into a subfolder; files with the same name are not overwritten
+   */
+  moveInboxFile(file, folder) {
+    const targetPath = join(this.inboxPath, folder);
+    mkdirSync(targetPath, { recursive: true });
+
+    const target = existsSync(join(targetPath, file)) ? `${Date.now()}-${file}` : file;
+    renameSync(join(this.inboxPath, file), join(targetPath, target));
+  }
+
+  /**
+   * Import the files already in the inbox and every file added later; without an
+   * inbox owner the inbox is not watched, as its imports would belong to nobody
+   * @returns {boolean} Whether the inbox is watched
+   */
+  watchInbox() {
+    if (this.watcher) {
+      return true;
+    }
+    if (!this.inboxOwner) {
+      console.warn(`⚠️  PRESCRIPTION_INBOX_OWNER is not set, not watching ${this.inboxPath} for prescription bundles`);
+      return false;
+    }
+
+    mkdirSync(this.inboxPath, { recursive: true });
+    this.processInbox();
+
+    this.watcher = watch(this.inboxPath, (eventType, filename) => {
+      if (filename && !INBOX_EXTENSIONS.includes(extname(filename).toLowerCase())) return;
+
+      clearTimeout(this.scanTimer);
+      this.scanTimer = setTimeout(() => this.processInbox(), INBOX_SCAN_DELAY_MS);
+    });
+    this.watcher.on('error', error => {
+      console.error('Error watching prescription inbox:', error);
+    });
+    console.log(`👀 Watching ${this.inboxPath} for prescription bundles of ${this.inboxOwner}`);
+    return true;
+  }
+
+  /**
+   * Stop watching the inbox
+   */
+  close() {
+    clearTimeout(this.scanTimer);
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+}
+
+/**
+ * Setup prescription service routes
+ * @param {Express} app - Express application instance
+ * @param {Function} registerEndpoint - Function to register endpoints for documentation
+ * @param {FlowService} flowService - Flow service whose database stores the prescriptions
+ * @returns {PrescriptionService} Service instance emitting 'prescription-imported' events
+ */
+export function setupPrescriptionService(app, registerEndpoint, flowService) {
+  const prescriptionService = new PrescriptionService(flowService);
+  prescriptionService.watchInbox();
+
+  const xmlBody = express.text({ type: ['application/fhir+xml', 'application/xml', 'text/xml'], limit: '5mb' });
+
+  // Answer a prescription operation with its FHIR result (204 if there is none);
+  // PrescriptionTaskErrors and PrescriptionImportErrors become client errors
+  const handle = (description, operation, successStatus = 200) => (req, res) => {
+    try {
+      const result = operation(req);
+      if (result === undefined) {
+        return res.status(204).end();
+      }
+      res.status(successStatus).type('application/fhir+json').json(result);
+    } catch (error) {
+      if (error instanceof PrescriptionTaskError) {
+        return res.status(error.status).json({
+          error: { 403: 'Forbidden', 404: 'Not found', 409: 'Conflict', 410: 'Gone' }[error.status] || 'Invalid request',
+          message: error.message
+        });
+      }
+      if (error instanceof PrescriptionImportError) {
+        return res.status(400).json({
+          error: 'Invalid prescription bundle',
+          message: error.message
+        });
+      }
+      console.error(`Error processing ${description}:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+
+  // AccessCode from the X-AccessCode header (prescriber) or the ac query parameter (pharmacy)
+  const accessCodeOf = req => req.get('X-AccessCode') || req.query.ac;
+
+  // GET /Bundle - Prescription bundles the caller imported or prescribed
+  app.get('/Bundle', requireAuth, (req, res) => {
+    try {
+      const prescriptions = prescriptionService.searchPrescriptions(req.auth.telematikId);
+      const baseUrl = `${req.protocol}://${req.get('host')}/Bundle`;
+
+      res.type('application/fhir+json').json({
+        resourceType: 'Bundle',
+        type: 'searchset',
+        total: prescriptions.length,
+        entry: prescriptions.map(prescription => ({
+          fullUrl: `${baseUrl}/${prescription.id}`,
+          resource: prescription.bundle,
+          search: { mode: 'match' }
+        }))
+      });
+    } catch (error) {
+      console.error('Error searching prescriptions:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // POST /Bundle - Import a KBV prescription bundle (FHIR JSON or XML)
+  app.post('/Bundle', requireAuth, xmlBody, (req, res) => {
+    try {
+      const { prescription, created } = prescriptionService.importBundle(
+        req.body, `upload by ${req.auth.telematikId}`, req.auth.telematikId);
+
+      res.status(created ? 201 : 200)
+        .type('application/fhir+json')
+        .json(prescription.bundle);
+    } catch (error) {
+      if (error instanceof PrescriptionImportError) {
+        return res.status(400).json({
+          error: 'Invalid prescription bundle',
+          message: error.message
+        });
+      }
+      console.error('Error importing prescription:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /Bundle/:id - Prescription bundle by PrescriptionId, for participants or with AccessCode or Secret
+  app.get('/Bundle/:id', requireAuth, handle('Bundle read', req =>
+    prescriptionService.getPrescription(req.params.id, req.auth.telematikId, {
+      accessCode: accessCodeOf(req),
+      secret: req.query.secret
+    }).bundle));
+
+  // GET /MedicationRequest - MedicationRequests of the caller's prescriptions
+  app.get('/MedicationRequest', requireAuth, handle('MedicationRequest search', req => {
+    const matches = prescriptionService.searchMedicationRequests({ patient: req.query.patient }, req.auth.telematikId);
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+
+    return {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      total: matches.length,
+      link: [{ relation: 'self', url: `${baseUrl}${req.originalUrl}` }],
+      entry: matches.map(({ prescription, entry }) => ({
+        fullUrl: entry.fullUrl || `${baseUrl}/Bundle/${prescription.id}`,
+        resource: entry.resource,
+        search: { mode: 'match' }
+      }))
+    };
+  }));
+
+  // POST /erp/Task/$create - New prescription Task (Parameters with workflowType)
+  app.post('/erp/Task/\\$create', requireAuth, handle('$create', req => {
+    const workflowType = (req.body?.parameter || []).find(parameter => parameter.name === 'workflowType');
+    const flowType = workflowType?.valueCoding?.code || workflowType?.valueCode || '160';
+    return prescriptionService.toFhirTask(prescriptionService.createTask(flowType, req.auth.telematikId), { includeAccessCode: true });
+  }, 201));
+
+  // GET /erp/Task/:id - Prescription Task, for the holder of its AccessCode or Secret
+  app.get('/erp/Task/:id', requireAuth, handle('Task read', req => {
+    const codes = { accessCode: accessCodeOf(req), secret: req.query.secret };
+    const prescription = prescriptionService.getAuthorizedTask(req.params.id, codes);
+    return prescriptionService.toFhirTask(prescription, { includeSecret: codeMatches(prescription.secret, codes.secret) });
+  }));
+
+  // POST /erp/Task/:id/$activate - Store the prescription bundle (Parameters with ePrescription)
+  app.post('/erp/Task/:id/\\$activate', requireAuth, xmlBody, handle('$activate', req => {
+    const prescription = prescriptionService.activateTask(
+      req.params.id, accessCodeOf(req), ePrescriptionOf(req.body), req.auth.telematikId);
+    return prescriptionService.toFhirTask(prescription, { includeAccessCode: true });
+  }));
+
+  // POST /erp/Task/:id/$accept?ac= - Accept a prescription: Task with Secret and the bundle
+  app.post('/erp/Task/:id/\\$accept', requireAuth, handle('$accept', req => {
+    const prescription = prescriptionService.acceptTask(req.params.id, accessCodeOf(req), req.auth.telematikId);
+    return {
+      resourceType: 'Bundle',
+      id: randomUUID(),
+      type: 'collection',
+      timestamp: prescription.lastModified,
+      entry: [
+        { fullUrl: `Task/${prescription.id}`, resource: prescriptionService.toFhirTask(prescription, { includeSecret: true }) },
+        { fullUrl: `Bundle/${prescription.id}`, resource: prescription.bundle }
+      ]
+    };
+  }));
+
+  // POST /erp/Task/:id/$reject?secret= - Return an accepted prescription
+  app.post('/erp/Task/:id/\\$reject', requireAuth, handle('$reject', req => {
+    prescriptionService.rejectTask(req.params.id, req.query.secret);
+  }));
+
+  // POST /erp/Task/:id/$close?secret= - Complete a prescription (MedicationDispense), returns the receipt
+  app.post('/erp/Task/:id/\\$close', requireAuth, handle('$close', req => {
+    const dispense = req.body && Object.keys(req.body).length > 0 ? req.body : undefined;
+    return prescriptionService.toReceipt(prescriptionService.closeTask(req.params.id, req.query.secret, dispense));
+  }));
+
+  // POST /erp/Task/:id/$abort - Cancel a prescription (AccessCode or Secret)
+  app.post('/erp/Task/:id/\\$abort', requireAuth, handle('$abort', req => {
+    prescriptionService.abortTask(req.params.id, { accessCode: accessCodeOf(req), secret: req.query.secret });
+  }));
+
+  // Register endpoints for documentation
+  registerEndpoint('Prescription Service', 'GET', '/Bundle', 'Get the prescription bundles the caller imported or prescribed');
+  registerEndpoint('Prescription Service', 'POST', '/Bundle', 'Import a KBV prescription bundle (FHIR JSON or XML)');
+  registerEndpoint('Prescription Service', 'GET', '/Bundle/:id', 'Get a prescription bundle by PrescriptionId (participant, AccessCode or Secret)');
+  registerEndpoint('Prescription Service', 'GET', '/MedicationRequest', 'Search the MedicationRequests of the caller\'s prescriptions (patient)');
+  registerEndpoint('Prescription Service', 'POST', '/erp/Task/$create', 'Create a prescription Task with PrescriptionId and AccessCode');
+  registerEndpoint('Prescription Service', 'GET', '/erp/Task/:id', 'Get a prescription Task (AccessCode or Secret)');
+  registerEndpoint('Prescription Service', 'POST', '/erp/Task/:id/$activate', 'Activate a prescription Task with its KBV bundle');
+  registerEndpoint('Prescription Service', 'POST', '/erp/Task/:id/$accept', 'Accept a prescription as pharmacy (AccessCode)');
+  registerEndpoint('Prescription Service', 'POST', '/erp/Task/:id/$reject', 'Return an accepted prescription (Secret)');
+  registerEndpoint('Prescription Service', 'POST', '/erp/Task/:id/$close', 'Complete a prescription with its MedicationDispense (Secret)');
+  registerEndpoint('Prescription Service', 'POST', '/erp/Task/:id/$abort', 'Cancel a prescription (AccessCode or Secret)');
+
+  console.log('✅ Prescription Service module loaded');
+  console.log('💊 Prescription service endpoints configured:');
+  console.log('   GET /Bundle - Get imported prescriptions');
+  console.log('   POST /Bundle - Import prescription bundle');
+  console.log('   GET /Bundle/:id - Get prescription bundle');
+  console.log('   GET /MedicationRequest - Search medication requests');
+  console.log('   POST /erp/Task/$create - Create prescription task');
+  console.log('   GET /erp/Task/:id - Get prescription task');
+  console.log('   POST /erp/Task/:id/$activate - Activate prescription');
+  console.log('   POST /erp/Task/:id/$accept - Accept prescription');
+  console.log('   POST /erp/Task/:id/$reject - Reject prescription');
+  console.log('   POST /erp/Task/:id/$close - Close prescription');
+  console.log('   POST /erp/Task/:id/$abort - Abort prescription');
+
+  return prescriptionService;
+}
+
+export { PrescriptionService, PrescriptionImportError, PrescriptionTaskError };
@@ -0,0 +1,230 @@
+import { readFileSync, readdirSync, existsSync, watch } from 'fs';
+import { join, relative, basename } from 'path';
+import { isDeepStrictEqual } from 'util';
+
+// Delay before reloading after a change in the forms folder; editors write files in several steps
+const RELOAD_DELAY_MS = 200;
+
+/**
+ * Questionnaire Registry Module
+ * Keeps the questionnaires of data/forms in memory, indexed by
+ *   id        - Questionnaire.id
+ *   canonical - Questionnaire.url and Questionnaire.version ('url|version')
+ *   code      - operation code, taken from the file name (<code>-form.json)
+ * Forms are read once at startup and reloaded when the forms folder changes.
+ * If two files define the same id or canonical with different content, the
+ * first file (in path order) is used and the conflict is reported.
+ */
+class QuestionnaireRegistry {
+  /**
+   * @param {string} formsPath - Directory holding the form folders (data/forms)
+   */
+  constructor(formsPath) {
+    this.formsPath = formsPath;
+    this.watcher = null;
+    this.reloadTimer = null;
+    this.load();
+  }
+
+  /**
+   * Read all forms and rebuild the indexes
+   */
+  load() {
+    const entries = [];
+    const errors = [];
+
+    for (const file of this.listFormFiles()) {
+      try {
+        const questionnaire = JSON.parse(readFileSync(join(this.formsPath, file), 'utf8'));
+        if (questionnaire.resourceType !== 'Questionnaire') {
+          errors.push({ file, message: `Not a Questionnaire (resourceType ${questionnaire.resourceType})` });
+          continue;
+        }
+        entries.push({ file, code: basename(file).replace(/-form\.json$/, ''), questionnaire });
+      } catch (error) {
+        errors.push({ file, message: error.message });
+      }
+    }
+
+    const conflicts = [];
+    const index = (name, keyOf) => {
+      const map = new Map();
+      for (const entry of entries) {
+        const key = keyOf(entry);
+        if (!key) continue;
+
+        const existing = map.get(key);
+        if (!existing) {
+          map.set(key, entry);
+        } else if (!isDeepStrictEqual(existing.questionnaire, entry.questionnaire)) {
+          const conflict = conflicts.find(c => c.index === name && c.key === key);
+          if (conflict) {
+            conflict.files.push(entry.file);
+          } else {
+            conflicts.push({ index: name, key, files: [existing.file, entry.file], using: existing.file });
+          }
+        }
+      }
+      return map;
+    };
+
+    this.entries = entries;
+    this.errors = errors;
+    this.conflicts = conflicts;
+    this.byId = index('id', entry => entry.questionnaire.id);
+    this.byCanonical = index('canonical', entry => canonicalKey(entry.questionnaire));
+    this.byCode = index('code', entry => entry.code);
+
+    console.log(`📋 Loaded ${entries.length} questionnaires from ${this.formsPath}`);
+    for (const error of errors) {
+      console.warn(`⚠️  Could not load form ${error.file}: ${error.message}`);
+    }
+    for (const conflict of conflicts) {
+      console.warn(`⚠️  Conflicting questionnaires for ${conflict.index} ${conflict.key}: ${conflict.files.join(', ')} (using ${conflict.using})`);
+    }
+  }
+
+  /**
+   * JSON files in the form folders, relative to the forms directory and in path order
+   */
+  listFormFiles() {
+    if (!existsSync(this.formsPath)) {
+      return [];
+    }
+
+    return readdirSync(this.formsPath, { withFileTypes: true, recursive: true })
+      .filter(dirent => dirent.isFile() && dirent.name.endsWith('.json'))
+      .map(dirent => relative(this.formsPath, join(dirent.parentPath, dirent.name)))
+      .sort();
+  }
+
+  /**
+   * Reload the registry whenever a form is added, changed or removed
+   */
+  watch() {
+    if (this.watcher || !existsSync(this.formsPath)) {
+      return;
+    }
+
+    this.watcher = watch(this.formsPath, { recursive: true }, (eventType, filename) => {
+      if (filename && !filename.endsWith('.json')) return;
+
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        console.log(`🔄 Forms changed (${filename || 'unknown file'}), reloading questionnaires`);
+        this.load();
+      }, RELOAD_DELAY_MS);
+    });
+    this.watcher.on('error', error => {
+      console.error('Error watching forms folder:', error);
+    });
+    console.log(`👀 Watching ${this.formsPath} for form changes`);
+  }
+
+  /**
+   * Stop watching the forms folder
+   */
+  close() {
+    clearTimeout(this.reloadTimer);
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Get questionnaire by Questionnaire.id
+   * @param {string} id - Questionnaire id
+   * @returns {Object|null} Questionnaire or null if not found
+   */
+  getById(id) {
+    return this.byId.get(id)?.questionnaire || null;
+  }
+
+  /**
+   * Get questionnaire by operation code
+   * @param {string} code - Operation code (file name without -form.json)
+   * @returns {Object|null} Questionnaire or null if not found
+   */
+  getByCode(code) {
+    return this.byCode.get(code)?.questionnaire || null;
+  }
+
+  /**
+   * Resolve a canonical URL; without version (in the parameter or as 'url|version') the latest version is returned
+   * @param {string} url - Canonical URL, optionally with '|version'
+   * @param {string} [version] - Questionnaire version
+   * @returns {Object|null} Questionnaire or null if not found
+   */
+  findByUrl(url, version) {
+    return this.search({ url, version })[0] || null;
+  }
+
+  /**
+   * Search questionnaires; all given parameters have to match
+   * @param {Object} params - Search parameters
+   * @param {string} [params.url] - Canonical URL, optionally with '|version'
+   * @param {string} [params.version] - Questionnaire version
+   * @param {string} [params.code] - Operation code
+   * @returns {Array<Object>} Matching questionnaires, latest version first
+   */
+  search({ url, version, code } = {}) {
+    if (url?.includes('|')) {
+      [url, version] = url.split('|');
+    }
+
+    let entries = code ? [this.byCode.get(code)].filter(Boolean) : this.entries;
+
+    if (url || version) {
+      // Only the file used for a canonical answers searches by canonical
+      entries = entries.filter(entry => this.byCanonical.get(canonicalKey(entry.questionnaire)) === entry
+        && (!url || entry.questionnaire.url === url)
+        && (!version || entry.questionnaire.version === version));
+    }
+
+    return [...entries]
+      .sort((a, b) => compareVersions(b.questionnaire.version, a.questionnaire.version))
+      .map(entry => entry.questionnaire);
+  }
+
+  /**
+   * Summary for logging and status output
+   */
+  describe() {
+    return {
+      formsPath: this.formsPath,
+      questionnaires: this.entries.length,
+      errors: this.errors,
+      conflicts: this.conflicts
+    };
+  }
+}
+
+function canonicalKey(questionnaire) {
+  return questionnaire.url ? `${questionnaire.url}|${questionnaire.version || ''}` : null;
+}
+
+/**
+ * Compare versions part by part, numerically where both parts are numbers; a missing version is the oldest
+ */
+function compareVersions(a, b) {
+  if (!a || !b) {
+    return (a ? 1 : 0) - (b ? 1 : 0);
+  }
+
+  const partsA = a.split('.');
+  const partsB = b.split('.');
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i] ?? '0';
+    const partB = partsB[i] ?? '0';
+    const difference = /^\d+$/.test(partA) && /^\d+$/.test(partB)
+      ? Number(partA) - Number(partB)
+      : partA.localeCompare(partB);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+export { QuestionnaireRegistry };
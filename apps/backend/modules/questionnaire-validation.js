@@ -0,0 +1,363 @@
+/**
+ * Questionnaire Validation Module
+ * Validation of a QuestionnaireResponse against its Questionnaire: item structure,
+ * required items, enableWhen, repeats, answer types, maxLength and choice bindings.
+ * Every problem is reported as an OperationOutcome issue whose expression is the
+ * FHIRPath location of the offending item or answer.
+ */
+
+// Answer value[x] element allowed for each item type (https://hl7.org/fhir/R4/questionnaire.html#item-type)
+const ANSWER_TYPES = {
+  boolean: ['valueBoolean'],
+  decimal: ['valueDecimal'],
+  integer: ['valueInteger'],
+  date: ['valueDate'],
+  dateTime: ['valueDateTime'],
+  time: ['valueTime'],
+  string: ['valueString'],
+  text: ['valueString'],
+  url: ['valueUri'],
+  choice: ['valueCoding', 'valueString', 'valueInteger', 'valueDate', 'valueTime'],
+  'open-choice': ['valueCoding', 'valueString', 'valueInteger', 'valueDate', 'valueTime'],
+  attachment: ['valueAttachment'],
+  reference: ['valueReference'],
+  quantity: ['valueQuantity']
+};
+
+const ANSWER_VALUE_KEYS = [
+  'valueBoolean', 'valueDecimal', 'valueInteger', 'valueDate', 'valueDateTime', 'valueTime', 'valueString',
+  'valueUri', 'valueAttachment', 'valueCoding', 'valueQuantity', 'valueReference'
+];
+
+const DATE_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+const DATE_TIME_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00)))?)?)?$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?$/;
+
+/**
+ * Answer options of a choice item: its answerOption list, or the concepts of its
+ * answerValueSet. With a terminology service the value set is expanded (including
+ * hierarchical and canonical value sets); otherwise only the concepts listed in a
+ * value set contained in the questionnaire (or, as in older forms, the item) are known.
+ * @param {TerminologyService} [terminology] - Terminology expanding the answerValueSet
+ * @returns {Array} answerOption-like entries ({ valueCoding } etc.), empty if unknown
+ */
+function getAnswerOptions(item, questionnaire, terminology) {
+  if (item.answerOption?.length > 0) {
+    return item.answerOption;
+  }
+  if (item.answerValueSet && terminology) {
+    return (terminology.getAnswerCodings(item, questionnaire) || []).map(valueCoding => ({ valueCoding }));
+  }
+  if (!item.answerValueSet?.startsWith('#')) {
+    return [];
+  }
+
+  const valueSetId = item.answerValueSet.slice(1);
+  const valueSet = [...(questionnaire?.contained || []), ...(item.contained || [])]
+    .find(resource => resource.resourceType === 'ValueSet' && resource.id === valueSetId);
+
+  const concepts = valueSet?.expansion?.contains
+    || (valueSet?.compose?.include || []).flatMap(include =>
+      (include.concept || []).map(concept => ({ system: include.system, ...concept })));
+
+  return (concepts || []).map(({ system, code, display }) => ({ valueCoding: { system, code, display } }));
+}
+
+/**
+ * The value[x] of an answer, answerOption or enableWhen as [key suffix, value], e.g. ['Coding', {...}]
+ */
+function valueOf(element, prefix) {
+  const key = Object.keys(element || {}).find(k => k.startsWith(prefix) && element[k] !== undefined);
+  return key ? [key.slice(prefix.length), element[key]] : [null, undefined];
+}
+
+/**
+ * Compare two values of the same type; returns a number for ordered types,
+ * 0 for equal values and NaN for values that are neither equal nor ordered
+ */
+function compareValues(type, left, right) {
+  switch (type) {
+    case 'Coding':
+      return left.code === right.code && (!left.system || !right.system || left.system === right.system) ? 0 : NaN;
+    case 'Quantity': {
+      const leftUnit = left.code || left.unit;
+      const rightUnit = right.code || right.unit;
+      if (leftUnit && rightUnit && leftUnit !== rightUnit) return NaN;
+      return left.value - right.value;
+    }
+    case 'Reference':
+      return left.reference === right.reference ? 0 : NaN;
+    case 'Boolean':
+      return left === right ? 0 : NaN;
+    case 'Decimal':
+    case 'Integer':
+      return Number(left) - Number(right);
+    default:
+      return left === right ? 0 : left < right ? -1 : 1;
+  }
+}
+
+/**
+ * Whether the answers of the question fulfil one enableWhen condition
+ */
+function matchesEnableWhen(enableWhen, answers) {
+  const [type, expected] = valueOf(enableWhen, 'answer');
+
+  if (enableWhen.operator === 'exists') {
+    return (answers.length > 0) === (expected === true);
+  }
+
+  // Answers of a different type never match
+  const comparisons = answers
+    .map(answer => valueOf(answer, 'value'))
+    .filter(([answerType]) => answerType === type || (['Decimal', 'Integer'].includes(answerType) && ['Decimal', 'Integer'].includes(type)))
+    .map(([, value]) => compareValues(type, value, expected));
+
+  switch (enableWhen.operator) {
+    case '=':
+      return comparisons.some(result => result === 0);
+    case '!=':
+      return comparisons.every(result => result !== 0);
+    case '>':
+      return comparisons.some(result => result > 0);
+    case '<':
+      return comparisons.some(result => result < 0);
+    case '>=':
+      return comparisons.some(result => result >= 0);
+    case '<=':
+      return comparisons.some(result => result <= 0);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Answers to the question with the given linkId, looked up in the innermost
+ * context first (the items around the item with the condition), then outwards
+ * @param {string} linkId - linkId of the question
+ * @param {Array<Array>} scopes - Response item lists from the root to the current context
+ */
+function findAnswers(linkId, scopes) {
+  const collect = items => (items || []).flatMap(item => [
+    ...(item.linkId === linkId ? item.answer || [] : []),
+    ...collect(item.item),
+    ...(item.answer || []).flatMap(answer => collect(answer.item))
+  ]);
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const found = (scopes[i] || []).some(function contains(item) {
+      return item.linkId === linkId || (item.item || []).some(contains)
+        || (item.answer || []).some(answer => (answer.item || []).some(contains));
+    });
+    if (found) {
+      return collect(scopes[i]);
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Whether an item is enabled by its enableWhen conditions
+ * @param {Object} item - Questionnaire item
+ * @param {Array<Array>} scopes - Response item lists from the root to the item's context
+ */
+function isItemEnabled(item, scopes) {
+  if (!item.enableWhen?.length) {
+    return true;
+  }
+
+  const results = item.enableWhen.map(condition => matchesEnableWhen(condition, findAnswers(condition.question, scopes)));
+  return item.enableBehavior === 'any' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Validate a QuestionnaireResponse against its Questionnaire
+ * @param {Object} questionnaire - FHIR Questionnaire
+ * @param {Object} questionnaireResponse - FHIR QuestionnaireResponse
+ * @param {TerminologyService} [terminology] - Terminology for the answerValueSets of choice items
+ * @returns {Object} OperationOutcome; without errors it holds a single information issue
+ */
+function validateQuestionnaireResponse(questionnaire, questionnaireResponse, terminology) {
+  const issues = [];
+
+  const addIssue = (code, expression, text, diagnostics) => {
+    issues.push({
+      severity: 'error',
+      code,
+      details: { text },
+      ...(diagnostics ? { diagnostics } : {}),
+      expression: [expression]
+    });
+  };
+
+  const validateAnswer = (item, answer, path) => {
+    const valueKeys = ANSWER_VALUE_KEYS.filter(key => answer[key] !== undefined);
+    if (valueKeys.length !== 1) {
+      addIssue('structure', path, `Answer to '${item.linkId}' must contain exactly one value`);
+      return;
+    }
+
+    const [key] = valueKeys;
+    const value = answer[key];
+    const allowedKeys = ANSWER_TYPES[item.type] || [];
+    if (!allowedKeys.includes(key)) {
+      addIssue('value', path, `'${item.linkId}' is of type ${item.type} and cannot be answered with ${key}`);
+      return;
+    }
+
+    const invalid = text => addIssue('value', path, text, `Value: ${JSON.stringify(value)}`);
+
+    switch (key) {
+      case 'valueBoolean':
+        if (typeof value !== 'boolean') invalid(`Answer to '${item.linkId}' is not a boolean`);
+        break;
+      case 'valueInteger':
+        if (!Number.isInteger(value)) invalid(`Answer to '${item.linkId}' is not an integer`);
+        break;
+      case 'valueDecimal':
+        if (typeof value !== 'number' || !Number.isFinite(value)) invalid(`Answer to '${item.linkId}' is not a decimal`);
+        break;
+      case 'valueDate':
+        if (typeof value !== 'string' || !DATE_PATTERN.test(value)) invalid(`Answer to '${item.linkId}' is not a valid date`);
+        break;
+      case 'valueDateTime':
+        if (typeof value !== 'string' || !DATE_TIME_PATTERN.test(value)) invalid(`Answer to '${item.linkId}' is not a valid dateTime`);
+        break;
+      case 'valueTime':
+        if (typeof value !== 'string' || !TIME_PATTERN.test(value)) invalid(`Answer to '${item.linkId}' is not a valid time`);
+        break;
+      case 'valueString':
+      case 'valueUri':
+        if (typeof value !== 'string' || value.trim() === '') {
+          invalid(`Answer to '${item.linkId}' must be a non-empty string`);
+        } else if (item.maxLength && value.length > item.maxLength) {
+          invalid(`Answer to '${item.linkId}' exceeds the maximum length of ${item.maxLength} characters`);
+        }
+        break;
+      case 'valueQuantity':
+        if (typeof value?.value !== 'number') invalid(`Answer to '${item.linkId}' is a Quantity without numeric value`);
+        break;
+      case 'valueCoding':
+        if (!value?.code) invalid(`Answer to '${item.linkId}' is a Coding without code`);
+        break;
+      case 'valueReference':
+        if (!value?.reference && !value?.identifier && !value?.display) invalid(`Answer to '${item.linkId}' is an empty Reference`);
+        break;
+      default:
+        break;
+    }
+
+    // Choice bindings: a free text answer is only allowed for open-choice items
+    if (item.type === 'choice' || item.type === 'open-choice') {
+      const options = getAnswerOptions(item, questionnaire, terminology);
+      if (options.length === 0) {
+        return;
+      }
+
+      const [type, answerValue] = valueOf(answer, 'value');
+      const isOption = options.some(option => {
+        const [optionType, optionValue] = valueOf(option, 'value');
+        return optionType === type && compareValues(type, answerValue, optionValue) === 0;
+      });
+
+      if (!isOption && !(item.type === 'open-choice' && key === 'valueString')) {
+        addIssue('code-invalid', path, `Answer to '${item.linkId}' is not one of the permitted options`,
+          `Permitted: ${options.map(option => {
+            const [, optionValue] = valueOf(option, 'value');
+            return optionValue?.code ?? optionValue;
+          }).join(', ')}`);
+      }
+    }
+  };
+
+  const hasAnswer = responseItem => (responseItem.answer || []).length > 0
+    || (responseItem.item || []).some(hasAnswer);
+
+  // Validate the response items of one level against the questionnaire items of that level
+  const validateItems = (questionnaireItems = [], responseItems = [], path, scopes) => {
+    const itemScopes = [...scopes, responseItems];
+
+    for (const responseItem of responseItems) {
+      if (!questionnaireItems.some(item => item.linkId === responseItem.linkId)) {
+        addIssue('structure', `${path}.item.where(linkId='${responseItem.linkId}')`,
+          `Item '${responseItem.linkId}' is not defined at this position in the questionnaire`);
+      }
+    }
+
+    for (const item of questionnaireItems) {
+      const occurrences = responseItems.filter(responseItem => responseItem.linkId === item.linkId);
+      const itemPath = `${path}.item.where(linkId='${item.linkId}')`;
+      const enabled = isItemEnabled(item, itemScopes);
+
+      if (!enabled) {
+        if (occurrences.some(hasAnswer)) {
+          addIssue('business-rule', itemPath, `'${item.linkId}' is not enabled (enableWhen) but has been answered`);
+        }
+        continue;
+      }
+
+      if (item.type === 'display') {
+        continue;
+      }
+
+      if (item.required && !occurrences.some(hasAnswer)) {
+        addIssue('required', itemPath, item.type === 'group'
+          ? `Required group '${item.linkId}' has no answered items`
+          : `Required item '${item.linkId}' has no answer`, item.text);
+      }
+
+      // Only repeating groups occur more than once, repeating questions have several answers instead
+      if (occurrences.length > 1 && !(item.type === 'group' && item.repeats)) {
+        addIssue('structure', itemPath, `'${item.linkId}' does not repeat but occurs ${occurrences.length} times`);
+      }
+
+      occurrences.forEach((responseItem, index) => {
+        const occurrencePath = occurrences.length > 1 ? `${itemPath}[${index}]` : itemPath;
+        const answers = responseItem.answer || [];
+
+        if (item.type === 'group') {
+          if (answers.length > 0) {
+            addIssue('structure', occurrencePath, `Group '${item.linkId}' cannot have answers`);
+          }
+          validateItems(item.item, responseItem.item, occurrencePath, itemScopes);
+          return;
+        }
+
+        if (!item.repeats && answers.length > 1) {
+          addIssue('structure', occurrencePath, `'${item.linkId}' does not repeat but has ${answers.length} answers`);
+        }
+
+        answers.forEach((answer, answerIndex) => {
+          const answerPath = `${occurrencePath}.answer[${answerIndex}]`;
+          validateAnswer(item, answer, answerPath);
+          if (answer.item) {
+            validateItems(item.item, answer.item, answerPath, [...itemScopes, answer.item]);
+          }
+        });
+      });
+    }
+  };
+
+  if (questionnaireResponse?.resourceType !== 'QuestionnaireResponse') {
+    addIssue('structure', 'QuestionnaireResponse', 'Resource is not a QuestionnaireResponse');
+  } else {
+    validateItems(questionnaire.item, questionnaireResponse.item, 'QuestionnaireResponse', []);
+  }
+
+  return {
+    resourceType: 'OperationOutcome',
+    issue: issues.length > 0
+      ? issues
+      : [{ severity: 'information', code: 'informational', details: { text: 'No issues detected during validation' } }]
+  };
+}
+
+/**
+ * Whether an OperationOutcome of validateQuestionnaireResponse contains errors
+ */
+function hasValidationErrors(outcome) {
+  return outcome.issue.some(issue => issue.severity === 'error' || issue.severity === 'fatal');
+}
+
+export { validateQuestionnaireResponse, hasValidationErrors, isItemEnabled, getAnswerOptions };
@@ -0,0 +1,340 @@
+import { v4 as uuidv4 } from 'uuid';
+import { requireAuth } from './auth-service.js';
+import { TaskSearchError, parseTaskSearch, matchesTaskSearch } from './task-search.js';
+
+/**
+ * Error for Subscription resources that cannot be accepted (HTTP 400)
+ */
+class SubscriptionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+/**
+ * Subscription Service Module
+ * FHIR R4B-style subscriptions on Task changes. Clients register a
+ * Subscription with Task search criteria (e.g. Task?owner=<telematik-id>) and
+ * receive subscription-notification Bundles over a Server-Sent Events stream.
+ * Subscriptions with the criteria 'Bundle' are notified of imported
+ * prescription bundles instead, if their owner prescribed or imported them.
+ * Subscriptions live in memory and end when they are deleted, when their
+ * last stream closes or with the backend process.
+ */
+class SubscriptionService {
+  constructor(flowService, prescriptionService = null) {
+    this.flowService = flowService;
+    this.prescriptionService = prescriptionService;
+    this.subscriptions = new Map();
+    this.heartbeatPeriod = Number(process.env.SUBSCRIPTION_HEARTBEAT_PERIOD || 30);
+
+    this.flowService.on('task-changed', (event) => this.notify(event));
+    prescriptionService?.on('prescription-imported', (event) => this.notifyPrescription(event));
+  }
+
+  /**
+   * Create a subscription for the authenticated owner
+   * @throws {SubscriptionError} If the resource or its criteria are invalid
+   */
+  createSubscription(resource, owner) {
+    if (!resource || resource.resourceType !== 'Subscription') {
+      throw new SubscriptionError('Request body must be a FHIR Subscription resource');
+    }
+
+    const criteria = resource.criteria;
+    if (typeof criteria !== 'string' || !/^(Task(\?|$)|Bundle$)/.test(criteria)) {
+      throw new SubscriptionError('Subscription criteria must be a Task search (e.g. Task?owner=<telematik-id>) or Bundle');
+    }
+
+    const channelType = resource.channel?.type || 'sse';
+    if (channelType !== 'sse') {
+      throw new SubscriptionError(`Unsupported channel type: ${channelType} (supported: sse)`);
+    }
+
+    // Repeated parameters are kept as arrays, as Express parses them for GET /Task
+    const query = {};
+    for (const [name, value] of new URLSearchParams(criteria.split('?')[1] || '')) {
+      query[name] = name in query ? [].concat(query[name], value) : value;
+    }
+    let search = null;
+    try {
+      if (criteria.startsWith('Task')) {
+        search = parseTaskSearch(query);
+      }
+    } catch (error) {
+      if (error instanceof TaskSearchError) {
+        throw new SubscriptionError(error.message);
+      }
+      throw error;
+    }
+
+    const subscription = {
+      id: uuidv4(),
+      owner,
+      criteria,
+      reason: resource.reason || (search ? 'Task changes' : 'Imported prescriptions'),
+      search,
+      eventsSinceSubscriptionStart: 0,
+      created: new Date().toISOString(),
+      streams: new Set()
+    };
+
+    this.subscriptions.set(subscription.id, subscription);
+    console.log(`🔔 Subscription ${subscription.id} created for ${owner}: ${criteria}`);
+    return subscription;
+  }
+
+  /**
+   * Get a subscription by ID
+   */
+  getSubscription(id) {
+    return this.subscriptions.get(id) || null;
+  }
+
+  /**
+   * Delete a subscription and close its open streams
+   */
+  deleteSubscription(id) {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return false;
+
+    for (const stream of subscription.streams) {
+      stream.end();
+    }
+    this.subscriptions.delete(id);
+    console.log(`🔕 Subscription ${id} deleted`);
+    return true;
+  }
+
+  /**
+   * FHIR representation of a subscription
+   */
+  toFhirSubscription(subscription) {
+    return {
+      resourceType: 'Subscription',
+      id: subscription.id,
+      status: subscription.streams.size > 0 ? 'active' : 'requested',
+      reason: subscription.reason,
+      criteria: subscription.criteria,
+      channel: {
+        type: 'sse',
+        endpoint: `/Subscription/${subscription.id}/$events`,
+        payload: 'application/fhir+json'
+      }
+    };
+  }
+
+  /**
+   * Build an R4B-style subscription-notification Bundle
+   * @param {Object} subscription - Subscription the notification is sent for
+   * @param {string} type - handshake | heartbeat | event-notification
+   * @param {Object} [focus] - Changed resource for event notifications: {reference, resource, timestamp}
+   */
+  buildNotification(subscription, type, focus = null) {
+    const status = {
+      resourceType: 'SubscriptionStatus',
+      status: 'active',
+      type,
+      eventsSinceSubscriptionStart: String(subscription.eventsSinceSubscriptionStart),
+      subscription: { reference: `Subscription/${subscription.id}` },
+      ...(focus && {
+        notificationEvent: [{
+          eventNumber: String(subscription.eventsSinceSubscriptionStart),
+          timestamp: focus.timestamp,
+          focus: { reference: focus.reference }
+        }]
+      })
+    };
+
+    const entry = [{ fullUrl: `urn:uuid:${uuidv4()}`, resource: status }];
+    if (focus) {
+      entry.push({ fullUrl: focus.reference, resource: focus.resource });
+    }
+
+    return {
+      resourceType: 'Bundle',
+      id: uuidv4(),
+      type: 'subscription-notification',
+      timestamp: new Date().toISOString(),
+      entry
+    };
+  }
+
+  /**
+   * Write a notification to a Server-Sent Events stream
+   */
+  send(stream, type, bundle) {
+    stream.write(`event: ${type}\n`);
+    stream.write(`data: ${JSON.stringify(bundle)}\n\n`);
+  }
+
+  /**
+   * Attach a Server-Sent Events stream to a subscription
+   * Sends a handshake right away and heartbeats until the client disconnects.
+   * The subscription ends with its last stream; clients subscribe again to reconnect.
+   */
+  openStream(subscription, req, res) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    subscription.streams.add(res);
+    this.send(res, 'handshake', this.buildNotification(subscription, 'handshake'));
+
+    const heartbeat = setInterval(() => {
+      this.send(res, 'heartbeat', this.buildNotification(subscription, 'heartbeat'));
+    }, this.heartbeatPeriod * 1000);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      subscription.streams.delete(res);
+      if (subscription.streams.size === 0) {
+        this.deleteSubscription(subscription.id);
+      }
+    });
+  }
+
+  /**
+   * Notify all subscriptions whose owner takes part in the changed task
+   * and whose criteria match it
+   */
+  notify({ task, operation }) {
+    const fhirTask = this.flowService.toFhirTask(task);
+    const matchesParticipant = (participant, value) => this.flowService.matchesParticipant(participant, value);
+    const focus = { reference: `Task/${task.id}`, resource: fhirTask, timestamp: task.updated };
+
+    for (const subscription of this.subscriptions.values()) {
+      if (!subscription.search) continue;
+      if (!this.flowService.isParticipant(task, subscription.owner)) continue;
+      if (!matchesTaskSearch(task, fhirTask, subscription.search, matchesParticipant)) continue;
+
+      this.sendEvent(subscription, focus);
+      console.log(`📣 Notified subscription ${subscription.id} about ${operation} on task ${task.id}`);
+    }
+  }
+
+  /**
+   * Notify all Bundle subscriptions whose owner prescribed or imported
+   * the imported prescription bundle
+   */
+  notifyPrescription({ prescription }) {
+    const focus = { reference: `Bundle/${prescription.id}`, resource: prescription.bundle, timestamp: prescription.imported };
+
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.search) continue;
+      if (!this.prescriptionService.isParticipant(prescription, subscription.owner)) continue;
+
+      this.sendEvent(subscription, focus);
+      console.log(`📣 Notified subscription ${subscription.id} about imported prescription ${prescription.id}`);
+    }
+  }
+
+  /**
+   * Send an event notification to all streams of a subscription
+   */
+  sendEvent(subscription, focus) {
+    subscription.eventsSinceSubscriptionStart += 1;
+    const bundle = this.buildNotification(subscription, 'event-notification', focus);
+    for (const stream of subscription.streams) {
+      this.send(stream, 'event-notification', bundle);
+    }
+  }
+}
+
+/**
+ * Setup subscription service routes
+ * @param {Express} app - Express application instance
+ * @param {Function} registerEndpoint - Function to register endpoints for documentation
+ * @param {FlowService} flowService - Flow service whose task changes are published
+ * @param {PrescriptionService} [prescriptionService] - Prescription service whose imports are published
+ */
+export function setupSubscriptionService(app, registerEndpoint, flowService, prescriptionService = null) {
+  const subscriptionService = new SubscriptionService(flowService, prescriptionService);
+
+  // Look up a subscription of the authenticated caller.
+  // Sends 404 / 403 and returns null if it cannot be accessed.
+  const findOwnSubscription = (req, res) => {
+    const subscription = subscriptionService.getSubscription(req.params.id);
+    if (!subscription) {
+      res.status(404).json({
+        error: 'Subscription not found',
+        message: `Subscription with ID ${req.params.id} does not exist`
+      });
+      return null;
+    }
+
+    if (subscription.owner !== req.auth.telematikId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `Subscription/${subscription.id} belongs to another telematik-ID`
+      });
+      return null;
+    }
+
+    return subscription;
+  };
+
+  // POST /Subscription - Subscribe to changes of the caller's tasks
+  app.post('/Subscription', requireAuth, (req, res) => {
+    try {
+      const subscription = subscriptionService.createSubscription(req.body, req.auth.telematikId);
+
+      res.status(201)
+        .location(`/Subscription/${subscription.id}`)
+        .type('application/fhir+json')
+        .json(subscriptionService.toFhirSubscription(subscription));
+    } catch (error) {
+      if (error instanceof SubscriptionError) {
+        return res.status(400).json({
+          error: 'Invalid Subscription',
+          message: error.message
+        });
+      }
+      console.error('Error creating subscription:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // GET /Subscription/:id - Read a subscription
+  app.get('/Subscription/:id', requireAuth, (req, res) => {
+    const subscription = findOwnSubscription(req, res);
+    if (!subscription) return;
+
+    res.type('application/fhir+json').json(subscriptionService.toFhirSubscription(subscription));
+  });
+
+  // DELETE /Subscription/:id - End a subscription
+  app.delete('/Subscription/:id', requireAuth, (req, res) => {
+    const subscription = findOwnSubscription(req, res);
+    if (!subscription) return;
+
+    subscriptionService.deleteSubscription(subscription.id);
+    res.status(204).end();
+  });
+
+  // GET /Subscription/:id/$events - Server-Sent Events stream of notifications
+  app.get('/Subscription/:id/\\$events', requireAuth, (req, res) => {
+    const subscription = findOwnSubscription(req, res);
+    if (!subscription) return;
+
+    subscriptionService.openStream(subscription, req, res);
+  });
+
+  // Register endpoints for documentation
+  registerEndpoint('Subscription Service', 'POST', '/Subscription', 'Subscribe to task changes or imported prescriptions');
+  registerEndpoint('Subscription Service', 'GET', '/Subscription/:id', 'Get subscription');
+  registerEndpoint('Subscription Service', 'DELETE', '/Subscription/:id', 'Delete subscription');
+  registerEndpoint('Subscription Service', 'GET', '/Subscription/:id/$events', 'Server-Sent Events notification stream');
+
+  console.log('✅ Subscription Service module loaded');
+  console.log('🔔 Subscription service endpoints configured:');
+  console.log('   POST /Subscription - Subscribe to task changes or imported prescriptions');
+  console.log('   GET /Subscription/:id - Get subscription');
+  console.log('   DELETE /Subscription/:id - Delete subscription');
+  console.log('   GET /Subscription/:id/$events - Notification stream (SSE)');
+}
+
+export { SubscriptionService, SubscriptionError };
@@ -0,0 +1,241 @@
+/**
+ * Task Search Module
+ * FHIR search parameter handling for GET /Task: parsing of the query,
+ * matching of stored tasks, sorting and paging.
+ */
+
+// Supported FHIR date prefixes (https://hl7.org/fhir/R4/search.html#prefix)
+const DATE_PREFIXES = ['eq', 'ne', 'gt', 'lt', 'ge', 'le', 'sa', 'eb'];
+
+// Sortable search parameters and the stored task field they sort by
+const SORT_FIELDS = {
+  'authored-on': 'created',
+  'modified': 'updated',
+  '_lastUpdated': 'updated',
+  'status': 'status',
+  'business-status': 'status'
+};
+
+const DEFAULT_SORT = [{ field: 'created', descending: true }];
+
+// Search parameters carried over into paging links; any other query parameter
+// (e.g. the access_token of EventSource clients) is left out
+const SEARCH_PARAMETERS = [
+  'user', 'status', 'business-status', 'requester', 'owner', 'code',
+  'authored-on', 'modified', '_sort', '_count', '_include'
+];
+
+/**
+ * Error for search parameters that cannot be processed (HTTP 400)
+ */
+class TaskSearchError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TaskSearchError';
+  }
+}
+
+/**
+ * Normalize a query parameter to a list of values; repeated parameters
+ * are AND-ed, comma-separated values within one parameter are OR-ed
+ */
+function toValueLists(value) {
+  if (value === undefined) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(v => String(v).split(',').map(part => part.trim()).filter(Boolean));
+}
+
+/**
+ * Parse a FHIR date search value (e.g. "ge2024-01-01") into a prefix and
+ * the time range [start, end) covered by the precision of the value
+ */
+function parseDateValue(name, raw) {
+  const prefix = DATE_PREFIXES.find(p => raw.startsWith(p)) || 'eq';
+  const value = raw.startsWith(prefix) ? raw.slice(prefix.length) : raw;
+
+  let start;
+  let end;
+  if (/^\d{4}$/.test(value)) {
+    start = Date.UTC(Number(value), 0, 1);
+    end = Date.UTC(Number(value) + 1, 0, 1);
+  } else if (/^\d{4}-\d{2}$/.test(value)) {
+    const [year, month] = value.split('-').map(Number);
+    start = Date.UTC(year, month - 1, 1);
+    end = Date.UTC(year, month, 1);
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    start = Date.parse(`${value}T00:00:00Z`);
+    end = start + 24 * 60 * 60 * 1000;
+  } else {
+    start = Date.parse(value);
+    end = start + 1;
+  }
+
+  if (Number.isNaN(start)) {
+    throw new TaskSearchError(`Invalid date value for ${name}: ${raw}`);
+  }
+
+  return { prefix, start, end };
+}
+
+/**
+ * Check a timestamp against a parsed date search value
+ */
+function matchesDate(timestamp, { prefix, start, end }) {
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) return false;
+
+  switch (prefix) {
+    case 'eq': return time >= start && time < end;
+    case 'ne': return time < start || time >= end;
+    case 'gt':
+    case 'sa': return time >= end;
+    case 'lt':
+    case 'eb': return time < start;
+    case 'ge': return time >= start;
+    case 'le': return time < end;
+    default: return false;
+  }
+}
+
+/**
+ * Parse the FHIR search parameters of a GET /Task request
+ * @param {Object} query - Express query object
+ * @returns {Object} Parsed search criteria
+ */
+function parseTaskSearch(query) {
+  const search = {
+    user: query.user,
+    status: toValueLists(query.status),
+    businessStatus: toValueLists(query['business-status']),
+    requester: toValueLists(query.requester),
+    owner: toValueLists(query.owner),
+    code: toValueLists(query.code),
+    authoredOn: toValueLists(query['authored-on']).flat().map(v => parseDateValue('authored-on', v)),
+    modified: toValueLists(query.modified).flat().map(v => parseDateValue('modified', v)),
+    sort: DEFAULT_SORT,
+    count: null,
+    offset: 0,
+    includeInput: false
+  };
+
+  if (query._sort) {
+    search.sort = String(query._sort).split(',').map(param => {
+      const descending = param.startsWith('-');
+      const name = descending ? param.slice(1) : param;
+      if (!SORT_FIELDS[name]) {
+        throw new TaskSearchError(`Unsupported _sort parameter: ${name} (supported: ${Object.keys(SORT_FIELDS).join(', ')})`);
+      }
+      return { field: SORT_FIELDS[name], descending };
+    });
+  }
+
+  if (query._count !== undefined) {
+    const count = Number(query._count);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new TaskSearchError(`Invalid _count value: ${query._count}`);
+    }
+    search.count = count;
+  }
+
+  if (query._offset !== undefined) {
+    const offset = Number(query._offset);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new TaskSearchError(`Invalid _offset value: ${query._offset}`);
+    }
+    search.offset = offset;
+  }
+
+  if (query._include) {
+    const includes = Array.isArray(query._include) ? query._include : [query._include];
+    for (const include of includes) {
+      if (include !== 'Task:input') {
+        throw new TaskSearchError(`Unsupported _include: ${include} (supported: Task:input)`);
+      }
+      search.includeInput = true;
+    }
+  }
+
+  return search;
+}
+
+/**
+ * Check whether a task matches the criteria of a parsed search
+ * @param {Object} task - Stored task
+ * @param {Object} fhirTask - FHIR representation of the task
+ * @param {Object} search - Parsed search criteria
+ * @param {Function} matchesParticipant - (participant, value) => boolean
+ */
+function matchesTaskSearch(task, fhirTask, search, matchesParticipant) {
+  const anyOf = (values, predicate) => values.some(predicate);
+  // Stored participants are kept with or without Organization/, search values may be given either way
+  const toTelematikId = (value) => value.replace(/^Organization\//, '');
+
+  return search.status.every(values => anyOf(values, v => fhirTask.status === v))
+    && search.businessStatus.every(values => anyOf(values, v => task.status === v))
+    && search.requester.every(values => anyOf(values, v => matchesParticipant(task.requester, toTelematikId(v))))
+    && search.owner.every(values => anyOf(values, v => matchesParticipant(task.owner, toTelematikId(v))))
+    && search.code.every(values => anyOf(values, v => {
+      if (!task.code) return false;
+      const [system, code] = v.includes('|') ? v.split('|') : [null, v];
+      return task.code.code === code && (!system || task.code.system === system);
+    }))
+    && search.authoredOn.every(date => matchesDate(task.created, date))
+    && search.modified.every(date => matchesDate(task.updated, date));
+}
+
+/**
+ * Sort tasks according to the parsed _sort criteria
+ */
+function sortTasks(tasks, sort) {
+  return [...tasks].sort((a, b) => {
+    for (const { field, descending } of sort) {
+      const left = a[field] || '';
+      const right = b[field] || '';
+      if (left !== right) {
+        const order = left < right ? -1 : 1;
+        return descending ? -order : order;
+      }
+    }
+    return Number(a.id) - Number(b.id);
+  });
+}
+
+/**
+ * Build the self/next/previous links of a searchset Bundle from the
+ * supported search parameters of the query
+ * @param {string} baseUrl - URL of the search endpoint without query
+ * @param {Object} query - Express query object
+ * @param {Object} search - Parsed search criteria
+ * @param {number} total - Number of matching tasks
+ */
+function buildPagingLinks(baseUrl, query, search, total) {
+  const urlWithOffset = (offset) => {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(query)) {
+      if (!SEARCH_PARAMETERS.includes(name)) continue;
+      for (const v of Array.isArray(value) ? value : [value]) {
+        params.append(name, v);
+      }
+    }
+    if (offset > 0) {
+      params.append('_offset', String(offset));
+    }
+    const queryString = params.toString();
+    return queryString ? `${baseUrl}?${queryString}` : baseUrl;
+  };
+
+  const links = [{ relation: 'self', url: urlWithOffset(search.offset) }];
+
+  if (search.count !== null && search.count > 0) {
+    if (search.offset + search.count < total) {
+      links.push({ relation: 'next', url: urlWithOffset(search.offset + search.count) });
+    }
+    if (search.offset > 0) {
+      links.push({ relation: 'previous', url: urlWithOffset(Math.max(0, search.offset - search.count)) });
+    }
+  }
+
+  return links;
+}
+
+export { TaskSearchError, parseTaskSearch, matchesTaskSearch, sortTasks, buildPagingLinks };
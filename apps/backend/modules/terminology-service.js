@@ -0,0 +1,471 @@
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Canonical of the value set with all concepts of a code system (https://hl7.org/fhir/R4/codesystem.html#implicit)
+const IMPLICIT_VALUE_SET_SUFFIX = '?fhir_vs';
+
+/**
+ * Error of a terminology operation, answered with its HTTP status
+ */
+class TerminologyError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {number} status - HTTP status (400 invalid parameters, 404 unknown resource, 422 not expandable)
+   */
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'TerminologyError';
+    this.status = status;
+  }
+}
+
+/**
+ * Terminology Service Module
+ * FHIR terminology operations on the CodeSystems in data/codesystems and the
+ * ValueSets contained in the forms: CodeSystem read/search, $lookup and
+ * $validate-code, ValueSet $expand and $validate-code.
+ */
+class TerminologyService {
+  /**
+   * @param {QuestionnaireRegistry} [questionnaireRegistry] - Forms whose contained ValueSets can be expanded by context
+   * @param {string} [codeSystemsPath] - Directory holding the CodeSystem files (default: data/codesystems)
+   */
+  constructor(questionnaireRegistry = null, codeSystemsPath = join(__dirname, '..', 'data', 'codesystems')) {
+    this.questionnaireRegistry = questionnaireRegistry;
+    this.codeSystemsPath = codeSystemsPath;
+    this.load();
+  }
+
+  /**
+   * Read all CodeSystems
+   */
+  load() {
+    this.codeSystems = [];
+
+    if (!existsSync(this.codeSystemsPath)) {
+      return;
+    }
+
+    for (const file of readdirSync(this.codeSystemsPath).filter(name => name.endsWith('.json')).sort()) {
+      try {
+        const resource = JSON.parse(readFileSync(join(this.codeSystemsPath, file), 'utf8'));
+        if (resource.resourceType === 'CodeSystem') {
+          this.codeSystems.push(resource);
+        }
+      } catch (error) {
+        console.warn(`Warning: Could not parse CodeSystem ${file}:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Search CodeSystems; all given parameters have to match
+   * @param {Object} params - Search parameters (_id, url, version, name, code)
+   * @returns {Array<Object>} Matching CodeSystems
+   */
+  searchCodeSystems({ _id, url, version, name, code } = {}) {
+    return this.codeSystems.filter(codeSystem =>
+      (!_id || codeSystem.id === _id)
+      && (!url || codeSystem.url === url)
+      && (!version || codeSystem.version === version)
+      && (!name || codeSystem.name?.toLowerCase().startsWith(name.toLowerCase()))
+      && (!code || findConcept(codeSystem.concept, code)));
+  }
+
+  /**
+   * Get CodeSystem by id
+   * @returns {Object|null} CodeSystem or null if not found
+   */
+  getCodeSystem(id) {
+    return this.codeSystems.find(codeSystem => codeSystem.id === id) || null;
+  }
+
+  /**
+   * Get CodeSystem by canonical URL, optionally of a given version
+   * @returns {Object|null} CodeSystem or null if not found
+   */
+  findCodeSystem(url, version) {
+    return this.codeSystems.find(codeSystem => codeSystem.url === url && (!version || codeSystem.version === version)) || null;
+  }
+
+  /**
+   * CodeSystem $lookup: details of a code
+   * @returns {Object} FHIR Parameters with name, version, display and the parent/child properties
+   */
+  lookup({ system, code, version }) {
+    if (!system || !code) {
+      throw new TerminologyError('Parameters system and code are required');
+    }
+
+    const codeSystem = this.findCodeSystem(system, version);
+    if (!codeSystem) {
+      throw new TerminologyError(`Unknown code system: ${system}${version ? `|${version}` : ''}`, 404);
+    }
+
+    const path = findConceptPath(codeSystem.concept, code);
+    if (!path) {
+      throw new TerminologyError(`Code '${code}' not found in ${system}`, 404);
+    }
+
+    const concept = path[path.length - 1];
+    const parent = path[path.length - 2];
+
+    return {
+      resourceType: 'Parameters',
+      parameter: [
+        { name: 'name', valueString: codeSystem.name || codeSystem.title || codeSystem.id },
+        ...(codeSystem.version ? [{ name: 'version', valueString: codeSystem.version }] : []),
+        ...(concept.display ? [{ name: 'display', valueString: concept.display }] : []),
+        ...(concept.definition ? [{ name: 'definition', valueString: concept.definition }] : []),
+        ...(parent ? [propertyParameter('parent', parent.code)] : []),
+        ...(concept.concept || []).map(child => propertyParameter('child', child.code))
+      ]
+    };
+  }
+
+  /**
+   * CodeSystem $validate-code: whether a code (and display) is defined by a code system
+   * @returns {Object} FHIR Parameters with result, message and display
+   */
+  validateCodeSystemCode({ url, code, version, display }) {
+    if (!url || !code) {
+      throw new TerminologyError('Parameters url and code are required');
+    }
+
+    const codeSystem = this.findCodeSystem(url, version);
+    if (!codeSystem) {
+      throw new TerminologyError(`Unknown code system: ${url}${version ? `|${version}` : ''}`, 404);
+    }
+
+    return validationResult(findConcept(codeSystem.concept, code), { system: url, code, display });
+  }
+
+  /**
+   * Resolve a ValueSet by canonical URL or by the context it is used in
+   * @param {Object} params - Operation parameters
+   * @param {string} [params.url] - ValueSet canonical; '<code system url>?fhir_vs' or the valueSet of a code system
+   * @param {string} [params.context] - '<questionnaire url>#<linkId>', the answerValueSet of that item
+   * @returns {Object} ValueSet
+   */
+  resolveValueSet({ url, context }) {
+    if (context) {
+      const [questionnaireUrl, linkId] = context.split('#');
+      const questionnaire = this.questionnaireRegistry?.findByUrl(questionnaireUrl);
+      if (!questionnaire) {
+        throw new TerminologyError(`Unknown questionnaire: ${questionnaireUrl}`, 404);
+      }
+
+      const item = findItem(questionnaire.item, linkId);
+      if (!item?.answerValueSet) {
+        throw new TerminologyError(`Item '${linkId}' of ${questionnaireUrl} has no answerValueSet`, 404);
+      }
+      return this.resolveAnswerValueSet(item, questionnaire);
+    }
+
+    if (!url) {
+      throw new TerminologyError('Parameter url or context is required');
+    }
+
+    const codeSystem = this.codeSystems.find(candidate =>
+      url === `${candidate.url}${IMPLICIT_VALUE_SET_SUFFIX}` || (candidate.valueSet && url === candidate.valueSet));
+    if (!codeSystem) {
+      throw new TerminologyError(`Unknown value set: ${url}`, 404);
+    }
+
+    return {
+      resourceType: 'ValueSet',
+      url,
+      status: codeSystem.status,
+      compose: { include: [{ system: codeSystem.url, ...(codeSystem.version ? { version: codeSystem.version } : {}) }] }
+    };
+  }
+
+  /**
+   * ValueSet of a choice item: contained in the questionnaire (or, as in older forms, in the item), or a canonical
+   * @returns {Object} ValueSet
+   */
+  resolveAnswerValueSet(item, questionnaire) {
+    if (!item.answerValueSet.startsWith('#')) {
+      return this.resolveValueSet({ url: item.answerValueSet });
+    }
+
+    const id = item.answerValueSet.slice(1);
+    const valueSet = [...(questionnaire?.contained || []), ...(item.contained || [])]
+      .find(resource => resource.resourceType === 'ValueSet' && resource.id === id);
+    if (!valueSet) {
+      throw new TerminologyError(`Contained value set ${item.answerValueSet} of '${item.linkId}' not found`, 404);
+    }
+    return valueSet;
+  }
+
+  /**
+   * ValueSet $expand. Concepts of included code systems keep their hierarchy as nested
+   * contains unless excludeNested is set or a text filter is applied.
+   * @param {Object} valueSet - ValueSet to expand
+   * @param {Object} [options] - Expansion options
+   * @param {string} [options.filter] - Text filter on code and display (case insensitive)
+   * @param {boolean} [options.excludeNested] - Return a flat list
+   * @returns {Object} ValueSet with expansion
+   */
+  expandValueSet(valueSet, { filter, excludeNested = false } = {}) {
+    if (valueSet.expansion?.contains && !valueSet.compose) {
+      return this.withExpansion(valueSet, valueSet.expansion.contains, { filter, excludeNested });
+    }
+
+    const excluded = new Set((valueSet.compose?.exclude || [])
+      .flatMap(exclude => this.includedConcepts(exclude, true))
+      .map(entry => `${entry.system}|${entry.code}`));
+
+    const removeExcluded = entries => entries
+      .filter(entry => !excluded.has(`${entry.system}|${entry.code}`))
+      .map(entry => entry.contains ? { ...entry, contains: removeExcluded(entry.contains) } : entry);
+
+    const contains = removeExcluded((valueSet.compose?.include || []).flatMap(include => this.includedConcepts(include, false)));
+    return this.withExpansion(valueSet, contains, { filter, excludeNested });
+  }
+
+  /**
+   * ValueSet $validate-code: whether a coding is in the expansion of a value set
+   * @returns {Object} FHIR Parameters with result, message and display
+   */
+  validateValueSetCode(valueSet, { system, code, display }) {
+    if (!code) {
+      throw new TerminologyError('Parameter code is required');
+    }
+
+    const entries = flattenContains(this.expandValueSet(valueSet).expansion.contains);
+    const entry = entries.find(candidate => candidate.code === code && (!system || !candidate.system || candidate.system === system));
+    return validationResult(entry, { system, code, display });
+  }
+
+  /**
+   * Selectable codings of a choice item's answerValueSet, or null if it cannot be resolved
+   * @returns {Array<Object>|null} Codings (system, code, display) without abstract concepts
+   */
+  getAnswerCodings(item, questionnaire) {
+    try {
+      const valueSet = this.resolveAnswerValueSet(item, questionnaire);
+      return flattenContains(this.expandValueSet(valueSet).expansion.contains)
+        .filter(entry => !entry.abstract)
+        .map(({ system, code, display }) => ({ system, code, display }));
+    } catch (error) {
+      if (error instanceof TerminologyError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Expansion entries of a compose.include (or exclude): its listed concepts, or
+   * the concepts of its code system, optionally restricted by is-a / descendent-of filters
+   */
+  includedConcepts(include, flat) {
+    if (include.valueSet?.length > 0) {
+      throw new TerminologyError('Including other value sets is not supported', 422);
+    }
+
+    const codeSystem = include.system ? this.findCodeSystem(include.system, include.version) : null;
+
+    if (include.concept?.length > 0) {
+      return include.concept.map(concept => ({
+        system: include.system,
+        code: concept.code,
+        display: concept.display ?? (codeSystem ? findConcept(codeSystem.concept, concept.code)?.display : undefined)
+      }));
+    }
+
+    if (!codeSystem) {
+      throw new TerminologyError(`Code system ${include.system} is not available for expansion`, 422);
+    }
+
+    let concepts = codeSystem.concept || [];
+    for (const filter of include.filter || []) {
+      if (filter.property !== 'concept' || !['is-a', 'descendent-of'].includes(filter.op)) {
+        throw new TerminologyError(`Filter ${filter.property} ${filter.op} is not supported`, 422);
+      }
+      const root = findConcept(codeSystem.concept, filter.value);
+      concepts = !root ? [] : filter.op === 'is-a' ? [root] : root.concept || [];
+    }
+
+    const toContains = concept => ({
+      system: codeSystem.url,
+      ...(codeSystem.version ? { version: codeSystem.version } : {}),
+      code: concept.code,
+      display: concept.display,
+      ...(concept.concept?.length > 0 ? { contains: concept.concept.map(toContains) } : {})
+    });
+
+    const contains = concepts.map(toContains);
+    return flat ? flattenContains(contains) : contains;
+  }
+
+  withExpansion(valueSet, contains, { filter, excludeNested }) {
+    let entries = contains;
+    if (filter) {
+      const text = filter.toLowerCase();
+      entries = flattenContains(entries).filter(entry =>
+        entry.code?.toLowerCase().includes(text) || entry.display?.toLowerCase().includes(text));
+    } else if (excludeNested) {
+      entries = flattenContains(entries);
+    }
+
+    return {
+      ...valueSet,
+      expansion: {
+        identifier: `urn:uuid:${uuidv4()}`,
+        timestamp: new Date().toISOString(),
+        total: flattenContains(entries).length,
+        ...(filter ? { parameter: [{ name: 'filter', valueString: filter }] } : {}),
+        contains: entries
+      }
+    };
+  }
+}
+
+function findConceptPath(concepts, code, path = []) {
+  for (const concept of concepts || []) {
+    if (concept.code === code) {
+      return [...path, concept];
+    }
+    const found = findConceptPath(concept.concept, code, [...path, concept]);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+function findConcept(concepts, code) {
+  return findConceptPath(concepts, code)?.pop() || null;
+}
+
+function findItem(items, linkId) {
+  for (const item of items || []) {
+    if (item.linkId === linkId) return item;
+    const found = findItem(item.item, linkId);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Expansion entries with their nested entries, in document order and without nesting
+ */
+function flattenContains(contains) {
+  return (contains || []).flatMap(({ contains: nested, ...entry }) => [entry, ...flattenContains(nested)]);
+}
+
+function propertyParameter(code, value) {
+  return { name: 'property', part: [{ name: 'code', valueCode: code }, { name: 'value', valueCode: value }] };
+}
+
+function validationResult(concept, { system, code, display }) {
+  if (!concept) {
+    return {
+      resourceType: 'Parameters',
+      parameter: [
+        { name: 'result', valueBoolean: false },
+        { name: 'message', valueString: `Code '${code}' is not valid${system ? ` in ${system}` : ''}` }
+      ]
+    };
+  }
+
+  const displayMatches = !display || !concept.display || display === concept.display;
+  return {
+    resourceType: 'Parameters',
+    parameter: [
+      { name: 'result', valueBoolean: displayMatches },
+      ...(displayMatches ? [] : [{ name: 'message', valueString: `Display '${display}' does not match '${concept.display}'` }]),
+      ...(concept.display ? [{ name: 'display', valueString: concept.display }] : [])
+    ]
+  };
+}
+
+/**
+ * Setup terminology service routes
+ * @param {Express} app - Express application instance
+ * @param {Function} registerEndpoint - Function to register endpoints for documentation
+ * @param {TerminologyService} terminologyService - Terminology shared with validation and $populate
+ */
+export function setupTerminologyService(app, registerEndpoint, terminologyService) {
+  // Answer a terminology operation; TerminologyErrors become client errors
+  const handle = (description, operation) => (req, res) => {
+    try {
+      res.type('application/fhir+json').json(operation(req));
+    } catch (error) {
+      if (error instanceof TerminologyError) {
+        return res.status(error.status).json({
+          error: error.status === 404 ? 'Not found' : error.status === 422 ? 'Unprocessable' : 'Invalid parameters',
+          message: error.message
+        });
+      }
+      console.error(`Error processing ${description}:`, error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: `Could not process ${description}`
+      });
+    }
+  };
+
+  const valueSetOf = query => terminologyService.resolveValueSet({ url: query.url, context: query.context });
+
+  // CodeSystem search
+  app.get('/CodeSystem', handle('CodeSystem search', req => {
+    const codeSystems = terminologyService.searchCodeSystems(req.query);
+    return {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      total: codeSystems.length,
+      entry: codeSystems.map(codeSystem => ({ fullUrl: codeSystem.url, resource: codeSystem, search: { mode: 'match' } }))
+    };
+  }));
+
+  app.get('/CodeSystem/\\$lookup', handle('$lookup', req => {
+    console.log(`🔎 $lookup ${req.query.system}|${req.query.code}`);
+    return terminologyService.lookup(req.query);
+  }));
+
+  app.get('/CodeSystem/\\$validate-code', handle('CodeSystem $validate-code', req =>
+    terminologyService.validateCodeSystemCode(req.query)));
+
+  // CodeSystem read
+  app.get('/CodeSystem/:id', handle('CodeSystem read', req => {
+    const codeSystem = terminologyService.getCodeSystem(req.params.id);
+    if (!codeSystem) {
+      throw new TerminologyError(`No CodeSystem found with ID: ${req.params.id}`, 404);
+    }
+    return codeSystem;
+  }));
+
+  app.get('/ValueSet/\\$expand', handle('$expand', req => {
+    console.log(`📖 $expand ${req.query.context || req.query.url}`);
+    return terminologyService.expandValueSet(valueSetOf(req.query), {
+      filter: req.query.filter,
+      excludeNested: req.query.excludeNested === 'true'
+    });
+  }));
+
+  app.get('/ValueSet/\\$validate-code', handle('ValueSet $validate-code', req =>
+    terminologyService.validateValueSetCode(valueSetOf(req.query), req.query)));
+
+  // Register endpoints for documentation
+  if (registerEndpoint) {
+    registerEndpoint('Terminology Service', 'GET', '/CodeSystem', 'Search CodeSystems');
+    registerEndpoint('Terminology Service', 'GET', '/CodeSystem/:id', 'Get CodeSystem');
+    registerEndpoint('Terminology Service', 'GET', '/CodeSystem/$lookup', 'Look up a code');
+    registerEndpoint('Terminology Service', 'GET', '/CodeSystem/$validate-code', 'Validate a code against a CodeSystem');
+    registerEndpoint('Terminology Service', 'GET', '/ValueSet/$expand', 'Expand a ValueSet by url or questionnaire item context');
+    registerEndpoint('Terminology Service', 'GET', '/ValueSet/$validate-code', 'Validate a code against a ValueSet');
+  }
+
+  console.log('✅ Terminology Service module loaded');
+  console.log(`📚 ${terminologyService.codeSystems.length} CodeSystems: /CodeSystem, /CodeSystem/$lookup, /ValueSet/$expand`);
+}
+
+export { TerminologyService, TerminologyError };
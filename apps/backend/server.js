@@ -3,8 +3,13 @@ import cors from 'cors';
 
 // Import service modules
 import { setupHealthService } from './modules/health-service.js';
+import { setupAuthService } from './modules/auth-service.js';
 import { setupInformationService } from './modules/information-service.js';
 import { setupFlowService } from './modules/flow-service.js';
+import { setupSubscriptionService } from './modules/subscription-service.js';
+import { setupTerminologyService } from './modules/terminology-service.js';
+import { setupPrescriptionService } from './modules/prescription-service.js';
+import { summarizeContentValidation } from './modules/content-validation.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -12,8 +17,12 @@ const PORT = process.env.PORT || 3001;
 // Endpoint registry for dynamic documentation
 const endpointRegistry = {
   'Health & Status': [],
+  'Auth Service': [],
   'Information Service': [],
-  'Flow Service': []
+  'Flow Service': [],
+  'Terminology Service': [],
+  'Prescription Service': [],
+  'Subscription Service': []
 };
 
 // Helper function to register endpoints
@@ -34,13 +43,32 @@ console.log('📦 Loading service modules...');
 
 try {
   // Load Health Service
-  setupHealthService(app, registerEndpoint);
-  
-  // Load Information Service  
-  setupInformationService(app, registerEndpoint);
+  const healthService = setupHealthService(app, registerEndpoint);
+
+  // Load Auth Service and bind callers with a valid access token to their telematik-ID
+  const authService = setupAuthService(app, registerEndpoint);
+  app.use(authService.authenticate());
   
   // Load Flow Service
-  setupFlowService(app, registerEndpoint);
+  const flowService = setupFlowService(app, registerEndpoint);
+
+  // Load Information Service, extracting the flow service's QuestionnaireResponses
+  const informationService = setupInformationService(app, registerEndpoint, flowService);
+
+  // Load Terminology Service on the flow service's CodeSystems and forms
+  setupTerminologyService(app, registerEndpoint, flowService.terminologyService);
+
+  // Report the validation of the served forms and CodeSystems in the system status
+  healthService.registerCheck('content', () => {
+    const { valid, errors, warnings } = summarizeContentValidation(informationService.validateContent());
+    return { status: valid ? (warnings > 0 ? 'warn' : 'pass') : 'fail', errors, warnings, details: '/$validate-content' };
+  });
+
+  // Load Prescription Service importing bundles into the flow database
+  const prescriptionService = setupPrescriptionService(app, registerEndpoint, flowService);
+
+  // Load Subscription Service publishing the flow service's task changes and imported prescriptions
+  setupSubscriptionService(app, registerEndpoint, flowService, prescriptionService);
 
   console.log('✅ All service modules loaded successfully');
 } catch (error) {
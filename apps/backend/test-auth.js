@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+/**
+ * Test script for the authentication of the backend: access tokens issued for
+ * the registered SMC-B identities, their verification, and the middlewares
+ * binding requests to a telematik-ID (requireAuth, requireAdmin)
+ */
+
+import assert from 'assert/strict';
+import path from 'path';
+import { AuthService, AuthError, requireAuth, requireAdmin } from './modules/auth-service.js';
+import { test, finish, createTempDir } from './test-helpers.js';
+
+const PHARMACY = '3-AVS-12345678901';
+const PHARMACY_SECRET = 'apotheke-am-stadtplatz-local';
+const DOCTOR = '1-abc-12345678';
+
+function assertAuthError(operation, message) {
+  assert.throws(operation, error => error instanceof AuthError && message.test(error.message));
+}
+
+// Claims of a token, without verifying it
+function claimsOf(token) {
+  return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+}
+
+// Minimal Express request/response pair recording the answer of a middleware
+function run(middleware, req) {
+  const res = {
+    headers: {},
+    statusCode: null,
+    body: null,
+    setHeader(name, value) { this.headers[name] = value; },
+    status(code) { this.statusCode = code; return this; },
+    json(body) { this.body = body; return this; }
+  };
+  let nextCalled = false;
+  middleware({ headers: {}, query: {}, method: 'POST', path: '/', ...req }, res, () => { nextCalled = true; });
+  return { res, nextCalled };
+}
+
+console.log('🧪 Testing the authentication\n');
+
+// A fresh signing key instead of data/auth/signing-key.pem
+const keyPath = createTempDir('ti-flow-auth-');
+process.env.AUTH_SIGNING_KEY_PATH = path.join(keyPath, 'signing-key.pem');
+const authService = new AuthService();
+
+test('tokens are only issued for registered identities with their client secret', () => {
+  const response = authService.issueToken(PHARMACY, PHARMACY_SECRET);
+  assert.equal(response.token_type, 'Bearer');
+  assert.equal(response.expires_in, 3600);
+
+  const claims = claimsOf(response.access_token);
+  assert.equal(claims.sub, PHARMACY);
+  assert.equal(claims.idNummer, PHARMACY);
+  assert.equal(claims.aud, 'ti-flow');
+  assert.equal(claims.exp - claims.iat, 3600);
+
+  assert.equal(authService.issueToken(PHARMACY, 'wrong'), null);
+  assert.equal(authService.issueToken(PHARMACY, 'mvz-local'), null);
+  assert.equal(authService.issueToken(PHARMACY), null);
+  assert.equal(authService.issueToken('3-unknown', PHARMACY_SECRET), null);
+});
+
+test('a valid token identifies its telematik-ID', () => {
+  const identity = authService.verifyToken(authService.issueToken(DOCTOR, 'mvz-local').access_token);
+  assert.deepEqual(identity, { telematikId: DOCTOR, organizationName: 'MVZ', professionOID: '1.2.276.0.76.4.50' });
+});
+
+test('forged, foreign and expired tokens are rejected', () => {
+  const token = authService.issueToken(PHARMACY, PHARMACY_SECRET).access_token;
+  const [header, , signature] = token.split('.');
+  const claims = claimsOf(token);
+
+  const forged = `${header}.${Buffer.from(JSON.stringify({ ...claims, idNummer: DOCTOR })).toString('base64url')}.${signature}`;
+  assertAuthError(() => authService.verifyToken(forged), /Invalid token signature/);
+
+  assertAuthError(() => authService.verifyToken(authService.signJwt({ ...claims, iss: 'https://idp.example.org' })), /not issued for this service/);
+  assertAuthError(() => authService.verifyToken(authService.signJwt({ ...claims, exp: claims.iat - 1 })), /Access token expired/);
+  assertAuthError(() => authService.verifyToken(authService.signJwt({ ...claims, idNummer: '3-unknown' })), /Unknown telematik-ID: 3-unknown/);
+
+  const unsigned = `${Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url')}.${token.split('.')[1]}.`;
+  assertAuthError(() => authService.verifyToken(unsigned), /Unsupported token algorithm: none/);
+  assertAuthError(() => authService.verifyToken('not-a-token'), /Malformed access token/);
+});
+
+test('tokens signed with another key are rejected', () => {
+  const otherKeyPath = path.join(keyPath, 'other-key.pem');
+  process.env.AUTH_SIGNING_KEY_PATH = otherKeyPath;
+  const otherService = new AuthService();
+  process.env.AUTH_SIGNING_KEY_PATH = path.join(keyPath, 'signing-key.pem');
+
+  assertAuthError(() => authService.verifyToken(otherService.issueToken(PHARMACY, PHARMACY_SECRET).access_token), /Invalid token signature/);
+});
+
+test('authenticate binds requests to the telematik-ID of their token', () => {
+  const authenticate = authService.authenticate();
+  const token = authService.issueToken(PHARMACY, PHARMACY_SECRET).access_token;
+
+  const req = { headers: { authorization: `Bearer ${token}` }, query: {} };
+  authenticate(req, {}, () => {});
+  assert.equal(req.auth.telematikId, PHARMACY);
+
+  // EventSource streams pass the token as query parameter
+  const streamReq = { headers: {}, query: { access_token: token } };
+  authenticate(streamReq, {}, () => {});
+  assert.equal(streamReq.auth.telematikId, PHARMACY);
+
+  const anonymous = { headers: {}, query: {} };
+  authenticate(anonymous, {}, () => {});
+  assert.equal(anonymous.auth, null);
+});
+
+test('authenticate answers invalid tokens with 401', () => {
+  const authenticate = authService.authenticate();
+
+  const { res, nextCalled } = run(authenticate, { headers: { authorization: 'Bearer not-a-token' } });
+  assert.equal(nextCalled, false);
+  assert.equal(res.statusCode, 401);
+  assert.equal(res.body.message, 'Malformed access token');
+  assert.match(res.headers['WWW-Authenticate'], /error="invalid_token"/);
+
+  const basic = run(authenticate, { headers: { authorization: 'Basic dXNlcjpwdw==' } });
+  assert.equal(basic.res.statusCode, 401);
+  assert.equal(basic.res.body.message, 'Authorization header must use the Bearer scheme');
+});
+
+test('requireAuth only lets authenticated requests through', () => {
+  const anonymous = run(requireAuth, { auth: null });
+  assert.equal(anonymous.nextCalled, false);
+  assert.equal(anonymous.res.statusCode, 401);
+  assert.equal(anonymous.res.headers['WWW-Authenticate'], 'Bearer');
+
+  assert.equal(run(requireAuth, { auth: { telematikId: PHARMACY } }).nextCalled, true);
+});
+
+test('requireAdmin only lets the telematik-IDs in FLOW_ADMIN_TELEMATIK_IDS through', () => {
+  delete process.env.FLOW_ADMIN_TELEMATIK_IDS;
+  const withoutAdmins = run(requireAdmin, { auth: { telematikId: PHARMACY } });
+  assert.equal(withoutAdmins.nextCalled, false);
+  assert.equal(withoutAdmins.res.statusCode, 403);
+
+  process.env.FLOW_ADMIN_TELEMATIK_IDS = ` ${DOCTOR} , 3-AVS-98765432109`;
+  assert.equal(run(requireAdmin, { auth: { telematikId: DOCTOR } }).nextCalled, true);
+  assert.equal(run(requireAdmin, { auth: { telematikId: PHARMACY } }).res.statusCode, 403);
+  assert.equal(run(requireAdmin, { auth: null }).res.statusCode, 403);
+  delete process.env.FLOW_ADMIN_TELEMATIK_IDS;
+});
+
+finish();
@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+/**
+ * Test script for the startup content validation of forms and CodeSystems
+ */
+
+import assert from 'assert/strict';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { QuestionnaireRegistry } from './modules/questionnaire-registry.js';
+import { validateContent, summarizeContentValidation } from './modules/content-validation.js';
+import { test, finish, createTempDir } from './test-helpers.js';
+
+const documentOperations = {
+  resourceType: 'CodeSystem',
+  concept: [
+    { code: 'e16A', display: 'Muster 16', concept: [{ code: 'e16A-korrektur', display: 'Korrektur' }] },
+    { code: 'e16D', display: 'Muster 16D', concept: [{ code: 'e16D-neuausstellung', display: 'Neuausstellung' }] }
+  ],
+  count: 4
+};
+
+const requestOperations = {
+  resourceType: 'CodeSystem',
+  concept: [{ code: 'btm_notfall', display: 'BtM-Notfall' }],
+  count: 1
+};
+
+const validForm = {
+  resourceType: 'Questionnaire',
+  status: 'active',
+  contained: [{ resourceType: 'ValueSet', id: 'urgency-vs', status: 'active' }],
+  extension: [{
+    url: 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-launchContext',
+    extension: [{ url: 'name', valueCoding: { code: 'patient' } }]
+  }],
+  item: [
+    {
+      linkId: 'patient_name',
+      type: 'string',
+      extension: [{
+        url: 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-initialExpression',
+        valueExpression: { language: 'text/fhirpath', expression: "%patient.name.first().family" }
+      }]
+    },
+    { linkId: 'urgency', type: 'choice', answerValueSet: '#urgency-vs' },
+    {
+      linkId: 'change_request',
+      type: 'group',
+      enableWhen: [{ question: 'urgency', operator: 'exists', answerBoolean: true }],
+      item: [{ linkId: 'pzn', type: 'string', required: true }]
+    }
+  ]
+};
+
+function errorsOf(forms, codeSystems = {}) {
+  const formsPath = createTempDir('ti-flow-content-');
+  for (const [file, content] of Object.entries(forms)) {
+    mkdirSync(join(formsPath, file.split('/')[0]), { recursive: true });
+    writeFileSync(join(formsPath, file), JSON.stringify(content));
+  }
+
+  const outcome = validateContent({
+    questionnaireRegistry: new QuestionnaireRegistry(formsPath),
+    documentOperations,
+    requestOperations,
+    ...codeSystems
+  });
+  return outcome.issue
+    .filter(issue => issue.severity !== 'information')
+    .map(issue => `${issue.severity} ${issue.code}: ${issue.details.text}`);
+}
+
+const completeForms = {
+  'e16A/e16A-korrektur-form.json': validForm,
+  'e16D/e16D-neuausstellung-form.json': { ...validForm, item: [{ linkId: 'diga_pzn', type: 'string' }] },
+  'request-operations/btm_notfall-form.json': { ...validForm, item: [{ linkId: 'btm', type: 'string' }] }
+};
+
+console.log('🧪 Testing content validation\n');
+
+test('complete and valid content has no issues', () => {
+  assert.deepEqual(errorsOf(completeForms), []);
+});
+
+test('CodeSystem counts include nested concepts', () => {
+  assert.deepEqual(errorsOf(completeForms, { documentOperations: { ...documentOperations, count: 2 } }), [
+    'error value: documentOperations: CodeSystem.count is 2, but 4 concepts are defined'
+  ]);
+});
+
+test('concepts without form and forms without concept are reported', () => {
+  const forms = { ...completeForms, 'e16D/e16D-form.json': completeForms['e16D/e16D-neuausstellung-form.json'] };
+  delete forms['e16D/e16D-neuausstellung-form.json'];
+
+  assert.deepEqual(errorsOf(forms), [
+    'error not-found: documentOperations: No form e16D/e16D-neuausstellung-form.json for concept \'e16D-neuausstellung\' (Neuausstellung)',
+    'warning informational: e16D/e16D-form.json: Form is not the form of any operation concept (code \'e16D\')'
+  ]);
+});
+
+test('duplicate linkIds, unresolved value sets and broken enableWhen are errors', () => {
+  const form = {
+    ...validForm,
+    contained: [],
+    item: [
+      ...validForm.item,
+      { linkId: 'pzn', type: 'string' },
+      { linkId: 'notes', type: 'text', enableWhen: [{ question: 'comment', operator: '=', answerString: 'x' }] }
+    ]
+  };
+
+  assert.deepEqual(errorsOf({ ...completeForms, 'e16A/e16A-korrektur-form.json': form }), [
+    'error duplicate: e16A/e16A-korrektur-form.json: linkId \'pzn\' is used more than once',
+    'error not-found: e16A/e16A-korrektur-form.json: answerValueSet #urgency-vs of \'urgency\' is not contained in the questionnaire',
+    'error not-found: e16A/e16A-korrektur-form.json: enableWhen of \'notes\' refers to unknown question \'comment\''
+  ]);
+});
+
+test('FHIR structure errors and invalid FHIRPath expressions are reported', () => {
+  const form = {
+    resourceType: 'Questionnaire',
+    item: [
+      { linkId: 'empty_group', type: 'group' },
+      { linkId: 'size', type: 'number', required: 'yes' },
+      {
+        linkId: 'name',
+        type: 'string',
+        extension: [{
+          url: 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-initialExpression',
+          valueExpression: { language: 'text/fhirpath', expression: '%patient.name.where(' }
+        }]
+      }
+    ]
+  };
+
+  const errors = errorsOf({ ...completeForms, 'e16A/e16A-korrektur-form.json': form });
+  assert.equal(errors.length, 5);
+  assert.deepEqual(errors.slice(0, 4), [
+    'error required: e16A/e16A-korrektur-form.json: Questionnaire.status must be one of draft, active, retired, unknown',
+    'error structure: e16A/e16A-korrektur-form.json: Group \'empty_group\' has no items',
+    'error value: e16A/e16A-korrektur-form.json: Item \'size\' has unknown type \'number\'',
+    'error structure: e16A/e16A-korrektur-form.json: required of item \'size\' must be a boolean'
+  ]);
+  assert.match(errors[4], /^error invalid: e16A\/e16A-korrektur-form\.json: FHIRPath expression '%patient\.name\.where\(' of .*initialExpression is invalid/);
+});
+
+test('the validation summary counts errors and warnings', () => {
+  assert.deepEqual(summarizeContentValidation({
+    issue: [{ severity: 'error' }, { severity: 'fatal' }, { severity: 'warning' }, { severity: 'information' }]
+  }), { valid: false, errors: 2, warnings: 1 });
+});
+
+finish();
@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+/**
+ * Test script for the counter-offer negotiation: validation of counter-offers
+ * against the revision they answer, QuestionnaireResponse revisions linked to
+ * their predecessor and the alternating turns of requester and receiver
+ */
+
+import assert from 'assert/strict';
+import { FlowService } from './modules/flow-service.js';
+import { test, finish, createTempDir, questionnaireResponse as requestResponse, TEST_QUESTIONNAIRE } from './test-helpers.js';
+
+const REQUESTER = '3-AVS-12345678901';
+const RECEIVER = '1-abc-12345678';
+const OTHER = '3-AVS-98765432109';
+const PREDECESSOR_EXTENSION = 'http://gematik.de/fhir/ti-flow/StructureDefinition/questionnaire-response-predecessor';
+
+function questionnaireResponse(medication, { requester = REQUESTER, receiver = RECEIVER, questionnaire = TEST_QUESTIONNAIRE } = {}) {
+  return requestResponse(requester, receiver, [
+    { linkId: 'medication', answer: [{ valueCoding: { system: 'http://fhir.de/CodeSystem/ifa/pzn', code: medication } }] }
+  ], questionnaire);
+}
+
+function medicationOf(revision) {
+  return revision.item.find(item => item.linkId === 'medication').answer[0].valueCoding.code;
+}
+
+function predecessorOf(revision) {
+  return revision.extension.filter(ext => ext.url === PREDECESSOR_EXTENSION).map(ext => ext.valueReference.reference);
+}
+
+console.log('🧪 Testing the counter-offer negotiation\n');
+
+const flowService = new FlowService({ storage: 'json', databasePath: createTempDir(), resetOnStart: true });
+
+const { taskId, questionnaireResponseId: initialId } = flowService.createRequest(REQUESTER, RECEIVER, questionnaireResponse('00000001'));
+
+test('counter-offers must answer the questionnaire of the request between its participants', () => {
+  const task = flowService.getTask(taskId);
+  assert.equal(flowService.validateCounterOffer(task, questionnaireResponse('00000002')), null);
+
+  assert.match(flowService.validateCounterOffer(task, { resourceType: 'Parameters' }), /must be a FHIR QuestionnaireResponse/);
+  assert.match(flowService.validateCounterOffer(task, questionnaireResponse('00000002', { questionnaire: 'https://example.org/Questionnaire/other' })),
+    new RegExp(`must answer the questionnaire of the request \\(${TEST_QUESTIONNAIRE}\\)`));
+  assert.match(flowService.validateCounterOffer(task, questionnaireResponse('00000002', { receiver: OTHER })),
+    /must keep requester_tid and receiver_tid/);
+  assert.match(flowService.validateCounterOffer(task, questionnaireResponse('00000002', { requester: RECEIVER, receiver: REQUESTER })),
+    /must keep requester_tid and receiver_tid/);
+});
+
+test('only the receiver can counter a received request', () => {
+  assert.equal(flowService.processCounterOffer(taskId, questionnaireResponse('00000002'), RECEIVER), null);
+  flowService.markAsReceived(taskId, RECEIVER);
+  assert.equal(flowService.processCounterOffer(taskId, questionnaireResponse('00000002'), REQUESTER), null);
+  assert.deepEqual(flowService.getRevisionIds(flowService.getTask(taskId)), [initialId]);
+  assert.equal(flowService.processCounterOffer('999', questionnaireResponse('00000002'), RECEIVER), null);
+});
+
+let receiverRevisionId;
+
+test('a counter-offer becomes the revision under negotiation', () => {
+  const submitted = {
+    ...questionnaireResponse('00000002'),
+    id: 'client-chosen',
+    extension: [{ url: PREDECESSOR_EXTENSION, valueReference: { reference: 'QuestionnaireResponse/stale' } }]
+  };
+  const task = flowService.processCounterOffer(taskId, submitted, RECEIVER);
+  assert.equal(task.status, 'in_progress(Bearbeiter)');
+  assert.equal(task.owner, RECEIVER);
+
+  const revisions = flowService.getRevisionIds(task);
+  assert.equal(revisions.length, 2);
+  assert.equal(revisions[0], initialId);
+  receiverRevisionId = flowService.getCurrentRevisionId(task);
+  assert.equal(receiverRevisionId, revisions[1]);
+
+  const revision = flowService.getQuestionnaire(receiverRevisionId);
+  assert.equal(revision.id, receiverRevisionId);
+  assert.equal(revision.author.reference, `Organization/${RECEIVER}`);
+  assert.ok(revision.authored);
+  assert.equal(medicationOf(revision), '00000002');
+  assert.deepEqual(predecessorOf(revision), [`QuestionnaireResponse/${initialId}`]);
+
+  // Earlier revisions stay as they were
+  assert.equal(medicationOf(flowService.getQuestionnaire(initialId)), '00000001');
+  assert.equal(flowService.findTaskByQuestionnaireId(receiverRevisionId).id, taskId);
+});
+
+test('the parties take turns', () => {
+  assert.equal(flowService.processCounterOffer(taskId, questionnaireResponse('00000003'), RECEIVER), null);
+  assert.equal(flowService.acceptTask(taskId, RECEIVER), null);
+
+  const task = flowService.processCounterOffer(taskId, questionnaireResponse('00000003'), REQUESTER);
+  assert.equal(task.status, 'in_progress(Anfragender)');
+  assert.equal(task.owner, REQUESTER);
+
+  const requesterRevision = flowService.getQuestionnaire(flowService.getCurrentRevisionId(task));
+  assert.equal(requesterRevision.author.reference, `Organization/${REQUESTER}`);
+  assert.deepEqual(predecessorOf(requesterRevision), [`QuestionnaireResponse/${receiverRevisionId}`]);
+
+  assert.equal(flowService.processCounterOffer(taskId, questionnaireResponse('00000004'), REQUESTER), null);
+});
+
+test('the Task lists every revision as input, the last one under negotiation', () => {
+  const input = flowService.toFhirTask(flowService.getTask(taskId)).input;
+  assert.deepEqual(input.map(entry => entry.valueReference.display), ['Revision 1', 'Revision 2', 'Revision 3']);
+  assert.equal(input[2].valueReference.reference, `QuestionnaireResponse/${flowService.getCurrentRevisionId(flowService.getTask(taskId))}`);
+});
+
+test('accepting agrees to the revision under negotiation and ends it', () => {
+  const currentId = flowService.getCurrentRevisionId(flowService.getTask(taskId));
+  const accepted = flowService.acceptTask(taskId, RECEIVER);
+  assert.equal(accepted.status, 'accepted');
+
+  const [acceptVersion] = flowService.getTaskHistory(taskId).slice(-1);
+  assert.deepEqual(acceptVersion.references, [`QuestionnaireResponse/${currentId}`]);
+  assert.equal(flowService.processCounterOffer(taskId, questionnaireResponse('00000005'), RECEIVER), null);
+  assert.equal(flowService.getRevisionIds(flowService.getTask(taskId)).length, 3);
+});
+
+test('tasks stored before revisions were versioned have their initial response as only revision', () => {
+  const legacyTask = { id: '42', questionnaireResponseId: '7' };
+  assert.deepEqual(flowService.getRevisionIds(legacyTask), ['7']);
+  assert.equal(flowService.getCurrentRevisionId(legacyTask), '7');
+});
+
+finish();
@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+/**
+ * Test script for the storage backends of the flow database: atomic writes of
+ * the JSON file, the SQLite tables, keeping tasks across restarts and failing
+ * on a database that cannot be read
+ */
+
+import assert from 'assert/strict';
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createFlowStorage, JsonFileStorage, SqliteStorage } from './modules/flow-storage.js';
+import { FlowService, FlowDatabaseError } from './modules/flow-service.js';
+import { test, finish, errorOf, createTempDir, questionnaireResponse } from './test-helpers.js';
+
+const REQUESTER = '3-AVS-12345678901';
+const RECEIVER = '1-abc-12345678';
+
+function sampleDatabase() {
+  return {
+    tasks: { 1: { id: '1', status: 'requested' }, 2: { id: '2', status: 'accepted' } },
+    questionnaires: { 1: { id: '1', resourceType: 'QuestionnaireResponse' } },
+    history: { 1: [{ versionId: '1', operation: 'create' }] },
+    prescriptions: {},
+    nextTaskId: 3,
+    nextQuestionnaireId: 2,
+    nextPrescriptionNumber: 1
+  };
+}
+
+console.log('🧪 Testing the flow database storage\n');
+
+test('createFlowStorage selects the configured backend', () => {
+  const dataPath = createTempDir();
+
+  const json = createFlowStorage({ dataPath });
+  assert.ok(json instanceof JsonFileStorage);
+  assert.equal(json.filePath, path.join(dataPath, 'flow-db.json'));
+
+  const sqlite = createFlowStorage({ type: 'sqlite', dataPath });
+  assert.ok(sqlite instanceof SqliteStorage);
+  assert.equal(sqlite.describe(), `SQLite (${path.join(dataPath, 'flow-db.sqlite')})`);
+
+  assert.match(errorOf(() => createFlowStorage({ type: 'mongodb', dataPath })).message, /Unknown flow storage type: mongodb/);
+});
+
+test('the JSON file storage saves and loads the database', () => {
+  const dataPath = createTempDir();
+  const storage = new JsonFileStorage(path.join(dataPath, 'flow-db.json'));
+
+  assert.equal(storage.exists(), false);
+  storage.save(sampleDatabase());
+  assert.equal(storage.exists(), true);
+  assert.deepEqual(storage.load(), sampleDatabase());
+  assert.deepEqual(JSON.parse(readFileSync(storage.filePath, 'utf8')), sampleDatabase());
+  assert.deepEqual(readdirSync(dataPath), ['flow-db.json']);
+});
+
+test('a failed JSON write keeps the previous database and leaves no temp file', () => {
+  const dataPath = createTempDir();
+  const storage = new JsonFileStorage(path.join(dataPath, 'flow-db.json'));
+  storage.save(sampleDatabase());
+
+  const unserializable = { ...sampleDatabase(), nextTaskId: 10n };
+  assert.ok(errorOf(() => storage.save(unserializable)) instanceof TypeError);
+
+  assert.deepEqual(storage.load(), sampleDatabase());
+  assert.deepEqual(readdirSync(dataPath), ['flow-db.json']);
+});
+
+test('the SQLite storage stores records and counters', () => {
+  const dataPath = createTempDir();
+  const storage = new SqliteStorage(path.join(dataPath, 'flow-db.sqlite'));
+
+  assert.equal(storage.exists(), false);
+  storage.save(sampleDatabase());
+  assert.equal(storage.exists(), true);
+
+  const { prescriptions, ...stored } = sampleDatabase();
+  assert.deepEqual(prescriptions, {});
+  // Empty collections have no rows; FlowService.loadDatabase completes them with defaults
+  assert.deepEqual(storage.load(), stored);
+
+  const counts = Object.fromEntries(storage.db.prepare('SELECT collection, COUNT(*) AS count FROM records GROUP BY collection').all()
+    .map(({ collection, count }) => [collection, count]));
+  assert.deepEqual(counts, { history: 1, questionnaires: 1, tasks: 2 });
+});
+
+test('a SQLite save replaces the stored state', () => {
+  const dataPath = createTempDir();
+  const filePath = path.join(dataPath, 'flow-db.sqlite');
+  const storage = new SqliteStorage(filePath);
+  storage.save(sampleDatabase());
+
+  const db = sampleDatabase();
+  delete db.tasks[2];
+  db.tasks[1].status = 'received';
+  db.nextTaskId = 4;
+  storage.save(db);
+
+  const reopened = new SqliteStorage(filePath).load();
+  assert.deepEqual(reopened.tasks, { 1: { id: '1', status: 'received' } });
+  assert.equal(reopened.nextTaskId, 4);
+});
+
+for (const type of ['json', 'sqlite']) {
+  test(`tasks are kept across restarts (${type})`, () => {
+    const databasePath = createTempDir();
+
+    const flowService = new FlowService({ storage: type, databasePath });
+    const { taskId } = flowService.createRequest(REQUESTER, RECEIVER, questionnaireResponse(REQUESTER, RECEIVER));
+    flowService.markAsReceived(taskId, RECEIVER);
+
+    const restarted = new FlowService({ storage: type, databasePath });
+    assert.equal(restarted.getTask(taskId).status, 'received');
+    assert.equal(restarted.getTaskHistory(taskId).length, 2);
+    assert.equal(restarted.createRequest(REQUESTER, RECEIVER, questionnaireResponse(REQUESTER, RECEIVER)).taskId, String(Number(taskId) + 1));
+
+    const reset = new FlowService({ storage: type, databasePath, resetOnStart: true });
+    assert.equal(reset.getTask(taskId), null);
+  });
+}
+
+test('a database that cannot be read fails with a FlowDatabaseError', () => {
+  const databasePath = createTempDir();
+  const flowService = new FlowService({ storage: 'json', databasePath });
+  writeFileSync(path.join(databasePath, 'flow-db.json'), '{"tasks": {');
+
+  const error = errorOf(() => flowService.getTask('1'));
+  assert.ok(error instanceof FlowDatabaseError);
+  assert.equal(error.status, 500);
+  assert.ok(error.cause instanceof SyntaxError);
+
+  // Nothing is written over the unreadable database
+  assert.ok(errorOf(() => flowService.createRequest(REQUESTER, RECEIVER, questionnaireResponse(REQUESTER, RECEIVER))) instanceof FlowDatabaseError);
+  assert.equal(readFileSync(path.join(databasePath, 'flow-db.json'), 'utf8'), '{"tasks": {');
+});
+
+finish();
@@ -0,0 +1,105 @@
+/**
+ * Shared helpers of the offline test scripts (test-*.js): the test harness,
+ * temporary data directories and the fixtures several scripts need
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Fhir } from 'fhir';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// KBV e-prescription samples shipped with the pharmacy app
+export const PRESCRIPTIONS_PATH = path.join(__dirname, '..', 'pharmacy', 'public', 'data', 'prescriptions');
+export const TEST_QUESTIONNAIRE = 'https://gematik.de/fhir/ti-flow/Questionnaire/test';
+
+const fhir = new Fhir();
+const tempDirs = [];
+let failures = 0;
+
+/**
+ * Run a test and report its result; async tests return a Promise the script has to await
+ */
+export function test(name, fn) {
+  const pass = () => console.log(`✅ ${name}`);
+  const fail = error => {
+    failures++;
+    console.error(`❌ ${name}`);
+    console.error(`   ${error.message}`);
+  };
+
+  try {
+    const result = fn();
+    if (result instanceof Promise) {
+      return result.then(pass, fail);
+    }
+    pass();
+  } catch (error) {
+    fail(error);
+  }
+}
+
+/**
+ * Remove the temporary directories, print the summary and exit with the result of all tests
+ */
+export function finish() {
+  for (const dir of tempDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  console.log(`\n${failures === 0 ? '✅ All tests passed' : `❌ ${failures} test(s) failed`}`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+// Error of an operation that has to fail
+export function errorOf(operation) {
+  try {
+    operation();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expected an error');
+}
+
+// Temporary directory instead of data/, removed by finish()
+export function createTempDir(prefix = 'ti-flow-data-') {
+  const dir = mkdtempSync(path.join(tmpdir(), prefix));
+  tempDirs.push(dir);
+  return dir;
+}
+
+// Flow database kept in memory instead of data/flow-db.json, as used by the PrescriptionService
+export function createFlowDatabase() {
+  let db = { prescriptions: {}, nextPrescriptionNumber: 1 };
+  return {
+    dataPath: createTempDir(),
+    loadDatabase: () => structuredClone(db),
+    saveDatabase: saved => { db = structuredClone(saved); }
+  };
+}
+
+// QuestionnaireResponse of a request from requester to receiver, with further answered items
+export function questionnaireResponse(requester, receiver, items = [], questionnaire = TEST_QUESTIONNAIRE) {
+  return {
+    resourceType: 'QuestionnaireResponse',
+    questionnaire,
+    status: 'completed',
+    item: [
+      { linkId: 'requester_tid', answer: [{ valueString: requester }] },
+      { linkId: 'receiver_tid', answer: [{ valueString: receiver }] },
+      ...items
+    ]
+  };
+}
+
+// KBV sample prescription as XML
+export function readPrescriptionXml(name) {
+  return readFileSync(path.join(PRESCRIPTIONS_PATH, `${name}.xml`), 'utf8');
+}
+
+// KBV sample prescription as FHIR JSON Bundle
+export function readPrescriptionBundle(name) {
+  return JSON.parse(fhir.xmlToJson(readPrescriptionXml(name)));
+}
@@ -0,0 +1,237 @@
+#!/usr/bin/env node
+/**
+ * Test script for the answer construction of SDC $populate against the KBV
+ * e-prescription samples shipped with the pharmacy app
+ */
+
+import assert from 'assert/strict';
+import { InformationService } from './modules/information-service.js';
+import { test, finish, readPrescriptionBundle } from './test-helpers.js';
+
+const informationService = new InformationService();
+
+function resourceOf(bundle, resourceType) {
+  return bundle.entry.find(entry => entry.resource.resourceType === resourceType)?.resource;
+}
+
+function populate(questionnaire, bundle) {
+  return informationService.populateQuestionnaireResponse(questionnaire, [
+    { name: 'prescription', content: bundle },
+    { name: 'patient', content: resourceOf(bundle, 'Patient') },
+    { name: 'practitioner', content: resourceOf(bundle, 'Practitioner') }
+  ]);
+}
+
+function findItems(items, linkId) {
+  return (items || []).flatMap(item => [
+    ...(item.linkId === linkId ? [item] : []),
+    ...findItems(item.item, linkId)
+  ]);
+}
+
+function answersOf(response, linkId) {
+  return findItems(response.item, linkId).flatMap(item => item.answer || []);
+}
+
+const korrektur = informationService.getQuestionnaireByCode('e16A-korrektur');
+const rezeptanforderung = informationService.getQuestionnaireByCode('rezeptanforderung');
+const digaNeuausstellung = informationService.getQuestionnaireById('e16D-neuausstellung');
+
+console.log('🧪 Testing $populate answers against the KBV sample prescriptions\n');
+
+test('Beispiel_1_PZN: e16A-korrektur answers patient, prescription and authoredOn', () => {
+  const response = populate(korrektur, readPrescriptionBundle('Beispiel_1_PZN'));
+
+  assert.deepEqual(answersOf(response, 'prescription_id'), [{ valueString: '160.100.000.000.006.24' }]);
+  assert.deepEqual(answersOf(response, 'medication_name'), [{ valueString: 'Januvia® 50 mg 28 Filmtabletten N1' }]);
+  assert.deepEqual(answersOf(response, 'prescription_date'), [{ valueDate: '2024-05-20' }]);
+  assert.equal(answersOf(response, 'patient_kvnr').length, 1);
+});
+
+test('Beispiel_1_PZN: e16A-neuausstellung answers the prescription and leaves the reason open', () => {
+  const response = populate(informationService.getQuestionnaireByCode('e16A-neuausstellung'), readPrescriptionBundle('Beispiel_1_PZN'));
+
+  assert.deepEqual(answersOf(response, 'prescription_id'), [{ valueString: '160.100.000.000.006.24' }]);
+  assert.deepEqual(answersOf(response, 'medication_name'), [{ valueString: 'Januvia® 50 mg 28 Filmtabletten N1' }]);
+  assert.deepEqual(answersOf(response, 'reissue_reason'), []);
+});
+
+test('Beispiel_1_PZN: rezeptanforderung keeps the leading zeros of the PZN', () => {
+  const response = populate(rezeptanforderung, readPrescriptionBundle('Beispiel_1_PZN'));
+
+  assert.deepEqual(answersOf(response, '162012817157'), [{ valueString: '00814665' }]);
+});
+
+test('Beispiel_1_PZN: dispense quantity becomes a valueQuantity', () => {
+  const response = populate(rezeptanforderung, readPrescriptionBundle('Beispiel_1_PZN'));
+
+  assert.deepEqual(answersOf(response, '677102290290'), [{ valueQuantity: { value: 1, unit: 'Packung' } }]);
+});
+
+test('Beispiel_3_PKV: Medication referenced as Medication/<id> is resolved', () => {
+  const response = populate(rezeptanforderung, readPrescriptionBundle('Beispiel_3_PKV'));
+
+  assert.deepEqual(answersOf(response, '162012817157'), [{ valueString: '03879429' }]);
+  assert.deepEqual(answersOf(response, '450083130796'), [{ valueString: '1-0-0-0' }]);
+});
+
+test('Beispiel_22_Freitextverordnung: free text medication has no PZN answer', () => {
+  const response = populate(rezeptanforderung, readPrescriptionBundle('Beispiel_22_Freitextverordnung'));
+
+  assert.deepEqual(answersOf(response, '162012817157'), []);
+  assert.deepEqual(answersOf(response, '677102290290'), [{ valueQuantity: { value: 1, unit: 'Packung' } }]);
+});
+
+test('evdga: e16D-neuausstellung answers the DiGA from the DeviceRequest', () => {
+  const response = populate(digaNeuausstellung, readPrescriptionBundle('evdga'));
+
+  assert.deepEqual(answersOf(response, 'prescription_id'), [{ valueString: '162.100.000.000.027.75' }]);
+  assert.deepEqual(answersOf(response, 'diga_name'), [{ valueString: 'Vantis KHK und Herzinfarkt 001' }]);
+  assert.deepEqual(answersOf(response, 'diga_pzn'), [{ valueString: '19205615' }]);
+  assert.deepEqual(answersOf(response, 'prescription_date'), [{ valueDate: '2023-03-26' }]);
+  assert.deepEqual(answersOf(response, 'patient_kvnr'), [{ valueString: 'X234567890' }]);
+  assert.deepEqual(answersOf(response, 'prescriber_lanr'), [{ valueString: '838382202' }]);
+});
+
+test('evdga: e16D-wiederverordnung is found by the operation code', () => {
+  const response = populate(informationService.getQuestionnaireById('e16D-wiederverordnung'), readPrescriptionBundle('evdga'));
+
+  assert.deepEqual(answersOf(response, 'diga_name'), [{ valueString: 'Vantis KHK und Herzinfarkt 001' }]);
+});
+
+test('Beispiel_3_PKV: Medication.amount Ratio without a numerator value gives no quantity', () => {
+  const bundle = readPrescriptionBundle('Beispiel_3_PKV');
+  const questionnaire = {
+    resourceType: 'Questionnaire',
+    item: [quantityItem('amount', "%prescription.entry.resource.where(resourceType='Medication').amount")]
+  };
+
+  assert.deepEqual(answersOf(populate(questionnaire, bundle), 'amount'), []);
+
+  resourceOf(bundle, 'Medication').amount.numerator.value = 30;
+  assert.deepEqual(answersOf(populate(questionnaire, bundle), 'amount'), [{ valueQuantity: { value: 30, unit: 'Stück' } }]);
+});
+
+test('Beispiel_1_PZN: choice items answer with the matching Coding', () => {
+  const bundle = readPrescriptionBundle('Beispiel_1_PZN');
+  const questionnaire = {
+    resourceType: 'Questionnaire',
+    contained: [{
+      resourceType: 'ValueSet',
+      id: 'darreichungsform',
+      status: 'active',
+      compose: {
+        include: [{
+          system: 'https://fhir.kbv.de/CodeSystem/KBV_CS_SFHIR_KBV_DARREICHUNGSFORM',
+          concept: [{ code: 'FTA', display: 'Filmtabletten' }, { code: 'RET', display: 'Retardtabletten' }]
+        }]
+      }
+    }],
+    item: [
+      {
+        linkId: 'form',
+        type: 'choice',
+        answerValueSet: '#darreichungsform',
+        extension: [initialExpression('%medication.form.coding')]
+      },
+      {
+        linkId: 'status',
+        type: 'choice',
+        answerOption: [{ valueCoding: { code: 'active', display: 'Aktiv' } }, { valueCoding: { code: 'draft' } }],
+        extension: [initialExpression('%medicationRequest.status')]
+      },
+      {
+        linkId: 'form-text',
+        type: 'open-choice',
+        answerOption: [{ valueCoding: { code: 'RET' } }],
+        extension: [initialExpression('%medication.code.text')]
+      }
+    ],
+    extension: [
+      variable('medicationRequest', "%prescription.entry.resource.where(resourceType='MedicationRequest').first()"),
+      variable('medication', "%prescription.entry.resource.where(resourceType='Medication').first()")
+    ]
+  };
+
+  const response = populate(questionnaire, bundle);
+
+  assert.deepEqual(answersOf(response, 'form'), [{
+    valueCoding: {
+      system: 'https://fhir.kbv.de/CodeSystem/KBV_CS_SFHIR_KBV_DARREICHUNGSFORM',
+      code: 'FTA',
+      display: 'Filmtabletten'
+    }
+  }]);
+  assert.deepEqual(answersOf(response, 'status'), [{ valueCoding: { code: 'active', display: 'Aktiv' } }]);
+  assert.deepEqual(answersOf(response, 'form-text'), [{ valueString: 'Januvia® 50 mg 28 Filmtabletten N1' }]);
+});
+
+test('Beispiel_1_PZN: reference items answer with a valueReference', () => {
+  const bundle = readPrescriptionBundle('Beispiel_1_PZN');
+  const questionnaire = {
+    resourceType: 'Questionnaire',
+    item: [
+      {
+        linkId: 'medication',
+        type: 'reference',
+        extension: [initialExpression("%prescription.entry.resource.where(resourceType='MedicationRequest').medication")]
+      },
+      {
+        linkId: 'patient',
+        type: 'reference',
+        extension: [initialExpression('%patient')]
+      }
+    ]
+  };
+
+  const response = populate(questionnaire, bundle);
+
+  assert.deepEqual(answersOf(response, 'medication'), [{
+    valueReference: { reference: 'urn:uuid:47076fb4-dc5c-4f75-85f6-b200033b3280' }
+  }]);
+  assert.deepEqual(answersOf(response, 'patient'), [{
+    valueReference: { reference: 'Patient/93866fdc-3e50-4902-a7e9-891b54737b5e' }
+  }]);
+});
+
+test('Beispiel_1_PZN: date, dateTime and integer items are converted from the result type', () => {
+  const bundle = readPrescriptionBundle('Beispiel_1_PZN');
+  const questionnaire = {
+    resourceType: 'Questionnaire',
+    item: [
+      { linkId: 'timestamp-date', type: 'date', extension: [initialExpression('%prescription.timestamp')] },
+      { linkId: 'timestamp', type: 'dateTime', extension: [initialExpression('%prescription.timestamp')] },
+      {
+        linkId: 'packages',
+        type: 'integer',
+        extension: [initialExpression("%prescription.entry.resource.where(resourceType='MedicationRequest').dispenseRequest.quantity")]
+      }
+    ]
+  };
+
+  const response = populate(questionnaire, bundle);
+
+  assert.equal(answersOf(response, 'timestamp-date')[0].valueDate, bundle.timestamp.slice(0, 10));
+  assert.deepEqual(answersOf(response, 'timestamp'), [{ valueDateTime: bundle.timestamp }]);
+  assert.deepEqual(answersOf(response, 'packages'), [{ valueInteger: 1 }]);
+});
+
+function initialExpression(expression) {
+  return {
+    url: 'http://hl7.org/fhir/uv/sdc/StructureDefinition/sdc-questionnaire-initialExpression',
+    valueExpression: { language: 'text/fhirpath', expression }
+  };
+}
+
+function variable(name, expression) {
+  return {
+    url: 'http://hl7.org/fhir/StructureDefinition/variable',
+    valueExpression: { name, language: 'text/fhirpath', expression }
+  };
+}
+
+function quantityItem(linkId, expression) {
+  return { linkId, type: 'quantity', extension: [initialExpression(expression)] };
+}
+
+finish();
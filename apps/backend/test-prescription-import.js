@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+/**
+ * Test script for the prescription import: XML and JSON KBV bundles,
+ * deduplication by PrescriptionId, Bundle subscriptions and the inbox directory watch
+ */
+
+import assert from 'assert/strict';
+import { writeFileSync, existsSync } from 'fs';
+import path from 'path';
+import { Fhir } from 'fhir';
+import { PrescriptionService, PrescriptionImportError } from './modules/prescription-service.js';
+import { SubscriptionService } from './modules/subscription-service.js';
+import { test, finish, createFlowDatabase, readPrescriptionXml, readPrescriptionBundle } from './test-helpers.js';
+
+const fhir = new Fhir();
+
+const PHARMACY = '3-AVS-12345678901';
+const OTHER_PHARMACY = '3-AVS-98765432109';
+
+async function waitFor(condition) {
+  const deadline = Date.now() + 5000;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+console.log('🧪 Testing the prescription import\n');
+
+const flowDatabase = createFlowDatabase();
+const prescriptionService = new PrescriptionService(flowDatabase);
+const imported = [];
+prescriptionService.on('prescription-imported', ({ prescription }) => imported.push(prescription.id));
+
+await test('XML bundles are imported under their PrescriptionId', () => {
+  const { prescription, created } = prescriptionService.importBundle(readPrescriptionXml('Beispiel_1_PZN'), 'test', PHARMACY);
+
+  assert.equal(created, true);
+  assert.equal(prescription.id, '160.100.000.000.006.24');
+  assert.equal(prescription.bundle.resourceType, 'Bundle');
+  assert.deepEqual(imported, ['160.100.000.000.006.24']);
+});
+
+await test('JSON bundles are imported, as text or as object', () => {
+  const json = fhir.xmlToJson(readPrescriptionXml('Beispiel_3_PKV'));
+  assert.equal(prescriptionService.importBundle(json, 'test', PHARMACY).prescription.id, '160.100.000.000.007.22');
+
+  const bundle = readPrescriptionBundle('Beispiel_22_Freitextverordnung');
+  assert.equal(prescriptionService.importBundle(bundle, 'test', PHARMACY).prescription.id, '160.100.000.000.023.70');
+});
+
+await test('a known PrescriptionId is not imported again', () => {
+  const { prescription, created } = prescriptionService.importBundle(fhir.xmlToJson(readPrescriptionXml('Beispiel_1_PZN')), 'test', PHARMACY);
+
+  assert.equal(created, false);
+  assert.equal(prescription.source, 'test', PHARMACY);
+  assert.equal(prescriptionService.searchPrescriptions(PHARMACY).length, 3);
+  assert.equal(imported.length, 3);
+});
+
+await test('bundles are only listed for their importer', () => {
+  assert.deepEqual(prescriptionService.searchPrescriptions(OTHER_PHARMACY), []);
+  assert.throws(() => prescriptionService.importBundle(readPrescriptionXml('Beispiel_1_PZN'), 'test', OTHER_PHARMACY),
+    PrescriptionImportError);
+});
+
+await test('bundles stored without importer are held by nobody and imported again as duplicate', () => {
+  const service = new PrescriptionService(createFlowDatabase());
+  assert.equal(service.importBundle(readPrescriptionXml('evdga'), 'inbox/evdga.xml', null).created, true);
+
+  assert.equal(service.importBundle(readPrescriptionXml('evdga'), 'inbox/evdga.xml', null).created, false);
+  assert.equal(service.importBundle(readPrescriptionXml('evdga'), 'test', PHARMACY).created, false);
+});
+
+await test('other content is rejected', () => {
+  const withoutId = readPrescriptionBundle('Beispiel_1_PZN');
+  delete withoutId.identifier;
+
+  for (const content of ['<Bundle', '{}', { resourceType: 'Patient' }, withoutId]) {
+    assert.throws(() => prescriptionService.importBundle(content, 'test', PHARMACY), PrescriptionImportError);
+  }
+});
+
+await test('imports are only published to the importer\'s Bundle subscriptions', () => {
+  const service = new PrescriptionService(createFlowDatabase());
+  const subscriptions = new SubscriptionService({ on: () => {} }, service);
+  const notified = [];
+  subscriptions.sendEvent = (subscription, focus) => notified.push([subscription.owner, focus.reference]);
+
+  for (const owner of [PHARMACY, OTHER_PHARMACY]) {
+    subscriptions.createSubscription({ resourceType: 'Subscription', criteria: 'Bundle' }, owner);
+  }
+  service.importBundle(readPrescriptionXml('Beispiel_1_PZN'), 'test', PHARMACY);
+
+  assert.deepEqual(notified, [[PHARMACY, 'Bundle/160.100.000.000.006.24']]);
+});
+
+await test('the inbox is not watched without an inbox owner', () => {
+  const ownerless = new PrescriptionService(createFlowDatabase(), undefined, null);
+  assert.equal(ownerless.watchInbox(), false);
+  assert.equal(ownerless.watcher, null);
+  assert.equal(existsSync(ownerless.inboxPath), false);
+});
+
+await test('bundles dropped into the inbox are imported and moved out of it', async () => {
+  const inbox = new PrescriptionService(createFlowDatabase(), undefined, PHARMACY);
+  assert.equal(inbox.watchInbox(), true);
+
+  try {
+    writeFileSync(path.join(inbox.inboxPath, 'evdga.xml'), readPrescriptionXml('evdga'));
+    writeFileSync(path.join(inbox.inboxPath, 'broken.json'), '{ "resourceType": "Bundle",');
+    writeFileSync(path.join(inbox.inboxPath, 'notes.txt'), 'not a bundle');
+
+    await waitFor(() => existsSync(path.join(inbox.inboxPath, 'failed', 'broken.json'))
+      && existsSync(path.join(inbox.inboxPath, 'processed', 'evdga.xml')));
+
+    assert.deepEqual(inbox.searchPrescriptions(PHARMACY).map(prescription => prescription.id), ['162.100.000.000.027.75']);
+    assert.equal(inbox.searchPrescriptions(PHARMACY)[0].source, 'inbox/evdga.xml');
+    assert.ok(existsSync(path.join(inbox.inboxPath, 'failed', 'broken.json')));
+    assert.ok(existsSync(path.join(inbox.inboxPath, 'notes.txt')));
+  } finally {
+    inbox.close();
+  }
+});
+
+finish();
@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+/**
+ * Test script for the prescription Task lifecycle of the local E-Rezept-Fachdienst:
+ * $create, $activate, $accept, $reject, $close and $abort with AccessCode and
+ * Secret, and the MedicationRequest search over the stored bundles
+ */
+
+import assert from 'assert/strict';
+import { Fhir } from 'fhir';
+import { PrescriptionService, PrescriptionImportError, PrescriptionTaskError } from './modules/prescription-service.js';
+import { test, finish, errorOf, createFlowDatabase, readPrescriptionBundle } from './test-helpers.js';
+
+const fhir = new Fhir();
+
+const DOCTOR = '1-HBA-Testkarte-883110000129068';
+const PHARMACY = '3-AVS-12345678901';
+const OTHER_PHARMACY = '3-AVS-98765432109';
+const ACCESS_CODE_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_AccessCode';
+const SECRET_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_Secret';
+
+// KBV sample bundle as FHIR JSON, with the PrescriptionId of a created Task
+function readBundle(name, prescriptionId) {
+  const bundle = readPrescriptionBundle(name);
+  if (prescriptionId) {
+    bundle.identifier.value = prescriptionId;
+  }
+  return bundle;
+}
+
+function identifierOf(task, system) {
+  return task.identifier.find(identifier => identifier.system === system)?.value;
+}
+
+function assertTaskError(operation, status) {
+  const error = errorOf(operation);
+  assert.ok(error instanceof PrescriptionTaskError, `expected a PrescriptionTaskError, got ${error.name}: ${error.message}`);
+  assert.equal(error.status, status, error.message);
+}
+
+console.log('🧪 Testing the prescription Task lifecycle\n');
+
+const flowDatabase = createFlowDatabase();
+const prescriptionService = new PrescriptionService(flowDatabase);
+const activated = [];
+prescriptionService.on('prescription-imported', ({ prescription }) => activated.push(prescription.id));
+
+const created = prescriptionService.createTask('160', DOCTOR);
+const { accessCode } = created;
+
+test('$create issues a PrescriptionId with check digits and an AccessCode', () => {
+  assert.equal(created.id, '160.000.000.000.001.54');
+  assert.equal(created.status, 'draft');
+  assert.match(accessCode, /^[0-9a-f]{64}$/);
+  assert.equal(prescriptionService.createTask('162', DOCTOR).id, '162.000.000.000.002.42');
+
+  const task = prescriptionService.toFhirTask(created, { includeAccessCode: true });
+  assert.equal(identifierOf(task, ACCESS_CODE_SYSTEM), accessCode);
+  // Only $create and $activate return the AccessCode
+  assert.equal(identifierOf(prescriptionService.toFhirTask(created), ACCESS_CODE_SYSTEM), undefined);
+  assert.equal(task.extension[0].valueCoding.code, '160');
+  assert.deepEqual(task.input, []);
+
+  assertTaskError(() => prescriptionService.createTask('999', DOCTOR), 400);
+});
+
+test('$activate needs the AccessCode and a bundle with the PrescriptionId of the Task', () => {
+  assertTaskError(() => prescriptionService.activateTask(created.id, 'wrong', readBundle('Beispiel_1_PZN', created.id), DOCTOR), 403);
+  assert.ok(errorOf(() => prescriptionService.activateTask(created.id, accessCode, readBundle('Beispiel_1_PZN'), DOCTOR))
+    instanceof PrescriptionImportError);
+  assertTaskError(() => prescriptionService.getPrescription(created.id, DOCTOR), 404);
+});
+
+test('$activate stores the bundle and makes the Task ready', () => {
+  const xml = fhir.jsonToXml(JSON.stringify(readBundle('Beispiel_1_PZN', created.id)));
+  const prescription = prescriptionService.activateTask(created.id, accessCode, xml, DOCTOR);
+
+  assert.equal(prescription.status, 'ready');
+  assert.equal(prescriptionService.getPrescription(created.id, DOCTOR).bundle.identifier.value, created.id);
+  assert.deepEqual(prescriptionService.toFhirTask(prescription).input[0].valueReference, { reference: `Bundle/${created.id}` });
+  assert.deepEqual(activated, [created.id]);
+
+  assertTaskError(() => prescriptionService.activateTask(created.id, accessCode, xml, DOCTOR), 409);
+});
+
+test('bundles are read by participants or with the AccessCode', () => {
+  assertTaskError(() => prescriptionService.getPrescription(created.id, PHARMACY), 403);
+  assertTaskError(() => prescriptionService.getPrescription(created.id, PHARMACY, { accessCode: 'wrong' }), 403);
+  assert.equal(prescriptionService.getPrescription(created.id, PHARMACY, { accessCode }).id, created.id);
+  assert.deepEqual(prescriptionService.searchPrescriptions(PHARMACY), []);
+  assert.deepEqual(prescriptionService.searchPrescriptions(DOCTOR).map(prescription => prescription.id), [created.id]);
+});
+
+let secret;
+
+test('$accept hands the prescription to one pharmacy with a Secret', () => {
+  assertTaskError(() => prescriptionService.acceptTask(created.id, 'wrong', PHARMACY), 403);
+
+  const prescription = prescriptionService.acceptTask(created.id, accessCode, PHARMACY);
+  secret = prescription.secret;
+
+  assert.equal(prescription.status, 'in-progress');
+  const acceptedTask = prescriptionService.toFhirTask(prescription, { includeSecret: true });
+  assert.equal(identifierOf(acceptedTask, SECRET_SYSTEM), secret);
+  assert.equal(identifierOf(acceptedTask, ACCESS_CODE_SYSTEM), undefined);
+  assert.equal(identifierOf(prescriptionService.toFhirTask(prescription), SECRET_SYSTEM), undefined);
+  assert.equal(prescriptionService.getPrescription(created.id, OTHER_PHARMACY, { secret }).id, created.id);
+  assert.deepEqual(prescriptionService.searchPrescriptions(PHARMACY), []);
+  assertTaskError(() => prescriptionService.acceptTask(created.id, accessCode, PHARMACY), 409);
+});
+
+test('$reject returns the prescription and invalidates the Secret', () => {
+  assertTaskError(() => prescriptionService.rejectTask(created.id, accessCode), 403);
+
+  assert.equal(prescriptionService.rejectTask(created.id, secret).status, 'ready');
+  assertTaskError(() => prescriptionService.closeTask(created.id, secret), 403);
+
+  secret = prescriptionService.acceptTask(created.id, accessCode, PHARMACY).secret;
+});
+
+test('$close completes the prescription with the MedicationDispense', () => {
+  assertTaskError(() => prescriptionService.closeTask(created.id, secret, { resourceType: 'Patient' }), 400);
+
+  const dispense = { resourceType: 'MedicationDispense', status: 'completed', whenHandedOver: '2026-10-18' };
+  const prescription = prescriptionService.closeTask(created.id, secret, dispense);
+  const receipt = prescriptionService.toReceipt(prescription);
+
+  assert.equal(prescription.status, 'completed');
+  assert.deepEqual(prescription.dispense, dispense);
+  assert.equal(receipt.identifier.value, created.id);
+  assert.equal(receipt.entry[0].resource.author[0].reference, `Organization/${PHARMACY}`);
+  assertTaskError(() => prescriptionService.closeTask(created.id, secret), 409);
+  assertTaskError(() => prescriptionService.abortTask(created.id, { secret }), 409);
+});
+
+test('$abort cancels a ready prescription and deletes its bundle', () => {
+  const { prescription: imported } = prescriptionService.importBundle(readBundle('Beispiel_3_PKV'), 'test', PHARMACY);
+  assert.equal(imported.status, 'ready');
+
+  assertTaskError(() => prescriptionService.abortTask(imported.id, { accessCode: 'wrong' }), 403);
+  assert.equal(prescriptionService.abortTask(imported.id, { accessCode: imported.accessCode }).status, 'cancelled');
+
+  assertTaskError(() => prescriptionService.getPrescription(imported.id, PHARMACY), 404);
+  assertTaskError(() => prescriptionService.acceptTask(imported.id, imported.accessCode, PHARMACY), 410);
+  assert.ok(errorOf(() => prescriptionService.importBundle(readBundle('Beispiel_3_PKV'), 'test', PHARMACY)) instanceof PrescriptionImportError);
+});
+
+test('MedicationRequests of the caller\'s prescriptions are found by KVNR or Patient reference', () => {
+  prescriptionService.importBundle(readBundle('Beispiel_22_Freitextverordnung'), 'test', PHARMACY);
+
+  const all = prescriptionService.searchMedicationRequests({}, PHARMACY);
+  assert.deepEqual(all.map(({ prescription }) => prescription.id), ['160.100.000.000.023.70']);
+  assert.deepEqual(prescriptionService.searchMedicationRequests({}, DOCTOR).map(({ prescription }) => prescription.id), [created.id]);
+
+  const byKvnr = prescriptionService.searchMedicationRequests({ patient: 'S040464113' }, PHARMACY);
+  assert.deepEqual(byKvnr.map(({ prescription }) => prescription.id), ['160.100.000.000.023.70']);
+  assert.equal(byKvnr[0].entry.resource.resourceType, 'MedicationRequest');
+
+  const patientId = byKvnr[0].entry.resource.subject.reference;
+  assert.ok(prescriptionService.searchMedicationRequests({ patient: patientId }, PHARMACY).length >= 1);
+  assert.deepEqual(prescriptionService.searchMedicationRequests({ patient: 'X000000000' }, PHARMACY), []);
+  assert.deepEqual(prescriptionService.searchMedicationRequests({ patient: 'S040464113' }, OTHER_PHARMACY), []);
+});
+
+finish();
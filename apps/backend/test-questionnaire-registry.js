@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * Test script for the questionnaire registry: indexes, canonical version
+ * resolution, conflicting duplicates and reloading on form changes
+ */
+
+import assert from 'assert/strict';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { QuestionnaireRegistry } from './modules/questionnaire-registry.js';
+import { test, finish, createTempDir } from './test-helpers.js';
+
+const URL = 'http://example.org/Questionnaire/korrektur';
+
+function questionnaire(version, fields = {}) {
+  return { resourceType: 'Questionnaire', id: `korrektur-${version}`, url: URL, version, status: 'active', ...fields };
+}
+
+function writeForm(formsPath, file, content) {
+  const [folder] = file.split('/');
+  mkdirSync(join(formsPath, folder), { recursive: true });
+  writeFileSync(join(formsPath, file), typeof content === 'string' ? content : JSON.stringify(content));
+}
+
+function createForms(forms) {
+  const formsPath = createTempDir('ti-flow-forms-');
+  for (const [file, content] of Object.entries(forms)) {
+    writeForm(formsPath, file, content);
+  }
+  return formsPath;
+}
+
+const formsPath = createForms({
+  'e16A/korrektur-form.json': questionnaire('1.0.0'),
+  'e16A/korrektur_v2-form.json': questionnaire('2.0.0'),
+  'e16A/korrektur_v10-form.json': questionnaire('10.0.0'),
+  'e16A/korrektur-copy-form.json': questionnaire('1.0.0'),
+  'e16A/korrektur_alt-form.json': questionnaire('1.0.0', { title: 'Abweichende Kopie' }),
+  'request-operations/btm_notfall-form.json': { resourceType: 'Questionnaire', status: 'draft', title: 'BtM' },
+  'request-operations/broken-form.json': '{ "resourceType": "Questionnaire",'
+});
+
+console.log('🧪 Testing the questionnaire registry\n');
+
+const registry = new QuestionnaireRegistry(formsPath);
+
+await test('forms are indexed by id and operation code', () => {
+  assert.equal(registry.getById('korrektur-2.0.0').version, '2.0.0');
+  assert.equal(registry.getByCode('btm_notfall').title, 'BtM');
+  assert.equal(registry.getByCode('korrektur_alt').title, 'Abweichende Kopie');
+  assert.equal(registry.getById('unknown'), null);
+  assert.equal(registry.getByCode('unknown'), null);
+});
+
+await test('a canonical URL resolves to the latest version unless one is given', () => {
+  assert.equal(registry.findByUrl(URL).version, '10.0.0');
+  assert.equal(registry.findByUrl(URL, '2.0.0').version, '2.0.0');
+  assert.equal(registry.findByUrl(`${URL}|1.0.0`).version, '1.0.0');
+  assert.equal(registry.findByUrl(`${URL}|3.0.0`), null);
+  assert.equal(registry.findByUrl('http://example.org/Questionnaire/unknown'), null);
+});
+
+await test('identical duplicates are aliases, different content is a conflict', () => {
+  assert.deepEqual(registry.conflicts.map(({ index, key, using }) => ({ index, key, using })), [
+    { index: 'id', key: 'korrektur-1.0.0', using: 'e16A/korrektur-copy-form.json' },
+    { index: 'canonical', key: `${URL}|1.0.0`, using: 'e16A/korrektur-copy-form.json' }
+  ]);
+  assert.equal(registry.findByUrl(URL, '1.0.0').title, undefined);
+  assert.equal(registry.search({ url: URL }).length, 3);
+});
+
+await test('search combines url, version and code', () => {
+  assert.deepEqual(registry.search({ url: URL }).map(q => q.version), ['10.0.0', '2.0.0', '1.0.0']);
+  assert.deepEqual(registry.search({ code: 'korrektur_v2' }).map(q => q.version), ['2.0.0']);
+  assert.deepEqual(registry.search({ code: 'korrektur_v2', version: '1.0.0' }), []);
+  assert.deepEqual(registry.search({ code: 'korrektur_alt', url: URL }), []);
+  assert.equal(registry.search().length, 6);
+});
+
+await test('unreadable forms are reported and skipped', () => {
+  assert.deepEqual(registry.errors.map(error => error.file), ['request-operations/broken-form.json']);
+});
+
+await test('changes to the forms folder are picked up by the watcher', async () => {
+  const watched = new QuestionnaireRegistry(createForms({ 'e16D/e16D-form.json': questionnaire('1.0.0') }));
+  watched.watch();
+
+  try {
+    writeForm(watched.formsPath, 'e16D/e16D_neu-form.json', questionnaire('1.1.0'));
+
+    const deadline = Date.now() + 5000;
+    while (!watched.getByCode('e16D_neu') && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    assert.equal(watched.getByCode('e16D_neu')?.version, '1.1.0');
+    assert.equal(watched.findByUrl(URL).version, '1.1.0');
+  } finally {
+    watched.close();
+  }
+});
+
+finish();
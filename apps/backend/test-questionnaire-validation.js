@@ -0,0 +1,202 @@
+#!/usr/bin/env node
+/**
+ * Test script for the validation of QuestionnaireResponses against their
+ * Questionnaire, as run by $validate and the start/counter-offer operations
+ */
+
+import assert from 'assert/strict';
+import { InformationService } from './modules/information-service.js';
+import { validateQuestionnaireResponse, hasValidationErrors } from './modules/questionnaire-validation.js';
+import { test, finish } from './test-helpers.js';
+
+const informationService = new InformationService();
+
+function errorsOf(questionnaire, items) {
+  const outcome = validateQuestionnaireResponse(questionnaire, {
+    resourceType: 'QuestionnaireResponse',
+    questionnaire: questionnaire.url,
+    status: 'completed',
+    item: items
+  });
+  return outcome.issue
+    .filter(issue => issue.severity === 'error')
+    .map(issue => ({ code: issue.code, expression: issue.expression[0] }));
+}
+
+function answer(linkId, value) {
+  return { linkId, answer: [value] };
+}
+
+const korrektur = informationService.getQuestionnaireByCode('e16A-korrektur');
+const rezeptanforderung = informationService.getQuestionnaireByCode('rezeptanforderung');
+
+const korrekturItems = [
+  answer('patient_name', { valueString: 'Königsstein, Ludger' }),
+  answer('patient_kvnr', { valueString: 'K220635158' }),
+  answer('prescription_id', { valueString: '160.100.000.000.006.24' }),
+  answer('medication_name', { valueString: 'Januvia® 50 mg 28 Filmtabletten N1' }),
+  answer('prescriber_name', { valueString: 'Dr. med. Hans Topp-Glücklich' }),
+  answer('prescriber_lanr', { valueString: '838382202' }),
+  answer('organization_name', { valueString: 'Hausarztpraxis Dr. Topp-Glücklich' }),
+  answer('prescription_date', { valueDate: '2024-05-20' }),
+  {
+    linkId: 'change_request',
+    item: [
+      answer('medication', { valueString: 'Januvia® 100 mg 28 Filmtabletten N1' }),
+      answer('packages', { valueInteger: 1 })
+    ]
+  },
+  answer('urgency', { valueCoding: { code: 'urgent' } }),
+  answer('requester_tid', { valueString: '3-SMC-B-Testkarte-883110000116873' }),
+  answer('receiver_tid', { valueString: '1-SMC-B-Testkarte-883110000116948' })
+];
+
+const rezeptanforderungHeader = [
+  answer('744113603020', { valueString: 'Königsstein, Ludger' }),
+  answer('579806732389', { valueString: 'K220635158' }),
+  answer('126520044506', { valueString: 'Dr. med. Hans Topp-Glücklich' }),
+  answer('505738877644', { valueString: 'Stadt-Apotheke' })
+];
+
+console.log('🧪 Testing QuestionnaireResponse validation\n');
+
+test('e16A-korrektur: a complete response has no errors', () => {
+  const outcome = validateQuestionnaireResponse(korrektur, {
+    resourceType: 'QuestionnaireResponse',
+    questionnaire: korrektur.url,
+    item: korrekturItems
+  });
+
+  assert.equal(hasValidationErrors(outcome), false);
+  assert.deepEqual(outcome.issue.map(issue => issue.severity), ['information']);
+});
+
+test('e16A-korrektur: missing required items are reported at their location', () => {
+  const items = korrekturItems.filter(item => !['patient_kvnr', 'change_request'].includes(item.linkId));
+
+  assert.deepEqual(errorsOf(korrektur, items), [
+    { code: 'required', expression: "QuestionnaireResponse.item.where(linkId='patient_kvnr')" },
+    { code: 'required', expression: "QuestionnaireResponse.item.where(linkId='change_request')" }
+  ]);
+});
+
+test('e16A-korrektur: wrong value types, formats and options are rejected', () => {
+  const items = korrekturItems.map(item => {
+    if (item.linkId === 'prescription_date') return answer(item.linkId, { valueDate: '20.05.2024' });
+    if (item.linkId === 'urgency') return answer(item.linkId, { valueString: 'sofort' });
+    if (item.linkId === 'change_request') return { ...item, item: [answer('packages', { valueString: 'zwei' })] };
+    return item;
+  });
+
+  assert.deepEqual(errorsOf(korrektur, items), [
+    { code: 'value', expression: "QuestionnaireResponse.item.where(linkId='prescription_date').answer[0]" },
+    { code: 'value', expression: "QuestionnaireResponse.item.where(linkId='change_request').item.where(linkId='packages').answer[0]" },
+    { code: 'code-invalid', expression: "QuestionnaireResponse.item.where(linkId='urgency').answer[0]" }
+  ]);
+});
+
+test('e16A-korrektur: unknown items and duplicated answers are structural errors', () => {
+  const items = [
+    ...korrekturItems.map(item => item.linkId === 'patient_name'
+      ? { linkId: 'patient_name', answer: [{ valueString: 'A' }, { valueString: 'B' }] }
+      : item),
+    answer('comment', { valueString: 'Bitte Rückruf' })
+  ];
+
+  assert.deepEqual(errorsOf(korrektur, items), [
+    { code: 'structure', expression: "QuestionnaireResponse.item.where(linkId='comment')" },
+    { code: 'structure', expression: "QuestionnaireResponse.item.where(linkId='patient_name')" }
+  ]);
+});
+
+test('rezeptanforderung: enableWhen is evaluated per occurrence of the repeating group', () => {
+  const items = [
+    ...rezeptanforderungHeader,
+    {
+      linkId: '639744786988',
+      item: [
+        answer('162012817157', { valueString: '00814665' }),
+        answer('648941054860', { valueBoolean: false }),
+        answer('450083130796', { valueString: '1-0-0-0' })
+      ]
+    },
+    {
+      linkId: '639744786988',
+      item: [
+        answer('162012817157', { valueString: '03879429' }),
+        answer('677102290290', { valueQuantity: { value: 2, unit: 'Packung' } }),
+        answer('648941054860', { valueBoolean: true }),
+        answer('450083130796', { valueString: '1-0-1-0' })
+      ]
+    }
+  ];
+
+  assert.deepEqual(errorsOf(rezeptanforderung, items), [
+    { code: 'business-rule', expression: "QuestionnaireResponse.item.where(linkId='639744786988')[0].item.where(linkId='450083130796')" }
+  ]);
+});
+
+test('enableWhen operators and enableBehavior decide whether required items apply', () => {
+  const questionnaire = {
+    resourceType: 'Questionnaire',
+    url: 'http://example.org/Questionnaire/enable-when',
+    item: [
+      { linkId: 'age', type: 'integer' },
+      { linkId: 'allergy', type: 'string' },
+      {
+        linkId: 'guardian',
+        type: 'string',
+        required: true,
+        enableWhen: [{ question: 'age', operator: '<', answerInteger: 18 }]
+      },
+      {
+        linkId: 'allergy-details',
+        type: 'string',
+        required: true,
+        enableBehavior: 'any',
+        enableWhen: [
+          { question: 'allergy', operator: 'exists', answerBoolean: true },
+          { question: 'age', operator: '>=', answerInteger: 65 }
+        ]
+      }
+    ]
+  };
+
+  assert.deepEqual(errorsOf(questionnaire, [answer('age', { valueInteger: 40 })]), []);
+  assert.deepEqual(errorsOf(questionnaire, [answer('age', { valueInteger: 12 })]), [
+    { code: 'required', expression: "QuestionnaireResponse.item.where(linkId='guardian')" }
+  ]);
+  assert.deepEqual(errorsOf(questionnaire, [answer('age', { valueInteger: 70 })]), [
+    { code: 'required', expression: "QuestionnaireResponse.item.where(linkId='allergy-details')" }
+  ]);
+  assert.deepEqual(errorsOf(questionnaire, [
+    answer('age', { valueInteger: 40 }),
+    answer('allergy', { valueString: 'Penicillin' }),
+    answer('allergy-details', { valueString: 'Exanthem' })
+  ]), []);
+});
+
+test('open-choice items accept options and free text, choice items only options', () => {
+  const questionnaire = {
+    resourceType: 'Questionnaire',
+    url: 'http://example.org/Questionnaire/choices',
+    item: [
+      { linkId: 'form', type: 'open-choice', answerOption: [{ valueCoding: { code: 'FTA' } }] },
+      { linkId: 'route', type: 'choice', answerOption: [{ valueCoding: { code: 'oral' } }] }
+    ]
+  };
+
+  assert.deepEqual(errorsOf(questionnaire, [
+    answer('form', { valueString: 'Brausetabletten' }),
+    answer('route', { valueCoding: { code: 'oral' } })
+  ]), []);
+  assert.deepEqual(errorsOf(questionnaire, [
+    answer('form', { valueCoding: { code: 'TAB' } }),
+    answer('route', { valueString: 'oral' })
+  ]), [
+    { code: 'code-invalid', expression: "QuestionnaireResponse.item.where(linkId='form').answer[0]" },
+    { code: 'code-invalid', expression: "QuestionnaireResponse.item.where(linkId='route').answer[0]" }
+  ]);
+});
+
+finish();
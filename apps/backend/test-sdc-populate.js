@@ -147,9 +147,9 @@ async function testBothEndpoints() {
   console.log('🧪 Testing both $populate endpoints...\n');
   
   // Test new SDC-compliant endpoint
-  console.log('1️⃣ Testing new SDC endpoint: /Questionnaire/e16A_korrektur/$populate');
+  console.log('1️⃣ Testing new SDC endpoint: /Questionnaire/e16A-korrektur/$populate');
   try {
-    const response = await fetch('http://localhost:3001/Questionnaire/e16A_korrektur/$populate', {
+    const response = await fetch('http://localhost:3001/Questionnaire/e16A-korrektur/$populate', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -187,7 +187,7 @@ async function testBothEndpoints() {
       {
         "name": "questionaireId",
         "valueCoding": {
-          "code": "e16A_korrektur",
+          "code": "e16A-korrektur",
           "system": "http://gematik.de/fhir/ti-flow/CodeSystem/flow-operation-forms-cs"
         }
       },
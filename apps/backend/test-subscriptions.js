@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+/**
+ * Test script for the Task subscriptions: validation of Subscription resources,
+ * notifications of task changes to the participants whose criteria match, and
+ * the Server-Sent Events streams they are delivered over
+ */
+
+import assert from 'assert/strict';
+import { EventEmitter } from 'events';
+import { FlowService } from './modules/flow-service.js';
+import { SubscriptionService, SubscriptionError } from './modules/subscription-service.js';
+import { test, finish, createTempDir, questionnaireResponse } from './test-helpers.js';
+
+const PHARMACY = '3-AVS-12345678901';
+const DOCTOR = '1-abc-12345678';
+const OTHER_PHARMACY = '3-AVS-98765432109';
+
+function assertSubscriptionError(resource, message) {
+  assert.throws(() => subscriptionService.createSubscription(resource, PHARMACY),
+    error => error instanceof SubscriptionError && message.test(error.message));
+}
+
+function subscribe(criteria, owner) {
+  return subscriptionService.createSubscription({ resourceType: 'Subscription', criteria, channel: { type: 'sse' } }, owner);
+}
+
+// Server-Sent Events response recording the events written to it
+function createStream() {
+  return {
+    status: null,
+    chunks: [],
+    ended: false,
+    writeHead(status) { this.status = status; },
+    write(chunk) { this.chunks.push(chunk); },
+    end() { this.ended = true; },
+    events() {
+      return this.chunks.join('').split('\n\n').filter(Boolean).map(event => {
+        const [type, data] = event.split('\n');
+        return { type: type.replace('event: ', ''), bundle: JSON.parse(data.replace('data: ', '')) };
+      });
+    }
+  };
+}
+
+console.log('🧪 Testing the Task subscriptions\n');
+
+const flowService = new FlowService({ storage: 'json', databasePath: createTempDir(), resetOnStart: true });
+const subscriptionService = new SubscriptionService(flowService);
+
+test('only Task searches and Bundle are accepted as criteria', () => {
+  assertSubscriptionError({ resourceType: 'Task' }, /must be a FHIR Subscription resource/);
+  assertSubscriptionError({ resourceType: 'Subscription', criteria: 'Patient?name=x' }, /must be a Task search/);
+  assertSubscriptionError({ resourceType: 'Subscription', criteria: 'Task', channel: { type: 'rest-hook' } }, /Unsupported channel type: rest-hook/);
+  assertSubscriptionError({ resourceType: 'Subscription', criteria: 'Task?_sort=priority' }, /Unsupported _sort parameter/);
+
+  const subscription = subscribe('Task?status=requested&status=received', PHARMACY);
+  assert.deepEqual(subscription.search.status, [['requested'], ['received']]);
+  assert.equal(subscription.reason, 'Task changes');
+  assert.equal(subscribe('Bundle', PHARMACY).search, null);
+
+  for (const { id } of [...subscriptionService.subscriptions.values()]) {
+    subscriptionService.deleteSubscription(id);
+  }
+});
+
+test('the FHIR Subscription points to its event stream', () => {
+  const subscription = subscribe('Task', PHARMACY);
+  const resource = subscriptionService.toFhirSubscription(subscription);
+  assert.equal(resource.status, 'requested');
+  assert.equal(resource.criteria, 'Task');
+  assert.deepEqual(resource.channel, { type: 'sse', endpoint: `/Subscription/${subscription.id}/$events`, payload: 'application/fhir+json' });
+
+  assert.equal(subscriptionService.getSubscription(subscription.id), subscription);
+  assert.equal(subscriptionService.deleteSubscription(subscription.id), true);
+  assert.equal(subscriptionService.getSubscription(subscription.id), null);
+  assert.equal(subscriptionService.deleteSubscription(subscription.id), false);
+});
+
+test('streams start with a handshake and end the subscription when the last client disconnects', () => {
+  const subscription = subscribe('Task', PHARMACY);
+  const req = new EventEmitter();
+  const stream = createStream();
+
+  subscriptionService.openStream(subscription, req, stream);
+  assert.equal(stream.status, 200);
+  assert.equal(subscriptionService.toFhirSubscription(subscription).status, 'active');
+
+  const [handshake] = stream.events();
+  assert.equal(handshake.type, 'handshake');
+  assert.equal(handshake.bundle.type, 'subscription-notification');
+  assert.equal(handshake.bundle.entry[0].resource.type, 'handshake');
+  assert.equal(handshake.bundle.entry[0].resource.subscription.reference, `Subscription/${subscription.id}`);
+
+  const secondReq = new EventEmitter();
+  subscriptionService.openStream(subscription, secondReq, createStream());
+  req.emit('close');
+  assert.equal(subscription.streams.size, 1);
+  assert.equal(subscriptionService.getSubscription(subscription.id), subscription);
+
+  secondReq.emit('close');
+  assert.equal(subscription.streams.size, 0);
+  assert.equal(subscriptionService.getSubscription(subscription.id), null);
+});
+
+test('task changes are sent to the participants whose criteria match', () => {
+  const streams = {};
+  for (const [name, criteria, owner] of [
+    ['pharmacy', 'Task', PHARMACY],
+    ['doctorRequested', `Task?owner=${DOCTOR}&status=requested`, DOCTOR],
+    ['otherPharmacy', 'Task', OTHER_PHARMACY],
+    ['doctorBundles', 'Bundle', DOCTOR]
+  ]) {
+    const stream = createStream();
+    subscribe(criteria, owner).streams.add(stream);
+    streams[name] = stream;
+  }
+
+  const { taskId } = flowService.createRequest(PHARMACY, DOCTOR, questionnaireResponse(PHARMACY, DOCTOR));
+  flowService.markAsReceived(taskId, DOCTOR);
+
+  const pharmacyEvents = streams.pharmacy.events();
+  assert.deepEqual(pharmacyEvents.map(event => event.type), ['event-notification', 'event-notification']);
+  assert.deepEqual(pharmacyEvents.map(event => event.bundle.entry[1].resource.businessStatus.text), ['requested', 'received']);
+
+  const [status, task] = pharmacyEvents[1].bundle.entry;
+  assert.equal(status.resource.eventsSinceSubscriptionStart, '2');
+  assert.equal(status.resource.notificationEvent[0].eventNumber, '2');
+  assert.equal(status.resource.notificationEvent[0].focus.reference, `Task/${taskId}`);
+  assert.equal(task.fullUrl, `Task/${taskId}`);
+
+  // Criteria are evaluated against the changed task
+  assert.deepEqual(streams.doctorRequested.events().map(event => event.bundle.entry[1].resource.status), ['requested']);
+  // Tasks of others are never sent, whatever the criteria
+  assert.deepEqual(streams.otherPharmacy.events(), []);
+  assert.deepEqual(streams.doctorBundles.events(), []);
+});
+
+test('deleting a subscription closes its streams', () => {
+  const subscription = subscribe('Task', PHARMACY);
+  const stream = createStream();
+  subscription.streams.add(stream);
+
+  subscriptionService.deleteSubscription(subscription.id);
+  assert.equal(stream.ended, true);
+
+  flowService.createRequest(PHARMACY, DOCTOR, questionnaireResponse(PHARMACY, DOCTOR));
+  assert.deepEqual(stream.events(), []);
+});
+
+finish();
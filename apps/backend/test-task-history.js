@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+/**
+ * Test script for the Task history of the flow service: the version recorded
+ * per operation and the FHIR history Bundles of GET /Task/:id/_history and
+ * GET /Task/:id/_history/:vid
+ */
+
+import assert from 'assert/strict';
+import { FlowService } from './modules/flow-service.js';
+import { test, finish, createTempDir, questionnaireResponse as requestResponse } from './test-helpers.js';
+
+const REQUESTER = '3-AVS-12345678901';
+const RECEIVER = '1-abc-12345678';
+const HISTORY_EVENT_EXTENSION = 'http://gematik.de/fhir/ti-flow/StructureDefinition/task-history-event';
+
+function questionnaireResponse(medication) {
+  return requestResponse(REQUESTER, RECEIVER, [{ linkId: 'medication', answer: [{ valueString: medication }] }]);
+}
+
+// Sub-extensions of the history event of a Task version, as [url, value] pairs
+function eventOf(fhirTask) {
+  const event = fhirTask.extension.find(ext => ext.url === HISTORY_EVENT_EXTENSION);
+  return event.extension.map(ext => [ext.url, ext.valueCode ?? ext.valueString ?? ext.valueReference.reference]);
+}
+
+console.log('🧪 Testing the Task history\n');
+
+const databasePath = createTempDir();
+const flowService = new FlowService({ storage: 'json', databasePath, resetOnStart: true });
+
+const { taskId, questionnaireResponseId } = flowService.createRequest(REQUESTER, RECEIVER, questionnaireResponse('Ibuprofen 400'));
+flowService.markAsReceived(taskId, RECEIVER);
+const countered = flowService.processCounterOffer(taskId, questionnaireResponse('Ibuprofen 600'), RECEIVER);
+const counterOfferId = flowService.getCurrentRevisionId(countered);
+flowService.acceptTask(taskId, REQUESTER);
+
+test('every operation records a new version of the task', () => {
+  const versions = flowService.getTaskHistory(taskId);
+  assert.deepEqual(versions.map(v => v.versionId), ['1', '2', '3', '4']);
+  assert.deepEqual(versions.map(v => v.operation), ['create', 'receive', 'counter-offer', 'accept']);
+  assert.deepEqual(versions.map(v => v.status), ['requested', 'received', 'in_progress(Bearbeiter)', 'accepted']);
+  assert.deepEqual(versions.map(v => v.previousStatus), [null, 'requested', 'received', 'in_progress(Bearbeiter)']);
+  assert.deepEqual(versions.map(v => v.actor), [REQUESTER, RECEIVER, RECEIVER, REQUESTER]);
+
+  assert.deepEqual(versions[0].references, [`QuestionnaireResponse/${questionnaireResponseId}`]);
+  assert.deepEqual(versions[2].references, [`QuestionnaireResponse/${counterOfferId}`]);
+  // Accepting references the revision agreed to
+  assert.deepEqual(versions[3].references, [`QuestionnaireResponse/${counterOfferId}`]);
+});
+
+test('versions keep the task as it was at the time', () => {
+  const versions = flowService.getTaskHistory(taskId);
+  assert.equal(versions[0].task.status, 'requested');
+  assert.deepEqual(versions[0].task.revisions, [questionnaireResponseId]);
+  assert.deepEqual(versions[2].task.revisions, [questionnaireResponseId, counterOfferId]);
+
+  const task = flowService.getTask(taskId);
+  assert.equal(task.versionId, '4');
+  assert.equal(flowService.toFhirTask(task).meta.versionId, '4');
+});
+
+test('refused operations do not add a version', () => {
+  assert.equal(flowService.markAsReceived(taskId, RECEIVER), null);
+  assert.equal(flowService.getTaskHistory(taskId).length, 4);
+});
+
+test('_history returns all versions as history Bundle, newest first', () => {
+  const bundle = flowService.toFhirHistoryBundle(taskId, flowService.getTaskHistory(taskId));
+  assert.equal(bundle.resourceType, 'Bundle');
+  assert.equal(bundle.type, 'history');
+  assert.equal(bundle.total, 4);
+  assert.deepEqual(bundle.entry.map(entry => entry.fullUrl),
+    ['4', '3', '2', '1'].map(versionId => `Task/${taskId}/_history/${versionId}`));
+  assert.deepEqual(bundle.entry.map(entry => entry.request.url),
+    [`Task/${taskId}/$accept`, `Task/${taskId}/$counter-offer`, `Task/${taskId}/$receive`, 'Task']);
+  assert.deepEqual(bundle.entry.map(entry => entry.response.status), ['200 OK', '200 OK', '200 OK', '201 Created']);
+
+  const created = bundle.entry[3].resource;
+  assert.equal(created.meta.versionId, '1');
+  assert.equal(created.status, 'requested');
+  assert.equal(created.input.length, 1);
+});
+
+test('each version carries its event as extension', () => {
+  const [accepted, countered, received] = flowService.toFhirHistoryBundle(taskId, flowService.getTaskHistory(taskId)).entry
+    .map(entry => entry.resource);
+
+  assert.deepEqual(eventOf(received), [
+    ['operation', 'receive'],
+    ['actor', RECEIVER],
+    ['previousStatus', 'requested']
+  ]);
+  assert.deepEqual(eventOf(countered), [
+    ['operation', 'counter-offer'],
+    ['actor', RECEIVER],
+    ['previousStatus', 'received'],
+    ['reference', `QuestionnaireResponse/${counterOfferId}`]
+  ]);
+  assert.equal(accepted.businessStatus.text, 'accepted');
+});
+
+test('_history/:vid returns a single version', () => {
+  const version = flowService.getTaskHistory(taskId).find(v => v.versionId === '2');
+  const bundle = flowService.toFhirHistoryBundle(taskId, [version]);
+  assert.equal(bundle.total, 1);
+  assert.equal(bundle.entry[0].fullUrl, `Task/${taskId}/_history/2`);
+  assert.equal(bundle.entry[0].resource.meta.versionId, '2');
+  assert.equal(bundle.entry[0].resource.businessStatus.text, 'received');
+
+  assert.equal(flowService.getTaskHistory(taskId).find(v => v.versionId === '9'), undefined);
+});
+
+test('unknown tasks have no history', () => {
+  assert.equal(flowService.getTaskHistory('999'), null);
+});
+
+test('the history is kept across restarts', () => {
+  const restarted = new FlowService({ storage: 'json', databasePath });
+  assert.deepEqual(restarted.getTaskHistory(taskId).map(v => v.operation), ['create', 'receive', 'counter-offer', 'accept']);
+  assert.equal(restarted.findTaskByQuestionnaireId(counterOfferId).id, taskId);
+});
+
+finish();
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+/**
+ * Test script for the FHIR search parameters of GET /Task: parsing of the query,
+ * matching by status, participants, code and dates, sorting and paging
+ */
+
+import assert from 'assert/strict';
+import { TaskSearchError, parseTaskSearch, matchesTaskSearch, sortTasks, buildPagingLinks } from './modules/task-search.js';
+import { FlowService } from './modules/flow-service.js';
+import { test, finish, createTempDir, questionnaireResponse } from './test-helpers.js';
+
+const PHARMACY = '3-AVS-12345678901';
+const DOCTOR = '1-abc-12345678';
+const OTHER_DOCTOR = '1-xyz-87654321';
+const OPERATIONS_SYSTEM = 'https://gematik.de/fhir/ti-flow/CodeSystem/document-operations-cs';
+
+function assertSearchError(query, message) {
+  assert.throws(() => parseTaskSearch(query), error => error instanceof TaskSearchError && message.test(error.message));
+}
+
+// Stored tasks with fixed dates, matched like FlowService.searchTasks does
+const flowService = new FlowService({ storage: 'json', databasePath: createTempDir(), resetOnStart: true });
+
+const tasks = [
+  {
+    id: '1', status: 'requested', requester: `Organization/${PHARMACY}`, receiver: `Organization/${DOCTOR}`,
+    owner: `Organization/${DOCTOR}`, created: '2024-01-15T10:00:00.000Z', updated: '2024-01-15T10:00:00.000Z',
+    code: { system: OPERATIONS_SYSTEM, code: 'e16A-korrektur' }
+  },
+  {
+    id: '2', status: 'in_progress(Bearbeiter)', requester: `Organization/${PHARMACY}`, receiver: `Organization/${OTHER_DOCTOR}`,
+    owner: OTHER_DOCTOR, created: '2024-02-01T08:30:00.000Z', updated: '2024-03-01T12:00:00.000Z',
+    code: { system: OPERATIONS_SYSTEM, code: 'e16A-neuausstellung' }
+  },
+  {
+    id: '3', status: 'completed', requester: `Organization/${PHARMACY}`, receiver: `Organization/${DOCTOR}`,
+    owner: DOCTOR, created: '2024-02-20T09:00:00.000Z', updated: '2024-02-21T09:00:00.000Z'
+  }
+];
+
+function search(query) {
+  const parsed = parseTaskSearch(query);
+  return sortTasks(
+    tasks.filter(task => matchesTaskSearch(task, flowService.toFhirTask(task), parsed, (participant, value) => flowService.matchesParticipant(participant, value))),
+    parsed.sort
+  ).map(task => task.id);
+}
+
+console.log('🧪 Testing the Task search\n');
+
+test('without parameters all tasks are found, newest first', () => {
+  const parsed = parseTaskSearch({});
+  assert.equal(parsed.count, null);
+  assert.equal(parsed.offset, 0);
+  assert.equal(parsed.includeInput, false);
+  assert.deepEqual(search({}), ['3', '2', '1']);
+});
+
+test('status matches the FHIR status, business-status the workflow status', () => {
+  assert.deepEqual(search({ status: 'in-progress' }), ['2']);
+  assert.deepEqual(search({ status: 'requested,completed' }), ['3', '1']);
+  assert.deepEqual(search({ 'business-status': 'in_progress(Bearbeiter)' }), ['2']);
+  assert.deepEqual(search({ 'business-status': 'in_progress(Anfragender)' }), []);
+});
+
+test('repeated parameters are AND-ed, comma-separated values OR-ed', () => {
+  assert.deepEqual(search({ status: ['requested,completed', 'completed'] }), ['3']);
+  assert.deepEqual(search({ status: ['requested', 'completed'] }), []);
+});
+
+test('requester and owner match with and without Organization/', () => {
+  assert.deepEqual(search({ requester: PHARMACY }), ['3', '2', '1']);
+  assert.deepEqual(search({ owner: DOCTOR }), ['3', '1']);
+  assert.deepEqual(search({ owner: `Organization/${OTHER_DOCTOR}` }), ['2']);
+  assert.deepEqual(search({ requester: DOCTOR }), []);
+});
+
+test('code matches the code with or without its system', () => {
+  assert.deepEqual(search({ code: 'e16A-korrektur' }), ['1']);
+  assert.deepEqual(search({ code: `${OPERATIONS_SYSTEM}|e16A-neuausstellung` }), ['2']);
+  assert.deepEqual(search({ code: 'http://example.org|e16A-korrektur' }), []);
+  assert.deepEqual(search({ code: 'e16A-korrektur,e16A-neuausstellung' }), ['2', '1']);
+});
+
+test('dates are compared over the range of their precision', () => {
+  assert.deepEqual(search({ 'authored-on': '2024-02' }), ['3', '2']);
+  assert.deepEqual(search({ 'authored-on': '2024-01-15' }), ['1']);
+  assert.deepEqual(search({ 'authored-on': 'ge2024-02-01' }), ['3', '2']);
+  assert.deepEqual(search({ 'authored-on': 'lt2024-02-01' }), ['1']);
+  assert.deepEqual(search({ 'authored-on': 'ne2024' }), []);
+  assert.deepEqual(search({ 'authored-on': ['ge2024-02', 'le2024-02-10'] }), ['2']);
+  assert.deepEqual(search({ modified: 'gt2024-02-21' }), ['2']);
+  assertSearchError({ 'authored-on': 'yesterday' }, /Invalid date value for authored-on: yesterday/);
+});
+
+test('_sort sorts by one or more fields, descending with -', () => {
+  assert.deepEqual(search({ _sort: 'authored-on' }), ['1', '2', '3']);
+  assert.deepEqual(search({ _sort: '-modified' }), ['2', '3', '1']);
+  assert.deepEqual(search({ _sort: 'status,-authored-on' }), ['3', '2', '1']);
+  assertSearchError({ _sort: 'priority' }, /Unsupported _sort parameter: priority/);
+});
+
+test('_count, _offset and _include are validated', () => {
+  assert.equal(parseTaskSearch({ _count: '2' }).count, 2);
+  assert.equal(parseTaskSearch({ _offset: '4' }).offset, 4);
+  assert.equal(parseTaskSearch({ _include: 'Task:input' }).includeInput, true);
+  assertSearchError({ _count: '-1' }, /Invalid _count value: -1/);
+  assertSearchError({ _offset: 'next' }, /Invalid _offset value: next/);
+  assertSearchError({ _include: 'Task:owner' }, /Unsupported _include: Task:owner/);
+});
+
+test('paging links keep the query and move the offset', () => {
+  const query = { status: 'requested', _count: '2' };
+  const links = buildPagingLinks('http://localhost:3001/Task', query, parseTaskSearch(query), 5);
+  assert.deepEqual(links, [
+    { relation: 'self', url: 'http://localhost:3001/Task?status=requested&_count=2' },
+    { relation: 'next', url: 'http://localhost:3001/Task?status=requested&_count=2&_offset=2' }
+  ]);
+
+  const lastPage = { ...query, _offset: '4' };
+  assert.deepEqual(buildPagingLinks('http://localhost:3001/Task', lastPage, parseTaskSearch(lastPage), 5), [
+    { relation: 'self', url: 'http://localhost:3001/Task?status=requested&_count=2&_offset=4' },
+    { relation: 'previous', url: 'http://localhost:3001/Task?status=requested&_count=2&_offset=2' }
+  ]);
+
+  assert.deepEqual(buildPagingLinks('http://localhost:3001/Task', {}, parseTaskSearch({}), 5).map(link => link.relation), ['self']);
+});
+
+test('paging links only keep the search parameters', () => {
+  const query = { access_token: 'secret', status: 'requested', debug: '1', _count: '2' };
+  assert.deepEqual(buildPagingLinks('http://localhost:3001/Task', query, parseTaskSearch(query), 5).map(link => link.url), [
+    'http://localhost:3001/Task?status=requested&_count=2',
+    'http://localhost:3001/Task?status=requested&_count=2&_offset=2'
+  ]);
+});
+
+test('searchTasks only finds the tasks of the user and pages them', () => {
+  const first = flowService.createRequest(PHARMACY, DOCTOR, questionnaireResponse(PHARMACY, DOCTOR)).taskId;
+  const second = flowService.createRequest(PHARMACY, DOCTOR, questionnaireResponse(PHARMACY, DOCTOR)).taskId;
+  flowService.createRequest(PHARMACY, OTHER_DOCTOR, questionnaireResponse(PHARMACY, OTHER_DOCTOR));
+  flowService.markAsReceived(second, DOCTOR);
+
+  const all = flowService.searchTasks(parseTaskSearch({ user: DOCTOR, _sort: 'authored-on' }));
+  assert.equal(all.total, 2);
+  assert.deepEqual(all.tasks.map(task => task.id), [first, second]);
+
+  const page = flowService.searchTasks(parseTaskSearch({ user: DOCTOR, _sort: 'authored-on', _count: '1', _offset: '1' }));
+  assert.equal(page.total, 2);
+  assert.deepEqual(page.tasks.map(task => task.id), [second]);
+
+  assert.equal(flowService.searchTasks(parseTaskSearch({ user: PHARMACY })).total, 3);
+  assert.deepEqual(flowService.searchTasks(parseTaskSearch({ user: DOCTOR, status: 'received' })).tasks.map(task => task.id), [second]);
+});
+
+finish();
@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+/**
+ * Test script for the Task state machine of the flow service: the transition
+ * table, validateTransition with the roles of requester and receiver, the
+ * OperationOutcome of illegal transitions and the task operations guarded by it
+ */
+
+import assert from 'assert/strict';
+import { FlowService } from './modules/flow-service.js';
+import { test, finish, createTempDir, questionnaireResponse } from './test-helpers.js';
+
+const REQUESTER = '3-AVS-12345678901';
+const RECEIVER = '1-abc-12345678';
+const OTHER = '3-AVS-98765432109';
+
+// Stored task in the given status, as created by createRequest
+function taskIn(status) {
+  return {
+    id: '1',
+    requester: `Organization/${REQUESTER}`,
+    receiver: `Organization/${RECEIVER}`,
+    owner: `Organization/${RECEIVER}`,
+    status
+  };
+}
+
+// Operations the given actor may apply in the given status, with their target status
+function allowedFor(service, status, actor) {
+  return ['receive', 'counter-offer', 'accept', 'reject', 'close']
+    .map(operation => ({ operation, validation: service.validateTransition(taskIn(status), operation, actor) }))
+    .filter(({ validation }) => validation.allowed)
+    .map(({ operation, validation }) => `${operation} -> ${validation.to}`);
+}
+
+console.log('🧪 Testing the Task state machine\n');
+
+const flowService = new FlowService({ storage: 'json', databasePath: createTempDir(), resetOnStart: true });
+
+test('the transition table lists every outgoing transition per status and role', () => {
+  const transitions = flowService.getAllowedTransitions('requested');
+  assert.deepEqual(transitions, [
+    { operation: 'receive', role: 'receiver', to: 'received' },
+    { operation: 'reject', role: 'requester', to: 'rejected' },
+    { operation: 'reject', role: 'receiver', to: 'rejected' }
+  ]);
+
+  assert.deepEqual(flowService.getAllowedTransitions('accepted').map(t => `${t.operation}/${t.role}`),
+    ['close/receiver', 'reject/requester', 'reject/receiver']);
+  assert.deepEqual(flowService.getAllowedTransitions('rejected'), []);
+  assert.deepEqual(flowService.getAllowedTransitions('completed'), []);
+  assert.deepEqual(flowService.getAllowedTransitions('unknown'), []);
+});
+
+test('the receiver receives, counters, accepts and closes', () => {
+  assert.deepEqual(allowedFor(flowService, 'requested', RECEIVER), ['receive -> received', 'reject -> rejected']);
+  assert.deepEqual(allowedFor(flowService, 'received', RECEIVER),
+    ['counter-offer -> in_progress(Bearbeiter)', 'accept -> accepted', 'reject -> rejected']);
+  assert.deepEqual(allowedFor(flowService, 'accepted', RECEIVER), ['reject -> rejected', 'close -> completed']);
+});
+
+test('the requester may only reject until the receiver made a counter-offer', () => {
+  assert.deepEqual(allowedFor(flowService, 'requested', REQUESTER), ['reject -> rejected']);
+  assert.deepEqual(allowedFor(flowService, 'received', REQUESTER), ['reject -> rejected']);
+  assert.deepEqual(allowedFor(flowService, 'accepted', REQUESTER), ['reject -> rejected']);
+});
+
+test('counter-offers alternate between the parties', () => {
+  assert.deepEqual(allowedFor(flowService, 'in_progress(Bearbeiter)', REQUESTER),
+    ['counter-offer -> in_progress(Anfragender)', 'accept -> accepted', 'reject -> rejected']);
+  assert.deepEqual(allowedFor(flowService, 'in_progress(Bearbeiter)', RECEIVER), ['reject -> rejected']);
+
+  assert.deepEqual(allowedFor(flowService, 'in_progress(Anfragender)', RECEIVER),
+    ['counter-offer -> in_progress(Bearbeiter)', 'accept -> accepted', 'reject -> rejected']);
+  assert.deepEqual(allowedFor(flowService, 'in_progress(Anfragender)', REQUESTER), ['reject -> rejected']);
+});
+
+test('terminal states allow no operation', () => {
+  for (const status of ['rejected', 'completed']) {
+    assert.deepEqual(allowedFor(flowService, status, REQUESTER), []);
+    assert.deepEqual(allowedFor(flowService, status, RECEIVER), []);
+  }
+});
+
+test('validateTransition reports the role of the actor and the allowed transitions', () => {
+  const validation = flowService.validateTransition(taskIn('requested'), 'accept', RECEIVER);
+  assert.equal(validation.allowed, false);
+  assert.equal(validation.role, 'receiver');
+  assert.equal(validation.to, null);
+  assert.equal(validation.allowedTransitions.length, 3);
+
+  // Both telematik-ID formats identify the requester
+  assert.equal(flowService.validateTransition(taskIn('requested'), 'receive', REQUESTER).role, 'requester');
+  assert.equal(flowService.validateTransition(taskIn('requested'), 'receive', `Organization/${REQUESTER}`).role, 'requester');
+  // Actors that are not the requester act as the receiver; callers are checked with isParticipant first
+  assert.equal(flowService.validateTransition(taskIn('requested'), 'receive', OTHER).role, 'receiver');
+  assert.equal(flowService.isParticipant(taskIn('requested'), OTHER), false);
+});
+
+test('illegal transitions are described by a business-rule OperationOutcome', () => {
+  const task = taskIn('received');
+  const outcome = flowService.toTransitionOutcome(task, 'close', flowService.validateTransition(task, 'close', RECEIVER));
+  assert.equal(outcome.resourceType, 'OperationOutcome');
+  assert.equal(outcome.issue[0].code, 'business-rule');
+  assert.equal(outcome.issue[0].details.text, "Operation $close is not allowed for the receiver of Task/1 in state 'received'");
+  assert.match(outcome.issue[0].diagnostics, /Allowed next states: counter-offer -> in_progress\(Bearbeiter\) \(receiver\)/);
+
+  const terminal = taskIn('completed');
+  const terminalOutcome = flowService.toTransitionOutcome(terminal, 'reject', flowService.validateTransition(terminal, 'reject', REQUESTER));
+  assert.match(terminalOutcome.issue[0].diagnostics, /No further transitions are allowed from this state/);
+});
+
+test('flow and document requests start requested and owned by the receiver', () => {
+  const code = { system: 'https://gematik.de/fhir/ti-flow/CodeSystem/document-operations-cs', code: 'e16A-korrektur' };
+
+  for (const [create, type] of [['createRequest', 'flow-request'], ['createDocumentRequest', 'document-request']]) {
+    const { taskId, questionnaireResponseId, task } = flowService[create](REQUESTER, RECEIVER, questionnaireResponse(REQUESTER, RECEIVER), code);
+    assert.equal(task.type, type);
+    assert.equal(task.status, 'requested');
+    assert.equal(task.requester, `Organization/${REQUESTER}`);
+    assert.equal(task.owner, `Organization/${RECEIVER}`);
+    assert.deepEqual(task.code, code);
+    assert.deepEqual(task.revisions, [questionnaireResponseId]);
+    assert.equal(task.versionId, '1');
+    assert.deepEqual(flowService.getTask(taskId), task);
+    assert.equal(flowService.getQuestionnaire(questionnaireResponseId).author.reference, `Organization/${REQUESTER}`);
+  }
+});
+
+test('task operations apply allowed transitions and refuse the others', () => {
+  const { taskId } = flowService.createRequest(REQUESTER, RECEIVER, questionnaireResponse(REQUESTER, RECEIVER));
+  assert.equal(flowService.getTask(taskId).status, 'requested');
+
+  assert.equal(flowService.markAsReceived(taskId, REQUESTER), null);
+  assert.equal(flowService.acceptTask(taskId, RECEIVER), null);
+  assert.equal(flowService.getTask(taskId).status, 'requested');
+
+  assert.equal(flowService.markAsReceived(taskId, RECEIVER).status, 'received');
+  assert.equal(flowService.markAsReceived(taskId, RECEIVER), null);
+  assert.equal(flowService.closeTask(taskId, { docId: 'doc-1', docPw: 'pw' }, RECEIVER), null);
+
+  const accepted = flowService.acceptTask(taskId, RECEIVER);
+  assert.equal(accepted.status, 'accepted');
+  assert.equal(accepted.owner, RECEIVER);
+
+  const completed = flowService.closeTask(taskId, { docId: 'doc-1', docPw: 'pw' }, RECEIVER);
+  assert.equal(completed.status, 'completed');
+  assert.equal(flowService.toFhirTask(completed).status, 'completed');
+  assert.equal(flowService.rejectTask(taskId, REQUESTER), null);
+
+  assert.equal(flowService.markAsReceived('999', RECEIVER), null);
+});
+
+test('both parties can reject an open request', () => {
+  const byRequester = flowService.createRequest(REQUESTER, RECEIVER, questionnaireResponse(REQUESTER, RECEIVER));
+  assert.equal(flowService.rejectTask(byRequester.taskId, REQUESTER).status, 'rejected');
+  assert.equal(flowService.toFhirTask(flowService.getTask(byRequester.taskId)).status, 'rejected');
+
+  const byReceiver = flowService.createRequest(REQUESTER, RECEIVER, questionnaireResponse(REQUESTER, RECEIVER));
+  flowService.markAsReceived(byReceiver.taskId, RECEIVER);
+  assert.equal(flowService.rejectTask(byReceiver.taskId, RECEIVER).status, 'rejected');
+  assert.equal(flowService.acceptTask(byReceiver.taskId, RECEIVER), null);
+});
+
+finish();
@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+/**
+ * Test script for the terminology operations: $lookup, $validate-code and
+ * $expand of hierarchical, filtered and questionnaire-contained value sets
+ */
+
+import assert from 'assert/strict';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { QuestionnaireRegistry } from './modules/questionnaire-registry.js';
+import { TerminologyService, TerminologyError } from './modules/terminology-service.js';
+import { validateQuestionnaireResponse, hasValidationErrors } from './modules/questionnaire-validation.js';
+import { test, finish, createTempDir } from './test-helpers.js';
+
+const SYSTEM = 'http://example.org/CodeSystem/operations';
+const QUESTIONNAIRE_URL = 'http://example.org/Questionnaire/korrektur';
+
+const codeSystem = {
+  resourceType: 'CodeSystem',
+  id: 'operations',
+  url: SYSTEM,
+  version: '1.0.0',
+  name: 'Operations',
+  status: 'active',
+  valueSet: 'http://example.org/ValueSet/operations',
+  concept: [
+    {
+      code: 'e16A',
+      display: 'Muster 16',
+      concept: [
+        { code: 'e16A-korrektur', display: 'Korrektur' },
+        { code: 'e16A-neuausstellung', display: 'Neuausstellung' }
+      ]
+    },
+    { code: 'e16D', display: 'Muster 16D', concept: [{ code: 'e16D-neuausstellung', display: 'DiGA' }] }
+  ]
+};
+
+const questionnaire = {
+  resourceType: 'Questionnaire',
+  id: 'korrektur',
+  url: QUESTIONNAIRE_URL,
+  status: 'active',
+  contained: [
+    {
+      resourceType: 'ValueSet',
+      id: 'urgency-vs',
+      status: 'active',
+      compose: { include: [{ system: 'http://example.org/urgency', concept: [{ code: 'normal', display: 'Normal' }, { code: 'urgent', display: 'Dringend' }] }] }
+    },
+    {
+      resourceType: 'ValueSet',
+      id: 'muster16-vs',
+      status: 'active',
+      compose: {
+        include: [{ system: SYSTEM, filter: [{ property: 'concept', op: 'descendent-of', value: 'e16A' }] }],
+        exclude: [{ system: SYSTEM, concept: [{ code: 'e16A-neuausstellung' }] }]
+      }
+    }
+  ],
+  item: [
+    { linkId: 'urgency', type: 'choice', answerValueSet: '#urgency-vs' },
+    { linkId: 'operation', type: 'choice', answerValueSet: '#muster16-vs' },
+    { linkId: 'any_operation', type: 'choice', answerValueSet: `${SYSTEM}?fhir_vs` }
+  ]
+};
+
+const rootPath = createTempDir('ti-flow-terminology-');
+mkdirSync(join(rootPath, 'codesystems'));
+mkdirSync(join(rootPath, 'forms', 'e16A'), { recursive: true });
+writeFileSync(join(rootPath, 'codesystems', 'CodeSystem-operations.json'), JSON.stringify(codeSystem));
+writeFileSync(join(rootPath, 'forms', 'e16A', 'korrektur-form.json'), JSON.stringify(questionnaire));
+
+const terminology = new TerminologyService(new QuestionnaireRegistry(join(rootPath, 'forms')), join(rootPath, 'codesystems'));
+
+const parameter = (parameters, name) => parameters.parameter.find(p => p.name === name);
+const codes = contains => (contains || []).map(entry => entry.contains ? [entry.code, codes(entry.contains)] : entry.code);
+
+console.log('🧪 Testing terminology operations\n');
+
+test('CodeSystems are searched and read', () => {
+  assert.equal(terminology.searchCodeSystems({ url: SYSTEM }).length, 1);
+  assert.equal(terminology.searchCodeSystems({ name: 'oper', code: 'e16D-neuausstellung' }).length, 1);
+  assert.deepEqual(terminology.searchCodeSystems({ version: '2.0.0' }), []);
+  assert.equal(terminology.getCodeSystem('operations').url, SYSTEM);
+  assert.equal(terminology.getCodeSystem('unknown'), null);
+});
+
+test('$lookup returns display and hierarchy of nested concepts', () => {
+  const result = terminology.lookup({ system: SYSTEM, code: 'e16A-korrektur' });
+  assert.equal(parameter(result, 'display').valueString, 'Korrektur');
+  assert.equal(parameter(result, 'version').valueString, '1.0.0');
+  assert.deepEqual(parameter(result, 'property').part, [{ name: 'code', valueCode: 'parent' }, { name: 'value', valueCode: 'e16A' }]);
+
+  assert.throws(() => terminology.lookup({ system: SYSTEM, code: 'unknown' }), error => error instanceof TerminologyError && error.status === 404);
+  assert.throws(() => terminology.lookup({ code: 'e16A' }), error => error.status === 400);
+});
+
+test('CodeSystem $validate-code checks code and display', () => {
+  assert.equal(parameter(terminology.validateCodeSystemCode({ url: SYSTEM, code: 'e16D' }), 'result').valueBoolean, true);
+  assert.equal(parameter(terminology.validateCodeSystemCode({ url: SYSTEM, code: 'e99' }), 'result').valueBoolean, false);
+  assert.equal(parameter(terminology.validateCodeSystemCode({ url: SYSTEM, code: 'e16D', display: 'Muster 99' }), 'result').valueBoolean, false);
+});
+
+test('implicit value sets expand hierarchically, flat or filtered', () => {
+  const url = `${SYSTEM}?fhir_vs`;
+  const hierarchical = terminology.expandValueSet(terminology.resolveValueSet({ url }));
+  assert.deepEqual(codes(hierarchical.expansion.contains), [
+    ['e16A', ['e16A-korrektur', 'e16A-neuausstellung']],
+    ['e16D', ['e16D-neuausstellung']]
+  ]);
+  assert.equal(hierarchical.expansion.total, 5);
+  assert.match(hierarchical.expansion.identifier, /^urn:uuid:/);
+
+  const flat = terminology.expandValueSet(terminology.resolveValueSet({ url: codeSystem.valueSet }), { excludeNested: true });
+  assert.deepEqual(codes(flat.expansion.contains), ['e16A', 'e16A-korrektur', 'e16A-neuausstellung', 'e16D', 'e16D-neuausstellung']);
+
+  const filtered = terminology.expandValueSet(terminology.resolveValueSet({ url }), { filter: 'neuaus' });
+  assert.deepEqual(codes(filtered.expansion.contains), ['e16A-neuausstellung', 'e16D-neuausstellung']);
+
+  assert.throws(() => terminology.resolveValueSet({ url: 'http://example.org/ValueSet/unknown' }), error => error.status === 404);
+});
+
+test('contained value sets expand by questionnaire item context, with filters and excludes', () => {
+  const urgency = terminology.expandValueSet(terminology.resolveValueSet({ context: `${QUESTIONNAIRE_URL}#urgency` }));
+  assert.deepEqual(urgency.expansion.contains.map(entry => entry.display), ['Normal', 'Dringend']);
+
+  const operation = terminology.expandValueSet(terminology.resolveValueSet({ context: `${QUESTIONNAIRE_URL}#operation` }));
+  assert.deepEqual(codes(operation.expansion.contains), ['e16A-korrektur']);
+
+  assert.throws(() => terminology.resolveValueSet({ context: `${QUESTIONNAIRE_URL}#unknown` }), error => error.status === 404);
+});
+
+test('ValueSet $validate-code and choice answers use the expansion', () => {
+  const valueSet = terminology.resolveValueSet({ context: `${QUESTIONNAIRE_URL}#operation` });
+  assert.equal(parameter(terminology.validateValueSetCode(valueSet, { system: SYSTEM, code: 'e16A-korrektur' }), 'result').valueBoolean, true);
+  assert.equal(parameter(terminology.validateValueSetCode(valueSet, { system: SYSTEM, code: 'e16A-neuausstellung' }), 'result').valueBoolean, false);
+
+  const response = code => ({
+    resourceType: 'QuestionnaireResponse',
+    questionnaire: QUESTIONNAIRE_URL,
+    status: 'completed',
+    item: [{ linkId: 'any_operation', answer: [{ valueCoding: { system: SYSTEM, code } }] }]
+  });
+  assert.equal(hasValidationErrors(validateQuestionnaireResponse(questionnaire, response('e16D-neuausstellung'), terminology)), false);
+  assert.equal(hasValidationErrors(validateQuestionnaireResponse(questionnaire, response('e99'), terminology)), true);
+});
+
+finish();
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import type { DoctorFlowQuestionnaire, DoctorFlowQuestionnaireResponse } from '../services/doctorFlowService';
+import { QuestionnaireItemInput, QuestionnaireResponseDiff, type FieldValue } from '@ti-flow/ui';
+
+interface CounterOfferEditorProps {
+  questionnaireResponse: DoctorFlowQuestionnaireResponse;
+  // Questionnaire the response answers; without it every answer is edited as text
+  questionnaire?: DoctorFlowQuestionnaire;
+  isSubmitting: boolean;
+  onSubmit: (counterOffer: DoctorFlowQuestionnaireResponse) => void;
+  onCancel: () => void;
+}
+
+const isSameValue = (a: FieldValue | undefined, b: FieldValue | undefined) => JSON.stringify(a) === JSON.stringify(b);
+
+// Edit the answers of the latest revision and submit them as a new revision
+export function CounterOfferEditor({ questionnaireResponse, questionnaire, isSubmitting, onSubmit, onCancel }: CounterOfferEditorProps) {
+  const answers = QuestionnaireResponseDiff.flattenAnswers(questionnaireResponse);
+  const initialValues = QuestionnaireResponseDiff.getFieldValues(questionnaireResponse, questionnaire);
+  const [values, setValues] = useState<Record<string, FieldValue>>(initialValues);
+
+  const hasChanges = [...answers.keys()].some(linkId => !isSameValue(values[linkId], initialValues[linkId]));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(QuestionnaireResponseDiff.applyAnswerValues(questionnaireResponse, values, questionnaire));
+  };
+
+  return (
+    <form className="counter-offer-editor" onSubmit={handleSubmit}>
+      <h5>🔄 Gegenangebot bearbeiten</h5>
+      {[...answers].map(([linkId, answer]) => {
+        const item = QuestionnaireResponseDiff.findItem(questionnaire, linkId);
+        const fieldId = `counter-offer-${linkId}`;
+        const changed = !isSameValue(values[linkId], initialValues[linkId]);
+
+        return (
+          <div key={linkId} className={`questionnaire-item${changed ? ' changed' : ''}`}>
+            <label htmlFor={fieldId}>{answer.text}:</label>
+            {item ? (
+              <QuestionnaireItemInput
+                item={item}
+                questionnaire={questionnaire}
+                fieldId={fieldId}
+                value={values[linkId]}
+                onChange={(value) => setValues({ ...values, [linkId]: value })}
+              />
+            ) : (
+              <input
+                id={fieldId}
+                type="text"
+                value={typeof values[linkId] === 'string' ? values[linkId] : ''}
+                onChange={(e) => setValues({ ...values, [linkId]: e.target.value })}
+              />
+            )}
+          </div>
+        );
+      })}
+      <div className="action-buttons">
+        <button type="button" onClick={onCancel} disabled={isSubmitting} className="back-button">
+          Abbrechen
+        </button>
+        <button type="submit" disabled={isSubmitting || !hasChanges} className="counter-offer-button">
+          {isSubmitting ? 'Wird gesendet...' : '📤 Gegenangebot senden'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,24 +1,19 @@
 import { useState, useEffect } from 'react';
-import { DoctorFlowService } from '../services/doctorFlowService';
+import { DoctorFlowService, type EPrescription } from '../services/doctorFlowService';
 import { PatientService, type Patient } from '../services/patientService';
+import type { PrescriptionPrefillData } from '../utils/prescriptionPrefill';
 
 interface PrescriptionFormProps {
   onPrescriptionCreated?: () => void;
   taskId?: string; // Add taskId for closing the task
-  prefillData?: {
-    patientId?: string;
-    medication?: string;
-    pzn?: string | number;
-    dosage?: string;
-    packages?: string | number;
-  };
+  prefillData?: PrescriptionPrefillData;
 }
 
 export function PrescriptionForm({ onPrescriptionCreated, prefillData, taskId }: PrescriptionFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [prescriptionResult, setPrescriptionResult] = useState<{ prescriptionId: string; secret: string } | null>(null);
+  const [prescriptionResult, setPrescriptionResult] = useState<EPrescription | null>(null);
   const [isClosing, setIsClosing] = useState(false);
   const [patients, setPatients] = useState<Patient[]>([]);
   
@@ -72,12 +67,13 @@ export function PrescriptionForm({ onPrescriptionCreated, prefillData, taskId }:
     setSuccess(null);
 
     try {
-      // Call mock e-prescription service
+      // Create and activate the prescription at the E-Rezept-Fachdienst
       const result = await DoctorFlowService.createEPrescription(formData);
       
       setPrescriptionResult(result);
       setSuccess(`E-Rezept ${result.prescriptionId} erfolgreich erstellt!`);
     } catch (err) {
+      console.error('Failed to create e-prescription:', err);
       setError('Fehler beim Erstellen des E-Rezepts');
     } finally {
       setIsLoading(false);
@@ -131,7 +127,7 @@ export function PrescriptionForm({ onPrescriptionCreated, prefillData, taskId }:
             <h4>✅ E-Rezept erfolgreich erstellt</h4>
             <div className="prescription-details">
               <p><strong>Rezept-ID:</strong> {prescriptionResult.prescriptionId}</p>
-              <p><strong>Geheimnis:</strong> {"*".repeat(prescriptionResult.secret.length)}</p>
+              <p><strong>Zugangscode:</strong> {"*".repeat(prescriptionResult.accessCode.length)}</p>
             </div>
           </div>
           
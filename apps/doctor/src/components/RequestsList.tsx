@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import type { DoctorRequest, DoctorFlowQuestionnaire, DoctorFlowQuestionnaireResponse } from '../services/doctorFlowService';
+import type { DoctorRequest, DoctorFlowQuestionnaire, DoctorFlowQuestionnaireResponse, DoctorQuestionnaireResponseRevision, DoctorTaskHistoryEntry } from '../services/doctorFlowService';
 import { DoctorFlowService } from '../services/doctorFlowService';
+import { DoctorInfoService } from '../services/doctorInfoService';
+import { RevisionDiff, TaskHistoryTimeline } from '@ti-flow/ui';
 import { PrescriptionForm } from './PrescriptionForm';
+import { CounterOfferEditor } from './CounterOfferEditor';
 
 interface RequestsListProps {
   onPrescriptionCreated?: () => void;
@@ -48,10 +51,17 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<DoctorRequest | null>(null);
   const [questionnaireResponse, setQuestionnaireResponse] = useState<DoctorFlowQuestionnaireResponse | null>(null);
+  const [questionnaire, setQuestionnaire] = useState<DoctorFlowQuestionnaire | undefined>(undefined);
+  const [revisions, setRevisions] = useState<DoctorQuestionnaireResponseRevision[]>([]);
+  // TI-Flow state of the selected task (businessStatus), e.g. in_progress(Anfragender)
+  const [selectedTaskStatus, setSelectedTaskStatus] = useState<string | null>(null);
+  const [showCounterOfferEditor, setShowCounterOfferEditor] = useState(false);
+  const [taskHistory, setTaskHistory] = useState<DoctorTaskHistoryEntry[]>([]);
   const [showDetails, setShowDetails] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
   const [showPrescriptionModal, setShowPrescriptionModal] = useState(false);
   const [prescriptionPrefill, setPrescriptionPrefill] = useState<any>(null);
+  const [unseenTaskIds, setUnseenTaskIds] = useState<Set<string>>(new Set());
 
   const loadRequests = async () => {
     setIsLoading(true);
@@ -70,17 +80,37 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
     
     setSelectedRequest(request);
     setShowDetails(true);
+    setShowCounterOfferEditor(false);
+    setTaskHistory([]);
+    setQuestionnaireResponse(null);
+    setQuestionnaire(undefined);
+    setRevisions([]);
+    setSelectedTaskStatus(null);
+    setUnseenTaskIds(current => {
+      const next = new Set(current);
+      next.delete(request.taskId!);
+      return next;
+    });
     
     try {
-      const task = await DoctorFlowService.getTask(request.taskId);
-      
-      // Get the QuestionnaireResponse reference from the task input
-      const questionnaireResponseRef = task.input[0]?.valueReference?.reference;
+      let task = await DoctorFlowService.getTask(request.taskId);
+
+      // Opening a new request addressed to the doctor marks it as received
+      if (DoctorFlowService.isAwaitingReceipt(task)) {
+        task = await DoctorFlowService.receiveTask(request.taskId);
+      }
+      setSelectedTaskStatus(task.businessStatus.text);
+      setTaskHistory(await DoctorFlowService.getTaskHistory(request.taskId));
       
-      if (questionnaireResponseRef) {
-        const questionnaireResponseId = questionnaireResponseRef.split('/')[1];
-        const qr = await DoctorFlowService.getQuestionnaireResponse(questionnaireResponseId);
-        setQuestionnaireResponse(qr);
+      // The latest revision is the one currently under negotiation
+      const taskRevisions = await DoctorFlowService.getQuestionnaireResponseRevisions(task);
+      setRevisions(taskRevisions);
+      const latestResponse = taskRevisions[taskRevisions.length - 1]?.questionnaireResponse;
+      setQuestionnaireResponse(latestResponse || null);
+
+      // Counter-offers answer with the value types of the questionnaire's items
+      if (latestResponse?.questionnaire) {
+        setQuestionnaire(await DoctorFlowService.findQuestionnaireByUrl(latestResponse.questionnaire));
       }
     } catch (error) {
       console.error('Failed to load request details:', error);
@@ -95,44 +125,10 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
       // First, accept the task
       await DoctorFlowService.acceptTask(request.taskId);
       
-      // Then load the questionnaire response to get the medication data
-      const response = await DoctorFlowService.getQuestionnaireResponse(request.taskId);
-      if (response) {
-        // Extract medication group data
-        const medicationGroup = response.item.find(item => item.linkId === 'change_request') as any;
-        
-        let prefillData: any = {};
-        if (medicationGroup && medicationGroup.item) {
-          const medication = medicationGroup.item.find((item: any) => item.linkId === 'medication');
-          const pzn = medicationGroup.item.find((item: any) => item.linkId === 'pzn');
-          const dosage = medicationGroup.item.find((item: any) => item.linkId === 'dosage');
-          const packages = medicationGroup.item.find((item: any) => item.linkId === 'packages');
-          
-          prefillData = {
-            medication: medication?.answer?.[0]?.valueString || '',
-            pzn: pzn?.answer?.[0]?.valueInteger || '',
-            dosage: dosage?.answer?.[0]?.valueString || '',
-            packages: packages?.answer?.[0]?.valueInteger || ''
-          };
-        }
-        
-        // Find patient by KVNR
-        const patientKvnr = response.item.find(item => item.linkId === 'patient_kvnr')?.answer?.[0]?.valueString;
-        if (patientKvnr) {
-          // Map KVNR to patient ID
-          const patientMap: Record<string, string> = {
-            'A123456789': 'pat-001',
-            'K220635158': 'pat-004',
-            'B987654321': 'pat-002', 
-            'C456789123': 'pat-003'
-          };
-          
-          prefillData = {
-            ...prefillData,
-            patientId: patientMap[patientKvnr] || ''
-          };
-        }
-        
+      // Then prefill the prescription from the resources extracted from the accepted revision
+      const acceptedRevision = revisions[revisions.length - 1];
+      if (acceptedRevision) {
+        const prefillData = await DoctorFlowService.getPrescriptionPrefill(acceptedRevision.id);
         setPrescriptionPrefill({ ...prefillData, taskId: request.taskId });
         setShowPrescriptionModal(true);
         // Close the details view when opening the modal
@@ -150,45 +146,13 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
     
     setActionLoading(true);
     try {
-      // Load the questionnaire response to get the medication data for approved tasks
-      const response = await DoctorFlowService.getQuestionnaireResponse(request.taskId);
-      
-      let prefillData: any = {};
-      if (response) {
-        // Extract medication group data
-        const medicationGroup = response.item.find(item => item.linkId === 'change_request') as any;
-        
-        if (medicationGroup && medicationGroup.item) {
-          const medication = medicationGroup.item.find((item: any) => item.linkId === 'medication');
-          const pzn = medicationGroup.item.find((item: any) => item.linkId === 'pzn');
-          const dosage = medicationGroup.item.find((item: any) => item.linkId === 'dosage');
-          const packages = medicationGroup.item.find((item: any) => item.linkId === 'packages');
-          
-          prefillData = {
-            medication: medication?.answer?.[0]?.valueString || '',
-            pzn: pzn?.answer?.[0]?.valueInteger || '',
-            dosage: dosage?.answer?.[0]?.valueString || '',
-            packages: packages?.answer?.[0]?.valueInteger || ''
-          };
-        }
-        
-        // Find patient by KVNR
-        const patientKvnr = response.item.find(item => item.linkId === 'patient_kvnr')?.answer?.[0]?.valueString;
-        if (patientKvnr) {
-          // Map KVNR to patient ID
-          const patientMap: Record<string, string> = {
-            'A123456789': 'pat-001',
-            'K220635158': 'pat-004',
-            'B987654321': 'pat-002', 
-            'C456789123': 'pat-003'
-          };
-          
-          prefillData = {
-            ...prefillData,
-            patientId: patientMap[patientKvnr] || ''
-          };
-        }
-      }
+      // Load the accepted revision to prefill the prescription for approved tasks
+      const task = await DoctorFlowService.getTask(request.taskId);
+      const taskRevisions = await DoctorFlowService.getQuestionnaireResponseRevisions(task);
+      const acceptedRevision = taskRevisions[taskRevisions.length - 1];
+      const prefillData = acceptedRevision
+        ? await DoctorFlowService.getPrescriptionPrefill(acceptedRevision.id)
+        : {};
       
       setPrescriptionPrefill({ ...prefillData, taskId: request.taskId });
       setShowPrescriptionModal(true);
@@ -216,57 +180,17 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
     }
   };
 
-  const handleCounterOffer = async (request: DoctorRequest) => {
-    if (!request.taskId || !questionnaireResponse) return;
-    
-    // Create a counter-offer questionnaire based on the original response
-    const counterOfferQuestionnaire: DoctorFlowQuestionnaire = {
-      resourceType: 'Questionnaire',
-      id: `counter-${questionnaireResponse.id}`,
-      status: 'active',
-      date: new Date().toISOString(),
-      title: `Counter-offer for request`,
-      description: 'Modified prescription details from doctor',
-      item: questionnaireResponse.item.map(item => ({
-        linkId: item.linkId,
-        text: item.text,
-        type: 'string',
-        initial: item.answer && item.answer.length > 0 
-          ? [{ valueString: `Modified: ${item.answer[0].valueString || item.answer[0].valueInteger || item.answer[0].valueDate}` }]
-          : [{ valueString: 'Modified value' }]
-      }))
-    };
-
-    setActionLoading(true);
-    try {
-      await DoctorFlowService.submitCounterOffer(request.taskId, counterOfferQuestionnaire);
-      await loadRequests(); // Refresh the list
-      setShowDetails(false);
-    } catch (error) {
-      console.error('Failed to submit counter-offer:', error);
-    } finally {
-      setActionLoading(false);
-    }
-  };
-
-  const handleComplete = async (request: DoctorRequest) => {
+  const handleCounterOffer = async (request: DoctorRequest, counterOffer: DoctorFlowQuestionnaireResponse) => {
     if (!request.taskId) return;
-    
-    // Generate mock prescription data
-    const docId = `prescription-${Date.now()}`;
-    const docPw = `pwd-${Math.random().toString(36).substring(7)}`;
 
     setActionLoading(true);
     try {
-      await DoctorFlowService.closeTask(request.taskId, {
-        prescriptionId: docId,
-        secret: docPw
-      });
+      await DoctorFlowService.submitCounterOffer(request.taskId, counterOffer);
       await loadRequests(); // Refresh the list
+      setShowCounterOfferEditor(false);
       setShowDetails(false);
-      alert(`Prescription created!\nDocument ID: ${docId}\nPassword: ${docPw}`);
     } catch (error) {
-      console.error('Failed to complete request:', error);
+      console.error('Failed to submit counter-offer:', error);
     } finally {
       setActionLoading(false);
     }
@@ -276,6 +200,16 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
     loadRequests();
   }, []);
 
+  // Live updates: reload the list in the background when one of our tasks changes
+  useEffect(() => {
+    return DoctorFlowService.subscribeToTaskChanges(async (changedTask) => {
+      if (!DoctorFlowService.isOwnChange(changedTask)) {
+        setUnseenTaskIds(current => new Set(current).add(changedTask.id));
+      }
+      setRequests(await DoctorFlowService.getAllRequests());
+    });
+  }, []);
+
   const getStatusColor = (status: DoctorRequest['status']) => {
     switch (status) {
       case 'pending': return '#f59e0b';
@@ -299,6 +233,10 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
   };
 
   if (showDetails && selectedRequest) {
+    // The doctor answers new requests and the pharmacy's counter-offers;
+    // while the pharmacy is answering a counter-offer there is nothing to do
+    const canRespond = selectedTaskStatus === 'received' || selectedTaskStatus === 'in_progress(Anfragender)';
+
     return (
       <div className="card">
         <div className="requests-header">
@@ -320,33 +258,54 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
           </span></p>
           <p><strong>Datum:</strong> {new Date(selectedRequest.requestDate).toLocaleString()}</p>
 
-          {questionnaireResponse && (
+          {revisions.length > 1 && (
+            <RevisionDiff
+              previous={revisions[revisions.length - 2]}
+              current={revisions[revisions.length - 1]}
+              ownTelematikId={DoctorInfoService.getDoctorTelematikId()}
+              ownLabel="Ihre Praxis"
+            />
+          )}
+
+          {questionnaireResponse && showCounterOfferEditor && (
+            <CounterOfferEditor
+              questionnaireResponse={questionnaireResponse}
+              questionnaire={questionnaire}
+              isSubmitting={actionLoading}
+              onSubmit={(counterOffer) => handleCounterOffer(selectedRequest, counterOffer)}
+              onCancel={() => setShowCounterOfferEditor(false)}
+            />
+          )}
+
+          {questionnaireResponse && !showCounterOfferEditor && (
             <div className="questionnaire-section">
-              <h5>Anfrage Details:</h5>
+              <h5>{revisions.length > 1 ? `Anfrage Details (Revision ${revisions.length}):` : 'Anfrage Details:'}</h5>
               <div className="questionnaire-items">
-                {questionnaireResponse.item.map((item, index) => 
+                {questionnaireResponse.item?.map((item, index) => 
                   renderResponseItem(item, index)
                 )}
               </div>
             </div>
           )}
 
+          <TaskHistoryTimeline entries={taskHistory} />
+
           <div className="action-buttons">
-            {selectedRequest.status === 'pending' && (
+            {canRespond && !showCounterOfferEditor && (
               <>
                 <button 
                   onClick={() => handleAccept(selectedRequest)}
                   disabled={actionLoading}
                   className="accept-button"
                 >
-                  {actionLoading ? 'Wird bearbeitet...' : '✅ Annehmen'}
+                  {actionLoading ? 'Wird bearbeitet...' : revisions.length > 1 ? '✅ Gegenangebot annehmen' : '✅ Annehmen'}
                 </button>
                 <button 
-                  onClick={() => handleCounterOffer(selectedRequest)}
-                  disabled={actionLoading}
+                  onClick={() => setShowCounterOfferEditor(true)}
+                  disabled={actionLoading || !questionnaireResponse}
                   className="counter-offer-button"
                 >
-                  {actionLoading ? 'Wird bearbeitet...' : '🔄 Gegenangebot'}
+                  {actionLoading ? 'Wird bearbeitet...' : revisions.length > 1 ? '🔄 Neues Gegenangebot' : '🔄 Gegenangebot'}
                 </button>
                 <button 
                   onClick={() => handleReject(selectedRequest)}
@@ -360,32 +319,17 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
             
             {selectedRequest.status === 'approved' && (
               <button 
-                onClick={() => handleComplete(selectedRequest)}
+                onClick={() => {
+                  // The prescription form is a modal of the list
+                  setShowDetails(false);
+                  handleCreatePrescription(selectedRequest);
+                }}
                 disabled={actionLoading}
                 className="complete-button"
               >
                 {actionLoading ? 'Wird bearbeitet...' : '📝 Rezept erstellen'}
               </button>
             )}
-
-            {selectedRequest.status === 'in-progress' && (
-              <>
-                <button 
-                  onClick={() => handleAccept(selectedRequest)}
-                  disabled={actionLoading}
-                  className="accept-button"
-                >
-                  {actionLoading ? 'Wird bearbeitet...' : '✅ Akzeptieren'}
-                </button>
-                <button 
-                  onClick={() => handleCounterOffer(selectedRequest)}
-                  disabled={actionLoading}
-                  className="counter-offer-button"
-                >
-                  {actionLoading ? 'Wird bearbeitet...' : '🔄 Neues Gegenangebot'}
-                </button>
-              </>
-            )}
           </div>
         </div>
       </div>
@@ -396,6 +340,15 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
     <div className="card">
       <div className="requests-header">
         <h3>📋 Anfragen von Apotheken</h3>
+        {unseenTaskIds.size > 0 && (
+          <button
+            onClick={() => setUnseenTaskIds(new Set())}
+            className="unseen-badge"
+            title="Alle als gesehen markieren"
+          >
+            🔔 {unseenTaskIds.size} {unseenTaskIds.size === 1 ? 'neue Änderung' : 'neue Änderungen'}
+          </button>
+        )}
         <button onClick={loadRequests} disabled={isLoading} className="refresh-button">
           {isLoading ? '⟳' : '🔄'} Aktualisieren
         </button>
@@ -411,9 +364,10 @@ export function RequestsList({ onPrescriptionCreated }: RequestsListProps) {
       ) : (
         <div className="requests-list">
           {requests.map(request => (
-            <div key={request.id} className="request-card">
+            <div key={request.id} className={`request-card${request.taskId && unseenTaskIds.has(request.taskId) ? ' unseen' : ''}`}>
               <div className="request-header">
                 <h4>{request.type}</h4>
+                {request.taskId && unseenTaskIds.has(request.taskId) && <span className="unseen-marker">Neu</span>}
                 <span 
                   className="request-status"
                   style={{ backgroundColor: getStatusColor(request.status) }}
@@ -1,72 +1,27 @@
+import { prescriptionTaskIdentifier, toTaskHistoryEntries } from '@ti-flow/client';
+import type {
+  Questionnaire,
+  QuestionnaireResponse,
+  QuestionnaireResponseRevision,
+  Task,
+  TaskHistoryEntry
+} from '@ti-flow/client';
 import { DoctorInfoService } from './doctorInfoService';
-
-// Doctor service interface types
-export interface DoctorFlowTask {
-  resourceType: 'Task';
-  id: string;
-  status: string;
-  businessStatus: {
-    text: string;
-  };
-  intent: string;
-  priority: string;
-  description: string;
-  authoredOn: string;
-  lastModified: string;
-  requester: {
-    reference: string;
-  };
-  owner: {
-    reference: string;
-  };
-  for: {
-    reference: string;
-  };
-  input: Array<{
-    type: {
-      text: string;
-    };
-    valueReference: {
-      reference: string;
-    };
-  }>;
-}
-
-export interface DoctorFlowQuestionnaire {
-  resourceType: 'Questionnaire';
-  id: string;
-  status: string;
-  date: string;
-  title: string;
-  description?: string;
-  item: Array<{
-    linkId: string;
-    text: string;
-    type: string;
-    required?: boolean;
-    initial?: Array<{
-      valueString?: string;
-    }>;
-  }>;
-  created?: string;
-}
-
-export interface DoctorFlowQuestionnaireResponse {
-  resourceType: 'QuestionnaireResponse';
-  id: string;
-  status: string;
-  authored: string;
-  questionnaire: string;
-  item: Array<{
-    linkId: string;
-    text: string;
-    answer?: Array<{
-      valueString?: string;
-      valueInteger?: number;
-      valueDate?: string;
-    }>;
-  }>;
-}
+import { PatientService } from './patientService';
+import { tiFlowClient } from './tiFlowClient';
+import { KbvPrescriptionBundle, type PrescriptionFormData } from '../utils/kbvPrescriptionBundle';
+import { PrescriptionPrefill, type PrescriptionPrefillData } from '../utils/prescriptionPrefill';
+
+// FHIR resources exchanged with the TI-Flow backend, shared with the pharmacy app
+export type {
+  Questionnaire as DoctorFlowQuestionnaire,
+  QuestionnaireResponse as DoctorFlowQuestionnaireResponse,
+  QuestionnaireResponseItem as DoctorQuestionnaireResponseItem,
+  QuestionnaireResponseItemAnswer as DoctorQuestionnaireAnswer,
+  QuestionnaireResponseRevision as DoctorQuestionnaireResponseRevision,
+  Task as DoctorFlowTask,
+  TaskHistoryEntry as DoctorTaskHistoryEntry
+} from '@ti-flow/client';
 
 export interface DoctorRequest {
   id: string;
@@ -79,154 +34,112 @@ export interface DoctorRequest {
   taskId?: string;
 }
 
-const API_BASE_URL = 'http://localhost:3001';
+// Prescription created at the E-Rezept-Fachdienst; the AccessCode is handed to the pharmacy
+export interface EPrescription {
+  prescriptionId: string;
+  accessCode: string;
+}
 
 export class DoctorFlowService {
   // Get a specific task by ID
-  static async getTask(taskId: string): Promise<DoctorFlowTask> {
-    const response = await fetch(`${API_BASE_URL}/Task/${taskId}`, {
-      headers: {
-        'Content-Type': 'application/json',
-        'x-actor-id': 'doctor-app'
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Failed to get task: ${response.statusText}`);
-    }
-    
-    return response.json();
+  static async getTask(taskId: string): Promise<Task> {
+    return tiFlowClient.getTask(taskId);
+  }
+
+  // Get the history (audit trail) of a task, oldest version first
+  static async getTaskHistory(taskId: string): Promise<TaskHistoryEntry[]> {
+    return toTaskHistoryEntries(await tiFlowClient.getTaskHistory(taskId));
   }
 
   // Get a questionnaire by ID
-  static async getQuestionnaire(questionnaireId: string): Promise<DoctorFlowQuestionnaire> {
-    const response = await fetch(`${API_BASE_URL}/Questionnaire/${questionnaireId}`);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to get questionnaire: ${response.statusText}`);
-    }
-    
-    return response.json();
+  static async getQuestionnaire(questionnaireId: string): Promise<Questionnaire> {
+    return tiFlowClient.getQuestionnaire(questionnaireId);
+  }
+
+  // Questionnaire a QuestionnaireResponse answers, with its answerValueSets expanded
+  static async findQuestionnaireByUrl(url: string): Promise<Questionnaire | undefined> {
+    const questionnaire = await tiFlowClient.findQuestionnaireByUrl(url);
+    return questionnaire && tiFlowClient.withExpandedValueSets(questionnaire);
   }
 
   // Get a questionnaire response by ID
-  static async getQuestionnaireResponse(questionnaireResponseId: string): Promise<DoctorFlowQuestionnaireResponse> {
-    const response = await fetch(`${API_BASE_URL}/QuestionnaireResponse/${questionnaireResponseId}`, {
-      headers: {
-        'Content-Type': 'application/json',
-        'x-actor-id': 'doctor-app'
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Failed to get questionnaire response: ${response.statusText}`);
-    }
-    
-    return response.json();
+  static async getQuestionnaireResponse(questionnaireResponseId: string): Promise<QuestionnaireResponse> {
+    return tiFlowClient.getQuestionnaireResponse(questionnaireResponseId);
   }
 
-  // Accept a task
-  static async acceptTask(taskId: string): Promise<DoctorFlowTask> {
-    const response = await fetch(`${API_BASE_URL}/Task/${taskId}/$accept`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-actor-id': 'doctor-app'
-      }
-    });
+  // Get all QuestionnaireResponse revisions of a task (initial request and counter-offers), oldest first
+  static async getQuestionnaireResponseRevisions(task: Task): Promise<QuestionnaireResponseRevision[]> {
+    return tiFlowClient.getQuestionnaireResponseRevisions(task);
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to accept task: ${response.statusText}`);
-    }
+  // Prescription form fields from the Patient, Medication and MedicationRequest
+  // the backend extracts ($extract) from a QuestionnaireResponse revision
+  static async getPrescriptionPrefill(questionnaireResponseId: string): Promise<PrescriptionPrefillData> {
+    const { bundle } = await tiFlowClient.extractQuestionnaireResponse(questionnaireResponseId);
+    return PrescriptionPrefill.fromExtractedBundle(bundle);
+  }
+
+  // Whether the doctor still has to receive a task: it is requested and addressed to the doctor
+  static isAwaitingReceipt(task: Task): boolean {
+    return task.status === 'requested'
+      && task.owner.reference.replace('Organization/', '') === DoctorInfoService.getDoctorTelematikId();
+  }
 
-    const result = await response.json();
+  // Mark a task as received; called when the doctor opens a request awaiting receipt
+  static async receiveTask(taskId: string): Promise<Task> {
+    const result = await tiFlowClient.receiveTask(taskId);
     return result.task;
   }
 
-  // Reject a task
-  static async rejectTask(taskId: string): Promise<DoctorFlowTask> {
-    const response = await fetch(`${API_BASE_URL}/${taskId}/\\$reject`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-actor-id': 'doctor-app'
-      }
-    });
+  // Accept a task
+  static async acceptTask(taskId: string): Promise<Task> {
+    const result = await tiFlowClient.acceptTask(taskId);
+    return result.task;
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to reject task: ${response.statusText}`);
-    }
+  // Reject a task
+  static async rejectTask(taskId: string): Promise<Task> {
+    const result = await tiFlowClient.rejectTask(taskId);
+    return result.task;
+  }
 
-    const result = await response.json();
+  // Submit a counter-offer: the changed QuestionnaireResponse becomes the next revision
+  static async submitCounterOffer(taskId: string, questionnaireResponse: QuestionnaireResponse): Promise<Task> {
+    const result = await tiFlowClient.submitCounterOffer(taskId, questionnaireResponse);
     return result.task;
   }
 
-  // Submit counter offer
-  static async submitCounterOffer(taskId: string, questionnaire: DoctorFlowQuestionnaire): Promise<DoctorFlowTask> {
-    const response = await fetch(`${API_BASE_URL}/${taskId}/\\$counter-offer`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-actor-id': 'doctor-app'
-      },
-      body: JSON.stringify({
-        questionnaire: questionnaire
-      })
+  // Close a task with the created e-prescription: the pharmacy downloads it with docId and docPw
+  static async closeTask(taskId: string, prescription: EPrescription): Promise<Task> {
+    const result = await tiFlowClient.closeTask(taskId, {
+      docId: prescription.prescriptionId,
+      docPw: prescription.accessCode
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to submit counter offer: ${response.statusText}`);
-    }
-
-    const result = await response.json();
     return result.task;
   }
 
-  // Close a task with prescription data
-  static async closeTask(taskId: string, prescriptionData: { prescriptionId: string; secret: string }): Promise<DoctorFlowTask> {
-    const response = await fetch(`${API_BASE_URL}/Task/${taskId}/$close`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-actor-id': 'doctor-app'
-      },
-      body: JSON.stringify({
-        docId: prescriptionData.prescriptionId,
-        docPw: prescriptionData.secret
-      })
-    });
+  // Subscribe to changes of the doctor's tasks; calls onChange with the changed task for
+  // every notification and returns a function that ends the subscription
+  static subscribeToTaskChanges(onChange: (task: Task) => void): () => void {
+    return tiFlowClient.subscribeToTaskChanges(onChange, 'Live-Aktualisierung der Anfragenliste');
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to close task: ${response.statusText}`);
-    }
-    
-    const result = await response.json();
-    return result.task;
+  // Whether a task version was produced by the doctor: a new task is created by its
+  // requester, every later operation makes the acting party the owner
+  static isOwnChange(task: Task): boolean {
+    const actor = task.status === 'requested' ? task.requester.reference : task.owner.reference;
+    return actor.replace('Organization/', '') === DoctorInfoService.getDoctorTelematikId();
   }
 
     // Get all requests for this doctor
   static async getAllRequests(): Promise<DoctorRequest[]> {
     try {
       const doctorTelematikId = DoctorInfoService.getDoctorTelematikId();
-      const response = await fetch(`${API_BASE_URL}/Task?user=${doctorTelematikId}`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'x-actor-id': 'doctor-app'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to get requests: ${response.statusText}`);
-      }
-      
-      const bundle = await response.json();
+      const tasks = await tiFlowClient.findTasks({ user: doctorTelematikId });
       const requests: DoctorRequest[] = [];
       
       // Process each task in the bundle
-      for (const entry of bundle.entry || []) {
-        const task = entry.resource;
-        if (!task) continue;
-        
+      for (const task of tasks) {
         let questionnaire = null;
         const questionnaireRef = task.input?.[0]?.valueReference?.reference;
         
@@ -248,7 +161,7 @@ export class DoctorFlowService {
           type: questionnaire?.title || task.description || 'Flow Request',
           patientName: this.extractPatientName(questionnaire),
           pharmacyName: this.getPharmacyName(pharmacyId),
-          status: this.mapTaskStatusToRequestStatus(task.status),
+          status: this.mapTaskStatusToRequestStatus(task.businessStatus.text),
           requestDate: task.authoredOn || new Date().toISOString(),
           details: questionnaire?.description || task.description || 'No details available',
           taskId: task.id
@@ -263,7 +176,7 @@ export class DoctorFlowService {
   }
 
   // Extract patient name from questionnaire
-  private static extractPatientName(questionnaire: DoctorFlowQuestionnaire | null): string {
+  private static extractPatientName(questionnaire: Questionnaire | null): string {
     if (!questionnaire?.item) {
       return 'Unbekannt';
     }
@@ -285,7 +198,7 @@ export class DoctorFlowService {
     return pharmacyNames[pharmacyId] || `Pharmacy ${pharmacyId}`;
   }
 
-  // Map task status to request status
+  // Map the TI-Flow state (businessStatus) of a task to request status
   private static mapTaskStatusToRequestStatus(taskStatus: string): 'pending' | 'approved' | 'rejected' | 'in-progress' | 'completed' {
     switch (taskStatus) {
       case 'requested':
@@ -305,18 +218,22 @@ export class DoctorFlowService {
     }
   }
 
-  // Mock prescription creation service
-  static async createEPrescription(formData: any): Promise<{ prescriptionId: string; secret: string }> {
-    // Mock API call to e-prescription service
-    await new Promise(resolve => setTimeout(resolve, 1500)); // Simulate API delay
-    
-    // Generate mock prescription ID and secret (UUIDs)
-    const prescriptionId = `RX-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-    const secret = crypto.randomUUID();
-    
-    return {
-      prescriptionId,
-      secret
-    };
+  // Create an e-prescription at the local E-Rezept-Fachdienst: $create issues the PrescriptionId
+  // and AccessCode, $activate stores the KBV bundle built from the form and makes it dispensable
+  static async createEPrescription(formData: PrescriptionFormData & { patientId: string }): Promise<EPrescription> {
+    const patient = PatientService.getPatientById(formData.patientId);
+    if (!patient) {
+      throw new Error(`Unknown patient ${formData.patientId}`);
+    }
+
+    const task = await tiFlowClient.createPrescriptionTask('160');
+    const accessCode = prescriptionTaskIdentifier(task, 'AccessCode');
+    if (!accessCode) {
+      throw new Error(`Prescription task ${task.id} has no AccessCode`);
+    }
+
+    const bundle = KbvPrescriptionBundle.build(task.id, formData, patient, DoctorInfoService.getDoctorInfo());
+    await tiFlowClient.activatePrescriptionTask(task.id, accessCode, bundle);
+    return { prescriptionId: task.id, accessCode };
   }
 }
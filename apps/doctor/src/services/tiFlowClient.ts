@@ -0,0 +1,15 @@
+import { TiFlowClient } from '@ti-flow/client';
+import { DoctorInfoService } from './doctorInfoService';
+
+// Client secret registered for this practice in the backend's local SMC-B key store
+// (apps/backend/data/auth/smcb-identities.json); test credentials only
+const CLIENT_SECRET = 'mvz-local';
+
+// Client for the TI-Flow backend, authenticated as this practice
+export const tiFlowClient = new TiFlowClient({
+  baseUrl: import.meta.env.VITE_TI_FLOW_BASE_URL || 'http://localhost:3001',
+  credentials: () => ({
+    telematikId: DoctorInfoService.getDoctorTelematikId(),
+    clientSecret: CLIENT_SECRET
+  })
+});
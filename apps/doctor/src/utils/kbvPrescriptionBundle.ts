@@ -0,0 +1,127 @@
+import type { Bundle, Resource } from '@ti-flow/client';
+import type { DoctorInfo } from '../services/doctorInfoService';
+import type { Patient } from '../services/patientService';
+
+// Prescription form fields the bundle is built from
+export interface PrescriptionFormData {
+  medication: string;
+  pzn?: string;
+  dosage: string;
+  packages?: string;
+}
+
+// KBV resources carry more elements than the client's FHIR types model
+type KbvResource = Resource & Record<string, unknown>;
+
+const PRESCRIPTION_ID_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_PrescriptionId';
+const FORMULAR_ART_SYSTEM = 'https://fhir.kbv.de/CodeSystem/KBV_CS_SFHIR_KBV_FORMULAR_ART';
+const SECTION_TYPE_SYSTEM = 'https://fhir.kbv.de/CodeSystem/KBV_CS_ERP_Section_Type';
+const MEDICATION_TYPE_SYSTEM = 'https://fhir.kbv.de/CodeSystem/KBV_CS_ERP_Medication_Type';
+const KVNR_SYSTEM = 'http://fhir.de/sid/gkv/kvid-10';
+const PZN_SYSTEM = 'http://fhir.de/CodeSystem/ifa/pzn';
+const ANR_SYSTEM = 'https://fhir.kbv.de/NamingSystem/KBV_NS_Base_ANR';
+const BSNR_SYSTEM = 'https://fhir.kbv.de/NamingSystem/KBV_NS_Base_BSNR';
+const FULL_URL_BASE = 'http://pvs.praxis.local/fhir';
+
+export class KbvPrescriptionBundle {
+  /**
+   * KBV e-prescription bundle (e16A) for the PrescriptionId of a created Task:
+   * Composition, MedicationRequest, Medication (PZN or free text), Patient with
+   * KVNR, Practitioner with LANR and the practice as Organization
+   */
+  static build(prescriptionId: string, formData: PrescriptionFormData, patient: Patient, doctorInfo: DoctorInfo): Bundle {
+    const now = new Date().toISOString();
+    const { practitioner, organization } = doctorInfo;
+    const nameParts = patient.name.trim().split(/\s+/);
+    // Practice addresses are kept as "Street 1, 12345 City"
+    const [line, place = ''] = patient.address.split(',').map(part => part.trim());
+    const postalCodeAndCity = place.match(/^(\d{5})\s+(.*)$/);
+    const pzn = formData.pzn?.trim();
+
+    const resources: KbvResource[] = [
+      {
+        resourceType: 'Composition',
+        id: crypto.randomUUID(),
+        status: 'final',
+        type: { coding: [{ system: FORMULAR_ART_SYSTEM, code: 'e16A' }] },
+        subject: { reference: `Patient/${patient.id}` },
+        date: now,
+        author: [{ reference: `Practitioner/${practitioner.lanr}`, type: 'Practitioner' }],
+        title: 'elektronische Arzneimittelverordnung',
+        custodian: { reference: `Organization/${organization.bsnr}` },
+        section: [{
+          code: { coding: [{ system: SECTION_TYPE_SYSTEM, code: 'Prescription' }] },
+          entry: [{ reference: `MedicationRequest/${prescriptionId}` }]
+        }]
+      },
+      {
+        resourceType: 'MedicationRequest',
+        id: prescriptionId,
+        status: 'active',
+        intent: 'order',
+        medicationReference: { reference: `Medication/${prescriptionId}` },
+        subject: { reference: `Patient/${patient.id}` },
+        authoredOn: now.slice(0, 10),
+        requester: { reference: `Practitioner/${practitioner.lanr}` },
+        dosageInstruction: [{ text: formData.dosage }],
+        dispenseRequest: { quantity: { value: Number(formData.packages) || 1, system: 'http://unitsofmeasure.org', code: '{Package}' } },
+        substitution: { allowedBoolean: true }
+      },
+      {
+        resourceType: 'Medication',
+        id: prescriptionId,
+        code: pzn
+          ? { coding: [{ system: PZN_SYSTEM, code: pzn.padStart(8, '0') }], text: formData.medication }
+          : { coding: [{ system: MEDICATION_TYPE_SYSTEM, code: 'freitext' }], text: formData.medication }
+      },
+      {
+        resourceType: 'Patient',
+        id: patient.id,
+        identifier: [{ system: KVNR_SYSTEM, value: patient.insuranceNumber }],
+        name: [{ use: 'official', family: nameParts.pop(), given: nameParts }],
+        birthDate: patient.birthDate,
+        address: [{
+          type: 'both',
+          line: [line],
+          postalCode: postalCodeAndCity?.[1],
+          city: postalCodeAndCity ? postalCodeAndCity[2] : place,
+          country: 'D'
+        }]
+      },
+      {
+        resourceType: 'Practitioner',
+        id: practitioner.lanr,
+        identifier: [{ system: ANR_SYSTEM, value: practitioner.lanr }],
+        name: [{
+          use: 'official',
+          prefix: [practitioner.name.title],
+          given: [practitioner.name.firstName],
+          family: [practitioner.name.prefix, practitioner.name.lastName].filter(Boolean).join(' ')
+        }]
+      },
+      {
+        resourceType: 'Organization',
+        id: organization.bsnr,
+        identifier: [{ system: BSNR_SYSTEM, value: organization.bsnr }],
+        name: organization.name,
+        telecom: [{ system: 'phone', value: organization.contact.phone }],
+        address: [{
+          type: 'both',
+          line: [`${organization.address.street} ${organization.address.houseNumber}`],
+          postalCode: organization.address.postalCode,
+          city: organization.address.city,
+          country: 'D'
+        }]
+      }
+    ];
+
+    return {
+      resourceType: 'Bundle',
+      id: crypto.randomUUID(),
+      identifier: { system: PRESCRIPTION_ID_SYSTEM, value: prescriptionId },
+      type: 'document',
+      timestamp: now,
+      entry: resources.map(resource => ({ fullUrl: `${FULL_URL_BASE}/${resource.resourceType}/${resource.id}`, resource }))
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import type { Bundle, Medication, MedicationRequest, Patient, Resource } from '@ti-flow/client';
+import { PatientService } from '../services/patientService';
+
+// Prescription form fields taken from a request
+export interface PrescriptionPrefillData {
+  patientId?: string;
+  medication?: string;
+  pzn?: string | number;
+  dosage?: string;
+  packages?: string | number;
+}
+
+const KVNR_SYSTEM = 'http://fhir.de/sid/gkv/kvid-10';
+const PZN_SYSTEM = 'http://fhir.de/CodeSystem/ifa/pzn';
+
+export class PrescriptionPrefill {
+  /**
+   * Prescription form fields from the resources $extract produced for a request:
+   * the first MedicationRequest with the Medication and Patient it references
+   */
+  static fromExtractedBundle(bundle: Bundle): PrescriptionPrefillData {
+    const entries = bundle.entry || [];
+    const resolve = <T extends Resource>(reference?: string): T | undefined =>
+      entries.find(entry => reference && entry.fullUrl === reference)?.resource as T | undefined;
+
+    const medicationRequest = entries
+      .map(entry => entry.resource)
+      .find((resource): resource is MedicationRequest => resource?.resourceType === 'MedicationRequest');
+    const medication = resolve<Medication>(medicationRequest?.medicationReference?.reference)
+      || entries.find(entry => entry.resource?.resourceType === 'Medication')?.resource as Medication | undefined;
+    const patient = resolve<Patient>(medicationRequest?.subject?.reference)
+      || entries.find(entry => entry.resource?.resourceType === 'Patient')?.resource as Patient | undefined;
+
+    const prefill: PrescriptionPrefillData = {
+      medication: medication?.code?.text || '',
+      pzn: medication?.code?.coding?.find(coding => coding.system === PZN_SYSTEM)?.code || '',
+      dosage: medicationRequest?.dosageInstruction?.[0]?.text || '',
+      packages: medicationRequest?.dispenseRequest?.quantity?.value ?? ''
+    };
+
+    // Select the practice's patient with the extracted KVNR
+    const kvnr = patient?.identifier?.find(identifier => identifier.system === KVNR_SYSTEM)?.value;
+    if (kvnr) {
+      const knownPatient = PatientService.getMockPatients().find(candidate => candidate.insuranceNumber === kvnr);
+      prefill.patientId = knownPatient?.id || '';
+    }
+
+    return prefill;
+  }
+}
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the TI-Flow backend (default http://localhost:3001)
+  readonly VITE_TI_FLOW_BASE_URL?: string;
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import type { Prescription, CodeSystemConcept, FhirBundle } from './types'
 import { PrescriptionList } from './components/PrescriptionList'
 import { TaskList } from './components/TaskList'
@@ -12,6 +12,20 @@ function App() {
   const [availableDocumentOperations, setAvailableDocumentOperations] = useState<CodeSystemConcept[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [codeSystemError, setCodeSystemError] = useState<string | null>(null)
+  const [prescriptionError, setPrescriptionError] = useState<string | null>(null)
+
+  // Load the prescriptions imported into the backend
+  const loadPrescriptions = useCallback(async () => {
+    try {
+      const prescriptionData = await PrescriptionLoaderService.loadPrescriptions()
+      setPrescriptions(prescriptionData.prescriptions)
+      setFhirBundles(prescriptionData.fhirBundles)
+      setPrescriptionError(null)
+    } catch (error) {
+      console.error('Failed to load prescriptions:', error)
+      setPrescriptionError(`E-Rezepte konnten nicht geladen werden: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }, [])
 
   // Load prescriptions and CodeSystem on component mount
   useEffect(() => {
@@ -23,10 +37,7 @@ function App() {
         const documentCs = await TiFlowService.getDocumentOperations()
         setAvailableDocumentOperations(documentCs.concepts || [])
         
-        // Load prescriptions from FHIR XML files
-        const prescriptionData = await PrescriptionLoaderService.loadPrescriptions()
-        setPrescriptions(prescriptionData.prescriptions)
-        setFhirBundles(prescriptionData.fhirBundles)
+        await loadPrescriptions()
         
         setIsLoading(false)
         setCodeSystemError(null)
@@ -38,8 +49,30 @@ function App() {
     }
 
     loadData()
+  }, [loadPrescriptions])
+
+  // Live updates: prescriptions imported by other clients or from the backend's inbox are added to the list
+  useEffect(() => {
+    return PrescriptionLoaderService.subscribeToImports(({ prescription, fhirBundle }) => {
+      setPrescriptions(current => current.some(existing => existing.id === prescription.id)
+        ? current
+        : [prescription, ...current])
+      setFhirBundles(current => [fhirBundle, ...current.filter(bundle => bundle.prescriptionId !== fhirBundle.prescriptionId)])
+    })
   }, [])
 
+  const handleImportFiles = async (files: File[]) => {
+    const results = await PrescriptionLoaderService.importFiles(files)
+    await loadPrescriptions()
+    return results
+  }
+
+  const handleImportSamples = async () => {
+    const results = await PrescriptionLoaderService.importSamples()
+    await loadPrescriptions()
+    return results
+  }
+
   const handleRequestSubmitted = () => {
     // Handle request submission if needed
     console.log('Request submitted')
@@ -55,21 +88,29 @@ function App() {
             ⚠️ {codeSystemError}
           </div>
         )}
+        {prescriptionError && (
+          <div className="error-banner">
+            ⚠️ {prescriptionError}
+          </div>
+        )}
       </header>
 
       <main className="app-main">
         {isLoading ? (
           <div className="loading-section">
-            <p>Lädt E-Rezepte aus FHIR XML-Dateien...</p>
+            <p>Lädt E-Rezepte...</p>
           </div>
         ) : (
           <div className="content-section">
-            <TaskList />
+            <TaskList onPrescriptionDownloaded={loadPrescriptions} />
             <PrescriptionList 
               prescriptions={prescriptions} 
               availableOperations={availableDocumentOperations}
               fhirBundles={fhirBundles}
               onRequestSubmitted={handleRequestSubmitted}
+              onImportFiles={handleImportFiles}
+              onImportSamples={handleImportSamples}
+              onPrescriptionChanged={loadPrescriptions}
             />
           </div>
         )}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import type { ActiveRequest, RequestDetails } from '../types';
+import type { ActiveRequest, QuestionnaireResponse, QuestionnaireResponseRevision, RequestDetails } from '../types';
 import { TiFlowService } from '../services/tiFlowService';
-// import { QuestionnaireRenderer } from './QuestionnaireRenderer'; // TODO: Update to use QuestionnaireResponseViewer
+import { PharmacyInfoService } from '../services/pharmacyInfoService';
+import { QuestionnaireResponseViewer } from './QuestionnaireResponseViewer';
+import { QuestionnaireResponseDiff, RevisionDiff } from '@ti-flow/ui';
 
 interface ActiveRequestsListProps {
   onRequestSubmitted?: () => void;
@@ -18,6 +20,9 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
   const [selectedRequest, setSelectedRequest] = useState<ActiveRequest | null>(null);
   const [downloadLoading, setDownloadLoading] = useState(false);
   const [downloadSuccess, setDownloadSuccess] = useState(false);
+  const [unseenRequestIds, setUnseenRequestIds] = useState<Set<string>>(new Set());
+  const [revisions, setRevisions] = useState<QuestionnaireResponseRevision[]>([]);
+  const [showCounterOfferEditor, setShowCounterOfferEditor] = useState(false);
 
   const loadActiveRequests = async () => {
     try {
@@ -33,21 +38,31 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
     }
   };
 
-  const viewRequest = async (requestId: string) => {
+  const viewRequest = async (request: ActiveRequest) => {
+    setUnseenRequestIds(current => {
+      const next = new Set(current);
+      next.delete(request.id);
+      return next;
+    });
     try {
       setIsLoading(true);
       setError(null);
-      const requestDetails = await TiFlowService.getRequestDetails(requestId);
-      
-      if (!requestDetails) {
-        throw new Error('Anfragedetails nicht gefunden');
-      }
-      
-      if (!requestDetails.questionnaireResponse) {
+      const task = await TiFlowService.getTask(request.id);
+      const taskRevisions = await TiFlowService.getQuestionnaireResponseRevisions(task);
+
+      // The latest revision is the one under negotiation
+      const latestRevision = taskRevisions[taskRevisions.length - 1];
+      if (!latestRevision) {
         throw new Error('Fragebogen-Antworten nicht verfügbar');
       }
-      
-      setViewingRequest(requestDetails);
+      setRevisions(taskRevisions);
+
+      setViewingRequest({
+        ...request,
+        status: task.businessStatus.text,
+        lastUpdated: task.lastModified || request.lastUpdated,
+        questionnaireResponse: latestRevision.questionnaireResponse
+      });
       setShowQuestionnaire(true);
     } catch (err) {
       console.error('Failed to load request details:', err);
@@ -87,25 +102,13 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
     }
   };
 
-  const handleCounterOffer = async (taskId: string) => {
-    if (!viewingRequest?.questionnaireResponse) return;
-
-    // Create a counter-offer with modified questionnaire
-    const modifiedQuestionnaire = {
-      resourceType: 'Questionnaire' as const,
-      status: 'active' as const,
-      title: `Counter-offer: ${viewingRequest.type}`,
-      item: viewingRequest.questionnaireResponse.item.map(item => ({
-        linkId: item.linkId,
-        text: `Modified ${item.linkId}`,
-        type: 'string' as const,
-        required: true
-      }))
-    };
+  // Submit the edited latest revision as counter-offer
+  const handleCounterOffer = async (questionnaireResponse: QuestionnaireResponse) => {
+    if (!viewingRequest) return;
 
     setActionLoading(true);
     try {
-      await TiFlowService.submitCounterOffer(taskId, modifiedQuestionnaire);
+      await TiFlowService.submitCounterOffer(viewingRequest.id, questionnaireResponse);
       await loadActiveRequests(); // Refresh the list
       setShowQuestionnaire(false);
       onRequestSubmitted?.();
@@ -142,6 +145,21 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
     loadActiveRequests();
   }, []);
 
+  // Live updates: reload the list in the background when one of our tasks changes
+  useEffect(() => {
+    return TiFlowService.subscribeToTaskChanges(async (changedTask) => {
+      if (!TiFlowService.isOwnChange(changedTask)) {
+        setUnseenRequestIds(current => new Set(current).add(changedTask.id));
+      }
+      try {
+        const response = await TiFlowService.getActiveRequests();
+        setActiveRequests(response.requests);
+      } catch (err) {
+        console.error('Failed to refresh active requests:', err);
+      }
+    });
+  }, []);
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'received': return '#3b82f6';
@@ -166,8 +184,9 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
     }
   };
 
+  // The pharmacy receives these requests: it responds to new ones and to counter-offers of the requester
   const canTakeAction = (status: string) => {
-    return ['received', 'in_progress(Bearbeiter)'].includes(status);
+    return ['received', 'in_progress(Anfragender)'].includes(status);
   };
 
   if (showQuestionnaire && viewingRequest) {
@@ -193,35 +212,22 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
             <p><strong>Letzte Aktualisierung:</strong> {new Date(viewingRequest.lastUpdated).toLocaleString()}</p>
           </div>
 
-          {viewingRequest.questionnaireResponse && (
-            <div className="questionnaire-container">
-              {/* TODO: Replace with QuestionnaireResponseViewer */}
-              <div className="questionnaire-placeholder">
-                <p>🚧 Questionnaire display will be updated to use QuestionnaireResponseViewer</p>
-                <pre>{JSON.stringify(viewingRequest.questionnaireResponse, null, 2)}</pre>
-              </div>
-              {/* 
-              <QuestionnaireRenderer 
-                questionnaire={{
-                  resourceType: 'Questionnaire',
-                  status: 'active',
-                  title: viewingRequest.type,
-                  item: [
-                    {
-                      linkId: 'details',
-                      text: 'Request Details',
-                      type: 'display'
-                    }
-                  ]
-                }}
-                questionnaireResponse={viewingRequest.questionnaireResponse}
-                onClose={() => {}}
-                onRequestSubmitted={onRequestSubmitted}
-              />
-              */}
-            </div>
+          {revisions.length > 1 && (
+            <RevisionDiff
+              previous={revisions[revisions.length - 2]}
+              current={revisions[revisions.length - 1]}
+              ownTelematikId={PharmacyInfoService.getPharmacyTelematikId()}
+              ownLabel="Ihre Apotheke"
+            />
           )}
 
+          <div className="request-answers">
+            <h4>Angaben (Revision {revisions.length})</h4>
+            {[...QuestionnaireResponseDiff.flattenAnswers(viewingRequest.questionnaireResponse)].map(([linkId, { text, value }]) => (
+              <p key={linkId}><strong>{text}:</strong> {value || '—'}</p>
+            ))}
+          </div>
+
           {canTakeAction(viewingRequest.status) && (
             <div className="action-buttons">
               <button 
@@ -232,8 +238,8 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
                 {actionLoading ? 'Wird bearbeitet...' : '✅ Akzeptieren'}
               </button>
               <button 
-                onClick={() => handleCounterOffer(viewingRequest.id)}
-                disabled={actionLoading}
+                onClick={() => setShowCounterOfferEditor(true)}
+                disabled={actionLoading || revisions.length === 0}
                 className="counter-offer-button"
               >
                 {actionLoading ? 'Wird bearbeitet...' : '🔄 Gegenangebot'}
@@ -248,6 +254,16 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
             </div>
           )}
         </div>
+
+        {showCounterOfferEditor && revisions.length > 0 && (
+          <QuestionnaireResponseViewer
+            questionnaireResponse={revisions[revisions.length - 1].questionnaireResponse}
+            revisions={revisions}
+            submitLabel="🔄 Gegenangebot senden"
+            onSubmit={handleCounterOffer}
+            onClose={() => setShowCounterOfferEditor(false)}
+          />
+        )}
       </div>
     );
   }
@@ -256,6 +272,15 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
     <div className="active-requests-section">
       <div className="section-header">
         <h2>📋 Aktive Anfragen</h2>
+        {unseenRequestIds.size > 0 && (
+          <button
+            onClick={() => setUnseenRequestIds(new Set())}
+            className="unseen-badge"
+            title="Alle als gesehen markieren"
+          >
+            🔔 {unseenRequestIds.size} {unseenRequestIds.size === 1 ? 'neue Änderung' : 'neue Änderungen'}
+          </button>
+        )}
         <button onClick={loadActiveRequests} disabled={isLoading}>
           {isLoading ? '⟳' : '🔄'} Aktualisieren
         </button>
@@ -282,9 +307,10 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
           {activeRequests.map(request => {
             console.log('🔍 Request data:', request.id, 'Status:', request.status, 'Full request:', request);
             return (
-            <div key={request.id} className="request-card">
+            <div key={request.id} className={`request-card${unseenRequestIds.has(request.id) ? ' unseen' : ''}`}>
               <div className="request-header">
                 <h3>{request.type}</h3>
+                {unseenRequestIds.has(request.id) && <span className="unseen-marker">Neu</span>}
                 <span 
                   className="request-status"
                   style={{ backgroundColor: getStatusColor(request.status) }}
@@ -303,7 +329,7 @@ export function ActiveRequestsList({ onRequestSubmitted }: ActiveRequestsListPro
 
               <div className="request-actions">
                 <button 
-                  onClick={() => viewRequest(request.id)}
+                  onClick={() => viewRequest(request)}
                   className="view-button"
                 >
                   👀 Details ansehen
@@ -1,23 +1,92 @@
+import { useRef, useState } from 'react';
+import type { DragEvent } from 'react';
 import type { Prescription, CodeSystemConcept, FhirBundle } from '../types';
 import { FlowOperationsDropdown } from './FlowOperationsDropdown';
 import { PrescriptionLoaderService } from '../services/prescriptionLoaderService';
+import { TiFlowService } from '../services/tiFlowService';
+import type { PrescriptionImportResult } from '../services/prescriptionLoaderService';
 
 interface PrescriptionListProps {
   prescriptions: Prescription[];
   availableOperations: CodeSystemConcept[];
   fhirBundles?: FhirBundle[];
   onRequestSubmitted?: () => void;
+  // Import KBV bundles (XML or JSON) chosen or dropped by the user
+  onImportFiles?: (files: File[]) => Promise<PrescriptionImportResult[]>;
+  // Import the KBV samples shipped with the app
+  onImportSamples?: () => Promise<PrescriptionImportResult[]>;
+  // An accepted prescription was dispensed or returned at the E-Rezept-Fachdienst
+  onPrescriptionChanged?: () => void;
 }
 
-export function PrescriptionList({ prescriptions, availableOperations, fhirBundles, onRequestSubmitted }: PrescriptionListProps) {
-  if (prescriptions.length === 0) {
-    return (
-      <div className="prescription-list">
-        <h3>E-Rezepte</h3>
-        <p>Keine E-Rezepte verfügbar</p>
-      </div>
-    );
-  }
+const IMPORT_FILE_TYPES = '.xml,.json,application/xml,application/json';
+
+// Redemption period of a DiGA prescription, either end may be open
+const formatValidity = ({ validFrom, validUntil }: Prescription): string => {
+  if (validFrom && validUntil) return `${validFrom} – ${validUntil}`;
+  return validUntil ? `bis ${validUntil}` : `ab ${validFrom}`;
+};
+
+export function PrescriptionList({ prescriptions, availableOperations, fhirBundles, onRequestSubmitted, onImportFiles, onImportSamples, onPrescriptionChanged }: PrescriptionListProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessages, setImportMessages] = useState<string[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importFiles = async (files: File[]) => {
+    if (!onImportFiles || files.length === 0) return;
+    await runImport(() => onImportFiles(files));
+  };
+
+  // Run an import and list the outcome per file
+  const runImport = async (importBundles: () => Promise<PrescriptionImportResult[]>) => {
+    const knownIds = new Set(prescriptions.map(prescription => prescription.id));
+    setIsImporting(true);
+    try {
+      const results = await importBundles();
+      setImportMessages(results.map(result => {
+        if (result.error) {
+          return `❌ ${result.file}: ${result.error}`;
+        }
+        return knownIds.has(result.prescriptionId!)
+          ? `ℹ️ ${result.file}: E-Rezept ${result.prescriptionId} ist bereits vorhanden`
+          : `✅ ${result.file}: E-Rezept ${result.prescriptionId} importiert`;
+      }));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Dispense ($close) or return ($reject) an accepted prescription with its stored Secret
+  const completePrescription = async (prescription: Prescription, action: 'dispense' | 'return') => {
+    setProcessingId(prescription.id);
+    try {
+      if (action === 'dispense') {
+        await TiFlowService.dispensePrescription(prescription.id);
+      } else {
+        await TiFlowService.returnPrescription(prescription.id);
+      }
+      onPrescriptionChanged?.();
+    } catch (error) {
+      alert(`❌ E-Rezept ${prescription.id} konnte nicht ${action === 'dispense' ? 'abgegeben' : 'zurückgegeben'} werden: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!onImportFiles || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    if (!onImportFiles) return;
+    event.preventDefault();
+    setIsDragging(false);
+    importFiles(Array.from(event.dataTransfer.files));
+  };
 
   const getOperationsForPrescription = (prescription: Prescription): CodeSystemConcept[] => {
     // Find the concept that matches the prescription's compositionType
@@ -34,8 +103,55 @@ export function PrescriptionList({ prescriptions, availableOperations, fhirBundl
   };
 
   return (
-    <div className="prescription-list">
+    <div
+      className={`prescription-list${isDragging ? ' dragging' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <h3>E-Rezepte ({prescriptions.length})</h3>
+      {onImportFiles && (
+        <div className="prescription-import">
+          <span>E-Rezepte (KBV-Bundle als XML oder JSON) hierher ziehen oder</span>
+          <button
+            className="import-btn"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            {isImporting ? '⏳ Importiere...' : '📥 Dateien auswählen'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_FILE_TYPES}
+            multiple
+            hidden
+            onChange={(event) => {
+              importFiles(Array.from(event.target.files || []));
+              event.target.value = '';
+            }}
+          />
+          {importMessages.length > 0 && (
+            <ul className="import-messages">
+              {importMessages.map((message, index) => <li key={index}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      {prescriptions.length === 0 && (
+        <div className="no-prescriptions">
+          <p>Keine E-Rezepte verfügbar</p>
+          {onImportSamples && (
+            <button
+              className="import-btn"
+              onClick={() => runImport(onImportSamples)}
+              disabled={isImporting}
+            >
+              {isImporting ? '⏳ Importiere...' : '🧪 KBV-Beispielrezepte importieren'}
+            </button>
+          )}
+        </div>
+      )}
       <div className="prescriptions">
         {prescriptions.map((prescription) => {
           const operations = getOperationsForPrescription(prescription);
@@ -44,7 +160,10 @@ export function PrescriptionList({ prescriptions, availableOperations, fhirBundl
           return (
             <div key={prescription.id} className="prescription-card">
               <div className="prescription-header">
-                <h4>{prescription.medication}</h4>
+                <h4>
+                  {prescription.kind === 'diga' && <span className="diga-badge">DiGA</span>}
+                  {prescription.medication}
+                </h4>
                 <div className="header-actions">
                   <span className="composition-type">
                     {prescription.compositionType}
@@ -72,23 +191,64 @@ export function PrescriptionList({ prescriptions, availableOperations, fhirBundl
                 </div>
               </div>
               <div className="prescription-details">
-                <div className="prescription-row">
-                  <span className="label">Dosierung:</span>
-                  <span className="value">{prescription.dosage}</span>
-                </div>
-                <div className="prescription-row">
-                  <span className="label">Menge:</span>
-                  <span className="value">{prescription.quantity} Stück</span>
-                </div>
+                {prescription.kind === 'diga' ? (
+                  (prescription.validFrom || prescription.validUntil) && (
+                    <div className="prescription-row">
+                      <span className="label">Gültig:</span>
+                      <span className="value">{formatValidity(prescription)}</span>
+                    </div>
+                  )
+                ) : (
+                  <>
+                    <div className="prescription-row">
+                      <span className="label">Dosierung:</span>
+                      <span className="value">{prescription.dosage}</span>
+                    </div>
+                    <div className="prescription-row">
+                      <span className="label">Menge:</span>
+                      <span className="value">{prescription.quantity} Stück</span>
+                    </div>
+                  </>
+                )}
                 <div className="prescription-row">
                   <span className="label">Arzt:</span>
                   <span className="value">{prescription.doctor}</span>
                 </div>
+                {prescription.pzn && (
+                  <div className="prescription-row">
+                    <span className="label">PZN:</span>
+                    <span className="value">{prescription.pzn}</span>
+                  </div>
+                )}
+                {prescription.payor && (
+                  <div className="prescription-row">
+                    <span className="label">Kostenträger:</span>
+                    <span className="value">{prescription.payor}{prescription.coverageType ? ` (${prescription.coverageType})` : ''}</span>
+                  </div>
+                )}
                 <div className="prescription-row">
                   <span className="label">Ausstellungsdatum:</span>
                   <span className="value">{prescription.issueDate}</span>
                 </div>
               </div>
+              {prescription.accepted && (
+                <div className="prescription-actions">
+                  <button
+                    className="import-btn"
+                    onClick={() => completePrescription(prescription, 'dispense')}
+                    disabled={processingId === prescription.id}
+                  >
+                    ✅ Abgeben
+                  </button>
+                  <button
+                    className="return-btn"
+                    onClick={() => completePrescription(prescription, 'return')}
+                    disabled={processingId === prescription.id}
+                  >
+                    ↩️ Zurückgeben
+                  </button>
+                </div>
+              )}
             </div>
           );
         })}
@@ -1,7 +1,22 @@
 import { useState, useEffect } from 'react';
-import type { Questionnaire, QuestionnaireItem, Prescription } from '../types';
+import type {
+  Questionnaire,
+  QuestionnaireItem,
+  QuestionnaireResponse,
+  QuestionnaireResponseItem,
+  Prescription
+} from '../types';
 import TiFlowService from '../services/tiFlowService';
 import { ContactsService } from '../services/contactsService';
+import { toFieldErrors, type FieldErrors } from '../utils/validationErrors';
+import { isItemEnabled, removeDisabledItems } from '../utils/enableWhen';
+import {
+  QuestionnaireItemInput,
+  getChoiceOptions,
+  getInitialFieldValue,
+  toAnswer,
+  type FieldValue
+} from '@ti-flow/ui';
 
 interface QuestionnaireRendererProps {
   questionnaire: Questionnaire;
@@ -13,41 +28,13 @@ interface QuestionnaireRendererProps {
 }
 
 interface FormData {
-  [linkId: string]: string;
+  [linkId: string]: FieldValue;
 }
 
 interface GroupInstance {
-  [linkId: string]: string | { value: string; unit: string };
+  [linkId: string]: FieldValue;
 }
 
-interface ChoiceOption {
-  code: string;
-  display: string;
-}
-
-// Helper function to extract choice options from FHIR ValueSet
-const getChoiceOptions = (item: QuestionnaireItem): ChoiceOption[] => {
-  const options: ChoiceOption[] = [];
-  
-  // Check if there's a contained ValueSet referenced by answerValueSet
-  if (item.answerValueSet && item.answerValueSet.startsWith('#')) {
-    const valueSetId = item.answerValueSet.substring(1); // Remove the '#'
-    
-    // Look for the ValueSet in the questionnaire's contained resources
-    // Note: We need to access the parent questionnaire's contained array
-    // For now, we'll handle the urgency field specifically
-    if (valueSetId === 'urgency-vs') {
-      return [
-        { code: 'routine', display: 'Routine' },
-        { code: 'urgent', display: 'Dringend' },
-        { code: 'emergency', display: 'Notfall' }
-      ];
-    }
-  }
-  
-  return options;
-};
-
 export function QuestionnaireRenderer({ questionnaire, prescription, operationCode, onClose, onRequestSubmitted, readOnly = false }: QuestionnaireRendererProps) {
   const contactsService = new ContactsService();
   
@@ -77,13 +64,14 @@ export function QuestionnaireRenderer({ questionnaire, prescription, operationCo
       console.log('⚠️ No doctor LANR found in prescription');
     }
     
-    questionnaire.item.forEach(item => {
+    const prefillItem = (item: QuestionnaireItem) => {
       // First check if there are initial values (submitted data)
-      if (item.initial && item.initial.length > 0) {
-        initialData[item.linkId] = item.initial[0].valueString || '';
+      const initialValue = getInitialFieldValue(item, questionnaire);
+      if (initialValue !== undefined) {
+        initialData[item.linkId] = initialValue;
       } else if (item.type === 'choice') {
         // Auto-select first option for choice fields
-        const options = getChoiceOptions(item);
+        const options = getChoiceOptions(item, questionnaire);
         if (options.length > 0) {
           initialData[item.linkId] = options[0].code;
           console.log(`✅ Auto-selected first option for ${item.linkId}:`, options[0].code, '(', options[0].display, ')');
@@ -122,6 +110,17 @@ export function QuestionnaireRenderer({ questionnaire, prescription, operationCo
         }
       }
       // Add more pre-population logic as needed
+    };
+
+    // Top-level items and the items of non-repeating groups
+    questionnaire.item?.forEach(item => {
+      if (item.type === 'group') {
+        if (!item.repeats) {
+          item.item?.forEach(prefillItem);
+        }
+        return;
+      }
+      prefillItem(item);
     });
     
     setFormData(initialData);
@@ -133,14 +132,27 @@ export function QuestionnaireRenderer({ questionnaire, prescription, operationCo
   
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleInputChange = (linkId: string, value: string) => {
+  // Validation errors of the last submit
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const clearFieldErrors = (linkId: string) => {
+    setFieldErrors(prev => {
+      if (!prev[linkId]) return prev;
+      const remaining = { ...prev };
+      delete remaining[linkId];
+      return remaining;
+    });
+  };
+
+  const handleInputChange = (linkId: string, value: FieldValue) => {
     setFormData(prev => ({
       ...prev,
       [linkId]: value
     }));
+    clearFieldErrors(linkId);
   };
 
-  const handleGroupInputChange = (groupLinkId: string, instanceIndex: number, linkId: string, value: string) => {
+  const handleGroupInputChange = (groupLinkId: string, instanceIndex: number, linkId: string, value: FieldValue) => {
     setGroupInstances(prev => {
       const updatedGroups = { ...prev };
       if (!updatedGroups[groupLinkId]) {
@@ -152,45 +164,25 @@ export function QuestionnaireRenderer({ questionnaire, prescription, operationCo
       updatedGroups[groupLinkId][instanceIndex][linkId] = value;
       return updatedGroups;
     });
+    clearFieldErrors(linkId);
   };
 
-  const handleGroupQuantityChange = (groupLinkId: string, instanceIndex: number, linkId: string, field: 'value' | 'unit', value: string) => {
-    setGroupInstances(prev => {
-      const updatedGroups = { ...prev };
-      if (!updatedGroups[groupLinkId]) {
-        updatedGroups[groupLinkId] = [];
-      }
-      if (!updatedGroups[groupLinkId][instanceIndex]) {
-        updatedGroups[groupLinkId][instanceIndex] = {};
+  const addGroupInstance = (group: QuestionnaireItem) => {
+    // New entries start with the initial values of the group's items
+    const instance: GroupInstance = {};
+    group.item?.forEach(childItem => {
+      const initialValue = getInitialFieldValue(childItem, questionnaire);
+      if (initialValue !== undefined) {
+        instance[childItem.linkId] = initialValue;
       }
-      
-      const currentValue = updatedGroups[groupLinkId][instanceIndex][linkId];
-      const quantityValue = typeof currentValue === 'object' ? currentValue : { value: '', unit: '' };
-      
-      updatedGroups[groupLinkId][instanceIndex][linkId] = {
-        ...quantityValue,
-        [field]: value
-      };
-      
-      return updatedGroups;
     });
-  };
 
-  const getFieldValue = (instance: GroupInstance, linkId: string, field?: 'value' | 'unit'): string => {
-    const value = instance[linkId];
-    if (field && typeof value === 'object') {
-      return value[field] || '';
-    }
-    return typeof value === 'string' ? value : '';
-  };
-
-  const addGroupInstance = (groupLinkId: string) => {
     setGroupInstances(prev => {
       const updatedGroups = { ...prev };
-      if (!updatedGroups[groupLinkId]) {
-        updatedGroups[groupLinkId] = [];
+      if (!updatedGroups[group.linkId]) {
+        updatedGroups[group.linkId] = [];
       }
-      updatedGroups[groupLinkId].push({});
+      updatedGroups[group.linkId].push(instance);
       return updatedGroups;
     });
   };
@@ -220,259 +212,204 @@ export function QuestionnaireRenderer({ questionnaire, prescription, operationCo
     }
   };
 
-  const renderQuestionnaireItem = (item: QuestionnaireItem) => {
-    const value = formData[item.linkId] || '';
-    const hint = getFieldHint(item);
-    const isAutoPopulated = hint !== null;
-    
-    switch (item.type) {
-      case 'string':
-        return (
-          <div key={item.linkId} className="questionnaire-item">
-            <label htmlFor={item.linkId} className="questionnaire-label">
-              {item.text}
-            </label>
-            <input
-              id={item.linkId}
-              type="text"
-              value={value}
-              onChange={(e) => handleInputChange(item.linkId, e.target.value)}
-              className={`questionnaire-input ${isAutoPopulated ? 'auto-populated' : ''}`}
-              readOnly={isAutoPopulated || readOnly}
-            />
-            {hint && (
-              <div className="field-hint">
-                {hint}
-              </div>
-            )}
+  const toResponseItem = (item: QuestionnaireItem): QuestionnaireResponseItem | null => {
+    const answer = toAnswer(item, formData[item.linkId], questionnaire);
+    return answer ? { linkId: item.linkId, answer: [answer] } : null;
+  };
+
+  // Answered items of one entry of a repeating group
+  const toInstanceItems = (group: QuestionnaireItem, instance: GroupInstance): QuestionnaireResponseItem[] =>
+    (group.item || []).flatMap(childItem => {
+      const answer = toAnswer(childItem, instance[childItem.linkId], questionnaire);
+      return answer ? [{ linkId: childItem.linkId, answer: [answer] }] : [];
+    });
+
+  // Response items for the current form state: simple items, the items of
+  // non-repeating groups and one group item per entry of a repeating group
+  const buildResponseItems = (): QuestionnaireResponseItem[] => {
+    const items: QuestionnaireResponseItem[] = [];
+
+    questionnaire.item?.forEach(item => {
+      if (item.type === 'group') {
+        if (item.repeats) {
+          (groupInstances[item.linkId] || []).forEach(instance => {
+            const children = toInstanceItems(item, instance);
+            if (children.length > 0) {
+              items.push({ linkId: item.linkId, item: children });
+            }
+          });
+        } else {
+          const children = (item.item || [])
+            .map(toResponseItem)
+            .filter((child): child is QuestionnaireResponseItem => child !== null);
+          if (children.length > 0) {
+            items.push({ linkId: item.linkId, item: children });
+          }
+        }
+        return;
+      }
+
+      const responseItem = toResponseItem(item);
+      if (responseItem) {
+        items.push(responseItem);
+      }
+    });
+
+    return items;
+  };
+
+  // Enabled answers of the form; enableWhen conditions are evaluated against them
+  const responseItems = removeDisabledItems(questionnaire.item, buildResponseItems());
+
+  const renderFieldErrors = (linkId: string) => fieldErrors[linkId]?.map((message, index) => (
+    <div key={index} className="field-error">
+      {message}
+    </div>
+  ));
+
+  // Label, input, validation errors and hint of one (non-group) item
+  const renderField = (
+    item: QuestionnaireItem,
+    fieldId: string,
+    value: FieldValue | undefined,
+    onChange: (value: FieldValue) => void,
+    locked: boolean,
+    hint: string | null = null
+  ) => {
+    if (item.type === 'display') {
+      return (
+        <div key={fieldId} className="help-text">
+          {item.text}
+        </div>
+      );
+    }
+
+    return (
+      <div key={fieldId} className="questionnaire-item">
+        <label htmlFor={fieldId} className="questionnaire-label">
+          {item.text}
+          {item.required && <span className="required">*</span>}
+        </label>
+        <QuestionnaireItemInput
+          item={item}
+          questionnaire={questionnaire}
+          fieldId={fieldId}
+          value={value}
+          onChange={onChange}
+          locked={locked}
+          inputClassName={`questionnaire-input ${hint !== null ? 'auto-populated' : ''}`}
+          textareaClassName={`questionnaire-textarea ${hint !== null ? 'auto-populated' : ''}`}
+        />
+        {renderFieldErrors(item.linkId)}
+        {hint && (
+          <div className="field-hint">
+            {hint}
           </div>
-        );
-      
-      case 'text':
-        return (
-          <div key={item.linkId} className="questionnaire-item">
-            <label htmlFor={item.linkId} className="questionnaire-label">
-              {item.text}
-            </label>
-            <textarea
-              id={item.linkId}
-              value={value}
-              onChange={(e) => handleInputChange(item.linkId, e.target.value)}
-              className={`questionnaire-textarea ${isAutoPopulated ? 'auto-populated' : ''}`}
-              rows={3}
-              readOnly={isAutoPopulated || readOnly}
-            />
-            {hint && (
-              <div className="field-hint">
-                {hint}
-              </div>
-            )}
+        )}
+      </div>
+    );
+  };
+
+  const renderQuestionnaireItem = (item: QuestionnaireItem) => {
+    if (!isItemEnabled(item, [responseItems])) {
+      return null;
+    }
+
+    if (item.type !== 'group') {
+      const hint = getFieldHint(item);
+      return renderField(
+        item,
+        item.linkId,
+        formData[item.linkId],
+        (value) => handleInputChange(item.linkId, value),
+        hint !== null || readOnly || !!item.readOnly,
+        hint
+      );
+    }
+
+    const instances = groupInstances[item.linkId] || [];
+    return (
+      <div key={item.linkId} className="questionnaire-group">
+        <div className="group-header">
+          <h3 className="group-title">{item.text}</h3>
+          {item.repeats && (
+            <button
+              type="button"
+              onClick={() => addGroupInstance(item)}
+              className="btn-add-instance"
+            >
+              + Hinzufügen
+            </button>
+          )}
+        </div>
+        {renderFieldErrors(item.linkId)}
+        
+        {instances.length === 0 && item.repeats && (
+          <div className="no-instances">
+            <p>Keine Einträge vorhanden.</p>
+            <button
+              type="button"
+              onClick={() => addGroupInstance(item)}
+              className="btn-add-first"
+            >
+              Ersten Eintrag hinzufügen
+            </button>
           </div>
-        );
-      
-      case 'group':
-        const instances = groupInstances[item.linkId] || [];
-        return (
-          <div key={item.linkId} className="questionnaire-group">
-            <div className="group-header">
-              <h3 className="group-title">{item.text}</h3>
-              {item.repeats && (
+        )}
+        
+        {item.repeats && instances.map((instance, instanceIndex) => (
+          <div key={`${item.linkId}-${instanceIndex}`} className="group-instance">
+            <div className="instance-header">
+              <span className="instance-number">Eintrag {instanceIndex + 1}</span>
+              {instances.length > 1 && (
                 <button
                   type="button"
-                  onClick={() => addGroupInstance(item.linkId)}
-                  className="btn-add-instance"
+                  onClick={() => removeGroupInstance(item.linkId, instanceIndex)}
+                  className="btn-remove-instance"
                 >
-                  + Hinzufügen
+                  ✕
                 </button>
               )}
             </div>
             
-            {instances.length === 0 && item.repeats && (
-              <div className="no-instances">
-                <p>Keine Einträge vorhanden.</p>
-                <button
-                  type="button"
-                  onClick={() => addGroupInstance(item.linkId)}
-                  className="btn-add-first"
-                >
-                  Ersten Eintrag hinzufügen
-                </button>
-              </div>
-            )}
-            
-            {instances.map((instance, instanceIndex) => (
-              <div key={`${item.linkId}-${instanceIndex}`} className="group-instance">
-                <div className="instance-header">
-                  <span className="instance-number">Eintrag {instanceIndex + 1}</span>
-                  {item.repeats && instances.length > 1 && (
-                    <button
-                      type="button"
-                      onClick={() => removeGroupInstance(item.linkId, instanceIndex)}
-                      className="btn-remove-instance"
-                    >
-                      ✕
-                    </button>
-                  )}
-                </div>
-                
-                <div className="instance-fields">
-                  {item.item?.map(childItem => {
-                    if (childItem.type === 'display') {
-                      return (
-                        <div key={childItem.linkId} className="help-text">
-                          {childItem.text}
-                        </div>
-                      );
-                    }
-                    
-                    return (
-                      <div key={childItem.linkId} className="questionnaire-item">
-                        <label className="questionnaire-label">
-                          {childItem.text}
-                          {childItem.required && <span className="required">*</span>}
-                        </label>
-                        
-                        {childItem.type === 'integer' && (
-                          <input
-                            type="number"
-                            value={getFieldValue(instance, childItem.linkId)}
-                            onChange={(e) => handleGroupInputChange(item.linkId, instanceIndex, childItem.linkId, e.target.value)}
-                            className="questionnaire-input"
-                          />
-                        )}
-                        
-                        {childItem.type === 'string' && (
-                          <input
-                            type="text"
-                            value={getFieldValue(instance, childItem.linkId)}
-                            onChange={(e) => handleGroupInputChange(item.linkId, instanceIndex, childItem.linkId, e.target.value)}
-                            className="questionnaire-input"
-                          />
-                        )}
-                        
-                        {childItem.type === 'choice' && (
-                          <select
-                            value={getFieldValue(instance, childItem.linkId)}
-                            onChange={(e) => handleGroupInputChange(item.linkId, instanceIndex, childItem.linkId, e.target.value)}
-                            className="questionnaire-select"
-                          >
-                            <option value="">-- Auswählen --</option>
-                            {/* Add options here when available */}
-                          </select>
-                        )}
-                        
-                        {childItem.type === 'quantity' && (
-                          <div className="quantity-input-group">
-                            <input
-                              type="number"
-                              value={getFieldValue(instance, childItem.linkId, 'value')}
-                              onChange={(e) => handleGroupQuantityChange(item.linkId, instanceIndex, childItem.linkId, 'value', e.target.value)}
-                              className="questionnaire-input quantity-value"
-                              placeholder="Menge"
-                            />
-                            <input
-                              type="text"
-                              value={getFieldValue(instance, childItem.linkId, 'unit')}
-                              onChange={(e) => handleGroupQuantityChange(item.linkId, instanceIndex, childItem.linkId, 'unit', e.target.value)}
-                              className="questionnaire-input quantity-unit"
-                              placeholder="Einheit (z.B. mg, ml)"
-                            />
-                          </div>
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            ))}
-            
-            {!item.repeats && item.item && (
-              <div className="static-group">
-                {item.item.map(childItem => {
-                  if (childItem.type === 'display') {
-                    return (
-                      <div key={childItem.linkId} className="help-text">
-                        {childItem.text}
-                      </div>
-                    );
-                  }
-                  
-                  const childValue = formData[childItem.linkId] || '';
-                  
-                  return (
-                    <div key={childItem.linkId} className="questionnaire-item">
-                      <label className="questionnaire-label">
-                        {childItem.text}
-                        {childItem.required && <span className="required">*</span>}
-                      </label>
-                      <input
-                        type={childItem.type === 'integer' ? 'number' : 'text'}
-                        value={childValue}
-                        onChange={(e) => handleInputChange(childItem.linkId, e.target.value)}
-                        className="questionnaire-input"
-                      />
-                    </div>
-                  );
-                })}
-              </div>
-            )}
-          </div>
-        );
-      
-      case 'choice':
-        const options = getChoiceOptions(item);
-        
-        return (
-          <div key={item.linkId} className="questionnaire-item">
-            <label className="questionnaire-label">
-              {item.text}
-              {item.required && <span className="required">*</span>}
-            </label>
-            <div className="radio-group">
-              {options.map((option) => (
-                <div key={option.code} className="radio-option">
-                  <input
-                    type="radio"
-                    id={`${item.linkId}-${option.code}`}
-                    name={item.linkId}
-                    value={option.code}
-                    checked={value === option.code}
-                    onChange={(e) => handleInputChange(item.linkId, e.target.value)}
-                    disabled={isAutoPopulated || readOnly}
-                  />
-                  <label htmlFor={`${item.linkId}-${option.code}`} className="radio-label">
-                    {option.display}
-                  </label>
-                </div>
-              ))}
+            <div className="instance-fields">
+              {item.item?.map(childItem => {
+                // Conditions refer to the answers of this entry first
+                if (!isItemEnabled(childItem, [responseItems, toInstanceItems(item, instance)])) {
+                  return null;
+                }
+
+                return renderField(
+                  childItem,
+                  `${item.linkId}-${instanceIndex}-${childItem.linkId}`,
+                  instance[childItem.linkId],
+                  (value) => handleGroupInputChange(item.linkId, instanceIndex, childItem.linkId, value),
+                  readOnly || !!childItem.readOnly
+                );
+              })}
             </div>
-            {hint && (
-              <div className="field-hint">
-                {hint}
-              </div>
-            )}
           </div>
-        );
-      
-      default:
-        return (
-          <div key={item.linkId} className="questionnaire-item">
-            <label className="questionnaire-label">{item.text}</label>
-            <input
-              type="text"
-              value={value}
-              onChange={(e) => handleInputChange(item.linkId, e.target.value)}
-              className={`questionnaire-input ${isAutoPopulated ? 'auto-populated' : ''}`}
-              readOnly={isAutoPopulated}
-            />
-            {hint && (
-              <div className="field-hint">
-                {hint}
-              </div>
-            )}
+        ))}
+        
+        {!item.repeats && item.item && (
+          <div className="static-group">
+            {item.item.map(childItem => {
+              if (!isItemEnabled(childItem, [responseItems, responseItems.find(group => group.linkId === item.linkId)?.item || []])) {
+                return null;
+              }
+
+              return renderField(
+                childItem,
+                childItem.linkId,
+                formData[childItem.linkId],
+                (value) => handleInputChange(childItem.linkId, value),
+                readOnly || !!childItem.readOnly
+              );
+            })}
           </div>
-        );
-    }
+        )}
+      </div>
+    );
   };
 
   const handleSubmit = async () => {
@@ -482,69 +419,14 @@ export function QuestionnaireRenderer({ questionnaire, prescription, operationCo
       console.log('📝 Submitting flow request with questionnaire response');
       
       // Create a proper FHIR QuestionnaireResponse
-      const questionnaireResponse = {
-        resourceType: "QuestionnaireResponse",
-        questionnaire: questionnaire.title || "Unknown Questionnaire", // Reference to original questionnaire
+      const questionnaireResponse: QuestionnaireResponse = {
+        resourceType: "QuestionnaireResponse" as const,
+        questionnaire: questionnaire.url || questionnaire.title || "Unknown Questionnaire", // Canonical URL of the original questionnaire
         status: "completed",
-        item: []
+        // Items disabled by enableWhen are not part of the response
+        item: responseItems
       };
 
-      // Add simple form items
-      questionnaire.item.forEach(item => {
-        const answer = formData[item.linkId];
-        if (answer && answer.trim() !== '') {
-          const responseItem = {
-            linkId: item.linkId,
-            answer: []
-          };
-
-          // Add the answer based on the item type
-          if (item.type === 'integer') {
-            responseItem.answer.push({ valueInteger: parseInt(answer) || 0 });
-          } else {
-            responseItem.answer.push({ valueString: answer });
-          }
-
-          questionnaireResponse.item.push(responseItem);
-        }
-      });
-
-      // Add group instances
-      Object.entries(groupInstances).forEach(([groupLinkId, instances]) => {
-        instances.forEach((instance) => {
-          const groupItem = {
-            linkId: groupLinkId,
-            item: []
-          };
-          
-          Object.entries(instance).forEach(([childLinkId, childValue]) => {
-            if (childValue !== undefined && childValue !== null && childValue !== '') {
-              if (typeof childValue === 'object' && childValue.value !== undefined) {
-                // Handle quantity values
-                const quantity = {
-                  value: parseFloat(childValue.value) || 0,
-                  unit: childValue.unit || ''
-                };
-                groupItem.item.push({
-                  linkId: childLinkId,
-                  answer: [{ valueQuantity: quantity }]
-                });
-              } else {
-                // Handle string values
-                groupItem.item.push({
-                  linkId: childLinkId,
-                  answer: [{ valueString: childValue }]
-                });
-              }
-            }
-          });
-          
-          if (groupItem.item.length > 0) {
-            questionnaireResponse.item.push(groupItem);
-          }
-        });
-      });
-      
       const result = await TiFlowService.submitFlowRequest(questionnaireResponse);
       console.log('✅ Flow request submitted successfully:', result);
       
@@ -560,7 +442,8 @@ export function QuestionnaireRenderer({ questionnaire, prescription, operationCo
       
     } catch (error) {
       console.error('❌ Failed to submit flow request:', error);
-      // You could add error handling/notification here
+      // Show the validation issues of the backend next to the items they refer to
+      setFieldErrors(toFieldErrors(error));
     } finally {
       setIsSubmitting(false);
     }
@@ -589,8 +472,17 @@ export function QuestionnaireRenderer({ questionnaire, prescription, operationCo
             </div>
           )}
           
+          {Object.keys(fieldErrors).length > 0 && (
+            <div className="error-message">
+              {Object.keys(fieldErrors).some(linkId => linkId !== '')
+                ? 'Die Anfrage ist unvollständig oder fehlerhaft. Bitte die markierten Angaben korrigieren.'
+                : 'Die Anfrage konnte nicht gesendet werden.'}
+              {renderFieldErrors('')}
+            </div>
+          )}
+
           <form className="questionnaire-form">
-            {questionnaire.item.map(renderQuestionnaireItem)}
+            {questionnaire.item?.map(renderQuestionnaireItem)}
           </form>
         </div>
         
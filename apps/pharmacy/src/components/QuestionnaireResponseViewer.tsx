@@ -1,97 +1,225 @@
-import { useState } from 'react';
-import type { QuestionnaireResponse } from '../types';
+import { useEffect, useState, type ReactNode } from 'react';
+import type {
+  Questionnaire,
+  QuestionnaireItem,
+  QuestionnaireResponse,
+  QuestionnaireResponseItem,
+  QuestionnaireResponseItemAnswer,
+  QuestionnaireResponseRevision,
+  TaskHistoryEntry
+} from '../types';
 import { PharmacyInfoService } from '../services/pharmacyInfoService';
 import { ContactsService } from '../services/contactsService';
+import TiFlowService from '../services/tiFlowService';
+import {
+  QuestionnaireItemInput,
+  QuestionnaireResponseDiff,
+  RevisionDiff,
+  TaskHistoryTimeline,
+  fromAnswer,
+  getChoiceOptions,
+  getInitialFieldValue,
+  isEmptyFieldValue,
+  toAnswer,
+  type FieldValue
+} from '@ti-flow/ui';
+import { toFieldErrors, type FieldErrors } from '../utils/validationErrors';
+import { isItemEnabled, removeDisabledItems } from '../utils/enableWhen';
 import './QuestionnaireResponseViewer.css';
 
 interface QuestionnaireResponseViewerProps {
   questionnaireResponse: QuestionnaireResponse;
+  // Questionnaire the response answers; loaded by its canonical URL if not given
+  questionnaire?: Questionnaire;
   onClose?: () => void;
   onSubmit?: (updatedResponse: QuestionnaireResponse) => void;
+  taskHistory?: TaskHistoryEntry[];
+  // Negotiation: all revisions of the request, label of the submit button and responses to the latest revision
+  revisions?: QuestionnaireResponseRevision[];
+  submitLabel?: string;
+  onAccept?: () => Promise<void>;
+  onReject?: () => Promise<void>;
 }
 
-export function QuestionnaireResponseViewer({ questionnaireResponse, onClose, onSubmit }: QuestionnaireResponseViewerProps) {
-  // Helper functions defined first to avoid initialization order issues
-  const getFieldType = (linkId: string): string => {
-    // Determine field type based on linkId patterns
-    if (linkId.includes('date')) return 'date';
-    if (linkId.includes('urgency') || linkId.includes('priority')) return 'choice';
-    if (linkId.includes('description') || linkId.includes('request')) return 'text';
-    if (linkId === 'pzn' || linkId === 'packages') return 'number';
-    return 'string';
-  };
+// Field values by item path, e.g. 'change_request[0]/pzn[0]'; occurrences of
+// repeating groups have their own index
+type FieldValues = Record<string, FieldValue | undefined>;
+
+// A question of the Questionnaire at its path in the response, with the answer it was received with
+interface FieldEntry {
+  path: string;
+  item: QuestionnaireItem;
+  answer?: QuestionnaireResponseItemAnswer;
+}
+
+// Items the pharmacy system (AVS) fills in, identified by their item code
+const PHARMACY_ITEM_CODES = ['requester_name', 'requester_tid'];
+
+const itemPath = (parentPath: string, linkId: string, index: number) =>
+  `${parentPath}${parentPath ? '/' : ''}${linkId}[${index}]`;
 
-  const getChoiceOptions = (linkId: string): {value: string, label: string}[] => {
-    // Define choice options based on field type
-    if (linkId.includes('urgency') || linkId.includes('priority')) {
-      return [
-        {value: 'routine', label: 'Routine'},
-        {value: 'urgent', label: 'Dringend'},
-        {value: 'emergency', label: 'Notfall'}
-      ];
+const itemCode = (item: QuestionnaireItem) => item.code?.[0]?.code || item.linkId;
+
+// Occurrences of a group in the response; a non-repeating group without answers is still shown once
+const groupOccurrences = (item: QuestionnaireItem, responseItems: QuestionnaireResponseItem[]): QuestionnaireResponseItem[] => {
+  const occurrences = responseItems.filter(responseItem => responseItem.linkId === item.linkId);
+  return occurrences.length > 0 || item.repeats ? occurrences : [{ linkId: item.linkId }];
+};
+
+/**
+ * Questions of the Questionnaire at their paths in the response, nested groups included
+ */
+const collectFields = (items: QuestionnaireItem[], responseItems: QuestionnaireResponseItem[], parentPath = ''): FieldEntry[] =>
+  items.flatMap(item => {
+    if (item.type === 'group') {
+      return groupOccurrences(item, responseItems).flatMap((occurrence, index) =>
+        collectFields(item.item || [], occurrence.item || [], itemPath(parentPath, item.linkId, index)));
     }
-    return [];
-  };
+    if (item.type === 'display') {
+      return [];
+    }
+    const answer = responseItems.find(responseItem => responseItem.linkId === item.linkId)?.answer?.[0];
+    return [{ path: itemPath(parentPath, item.linkId, 0), item, answer }];
+  });
 
-  const getDefaultChoiceValue = (linkId: string): string => {
-    // Get default value for choice fields
-    const options = getChoiceOptions(linkId);
-    return options.length > 0 ? options[0].value : '';
-  };
+const formatLinkId = (linkId: string) =>
+  linkId.replace(/[_-]/g, ' ').replace(/\b\w/g, (letter: string) => letter.toUpperCase());
 
-  const getChoiceDisplayLabel = (linkId: string, value: string): string => {
-    // Get human-readable label for choice value
-    const options = getChoiceOptions(linkId);
-    const option = options.find(opt => opt.value === value);
-    return option ? option.label : value;
-  };
+const itemTypeOfAnswer = (answer?: QuestionnaireResponseItemAnswer): string => {
+  if (!answer) return 'string';
+  if (answer.valueBoolean !== undefined) return 'boolean';
+  if (answer.valueInteger !== undefined) return 'integer';
+  if (answer.valueDecimal !== undefined) return 'decimal';
+  if (answer.valueDate !== undefined) return 'date';
+  if (answer.valueDateTime !== undefined) return 'dateTime';
+  if (answer.valueTime !== undefined) return 'time';
+  if (answer.valueUri !== undefined) return 'url';
+  if (answer.valueCoding) return 'open-choice';
+  if (answer.valueQuantity) return 'quantity';
+  if (answer.valueReference) return 'reference';
+  if (answer.valueAttachment) return 'attachment';
+  return 'string';
+};
 
-  const [editingFields, setEditingFields] = useState<{[linkId: string]: boolean}>({});
-  const [fieldValues, setFieldValues] = useState<{[linkId: string]: string}>(() => {
-    // Initialize field values from the questionnaire response
-    const values: {[linkId: string]: string} = {};
-    
-    const processItem = (item: any) => {
-      if (item.answer && item.answer.length > 0) {
-        const answer = item.answer[0];
-        values[item.linkId] = answer.valueString || answer.valueDate || answer.valueInteger?.toString() || '';
-      } else {
-        // For choice fields, set default to first option
-        const fieldType = getFieldType(item.linkId);
-        if (fieldType === 'choice') {
-          values[item.linkId] = getDefaultChoiceValue(item.linkId);
-        } else {
-          values[item.linkId] = '';
+/**
+ * Questionnaire items derived from the response alone, for responses whose Questionnaire
+ * cannot be loaded: labels are the item texts, types follow the answers
+ */
+const itemsFromResponse = (responseItems: QuestionnaireResponseItem[]): QuestionnaireItem[] => {
+  const items: QuestionnaireItem[] = [];
+
+  for (const responseItem of responseItems) {
+    const existing = items.find(item => item.linkId === responseItem.linkId);
+    if (existing) {
+      existing.repeats = true;
+      const children = itemsFromResponse(responseItem.item || []);
+      existing.item = [...(existing.item || []), ...children.filter(child => !existing.item?.some(item => item.linkId === child.linkId))];
+      continue;
+    }
+
+    const text = responseItem.text || formatLinkId(responseItem.linkId);
+    if (responseItem.item && responseItem.item.length > 0) {
+      items.push({ linkId: responseItem.linkId, text, type: 'group', item: itemsFromResponse(responseItem.item) });
+    } else {
+      const answer = responseItem.answer?.[0];
+      items.push({
+        linkId: responseItem.linkId,
+        text,
+        type: itemTypeOfAnswer(answer),
+        ...(answer?.valueCoding ? { answerOption: [{ valueCoding: answer.valueCoding }] } : {})
+      });
+    }
+  }
+
+  return items;
+};
+
+const questionnaireFromResponse = (questionnaireResponse: QuestionnaireResponse): Questionnaire => ({
+  resourceType: 'Questionnaire',
+  url: questionnaireResponse.questionnaire,
+  status: 'unknown',
+  item: itemsFromResponse(questionnaireResponse.item || [])
+});
+
+export function QuestionnaireResponseViewer({
+  questionnaireResponse,
+  questionnaire: givenQuestionnaire,
+  onClose,
+  onSubmit,
+  taskHistory,
+  revisions,
+  submitLabel = '📤 Anfrage senden',
+  onAccept,
+  onReject
+}: QuestionnaireResponseViewerProps) {
+  const [questionnaire, setQuestionnaire] = useState<Questionnaire | null>(givenQuestionnaire || null);
+  const [editingFields, setEditingFields] = useState<{[path: string]: boolean}>({});
+  const [fieldValues, setFieldValues] = useState<FieldValues>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Validation errors of the last submit
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  // Load the Questionnaire the response answers; without it the structure is taken from the response
+  useEffect(() => {
+    if (givenQuestionnaire) {
+      setQuestionnaire(givenQuestionnaire);
+      return;
+    }
+
+    let cancelled = false;
+    const loadQuestionnaire = async () => {
+      try {
+        const loaded = questionnaireResponse.questionnaire
+          ? await TiFlowService.findQuestionnaireByUrl(questionnaireResponse.questionnaire)
+          : undefined;
+        if (!cancelled) {
+          setQuestionnaire(loaded || questionnaireFromResponse(questionnaireResponse));
+        }
+      } catch (error) {
+        console.warn('⚠️ Could not load questionnaire, using the structure of the response:', error);
+        if (!cancelled) {
+          setQuestionnaire(questionnaireFromResponse(questionnaireResponse));
         }
-      }
-      
-      // Handle nested items (groups)
-      if (item.item && item.item.length > 0) {
-        item.item.forEach(processItem);
       }
     };
-    
-    questionnaireResponse.item?.forEach(processItem);
-    
-    // Auto-fill pharmacy information for specific fields
-    if (values['requester_name'] === '' || !values['requester_name']) {
-      values['requester_name'] = PharmacyInfoService.getFormattedPharmacyName();
-    }
-    if (values['requester_tid'] === '' || !values['requester_tid']) {
-      values['requester_tid'] = PharmacyInfoService.getPharmacyTelematikId();
+    loadQuestionnaire();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [givenQuestionnaire, questionnaireResponse]);
+
+  const fields = questionnaire ? collectFields(questionnaire.item || [], questionnaireResponse.item || []) : [];
+
+  // Initialize field values from the questionnaire response once the questionnaire is known
+  useEffect(() => {
+    if (!questionnaire) return;
+
+    const values: FieldValues = {};
+    for (const { path, item, answer } of collectFields(questionnaire.item || [], questionnaireResponse.item || [])) {
+      if (answer) {
+        values[path] = fromAnswer(item, answer);
+      } else if (PHARMACY_ITEM_CODES.includes(itemCode(item))) {
+        // Auto-fill pharmacy information
+        values[path] = itemCode(item) === 'requester_tid'
+          ? PharmacyInfoService.getPharmacyTelematikId()
+          : PharmacyInfoService.getFormattedPharmacyName();
+      } else {
+        // Initial value of the item; choice fields default to the first option
+        values[path] = getInitialFieldValue(item, questionnaire)
+          ?? (item.type === 'choice' ? getChoiceOptions(item, questionnaire)[0]?.code : undefined);
+      }
     }
-    
-    return values;
-  });
-  const [isSubmitting, setIsSubmitting] = useState(false);
+    setFieldValues(values);
+  }, [questionnaire, questionnaireResponse]);
 
   // Contact suggestion functionality
   const contactsService = new ContactsService();
-  
+
   // Extract prescriber LANR from questionnaire response
   const getPrescriberLanr = (): string | null => {
-    const prescriberLanrItem = questionnaireResponse.item?.find(item => item.linkId === 'prescriber_lanr');
-    return prescriberLanrItem?.answer?.[0]?.valueString || null;
+    const prescriberLanrField = fields.find(field => itemCode(field.item) === 'prescriber_lanr');
+    return prescriberLanrField?.answer?.valueString || null;
   };
 
   // Get contact suggestion based on prescriber LANR
@@ -102,21 +230,26 @@ export function QuestionnaireResponseViewer({ questionnaireResponse, onClose, on
   // Function to fill receiver fields from contact suggestion
   const fillFromContacts = () => {
     if (!contactSuggestion) return;
-    
+
     const contact = contactSuggestion;
-    const newValues = { ...fieldValues };
-    
+    const contactValues: {[code: string]: string | undefined} = {
+      receiver_name: contact.name,
+      receiver_email: contact.email,
+      receiver_tid: contact.telematikId,
+      receiver_lanr: contact.lanr,
+      receiver_phone: contact.phone,
+      receiver_address: contact.address
+        ? `${contact.address.street}, ${contact.address.postalCode} ${contact.address.city}`
+        : undefined
+    };
+
     // Fill receiver fields with contact information
-    if (contact.name) newValues['receiver_name'] = contact.name;
-    if (contact.email) newValues['receiver_email'] = contact.email;
-    if (contact.telematikId) newValues['receiver_tid'] = contact.telematikId;
-    if (contact.lanr) newValues['receiver_lanr'] = contact.lanr;
-    if (contact.phone) newValues['receiver_phone'] = contact.phone;
-    if (contact.address) {
-      const addressString = `${contact.address.street}, ${contact.address.postalCode} ${contact.address.city}`;
-      newValues['receiver_address'] = addressString;
+    const newValues = { ...fieldValues };
+    for (const { path, item } of fields) {
+      const value = contactValues[itemCode(item)];
+      if (value) newValues[path] = value;
     }
-    
+
     setFieldValues(newValues);
   };
 
@@ -126,166 +259,128 @@ export function QuestionnaireResponseViewer({ questionnaireResponse, onClose, on
     }
   };
 
-  const toggleEdit = (linkId: string) => {
+  const toggleEdit = (path: string) => {
     setEditingFields(prev => ({
       ...prev,
-      [linkId]: !prev[linkId]
+      [path]: !prev[path]
     }));
   };
 
-  const handleFieldChange = (linkId: string, value: string) => {
+  const handleFieldChange = (path: string, linkId: string, value: FieldValue) => {
     setFieldValues(prev => ({
       ...prev,
-      [linkId]: value
+      [path]: value
     }));
+    setFieldErrors(prev => {
+      if (!prev[linkId]) return prev;
+      const remaining = { ...prev };
+      delete remaining[linkId];
+      return remaining;
+    });
   };
 
+  /**
+   * Response items for the current field values in the structure of the Questionnaire.
+   * Unchanged answers are kept as received; items the Questionnaire does not define stay untouched.
+   */
+  const buildResponseItems = (items: QuestionnaireItem[], responseItems: QuestionnaireResponseItem[], parentPath = ''): QuestionnaireResponseItem[] => [
+    ...items.flatMap((item): QuestionnaireResponseItem[] => {
+      if (item.type === 'group') {
+        return groupOccurrences(item, responseItems).flatMap((occurrence, index) => {
+          const children = buildResponseItems(item.item || [], occurrence.item || [], itemPath(parentPath, item.linkId, index));
+          return children.length > 0 ? [{ ...occurrence, item: children }] : [];
+        });
+      }
+      if (item.type === 'display') {
+        return [];
+      }
+
+      const original = responseItems.find(responseItem => responseItem.linkId === item.linkId);
+      const value = fieldValues[itemPath(parentPath, item.linkId, 0)];
+      const unchanged = original?.answer?.[0] && JSON.stringify(fromAnswer(item, original.answer[0])) === JSON.stringify(value);
+      const answer = unchanged ? undefined : toAnswer(item, value, questionnaire || undefined);
+
+      if (unchanged) return [original!];
+      return answer ? [{ ...original, linkId: item.linkId, answer: [answer] }] : [];
+    }),
+    ...responseItems.filter(responseItem => !items.some(item => item.linkId === responseItem.linkId))
+  ];
+
+  // Enabled answers of the form; enableWhen conditions are evaluated against them
+  const responseItems = questionnaire
+    ? removeDisabledItems(questionnaire.item, buildResponseItems(questionnaire.item || [], questionnaireResponse.item || []))
+    : [];
+
   const handleSubmit = async () => {
-    if (!onSubmit) return;
-    
+    if (!onSubmit || !questionnaire) return;
+
     setIsSubmitting(true);
     try {
-      // Function to process items recursively
-      const processItem = (item: any): any => {
-        const result = { ...item };
-        
-        // If this item has nested items (group), process them recursively
-        if (item.item && item.item.length > 0) {
-          result.item = item.item.map(processItem);
-        } else {
-          // For leaf items, update answer from fieldValues
-          result.answer = fieldValues[item.linkId] ? [
-            // Determine value type based on linkId patterns
-            item.linkId.includes('date') 
-              ? { valueDate: fieldValues[item.linkId] } // Store dates as valueDate
-              : /^\d+$/.test(fieldValues[item.linkId])
-              ? { valueInteger: parseInt(fieldValues[item.linkId]) || 0 }
-              : { valueString: fieldValues[item.linkId] }
-          ] : item.answer;
-        }
-        
-        return result;
-      };
-      
-      // Create updated questionnaire response
+      // Create updated questionnaire response; items disabled by enableWhen are dropped
       const updatedResponse: QuestionnaireResponse = {
         ...questionnaireResponse,
         status: 'completed',
-        item: questionnaireResponse.item?.map(processItem)
+        item: responseItems
       };
 
       await onSubmit(updatedResponse);
       handleClose();
     } catch (error) {
       console.error('❌ Failed to submit questionnaire:', error);
+      // Show the validation issues of the backend next to the items they refer to
+      setFieldErrors(toFieldErrors(error));
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const getQuestionText = (linkId: string): string => {
-    // Convert linkId to readable question text
-    const linkIdMap: {[key: string]: string} = {
-      'patient_name': 'Name des Patienten',
-      'patient_kvnr': 'Krankenversichertennummer',
-      'prescription_id': 'Rezept-ID',
-      'medication_name': 'Verordnetes Medikament',
-      'prescriber_name': 'Name des verordnenden Arztes',
-      'prescriber_lanr': 'LANR des Arztes',
-      'organization_name': 'Name der Einrichtung',
-      'prescription_date': 'Verordnungsdatum',
-      'change_request': 'Gewünschte Medikationsänderung',
-      'medication': 'Gewünschter Medikamentenname',
-      'pzn': 'PZN (Pharmazentralnummer)',
-      'dosage': 'Gewünschte Dosierung',
-      'packages': 'Anzahl Packungen',
-      'urgency': 'Dringlichkeit',
-      'requester_name': 'Name des Anfragenden',
-      'requester_tid': 'Telematik ID'
-    };
-    
-    return linkIdMap[linkId] || linkId.replace(/[_-]/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
+  // Accept or reject the latest revision and close the viewer
+  const handleResponse = async (respond: () => Promise<void>) => {
+    setIsSubmitting(true);
+    try {
+      await respond();
+      handleClose();
+    } catch (error) {
+      console.error('❌ Failed to respond to request:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  // Check if field is auto-filled by pharmacy (AVS)
-  const isPharmacyAutoFilled = (linkId: string): boolean => {
-    return ['requester_name', 'requester_tid'].includes(linkId);
+  // Display text of a field value, e.g. the label of the selected option
+  const formatFieldValue = (item: QuestionnaireItem, value: FieldValue | undefined): string => {
+    const answer = toAnswer(item, value, questionnaire || undefined);
+    return answer ? QuestionnaireResponseDiff.formatAnswer(answer) || '' : '';
   };
 
-  // Group fields logically
-  const getFieldGroups = () => {
-    const items = questionnaireResponse.item || [];
-    
-    const prescriptionFields = items.filter(item => 
-      ['prescription_id', 'medication_name', 'prescription_date'].includes(item.linkId)
-    );
-    
-    const patientFields = items.filter(item => 
-      ['patient_name', 'patient_kvnr'].includes(item.linkId)
-    );
-    
-    const prescriberFields = items.filter(item => 
-      ['prescriber_name', 'prescriber_lanr', 'organization_name'].includes(item.linkId)
-    );
-    
-    const pharmacyFields = items.filter(item => 
-      ['requester_name', 'requester_tid'].includes(item.linkId)
-    );
-    
-    const receiverFields = items.filter(item => 
-      ['receiver_name', 'receiver_tid', 'receiver_email', 'receiver_lanr', 'receiver_phone', 'receiver_address'].includes(item.linkId)
-    );
-    
-    const otherFields = items.filter(item => 
-      !['prescription_id', 'medication_name', 'prescription_date', 
-        'patient_name', 'patient_kvnr', 
-        'prescriber_name', 'prescriber_lanr', 'organization_name',
-        'requester_name', 'requester_tid',
-        'receiver_name', 'receiver_tid', 'receiver_email', 'receiver_lanr', 'receiver_phone', 'receiver_address'].includes(item.linkId) &&
-      !(item.item && item.item.length > 0) // Exclude group items (they are handled separately)
-    );
-
-    return {
-      prescription: prescriptionFields,
-      patient: patientFields,
-      prescriber: prescriberFields,
-      pharmacy: pharmacyFields,
-      receiver: receiverFields,
-      other: otherFields
-    };
-  };
-
-  const fieldGroups = getFieldGroups();
-
-  const renderResponseItem = (item: any) => {
-    const answer = item.answer?.[0];
-    const hasAnswer = answer && (answer.valueString || answer.valueInteger !== undefined);
-    const isPharmacyFilled = isPharmacyAutoFilled(item.linkId);
-    const isEditing = editingFields[item.linkId] || (!hasAnswer && !isPharmacyFilled);
-    const currentValue = fieldValues[item.linkId] || '';
-    const fieldType = getFieldType(item.linkId);
-    const questionText = getQuestionText(item.linkId);
+  const renderField = (item: QuestionnaireItem, path: string, answer?: QuestionnaireResponseItemAnswer) => {
+    const hasAnswer = answer !== undefined && !isEmptyFieldValue(fromAnswer(item, answer));
+    const isPharmacyFilled = PHARMACY_ITEM_CODES.includes(itemCode(item));
+    const isReadOnly = isPharmacyFilled || !!item.readOnly;
+    const isEditing = !isReadOnly && (editingFields[path] || !hasAnswer);
+    const currentValue = fieldValues[path];
+    const questionText = item.text || formatLinkId(item.linkId);
 
     return (
-      <div key={item.linkId} className={`questionnaire-response-item ${hasAnswer || isPharmacyFilled ? 'has-answer' : 'no-answer'} ${isPharmacyFilled ? 'pharmacy-filled' : ''}`}>
+      <div key={path} className={`questionnaire-response-item ${hasAnswer || isPharmacyFilled ? 'has-answer' : 'no-answer'} ${isPharmacyFilled ? 'pharmacy-filled' : ''}`}>
         <div className="question-header">
-          <label className="question-label">
+          <label className="question-label" htmlFor={path}>
             {questionText}
-            <span className="required-indicator">*</span>
+            {item.required && <span className="required-indicator">*</span>}
           </label>
-          
-          {/* Show edit button only for non-pharmacy fields that have answers */}
-          {hasAnswer && !isPharmacyFilled && (
+
+          {/* Show edit button only for editable fields that have answers */}
+          {hasAnswer && !isReadOnly && (
             <button
               type="button"
               className={`edit-toggle-btn ${isEditing ? 'editing' : ''}`}
-              onClick={() => toggleEdit(item.linkId)}
+              onClick={() => toggleEdit(path)}
               title={isEditing ? 'Bearbeitung beenden' : 'Bearbeiten'}
             >
               {isEditing ? '✓' : '✏️'}
             </button>
           )}
-          
+
           {/* Show appropriate badge based on field type */}
           {isPharmacyFilled ? (
             <span className="pharmacy-filled-badge">🏥 Vom AVS ausgefüllt</span>
@@ -295,213 +390,210 @@ export function QuestionnaireResponseViewer({ questionnaireResponse, onClose, on
         </div>
 
         <div className="question-input-container">
-          {isEditing && !isPharmacyFilled ? (
-            <>
-              {fieldType === 'text' ? (
-                <textarea
-                  className="question-textarea"
-                  value={currentValue}
-                  onChange={(e) => handleFieldChange(item.linkId, e.target.value)}
-                  placeholder={`Bitte ${questionText.toLowerCase()} eingeben...`}
-                  rows={3}
-                  maxLength={2000}
-                />
-              ) : fieldType === 'choice' ? (
-                <select
-                  className="question-select"
-                  value={currentValue}
-                  onChange={(e) => handleFieldChange(item.linkId, e.target.value)}
-                >
-                  {!currentValue && <option value="">Bitte wählen...</option>}
-                  {getChoiceOptions(item.linkId).map(option => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
-                  ))}
-                </select>
-              ) : fieldType === 'number' ? (
-                <input
-                  type="number"
-                  className="question-input"
-                  value={currentValue}
-                  onChange={(e) => handleFieldChange(item.linkId, e.target.value)}
-                  placeholder={`Bitte ${questionText.toLowerCase()} eingeben...`}
-                />
-              ) : (
-                <input
-                  type={fieldType === 'date' ? 'date' : 'text'}
-                  className="question-input"
-                  value={currentValue}
-                  onChange={(e) => handleFieldChange(item.linkId, e.target.value)}
-                  placeholder={`Bitte ${questionText.toLowerCase()} eingeben...`}
-                />
-              )}
-              
-              {fieldType === 'text' && (
-                <div className="character-count">
-                  {currentValue.length} / 2000 Zeichen
-                </div>
-              )}
-            </>
+          {isEditing ? (
+            <QuestionnaireItemInput
+              item={item}
+              questionnaire={questionnaire || undefined}
+              fieldId={path}
+              value={currentValue}
+              onChange={(value) => handleFieldChange(path, item.linkId, value)}
+              inputClassName="question-input"
+              textareaClassName="question-textarea"
+              selectClassName="question-select"
+            />
           ) : (
-            <div className={`question-display-value ${isPharmacyFilled ? 'pharmacy-readonly' : ''}`}>
-              {fieldType === 'choice' && currentValue 
-                ? getChoiceDisplayLabel(item.linkId, currentValue)
-                : currentValue || 'Keine Antwort'
-              }
-              {isPharmacyFilled && (
+            <div className={`question-display-value ${isReadOnly ? 'pharmacy-readonly' : ''}`}>
+              {formatFieldValue(item, currentValue) || 'Keine Antwort'}
+              {isReadOnly && (
                 <span className="readonly-indicator">
                   🔒 Schreibgeschützt
                 </span>
               )}
             </div>
           )}
+          {fieldErrors[item.linkId]?.map((message, index) => (
+            <div key={index} className="field-error">
+              {message}
+            </div>
+          ))}
         </div>
       </div>
     );
   };
 
+  /**
+   * Items of one level of the Questionnaire; scopes are the response items from the
+   * root to this level, against which enableWhen conditions are evaluated
+   */
+  const renderItems = (
+    items: QuestionnaireItem[],
+    levelResponseItems: QuestionnaireResponseItem[],
+    parentPath: string,
+    scopes: QuestionnaireResponseItem[][]
+  ): ReactNode[] => items.map((item): ReactNode => {
+    if (!isItemEnabled(item, scopes)) {
+      return null;
+    }
+
+    if (item.type === 'display') {
+      return (
+        <div key={itemPath(parentPath, item.linkId, 0)} className="help-text">
+          {item.text}
+        </div>
+      );
+    }
+
+    if (item.type !== 'group') {
+      const answer = levelResponseItems.find(responseItem => responseItem.linkId === item.linkId)?.answer?.[0];
+      return renderField(item, itemPath(parentPath, item.linkId, 0), answer);
+    }
+
+    const occurrences = groupOccurrences(item, levelResponseItems);
+    return occurrences.map((occurrence, index): ReactNode => {
+      const path = itemPath(parentPath, item.linkId, index);
+      const occurrenceScope = buildResponseItems(item.item || [], occurrence.item || [], path);
+      return renderGroup(
+        item,
+        path,
+        occurrences.length > 1 ? `${item.text || formatLinkId(item.linkId)} (${index + 1})` : item.text || formatLinkId(item.linkId),
+        renderItems(item.item || [], occurrence.item || [], path, [...scopes, occurrenceScope]),
+        !parentPath
+      );
+    });
+  });
+
+  const hasReceiverItems = (items: QuestionnaireItem[]) => items.some(item => itemCode(item).startsWith('receiver_'));
+
+  const renderGroup = (item: QuestionnaireItem | null, key: string, title: string, content: ReactNode, topLevel: boolean) => (
+    <div key={key} className="questionnaire-response-group">
+      {topLevel ? (
+        <h3 className="group-title">
+          <span className="group-icon">{item ? '📂' : '📝'}</span>
+          {title}
+          {hasContactSuggestion && hasReceiverItems(item ? item.item || [] : ungroupedItems) && (
+            <button
+              type="button"
+              className="btn btn-contact-suggestion btn-small"
+              onClick={fillFromContacts}
+              title={`Empfängerdaten von ${contactSuggestion?.name} übernehmen`}
+            >
+              📞 Aus Kontakten ausfüllen
+            </button>
+          )}
+        </h3>
+      ) : (
+        <h4>{title}</h4>
+      )}
+      <div className="group-content">
+        {content}
+      </div>
+    </div>
+  );
+
+  // Top-level questions outside of groups form the first section, each group a section of its own
+  const topLevelItems = questionnaire?.item || [];
+  const ungroupedItems = topLevelItems.filter(item => item.type !== 'group');
+  const groupItems = topLevelItems.filter(item => item.type === 'group');
+
   return (
     <div className="questionnaire-overlay">
       <div className="questionnaire-modal">
         <div className="questionnaire-header">
-          <h2>📋 {questionnaireResponse.questionnaire}</h2>
+          <h2>📋 {questionnaire?.title || questionnaireResponse.questionnaire}</h2>
           <button className="close-button" onClick={handleClose} aria-label="Schließen">
             ✕
           </button>
         </div>
-        
+
         <div className="questionnaire-content">
           <div className="questionnaire-response-info">
             <div className="info-banner">
               <span className="info-icon">ℹ️</span>
               <div className="info-text">
                 <strong>Bearbeitbarer Fragebogen</strong>
-                <p>Automatisch ausgefüllte Felder können mit dem ✏️ Icon bearbeitet werden. 
-                   🏥 Vom AVS ausgefüllte Felder sind schreibgeschützt.
+                <p>Automatisch ausgefüllte Felder können mit dem ✏️ Icon bearbeitet werden.
+                   🏥 Vom AVS ausgefüllte und 🔒 schreibgeschützte Felder sind nicht änderbar.
                    Leere Felder sind sofort bearbeitbar.</p>
               </div>
             </div>
           </div>
-          
-          <div className="questionnaire-response-form">
-            {/* Prescription Information Group */}
-            {fieldGroups.prescription.length > 0 && (
-              <div className="questionnaire-response-group">
-                <h3 className="group-title">
-                  <span className="group-icon">💊</span>
-                  Verordnungsdaten
-                </h3>
-                <div className="group-content">
-                  {fieldGroups.prescription.map(renderResponseItem)}
-                </div>
-              </div>
-            )}
 
-            {/* Patient Information Group */}
-            {fieldGroups.patient.length > 0 && (
-              <div className="questionnaire-response-group">
-                <h3 className="group-title">
-                  <span className="group-icon">👤</span>
-                  Patientendaten
-                </h3>
-                <div className="group-content">
-                  {fieldGroups.patient.map(renderResponseItem)}
-                </div>
-              </div>
-            )}
+          {Object.keys(fieldErrors).length > 0 && (
+            <div className="error-message">
+              <strong>Die Anfrage konnte nicht gesendet werden.</strong>
+              {Object.values(fieldErrors).flat().map((message, index) => (
+                <div key={index}>{message}</div>
+              ))}
+            </div>
+          )}
 
-            {/* Prescriber Information Group */}
-            {fieldGroups.prescriber.length > 0 && (
-              <div className="questionnaire-response-group">
-                <h3 className="group-title">
-                  <span className="group-icon">👨‍⚕️</span>
-                  Verordnerdaten
-                </h3>
-                <div className="group-content">
-                  {fieldGroups.prescriber.map(renderResponseItem)}
-                </div>
-              </div>
-            )}
+          {revisions && revisions.length > 1 && (
+            <RevisionDiff
+              previous={revisions[revisions.length - 2]}
+              current={revisions[revisions.length - 1]}
+              ownTelematikId={PharmacyInfoService.getPharmacyTelematikId()}
+              ownLabel="Ihre Apotheke"
+            />
+          )}
 
-            {/* Pharmacy Information Group */}
-            {fieldGroups.pharmacy.length > 0 && (
-              <div className="questionnaire-response-group">
-                <h3 className="group-title">
-                  <span className="group-icon">🏥</span>
-                  Apothekendaten (AVS)
-                </h3>
-                <div className="group-content">
-                  {fieldGroups.pharmacy.map(renderResponseItem)}
-                </div>
+          <div className="questionnaire-response-form">
+            {!questionnaire && (
+              <div className="loading-section">
+                <p>🔄 Fragebogen wird geladen...</p>
               </div>
             )}
 
-            {/* Receiver Information Group */}
-            {fieldGroups.receiver.length > 0 && (
-              <div className="questionnaire-response-group">
-                <h3 className="group-title">
-                  <span className="group-icon">📩</span>
-                  Empfängerdaten
-                  {hasContactSuggestion && (
-                    <button
-                      type="button"
-                      className="btn btn-contact-suggestion btn-small"
-                      onClick={fillFromContacts}
-                      title={`Empfängerdaten von ${contactSuggestion?.name} übernehmen`}
-                    >
-                      📞 Aus Kontakten ausfüllen
-                    </button>
-                  )}
-                </h3>
-                <div className="group-content">
-                  {fieldGroups.receiver.map(renderResponseItem)}
-                </div>
-              </div>
+            {ungroupedItems.length > 0 && renderGroup(
+              null,
+              'ungrouped',
+              'Angaben',
+              renderItems(ungroupedItems, questionnaireResponse.item || [], '', [responseItems]),
+              true
             )}
 
-            {/* Other Fields Group */}
-            {fieldGroups.other.length > 0 && (
-              <div className="questionnaire-response-group">
-                <h3 className="group-title">
-                  <span className="group-icon">📝</span>
-                  Weitere Angaben
-                </h3>
-                <div className="group-content">
-                  {fieldGroups.other.map(renderResponseItem)}
-                </div>
-              </div>
-            )}
-            
-            {/* Handle nested items (groups) from questionnaire structure */}
-            {questionnaireResponse.item?.filter(item => item.item && item.item.length > 0).map(groupItem => (
-              <div key={groupItem.linkId} className="questionnaire-response-group">
-                <h4>{getQuestionText(groupItem.linkId)}</h4>
-                <div className="group-content">
-                  {groupItem.item?.map(renderResponseItem)}
-                </div>
-              </div>
-            ))}
+            {renderItems(groupItems, questionnaireResponse.item || [], '', [responseItems])}
+
+            {taskHistory && <TaskHistoryTimeline entries={taskHistory} />}
           </div>
         </div>
-        
+
         <div className="questionnaire-actions">
-          <button 
-            type="button" 
-            className="btn btn-secondary" 
+          <button
+            type="button"
+            className="btn btn-secondary"
             onClick={handleClose}
             disabled={isSubmitting}
           >
             Abbrechen
           </button>
+          {onReject && (
+            <button
+              type="button"
+              className="btn btn-danger"
+              onClick={() => handleResponse(onReject)}
+              disabled={isSubmitting}
+            >
+              ❌ Ablehnen
+            </button>
+          )}
+          {onAccept && (
+            <button
+              type="button"
+              className="btn btn-success"
+              onClick={() => handleResponse(onAccept)}
+              disabled={isSubmitting}
+            >
+              ✅ Annehmen
+            </button>
+          )}
           {onSubmit && (
-            <button 
-              type="button" 
+            <button
+              type="button"
               className={`btn btn-primary ${isSubmitting ? 'submitting' : ''}`}
               onClick={handleSubmit}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !questionnaire}
             >
-              {isSubmitting ? '🔄 Wird gesendet...' : '📤 Anfrage senden'}
+              {isSubmitting ? '🔄 Wird gesendet...' : submitLabel}
             </button>
           )}
         </div>
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { TiFlowService } from '../services/tiFlowService';
 import { PharmacyInfoService } from '../services/pharmacyInfoService';
 import { QuestionnaireResponseViewer } from './QuestionnaireResponseViewer';
-import type { FlowTask, QuestionnaireResponse } from '../types';
+import type { FlowTask, QuestionnaireResponse, QuestionnaireResponseRevision, TaskHistoryEntry } from '../types';
 
 // Add CSS for spinner animation
 const spinnerCSS = `
@@ -31,14 +31,23 @@ const spinnerCSS = `
   }
 `;
 
-export function TaskList() {
+interface TaskListProps {
+  // A prescription was accepted at the E-Rezept-Fachdienst with the AccessCode of a document request
+  onPrescriptionDownloaded?: () => void;
+}
+
+export function TaskList({ onPrescriptionDownloaded }: TaskListProps) {
   const [tasks, setTasks] = useState<FlowTask[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedQuestionnaireResponse, setSelectedQuestionnaireResponse] = useState<QuestionnaireResponse | null>(null);
+  const [selectedTaskHistory, setSelectedTaskHistory] = useState<TaskHistoryEntry[]>([]);
+  const [selectedRevisions, setSelectedRevisions] = useState<QuestionnaireResponseRevision[]>([]);
+  const [detailsTask, setDetailsTask] = useState<FlowTask | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [selectedTask, setSelectedTask] = useState<FlowTask | null>(null);
+  const [unseenTaskIds, setUnseenTaskIds] = useState<Set<string>>(new Set());
 
   // Add CSS for animations
   useEffect(() => {
@@ -54,6 +63,27 @@ export function TaskList() {
     loadTasks();
   }, []);
 
+  // Live updates: merge changed tasks into the list, changes by the other party are marked as unseen
+  useEffect(() => {
+    return TiFlowService.subscribeToTaskChanges((changedTask) => {
+      setTasks(current => current.some(task => task.id === changedTask.id)
+        ? current.map(task => task.id === changedTask.id ? changedTask : task)
+        : [changedTask, ...current]);
+
+      if (!TiFlowService.isOwnChange(changedTask)) {
+        setUnseenTaskIds(current => new Set(current).add(changedTask.id));
+      }
+    });
+  }, []);
+
+  const markAsSeen = (taskId: string) => {
+    setUnseenTaskIds(current => {
+      const next = new Set(current);
+      next.delete(taskId);
+      return next;
+    });
+  };
+
   const loadTasks = async () => {
     try {
       setIsLoading(true);
@@ -69,16 +99,27 @@ export function TaskList() {
   };
 
   const handleShowDetails = async (task: FlowTask) => {
+    markAsSeen(task.id);
     try {
-      // Extract questionnaire response ID from the input reference
-      const questionnaireResponseRef = task.input?.find((input: any) => 
-        input.type.text === 'questionnaire-response'
-      )?.valueReference?.reference;
-      
-      if (questionnaireResponseRef) {
-        const questionnaireResponseId = questionnaireResponseRef.replace('QuestionnaireResponse/', '');
-        const questionnaireResponse = await TiFlowService.getQuestionnaireResponseById(questionnaireResponseId);
-        setSelectedQuestionnaireResponse(questionnaireResponse);
+      // Opening a request addressed to this pharmacy marks it as received
+      const pharmacyTelematikId = PharmacyInfoService.getPharmacyTelematikId();
+      let currentTask = task;
+      if (task.status === 'requested' && task.for.reference.replace('Organization/', '') === pharmacyTelematikId) {
+        currentTask = (await TiFlowService.receiveTask(task.id)).task;
+        loadTasks();
+      }
+
+      // Show the revision under negotiation, compared with the one before it
+      const [revisions, taskHistory] = await Promise.all([
+        TiFlowService.getQuestionnaireResponseRevisions(currentTask),
+        TiFlowService.getTaskHistory(task.id)
+      ]);
+
+      if (revisions.length > 0) {
+        setDetailsTask(currentTask);
+        setSelectedRevisions(revisions);
+        setSelectedQuestionnaireResponse(revisions[revisions.length - 1].questionnaireResponse);
+        setSelectedTaskHistory(taskHistory);
         setIsModalOpen(true);
       }
     } catch (err) {
@@ -95,6 +136,36 @@ export function TaskList() {
   const closeModal = () => {
     setIsModalOpen(false);
     setSelectedQuestionnaireResponse(null);
+    setSelectedTaskHistory([]);
+    setSelectedRevisions([]);
+    setDetailsTask(null);
+  };
+
+  // Whether it is our turn to accept, reject or counter the latest revision;
+  // the TI-Flow state is in businessStatus, Task.status only says in-progress
+  const canRespond = (task: FlowTask) => {
+    const isRequester = task.requester.reference.replace('Organization/', '') === PharmacyInfoService.getPharmacyTelematikId();
+    return isRequester
+      ? task.businessStatus.text === 'in_progress(Bearbeiter)'
+      : ['received', 'in_progress(Anfragender)'].includes(task.businessStatus.text);
+  };
+
+  const handleCounterOffer = async (questionnaireResponse: QuestionnaireResponse) => {
+    if (!detailsTask) return;
+    await TiFlowService.submitCounterOffer(detailsTask.id, questionnaireResponse);
+    loadTasks();
+  };
+
+  const handleAccept = async () => {
+    if (!detailsTask) return;
+    await TiFlowService.acceptTask(detailsTask.id);
+    loadTasks();
+  };
+
+  const handleReject = async () => {
+    if (!detailsTask) return;
+    await TiFlowService.rejectTask(detailsTask.id);
+    loadTasks();
   };
 
   const getStatusColor = (status: string) => {
@@ -119,7 +190,7 @@ export function TaskList() {
     const receiverOrg = task.for.reference.replace('Organization/', '');
     
     // If we are the requester, show the receiver, otherwise show the requester
-    return requesterOrg === 'pharmacy-app' ? receiverOrg : requesterOrg;
+    return requesterOrg === PharmacyInfoService.getPharmacyTelematikId() ? receiverOrg : requesterOrg;
   };
 
   if (isLoading) {
@@ -134,6 +205,15 @@ export function TaskList() {
     <div className="task-list">
       <div className="task-list-header">
         <h3>📋 Aktive Anfragen</h3>
+        {unseenTaskIds.size > 0 && (
+          <button
+            onClick={() => setUnseenTaskIds(new Set())}
+            className="unseen-badge"
+            title="Alle als gesehen markieren"
+          >
+            🔔 {unseenTaskIds.size} {unseenTaskIds.size === 1 ? 'neue Änderung' : 'neue Änderungen'}
+          </button>
+        )}
         <button onClick={loadTasks} className="refresh-btn">
           🔄 Aktualisieren
         </button>
@@ -152,12 +232,12 @@ export function TaskList() {
       ) : (
         <div className="tasks-grid">
           {tasks.map((task) => (
-            <div key={task.id} className="task-card">
+            <div key={task.id} className={`task-card${unseenTaskIds.has(task.id) ? ' unseen' : ''}`}>
               <div className="task-header">
                 <span 
                   className="task-status"
                   style={{ 
-                    backgroundColor: getStatusColor(task.status),
+                    backgroundColor: getStatusColor(task.businessStatus.text),
                     color: 'white',
                     padding: '4px 8px',
                     borderRadius: '4px',
@@ -167,6 +247,7 @@ export function TaskList() {
                 >
                   {task.businessStatus.text}
                 </span>
+                {unseenTaskIds.has(task.id) && <span className="unseen-marker">Neu</span>}
                 <span className="task-id">#{task.id}</span>
               </div>
               
@@ -213,7 +294,15 @@ export function TaskList() {
             <div className="modal-body">
               <QuestionnaireResponseViewer 
                 questionnaireResponse={selectedQuestionnaireResponse}
+                taskHistory={selectedTaskHistory}
+                revisions={selectedRevisions}
                 onClose={closeModal}
+                {...(detailsTask && canRespond(detailsTask) && {
+                  onSubmit: handleCounterOffer,
+                  submitLabel: '🔄 Gegenangebot senden',
+                  onAccept: handleAccept,
+                  onReject: handleReject
+                })}
               />
             </div>
           </div>
@@ -281,14 +370,15 @@ export function TaskList() {
                                 button.disabled = true;
                                 
                                 try {
-                                  // Simulate API call
-                                  await new Promise(resolve => setTimeout(resolve, 2000));
+                                  // $accept at the E-Rezept-Fachdienst; the Secret is kept for $close/$reject
+                                  await TiFlowService.downloadPrescription(prescriptionId, prescriptionSecret);
                                   
                                   // Success state
                                   button.innerHTML = '✓ Erfolgreich abgerufen';
                                   button.style.background = 'linear-gradient(135deg, #10b981, #059669)';
                                   
-                                  console.log(`E-Rezept erfolgreich abgerufen:\nID: ${prescriptionId}\nSecret: ${prescriptionSecret}`);
+                                  console.log(`E-Rezept ${prescriptionId} erfolgreich abgerufen`);
+                                  onPrescriptionDownloaded?.();
                                   
                                   // Reset after 3 seconds
                                   setTimeout(() => {
@@ -302,6 +392,7 @@ export function TaskList() {
                                   button.style.background = '';
                                   button.disabled = false;
                                   console.error('Fehler beim Abrufen des E-Rezepts:', error);
+                                  alert(`❌ E-Rezept konnte nicht abgerufen werden: ${error instanceof Error ? error.message : String(error)}`);
                                 }
                               }}
                               className="download-button"
@@ -0,0 +1,281 @@
+import type {
+  FhirBundle,
+  FhirEntry,
+  FhirResource,
+  MedicationType,
+  Patient,
+  Prescription,
+  PrescriptionKind
+} from '../types';
+import { FhirDataUtils } from '../utils/fhirDataUtils';
+import { FhirXmlToJsonConverter } from '../utils/fhirXmlToJsonConverter';
+
+export interface ParsedPrescriptionData {
+  patient: Patient;
+  prescription: Prescription;
+  fhirBundle: FhirBundle;
+}
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Identifier {
+  type?: CodeableConcept;
+  system?: string;
+  value?: string;
+}
+
+interface Ratio {
+  numerator?: { value?: number; unit?: string };
+}
+
+interface Period {
+  start?: string;
+  end?: string;
+}
+
+interface HumanName {
+  family?: string;
+  given?: string[];
+  prefix?: string[];
+}
+
+interface Address {
+  line?: string[];
+  postalCode?: string;
+  city?: string;
+  country?: string;
+}
+
+const PRESCRIPTION_ID_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_PrescriptionId';
+const PZN_SYSTEM = 'http://fhir.de/CodeSystem/ifa/pzn';
+const MEDICATION_TYPE_SYSTEM = 'https://fhir.kbv.de/CodeSystem/KBV_CS_ERP_Medication_Type';
+const ANR_SYSTEM = 'https://fhir.kbv.de/NamingSystem/KBV_NS_Base_ANR';
+
+// KBV medication profiles and the codes of KBV_CS_ERP_Medication_Type they carry
+const MEDICATION_PROFILES: Record<string, MedicationType> = {
+  KBV_PR_ERP_Medication_PZN: 'pzn',
+  KBV_PR_ERP_Medication_FreeText: 'freitext',
+  KBV_PR_ERP_Medication_Ingredient: 'wirkstoff',
+  KBV_PR_ERP_Medication_Compounding: 'rezeptur'
+};
+
+/**
+ * Parser of KBV e-prescription bundles. The XML is converted to FHIR JSON once;
+ * patient, prescriber, medication and coverage are the resources the prescribed
+ * MedicationRequest and the Composition reference. DiGA prescriptions (Muster 16D)
+ * prescribe a DeviceRequest instead, naming the DiGA and its PZN in its code.
+ */
+export class KbvBundleParser {
+
+  static async parsePrescriptionFile(filePath: string): Promise<ParsedPrescriptionData> {
+    const response = await fetch(filePath);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch prescription file ${filePath}: HTTP ${response.status}`);
+    }
+
+    return this.parseXml(await response.text());
+  }
+
+  static parseXml(xmlText: string): ParsedPrescriptionData {
+    return this.parseBundle(FhirXmlToJsonConverter.xmlToJson(xmlText));
+  }
+
+  static parseBundle(bundle: FhirResource): ParsedPrescriptionData {
+    if (bundle?.resourceType !== 'Bundle') {
+      throw new Error(`Expected a FHIR Bundle, got ${bundle?.resourceType || 'no resource'}`);
+    }
+
+    const entries: FhirEntry[] = ((bundle.entry || []) as FhirEntry[])
+      .filter(entry => entry.resource)
+      .map(entry => ({ fullUrl: entry.fullUrl, resource: entry.resource }));
+
+    const identifiers: Identifier[] = [bundle.identifier].flat().filter(Boolean);
+    const prescriptionId = (identifiers.find(identifier => identifier.system === PRESCRIPTION_ID_SYSTEM) || identifiers[0])?.value
+      || bundle.id;
+
+    const fhirBundle: FhirBundle = {
+      id: bundle.id,
+      prescriptionId,
+      timestamp: bundle.timestamp,
+      entries,
+      resource: bundle
+    };
+
+    const composition = FhirDataUtils.getResourceByType(fhirBundle, 'Composition');
+    if (!composition) {
+      throw new Error(`Bundle ${bundle.id} has no Composition`);
+    }
+
+    const compositionType = composition.type?.coding?.[0]?.code;
+    if (!compositionType) {
+      throw new Error(`Composition of bundle ${bundle.id} has no type`);
+    }
+
+    const request = this.getPrescribedRequest(fhirBundle, composition);
+    const patientResource = this.resolve(fhirBundle, request?.subject || composition.subject);
+    if (!patientResource) {
+      throw new Error(`Bundle ${bundle.id} has no Patient for the prescription`);
+    }
+
+    const practitioner = this.resolve(fhirBundle, request?.requester)
+      || this.resolve(fhirBundle, (composition.author || []).find((author: { reference?: string }) => author.reference));
+    const medication = this.resolve(fhirBundle, request?.medicationReference);
+    const coverage = this.resolve(fhirBundle, request?.insurance?.[0])
+      || FhirDataUtils.getResourceByType(fhirBundle, 'Coverage');
+
+    const patient = this.toPatient(patientResource);
+    const medicationType = this.getMedicationType(medication);
+    const kind: PrescriptionKind = request?.resourceType === 'DeviceRequest' ? 'diga' : 'medication';
+    const validity: Period | undefined = kind === 'diga' ? request?.occurrencePeriod : undefined;
+
+    const prescription: Prescription = {
+      id: prescriptionId,
+      patientId: patient.id,
+      medication: this.getMedicationName(medication, medicationType, request),
+      dosage: this.getDosage(medication, request),
+      quantity: Number(request?.dispenseRequest?.quantity?.value) || 1,
+      doctor: this.formatName(practitioner?.name?.[0]) || 'Unbekannter Arzt',
+      doctorLanr: this.getLanr(practitioner),
+      issueDate: this.formatDate(request?.authoredOn || composition.date || bundle.timestamp),
+      status: 'pending',
+      compositionType,
+      kind,
+      medicationType,
+      pzn: this.getPzn(medication?.code || request?.codeCodeableConcept),
+      coverageType: coverage?.type?.coding?.[0]?.code,
+      payor: coverage?.payor?.[0]?.display,
+      deviceRequestId: kind === 'diga' ? request?.id : undefined,
+      validFrom: this.formatDate(validity?.start) || undefined,
+      validUntil: this.formatDate(validity?.end) || undefined
+    };
+
+    return { patient, prescription, fhirBundle };
+  }
+
+  // The request the Composition's 'Prescription' section refers to
+  private static getPrescribedRequest(bundle: FhirBundle, composition: FhirResource): FhirResource | null {
+    const section = (composition.section || []).find((candidate: { code?: CodeableConcept }) =>
+      candidate.code?.coding?.some(coding => coding.code === 'Prescription'));
+
+    return this.resolve(bundle, section?.entry?.[0])
+      || FhirDataUtils.getResourceByType(bundle, 'MedicationRequest')
+      || FhirDataUtils.getResourceByType(bundle, 'DeviceRequest');
+  }
+
+  private static resolve(bundle: FhirBundle, reference?: { reference?: string }): FhirResource | null {
+    return reference?.reference ? FhirDataUtils.resolveReference(bundle, reference.reference) : null;
+  }
+
+  // Patients are identified by their insurance number: the KBV samples reuse
+  // resource ids for different patients
+  private static toPatient(resource: FhirResource): Patient {
+    const identifiers: Identifier[] = resource.identifier || [];
+    const insuranceIdentifier = identifiers.find(identifier =>
+      identifier.type?.coding?.some(coding => coding.code === 'KVZ10' || coding.code === 'PKV')
+      || identifier.system?.endsWith('/kvid-10'))
+      || identifiers[0];
+    const name = resource.name?.[0];
+
+    return {
+      id: insuranceIdentifier?.value || resource.id,
+      firstName: (name?.given || []).join(' '),
+      lastName: name?.family || '',
+      dateOfBirth: this.formatDate(resource.birthDate),
+      address: this.formatAddress(resource.address?.[0]),
+      insuranceNumber: insuranceIdentifier?.value || ''
+    };
+  }
+
+  private static getMedicationType(medication: FhirResource | null): MedicationType | undefined {
+    if (!medication) {
+      return undefined;
+    }
+
+    const profile = (medication.meta?.profile?.[0] || '').split('|')[0].split('/').pop();
+    if (profile && MEDICATION_PROFILES[profile]) {
+      return MEDICATION_PROFILES[profile];
+    }
+
+    const codings: Coding[] = medication.code?.coding || [];
+    const typeCode = codings.find(coding => coding.system === MEDICATION_TYPE_SYSTEM)?.code;
+    if (typeCode && Object.values(MEDICATION_PROFILES).includes(typeCode as MedicationType)) {
+      return typeCode as MedicationType;
+    }
+
+    return codings.some(coding => coding.system === PZN_SYSTEM) ? 'pzn' : undefined;
+  }
+
+  private static getMedicationName(medication: FhirResource | null, medicationType: MedicationType | undefined, request: FhirResource | null): string {
+    const ingredients: { itemCodeableConcept?: CodeableConcept; strength?: Ratio }[] = medication?.ingredient || [];
+    const ingredientNames = ingredients
+      .map(ingredient => [ingredient.itemCodeableConcept?.text, this.formatStrength(ingredient.strength)].filter(Boolean).join(' '))
+      .filter(Boolean);
+
+    // Wirkstoff prescriptions name the active ingredient only; a Rezeptur may lack a name
+    const name = medicationType === 'wirkstoff'
+      ? ingredientNames.join(', ')
+      : medication?.code?.text
+        || medication?.code?.coding?.[0]?.display
+        || (medicationType === 'rezeptur' ? ingredientNames.join(', ') : '')
+        || request?.codeCodeableConcept?.text
+        || request?.codeCodeableConcept?.coding?.[0]?.display;
+
+    const form = medicationType === 'wirkstoff' || medicationType === 'rezeptur' ? medication?.form?.text : undefined;
+    return [name, form].filter(Boolean).join(', ') || 'Unbekanntes Medikament';
+  }
+
+  private static getDosage(medication: FhirResource | null, request: FhirResource | null): string {
+    return request?.dosageInstruction?.[0]?.text
+      || this.formatStrength(medication?.ingredient?.[0]?.strength)
+      || 'Nach Anweisung';
+  }
+
+  private static getPzn(code?: CodeableConcept): string | undefined {
+    return code?.coding?.find(coding => coding.system === PZN_SYSTEM)?.code;
+  }
+
+  private static getLanr(practitioner: FhirResource | null): string | undefined {
+    const identifiers: Identifier[] = practitioner?.identifier || [];
+    return identifiers.find(identifier =>
+      identifier.type?.coding?.some(coding => coding.code === 'LANR') || identifier.system === ANR_SYSTEM)?.value;
+  }
+
+  private static formatName(name?: HumanName): string {
+    if (!name) {
+      return '';
+    }
+    return [...(name.prefix || []), ...(name.given || []), name.family].filter(Boolean).join(' ');
+  }
+
+  private static formatStrength(strength?: Ratio): string {
+    const numerator = strength?.numerator;
+    return numerator?.value !== undefined && numerator?.unit ? `${numerator.value} ${numerator.unit}` : '';
+  }
+
+  private static formatAddress(address?: Address): string {
+    if (!address) {
+      return '';
+    }
+
+    const city = [address.postalCode, address.city].filter(Boolean).join(' ');
+    return [(address.line || []).join(' '), city, address.country].filter(Boolean).join(', ');
+  }
+
+  private static formatDate(dateString?: string): string {
+    if (!dateString) {
+      return '';
+    }
+
+    const date = new Date(dateString);
+    return Number.isNaN(date.getTime()) ? dateString : date.toLocaleDateString('de-DE');
+  }
+}
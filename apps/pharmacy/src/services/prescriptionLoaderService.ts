@@ -1,5 +1,10 @@
-import type { Patient, Prescription, FhirBundle } from '../types';
-import { MinimalFhirParser } from './minimalFhirParser';
+import type { Patient, Prescription, FhirBundle, FhirResource } from '../types';
+import { TiFlowError } from '@ti-flow/client';
+import type { Bundle } from '@ti-flow/client';
+import { KbvBundleParser } from './kbvBundleParser';
+import type { ParsedPrescriptionData } from './kbvBundleParser';
+import { PrescriptionSecretStore } from './prescriptionSecretStore';
+import { tiFlowClient } from './tiFlowClient';
 
 interface PrescriptionData {
   patients: Patient[];
@@ -7,118 +12,155 @@ interface PrescriptionData {
   fhirBundles: FhirBundle[];
 }
 
+// Outcome of importing one file: the PrescriptionId of its bundle or why it was refused
+export interface PrescriptionImportResult {
+  file: string;
+  prescriptionId?: string;
+  error?: string;
+}
+
 export class PrescriptionLoaderService {
-  private static prescriptionFiles = [
+  // KBV samples the user can import into an empty backend
+  private static sampleFiles = [
     '/data/prescriptions/Beispiel_1_PZN.xml',
     '/data/prescriptions/Beispiel_22_Freitextverordnung.xml',
-    '/data/prescriptions/Beispiel_3_PKV.xml'
+    '/data/prescriptions/Beispiel_3_PKV.xml',
+    '/data/prescriptions/evdga.xml'
   ];
 
+  // Load the prescriptions imported into the backend (by upload or from its inbox directory)
+  // and the ones this pharmacy accepted at the E-Rezept-Fachdienst; fails if the backend cannot be read
   static async loadPrescriptions(): Promise<PrescriptionData> {
     const patients: Patient[] = [];
     const prescriptions: Prescription[] = [];
     const fhirBundles: FhirBundle[] = [];
     const patientMap = new Map<string, Patient>();
 
-    try {
-      console.log('🔄 Loading prescriptions from FHIR XML files...');
-      
-      // Load each prescription file
-      const loadPromises = this.prescriptionFiles.map(async (filePath) => {
-        try {
-          console.log(`🔄 Loading prescription from: ${filePath}`);
-          
-          // Test if file is accessible first
-          const testResponse = await fetch(filePath);
-          console.log(`📂 File ${filePath} response status: ${testResponse.status}`);
-          
-          if (!testResponse.ok) {
-            throw new Error(`File not accessible: ${testResponse.status} ${testResponse.statusText}`);
-          }
-          
-          const parsedData = await MinimalFhirParser.parsePrescriptionFile(filePath);
-          
-          // Add unique patients
-          if (!patientMap.has(parsedData.patient.id)) {
-            patientMap.set(parsedData.patient.id, parsedData.patient);
-            patients.push(parsedData.patient);
-          }
-          
-          prescriptions.push(parsedData.prescription);
-          fhirBundles.push(parsedData.fhirBundle);
-          
-          console.log(`✅ Successfully loaded prescription: ${parsedData.prescription.medication}`);
-        } catch (error) {
-          console.error(`❌ Failed to load prescription from ${filePath}:`, error);
-          console.error(`❌ Error details:`, error instanceof Error ? error.message : String(error));
-          
-          // Add error details to help debugging
-          if (error instanceof Error && error.message.includes('Failed to fetch')) {
-            console.error(`❌ Network error - file may not be accessible: ${filePath}`);
-          }
-          
-          // Continue loading other files even if one fails
-        }
-      });
-
-      const results = await Promise.allSettled(loadPromises);
-      
-      // Log results
-      results.forEach((result, index) => {
-        if (result.status === 'rejected') {
-          console.error(`❌ File ${this.prescriptionFiles[index]} failed:`, result.reason);
-        } else {
-          console.log(`✅ File ${this.prescriptionFiles[index]} loaded successfully`);
+    console.log('🔄 Loading imported prescriptions...');
+
+    let bundles = await this.getImportedBundles();
+    const importedIds = new Set(bundles.map(bundle => bundle.identifier?.value));
+    bundles = [...bundles, ...await this.getAcceptedBundles(importedIds)];
+
+    for (const bundle of bundles) {
+      try {
+        const parsedData = KbvBundleParser.parseBundle(bundle);
+        parsedData.prescription = await this.withTaskStatus(parsedData.prescription);
+
+        // Add unique patients
+        if (!patientMap.has(parsedData.patient.id)) {
+          patientMap.set(parsedData.patient.id, parsedData.patient);
+          patients.push(parsedData.patient);
         }
-      });
 
-      // If no prescriptions were loaded, use hardcoded fallback
-      if (prescriptions.length === 0) {
-        console.warn('⚠️ No prescriptions could be loaded from FHIR files, using hardcoded fallback data');
-        console.warn('⚠️ This usually means there were parsing errors in all files');
-        return { ...this.getHardcodedFallbackData(), fhirBundles: [] };
+        prescriptions.push(parsedData.prescription);
+        fhirBundles.push(parsedData.fhirBundle);
+      } catch (error) {
+        // Continue with the other bundles even if one cannot be parsed
+        console.error(`❌ Failed to parse prescription bundle ${bundle.id}:`, error instanceof Error ? error.message : String(error));
       }
-
-      console.log(`✅ Successfully loaded ${prescriptions.length} prescriptions from FHIR files`);
-      return { patients, prescriptions, fhirBundles };
-    } catch (error) {
-      console.error('❌ Error loading prescriptions:', error);
-      console.log('🔄 Using hardcoded fallback data');
-      return { ...this.getHardcodedFallbackData(), fhirBundles: [] };
     }
+
+    console.log(`✅ Successfully loaded ${prescriptions.length} prescriptions`);
+    return { patients, prescriptions, fhirBundles };
   }
 
-  private static getHardcodedFallbackData(): { patients: Patient[]; prescriptions: Prescription[] } {
-    const fallbackPatient: Patient = {
-      id: 'fallback-patient-1',
-      firstName: 'Max',
-      lastName: 'Mustermann',
-      dateOfBirth: '01.01.1980',
-      address: 'Musterstraße 1, 12345 Berlin',
-      insuranceNumber: 'FB123456789'
-    };
+  // Import KBV bundles from XML or JSON files; the backend keeps a PrescriptionId only once
+  static async importFiles(files: File[]): Promise<PrescriptionImportResult[]> {
+    return Promise.all(files.map(async (file) => {
+      try {
+        const text = (await file.text()).trim();
+        const { prescription } = await this.upload(text.startsWith('<')
+          ? KbvBundleParser.parseXml(text)
+          : KbvBundleParser.parseBundle(JSON.parse(text)));
+        return { file: file.name, prescriptionId: prescription.id };
+      } catch (error) {
+        console.error(`❌ Failed to import ${file.name}:`, error);
+        return { file: file.name, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+  }
 
-    const fallbackPrescriptions: Prescription[] = [
-      {
-        id: 'fallback-rx-001',
-        patientId: fallbackPatient.id,
-        medication: 'Fallback Medikament 500mg',
-        dosage: 'Nach Anweisung',
-        quantity: 1,
-        doctor: 'Dr. med. Fallback',
-        issueDate: new Date().toLocaleDateString('de-DE'),
-        status: 'pending',
-        compositionType: 'e16A'
+  // Import the KBV samples shipped with the app, on request of the user
+  static async importSamples(): Promise<PrescriptionImportResult[]> {
+    return Promise.all(this.sampleFiles.map(async (filePath) => {
+      const file = filePath.split('/').pop()!;
+      try {
+        const { prescription } = await this.upload(await KbvBundleParser.parsePrescriptionFile(filePath));
+        return { file, prescriptionId: prescription.id };
+      } catch (error) {
+        console.error(`❌ Failed to import sample ${filePath}:`, error);
+        return { file, error: error instanceof Error ? error.message : String(error) };
       }
-    ];
+    }));
+  }
+
+  // Calls onImport for every prescription imported into the backend, also by other clients or from its inbox
+  static subscribeToImports(onImport: (parsedData: ParsedPrescriptionData) => void): () => void {
+    return tiFlowClient.subscribeToPrescriptionImports((bundle) => {
+      try {
+        onImport(KbvBundleParser.parseBundle(bundle as FhirResource));
+      } catch (error) {
+        console.error(`❌ Failed to parse imported prescription bundle ${bundle.id}:`, error);
+      }
+    }, 'Live-Aktualisierung der E-Rezepte');
+  }
+
+  // Bundles are parsed before the upload, so files the list cannot show are refused
+  private static async upload(parsedData: ParsedPrescriptionData): Promise<ParsedPrescriptionData> {
+    await tiFlowClient.importPrescriptionBundle(parsedData.fhirBundle.resource as Bundle);
+    console.log(`✅ Imported prescription ${parsedData.prescription.id}: ${parsedData.prescription.medication}`);
+    return parsedData;
+  }
+
+  private static async getImportedBundles(): Promise<FhirResource[]> {
+    const searchset = await tiFlowClient.searchPrescriptionBundles();
+    return (searchset.entry || []).map(entry => entry.resource).filter(Boolean) as FhirResource[];
+  }
+
+  // Bundles of the accepted prescriptions that are not imported by this pharmacy, read with their Secret
+  private static async getAcceptedBundles(importedIds: Set<string | undefined>): Promise<FhirResource[]> {
+    const bundles = await Promise.all(PrescriptionSecretStore.getPrescriptionIds()
+      .filter(prescriptionId => !importedIds.has(prescriptionId))
+      .map(prescriptionId => this.withSecret(prescriptionId, secret =>
+        tiFlowClient.getPrescriptionBundle(prescriptionId, { secret }))));
+    return bundles.filter(Boolean) as FhirResource[];
+  }
+
+  // Status of an accepted prescription from its Task: in progress until it is dispensed ($close)
+  private static async withTaskStatus(prescription: Prescription): Promise<Prescription> {
+    const task = await this.withSecret(prescription.id, secret =>
+      tiFlowClient.getPrescriptionTask(prescription.id, { secret }));
+    if (!task) {
+      return prescription;
+    }
 
-    console.log('📋 Using hardcoded fallback data');
     return {
-      patients: [fallbackPatient],
-      prescriptions: fallbackPrescriptions
+      ...prescription,
+      accepted: task.status === 'in-progress',
+      status: task.status === 'completed' ? 'dispensed' : task.status === 'cancelled' ? 'cancelled' : prescription.status
     };
   }
 
+  // Read a prescription with the stored Secret; a Secret the Fachdienst no longer accepts
+  // (returned or cancelled prescription) is dropped
+  private static async withSecret<T>(prescriptionId: string, read: (secret: string) => Promise<T>): Promise<T | null> {
+    const secret = PrescriptionSecretStore.get(prescriptionId);
+    if (!secret) {
+      return null;
+    }
+
+    try {
+      return await read(secret);
+    } catch (error) {
+      if (error instanceof TiFlowError && [403, 404, 410].includes(error.status)) {
+        PrescriptionSecretStore.remove(prescriptionId);
+      }
+      console.error(`❌ Failed to read accepted prescription ${prescriptionId}:`, error);
+      return null;
+    }
+  }
+
   // Method to get complete FHIR data for a specific prescription
   static getFhirBundleForPrescription(prescriptionId: string, fhirBundles: FhirBundle[]): FhirBundle | null {
     return fhirBundles.find(bundle => bundle.prescriptionId === prescriptionId) || null;
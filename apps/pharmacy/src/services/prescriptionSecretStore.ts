@@ -0,0 +1,37 @@
+// Secrets of the prescriptions this pharmacy accepted at the E-Rezept-Fachdienst ($accept),
+// keyed by PrescriptionId. They authorize $close, $reject and reading the prescription, so
+// they are kept in the browser's localStorage across reloads, like an AVS keeps them.
+const STORAGE_KEY = 'ti-flow-pharmacy.prescription-secrets';
+
+export class PrescriptionSecretStore {
+  static get(prescriptionId: string): string | undefined {
+    return this.load()[prescriptionId];
+  }
+
+  // PrescriptionIds of all accepted prescriptions
+  static getPrescriptionIds(): string[] {
+    return Object.keys(this.load());
+  }
+
+  static set(prescriptionId: string, secret: string): void {
+    this.save({ ...this.load(), [prescriptionId]: secret });
+  }
+
+  static remove(prescriptionId: string): void {
+    const secrets = this.load();
+    delete secrets[prescriptionId];
+    this.save(secrets);
+  }
+
+  private static load(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private static save(secrets: Record<string, string>): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(secrets));
+  }
+}
@@ -0,0 +1,15 @@
+import { TiFlowClient } from '@ti-flow/client';
+import { PharmacyInfoService } from './pharmacyInfoService';
+
+// Client secret registered for this pharmacy in the backend's local SMC-B key store
+// (apps/backend/data/auth/smcb-identities.json); test credentials only
+const CLIENT_SECRET = 'apotheke-am-stadtplatz-local';
+
+// Client for the TI-Flow backend, authenticated as this pharmacy
+export const tiFlowClient = new TiFlowClient({
+  baseUrl: import.meta.env.VITE_TI_FLOW_BASE_URL || 'http://localhost:3001',
+  credentials: () => ({
+    telematikId: PharmacyInfoService.getPharmacyTelematikId(),
+    clientSecret: CLIENT_SECRET
+  })
+});
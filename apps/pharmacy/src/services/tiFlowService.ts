@@ -1,174 +1,115 @@
 import type {
   CodeSystemConcept,
+  FhirResource,
   Questionnaire,
   QuestionnaireResponse,
   ActiveRequest,
-  RequestDetails,
-  FhirBundle
+  FhirBundle,
+  FlowTask,
+  TaskHistoryEntry,
+  QuestionnaireResponseRevision
 } from '../types';
-import { FhirXmlToJsonConverter } from '../utils/fhirXmlToJsonConverter';
-
-const BASE_URL = 'http://localhost:3001';
+import { toTaskHistoryEntries } from '@ti-flow/client';
+import type {
+  Bundle,
+  DocumentRequestResult,
+  MedicationDispense,
+  Parameters,
+  Resource,
+  TaskOperationResult
+} from '@ti-flow/client';
+import { FhirDataUtils } from '../utils/fhirDataUtils';
+import { KbvBundleParser, type ParsedPrescriptionData } from './kbvBundleParser';
+import { PharmacyInfoService } from './pharmacyInfoService';
+import { PrescriptionSecretStore } from './prescriptionSecretStore';
+import { tiFlowClient } from './tiFlowClient';
+
+const PRESCRIPTION_ID_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_PrescriptionId';
 
 export class TiFlowService {
-  private static async fetchWithAuth(url: string, options: RequestInit = {}) {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'x-actor-id': 'pharmacy-app',
-        ...options.headers,
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('API Error:', errorText);
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
-
-    return response.json();
-  }
-
   // Get available request operations
   static async getRequestOperations(): Promise<{ concepts: CodeSystemConcept[] }> {
-    const response = await this.fetchWithAuth(`${BASE_URL}/$request-operations`);
+    const codeSystem = await tiFlowClient.getRequestOperations();
     return {
-      concepts: response.concept || []
+      concepts: codeSystem.concept || []
     };
   }
 
   // Get available document operations  
   static async getDocumentOperations(): Promise<{ concepts: CodeSystemConcept[] }> {
-    const response = await this.fetchWithAuth(`${BASE_URL}/$document-operations`);
+    const codeSystem = await tiFlowClient.getDocumentOperations();
     return {
-      concepts: response.concept || []
+      concepts: codeSystem.concept || []
     };
   }
 
   // Get a specific questionnaire for a request operation code
   static async getRequestOperationQuestionnaire(code: string): Promise<Questionnaire> {
-    const response = await this.fetchWithAuth(`${BASE_URL}/$request-operations?code=${code}`);
-    return response;
+    return tiFlowClient.withExpandedValueSets(await tiFlowClient.getRequestOperationQuestionnaire(code));
+  }
+
+  // Get the questionnaire a questionnaire response refers to by its canonical URL
+  static async findQuestionnaireByUrl(url: string): Promise<Questionnaire | undefined> {
+    const questionnaire = await tiFlowClient.findQuestionnaireByUrl(url);
+    return questionnaire && tiFlowClient.withExpandedValueSets(questionnaire);
   }
 
   // Get all tasks for the current user
-  static async getTasksForUser(user: string = 'pharmacy-app'): Promise<any[]> {
-    const response = await this.fetchWithAuth(`${BASE_URL}/Task?user=${user}`);
-    const tasks = response.entry?.map((entry: any) => entry.resource) || [];
+  static async getTasksForUser(user: string = PharmacyInfoService.getPharmacyTelematikId()): Promise<FlowTask[]> {
+    const tasks = await tiFlowClient.findTasks({ user });
     console.log('🔍 TiFlowService tasks received:', tasks);
     return tasks;
   }
 
   // Get a questionnaire by ID
   static async getQuestionnaireById(id: string): Promise<Questionnaire> {
-    const response = await this.fetchWithAuth(`${BASE_URL}/Questionnaire/${id}`);
-    return response;
+    return tiFlowClient.withExpandedValueSets(await tiFlowClient.getQuestionnaire(id));
   }
 
   // Get a questionnaire response by ID
   static async getQuestionnaireResponseById(id: string): Promise<QuestionnaireResponse> {
-    const response = await this.fetchWithAuth(`${BASE_URL}/QuestionnaireResponse/${id}`);
-    return response;
+    return tiFlowClient.getQuestionnaireResponse(id);
   }
 
-  // Populate questionnaire using SDC $populate operation
-  static async populateQuestionnaire(questionnaireId: string, fhirBundle: any): Promise<QuestionnaireResponse> {
+  // Populate questionnaire using SDC $populate operation with the prescription's
+  // bundle and its patient and practitioner as launch contexts (%prescription, %patient, %practitioner)
+  static async populateQuestionnaire(questionnaireId: string, fhirBundle: FhirBundle): Promise<QuestionnaireResponse> {
     try {
-      console.log('🔄 populateQuestionnaire called with:');
-      console.log('📋 questionnaireId:', questionnaireId);
-      console.log('📦 fhirBundle:', fhirBundle);
-      
-      // Convert our minimal FhirBundle to proper FHIR Bundle JSON format
-      let properFhirBundle = fhirBundle;
-      
-      // Always try to convert XML file to get complete FHIR data
-      if (fhirBundle) {
-        try {
-          // Map prescription IDs to XML files - for now use a simple approach
-          const xmlFilePaths = [
-            '/data/prescriptions/Beispiel_1_PZN.xml',
-            '/data/prescriptions/Beispiel_3_PKV.xml', 
-            '/data/prescriptions/Beispiel_22_Freitextverordnung.xml'
-          ];
-          
-          // Use the first file for now - in real implementation you'd match by prescription ID
-          const xmlFilePath = xmlFilePaths[0];
-          
-          console.log(`🔄 Converting XML file to proper FHIR JSON: ${xmlFilePath}`);
-          console.log('📦 Original bundle before conversion:', fhirBundle);
-          properFhirBundle = await FhirXmlToJsonConverter.convertXmlToJson(xmlFilePath);
-          console.log('✅ Successfully converted XML to FHIR JSON');
-          console.log('📋 Converted bundle entries count:', properFhirBundle?.entry?.length || 0);
-          console.log('📋 Converted bundle structure:', {
-            resourceType: properFhirBundle?.resourceType,
-            id: properFhirBundle?.id,
-            type: properFhirBundle?.type,
-            entryTypes: properFhirBundle?.entry?.map((e: any) => e.resource?.resourceType) || []
-          });
-          
-          // Check specifically for Medication resource
-          const medEntry = properFhirBundle?.entry?.find((e: any) => e.resource?.resourceType === 'Medication');
-          if (medEntry) {
-            console.log('💊 Found Medication resource in converted bundle:', medEntry.resource);
-          } else {
-            console.log('❌ No Medication resource found in converted bundle');
-          }
-          
-        } catch (error) {
-          console.warn('⚠️ Failed to convert XML to JSON, using original bundle:', error);
-          // Fall back to original bundle if conversion fails
-        }
-      } else {
-        console.log('ℹ️ No fhirBundle provided');
-      }
+      console.log(`🔄 Populating questionnaire ${questionnaireId} from prescription ${fhirBundle.prescriptionId}`);
+
+      const launchContexts: Array<[string, Resource | null]> = [
+        ['prescription', fhirBundle.resource as Resource],
+        ['patient', FhirDataUtils.getResourceByType(fhirBundle, 'Patient')],
+        ['practitioner', FhirDataUtils.getResourceByType(fhirBundle, 'Practitioner')]
+      ];
 
       // Create FHIR Parameters for the populate request
-      const parameters = {
+      const parameters: Parameters = {
         resourceType: "Parameters",
-        parameter: [
-          {
+        parameter: launchContexts
+          .filter(([, resource]) => resource)
+          .map(([name, resource]) => ({
             name: "context",
             part: [
               {
                 name: "name",
-                valueString: "e16A"
+                valueString: name
               },
               {
                 name: "content",
-                resource: properFhirBundle
+                resource: resource!
               }
             ]
-          }
-        ]
+          }))
       };
 
-      console.log(`🔄 Populating questionnaire ${questionnaireId} with full FHIR bundle`);
-      console.log('📋 Request parameters:', JSON.stringify(parameters, null, 2));
-
-      const response = await fetch(`${BASE_URL}/Questionnaire/${questionnaireId}/$populate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(parameters)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`❌ Populate request failed: ${response.status} - ${errorText}`);
-        throw new Error(`Failed to populate questionnaire: ${response.status} - ${errorText}`);
-      }
-
-      const result = await response.json();
+      const result = await tiFlowClient.populateQuestionnaire(questionnaireId, parameters);
       console.log('✅ Populate response:', result);
 
       // Extract QuestionnaireResponse from Parameters response
-      if (result.resourceType === 'Parameters' && result.parameter) {
-        const responseParam = result.parameter.find((p: any) => p.name === 'response');
-        if (responseParam && responseParam.resource) {
-          return responseParam.resource as QuestionnaireResponse;
-        }
+      const responseParam = result.parameter?.find(p => p.name === 'response');
+      if (responseParam?.resource?.resourceType === 'QuestionnaireResponse') {
+        return responseParam.resource as QuestionnaireResponse;
       }
 
       throw new Error('Invalid populate response format');
@@ -178,205 +119,68 @@ export class TiFlowService {
     }
   }
 
-  /*
-   * Convert our custom FhirBundle to proper FHIR Bundle format
-   * TODO: Implement proper XML to JSON conversion
-   */
-  private static async convertToProperFhirBundle(fhirBundle: any): Promise<any> {
-    // If it's already a proper FHIR Bundle, return as is
-    if (fhirBundle.resourceType === 'Bundle') {
-      return fhirBundle;
-    }
-
-    // If we have a prescription ID, try to load the actual XML file
-    if (fhirBundle.prescriptionId) {
-      try {
-        // Try to find and convert the corresponding XML file
-        const xmlFiles = [
-          '/data/prescriptions/Beispiel_1_PZN.xml',
-          '/data/prescriptions/Beispiel_3_PKV.xml',
-          '/data/prescriptions/Beispiel_22_Freitextverordnung.xml'
-        ];
-
-        // For now, use the first file as an example
-        // In a real implementation, you'd match based on prescription ID
-        const xmlFilePath = xmlFiles[0];
-        
-        console.log(`🔄 Converting XML file to FHIR JSON: ${xmlFilePath}`);
-        const properBundle = await FhirXmlToJsonConverter.convertXmlToJson(xmlFilePath);
-        
-        console.log('✅ Successfully converted XML to FHIR JSON:', properBundle);
-        return properBundle;
-        
-      } catch (error) {
-        console.warn('⚠️ Failed to convert XML to JSON, using fallback:', error);
-      }
-    }
-
-    // Fallback: Create a basic FHIR Bundle structure with mock data
-    console.log('📋 Using fallback FHIR Bundle structure');
-    return {
-      resourceType: "Bundle",
-      id: fhirBundle.id || "test-bundle",
-      identifier: {
-        system: "https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_PrescriptionId",
-        value: fhirBundle.prescriptionId || "160.100.000.000.023.70"
-      },
-      type: "document",
-      timestamp: fhirBundle.timestamp || new Date().toISOString(),
-      entry: [
-        {
-          fullUrl: "http://example.org/Patient/1",
-          resource: {
-            resourceType: "Patient",
-            id: "1",
-            identifier: [
-              {
-                type: {
-                  coding: [
-                    {
-                      system: "http://fhir.de/CodeSystem/identifier-type-de-basis",
-                      code: "KVZ10"
-                    }
-                  ]
-                },
-                system: "http://fhir.de/sid/gkv/kvid-10",
-                value: "X234567890"
-              }
-            ],
-            name: [
-              {
-                use: "official",
-                family: "Müller",
-                given: ["Max"]
-              }
-            ],
-            birthDate: "1975-05-15"
-          }
-        },
-        {
-          fullUrl: "http://example.org/Medication/1",
-          resource: {
-            resourceType: "Medication",
-            id: "1",
-            code: {
-              text: "Aspirin 500mg Tabletten"
-            }
-          }
-        },
-        {
-          fullUrl: "http://example.org/MedicationRequest/1",
-          resource: {
-            resourceType: "MedicationRequest",
-            id: "1",
-            status: "active",
-            intent: "order",
-            medicationReference: {
-              reference: "Medication/1"
-            },
-            subject: {
-              reference: "Patient/1"
-            },
-            requester: {
-              reference: "Practitioner/1"
-            },
-            authoredOn: "2025-08-14"
-          }
-        },
-        {
-          fullUrl: "http://example.org/Practitioner/1",
-          resource: {
-            resourceType: "Practitioner",
-            id: "1",
-            identifier: [
-              {
-                type: {
-                  coding: [
-                    {
-                      system: "http://terminology.hl7.org/CodeSystem/v2-0203",
-                      code: "LANR"
-                    }
-                  ]
-                },
-                system: "https://gematik.de/fhir/sid/telematik-id",
-                value: "123456789"
-              }
-            ],
-            name: [
-              {
-                use: "official",
-                prefix: ["Dr."],
-                family: "Schmidt",
-                given: ["Hans"]
-              }
-            ]
-          }
-        },
-        {
-          fullUrl: "http://example.org/Organization/1",
-          resource: {
-            resourceType: "Organization",
-            id: "1",
-            name: "Praxis Dr. Schmidt"
-          }
-        }
-      ]
-    };
-  }
-
   // Submit a flow request (creates a Task)
-  static async submitFlowRequest(questionnaireResponse: QuestionnaireResponse): Promise<any> {
-    return this.fetchWithAuth(`${BASE_URL}/Task/$start-document-request`, {
-      method: 'POST',
-      body: JSON.stringify(questionnaireResponse)
-    });
+  static async submitFlowRequest(questionnaireResponse: QuestionnaireResponse): Promise<DocumentRequestResult> {
+    return tiFlowClient.startDocumentRequest(questionnaireResponse);
   }
 
   // Create a new flow request
-  static async createFlowRequest(questionnaireResponse: QuestionnaireResponse): Promise<any> {
+  static async createFlowRequest(questionnaireResponse: QuestionnaireResponse): Promise<DocumentRequestResult> {
     return this.submitFlowRequest(questionnaireResponse);
   }
 
   // Get a specific task
-  static async getTask(taskId: string): Promise<any> {
-    return this.fetchWithAuth(`${BASE_URL}/Task/${taskId}`);
+  static async getTask(taskId: string): Promise<FlowTask> {
+    return tiFlowClient.getTask(taskId);
+  }
+
+  // Get the history (audit trail) of a task, oldest version first
+  static async getTaskHistory(taskId: string): Promise<TaskHistoryEntry[]> {
+    return toTaskHistoryEntries(await tiFlowClient.getTaskHistory(taskId));
   }
 
-    // Accept a task
-  static async acceptTask(taskId: string): Promise<any> {
-    return this.fetchWithAuth(`${BASE_URL}/${taskId}/$accept`, {
-      method: 'POST'
-    });
+  // Mark a task as received; called when the receiving pharmacy opens the request
+  static async receiveTask(taskId: string): Promise<TaskOperationResult> {
+    return tiFlowClient.receiveTask(taskId);
+  }
+
+  // Subscribe to changes of our tasks; calls onChange with the changed task for every
+  // notification and returns a function that ends the subscription
+  static subscribeToTaskChanges(onChange: (task: FlowTask) => void): () => void {
+    return tiFlowClient.subscribeToTaskChanges(onChange, 'Live-Aktualisierung der Aufgabenliste');
+  }
+
+  // Whether a task version was produced by us: a new task is created by its requester,
+  // every later operation makes the acting party the owner
+  static isOwnChange(task: FlowTask): boolean {
+    const telematikId = PharmacyInfoService.getPharmacyTelematikId();
+    const actor = task.status === 'requested' ? task.requester : task.owner;
+    return actor?.reference?.replace('Organization/', '') === telematikId;
+  }
+
+  // Get all QuestionnaireResponse revisions of a task (initial request and counter-offers), oldest first
+  static async getQuestionnaireResponseRevisions(task: FlowTask): Promise<QuestionnaireResponseRevision[]> {
+    return tiFlowClient.getQuestionnaireResponseRevisions(task);
+  }
+
+  // Accept a task
+  static async acceptTask(taskId: string): Promise<TaskOperationResult> {
+    return tiFlowClient.acceptTask(taskId);
   }
 
   // Reject a task
-  static async rejectTask(taskId: string): Promise<any> {
-    return this.fetchWithAuth(`${BASE_URL}/${taskId}/$reject`, {
-      method: 'POST'
-    });
+  static async rejectTask(taskId: string): Promise<TaskOperationResult> {
+    return tiFlowClient.rejectTask(taskId);
   }
 
-  // Submit counter offer
-  static async submitCounterOffer(taskId: string, questionnaire: Questionnaire): Promise<any> {
-    return this.fetchWithAuth(`${BASE_URL}/${taskId}/$counter-offer`, {
-      method: 'POST',
-      body: JSON.stringify({
-        resourceType: 'Parameters',
-        parameter: [
-          {
-            name: 'questionnaire',
-            resource: questionnaire
-          }
-        ]
-      })
-    });
+  // Submit a counter-offer: the changed QuestionnaireResponse becomes the next revision
+  static async submitCounterOffer(taskId: string, questionnaireResponse: QuestionnaireResponse): Promise<TaskOperationResult> {
+    return tiFlowClient.submitCounterOffer(taskId, questionnaireResponse);
   }
 
-  // Close a task
-  static async closeTask(taskId: string): Promise<any> {
-    return this.fetchWithAuth(`${BASE_URL}/${taskId}/$close`, {
-      method: 'POST'
-    });
+  // Close a task with the data of the provided document
+  static async closeTask(taskId: string, documentData: { docId: string; docPw: string }): Promise<TaskOperationResult> {
+    return tiFlowClient.closeTask(taskId, documentData);
   }
 
   // Get active requests (from pharmacy perspective)
@@ -388,52 +192,46 @@ export class TiFlowService {
       const pharmacyTelematikId = pharmacyInfo.pharmacyInfo.telematikId;
       
       console.log(`🔍 Fetching tasks for pharmacy: ${pharmacyTelematikId}`);
-      const response = await this.fetchWithAuth(`${BASE_URL}/Task?user=${pharmacyTelematikId}`);
+      const tasks = await tiFlowClient.findTasks({ user: pharmacyTelematikId });
       
       const activeRequests: ActiveRequest[] = [];
       
-      if (response.entry && Array.isArray(response.entry)) {
-        for (const entry of response.entry) {
-          const task = entry.resource;
-          if (task && task.resourceType === 'Task') {
-            // Only include tasks where pharmacy is the receiver (assigned to pharmacy)
-            const receiverMatch = task.owner?.reference === `Organization/${pharmacyTelematikId}` ||
-                                 task.for?.reference === `Organization/${pharmacyTelematikId}`;
-            
-            if (receiverMatch && task.status !== 'cancelled') {
-              // Extract document data from completed tasks
-              let documentData = undefined;
-              if (task.status === 'completed' && task.output) {
-                console.log('🔍 Task output for completed task:', task.id, task.output);
-                const docOutput = task.output.find((output: any) => 
-                  output.type?.text === 'document-data'
-                );
-                console.log('📄 Found document output:', docOutput);
-                if (docOutput?.valueReference) {
-                  const docId = docOutput.valueReference.reference?.replace('DocumentReference/', '');
-                  const docPw = docOutput.valueReference.display;
-                  console.log('📝 Extracted doc data:', { docId, docPw });
-                  if (docId && docPw) {
-                    documentData = { docId, docPw };
-                  }
-                }
-              } else if (task.status === 'completed') {
-                console.log('⚠️ Completed task without output:', task.id, 'Task data:', task);
+      for (const task of tasks) {
+        // Only include tasks where pharmacy is the receiver (assigned to pharmacy)
+        const receiverMatch = task.owner?.reference === `Organization/${pharmacyTelematikId}` ||
+                             task.for?.reference === `Organization/${pharmacyTelematikId}`;
+        
+        if (receiverMatch && task.status !== 'cancelled') {
+          // Extract document data from completed tasks
+          let documentData = undefined;
+          if (task.status === 'completed' && task.output) {
+            console.log('🔍 Task output for completed task:', task.id, task.output);
+            const docOutput = task.output.find(output => output.type.text === 'document-data');
+            console.log('📄 Found document output:', docOutput);
+            if (docOutput?.valueReference) {
+              const docId = docOutput.valueReference.reference?.replace('DocumentReference/', '');
+              const docPw = docOutput.valueReference.display;
+              console.log('📝 Extracted doc data:', { docId, docPw });
+              if (docId && docPw) {
+                documentData = { docId, docPw };
               }
-
-              activeRequests.push({
-                id: task.id,
-                type: this.getTaskTypeFromCode(task.code) || 'Dokumentenanfrage',
-                kind: 'document-request',
-                status: task.status,
-                requestDate: task.authoredOn || new Date().toISOString(),
-                lastUpdated: task.lastModified || task.authoredOn || new Date().toISOString(),
-                requesterName: this.getRequesterName(task.requester?.reference) || 'Unbekannt',
-                description: task.description || 'Dokumentenanfrage',
-                documentData // Include document data for completed tasks
-              });
             }
+          } else if (task.status === 'completed') {
+            console.log('⚠️ Completed task without output:', task.id, 'Task data:', task);
           }
+
+          activeRequests.push({
+            id: task.id,
+            type: this.getTaskTypeFromCode(task.code) || 'Dokumentenanfrage',
+            kind: 'document-request',
+            // TI-Flow state, e.g. in_progress(Anfragender); Task.status only says in-progress
+            status: task.businessStatus.text,
+            requestDate: task.authoredOn || new Date().toISOString(),
+            lastUpdated: task.lastModified || task.authoredOn || new Date().toISOString(),
+            requesterName: this.getRequesterName(task.requester?.reference) || 'Unbekannt',
+            description: task.description || 'Dokumentenanfrage',
+            documentData // Include document data for completed tasks
+          });
         }
       }
       
@@ -477,62 +275,40 @@ export class TiFlowService {
     return 'flow-request'; // default;
   }
 
-  // Mock prescription download service
-  static async downloadPrescription(prescriptionId: string, secret: string): Promise<{ success: boolean; message: string }> {
-    // Mock API call to e-prescription service
-    await new Promise(resolve => setTimeout(resolve, 1500)); // Simulate API delay
-    
-    console.log(`📥 Mock downloading prescription: ${prescriptionId}`);
-    
-    return {
-      success: true,
-      message: 'E-Rezept erfolgreich abgerufen'
-    };
+  // Download a prescription from the local E-Rezept-Fachdienst with the AccessCode the doctor
+  // closed the document request with ($accept). The pharmacy now holds it: the returned Secret
+  // is kept for $close, $reject and reading the prescription
+  static async downloadPrescription(prescriptionId: string, accessCode: string): Promise<ParsedPrescriptionData> {
+    const { task, secret, bundle } = await tiFlowClient.acceptPrescriptionTask(prescriptionId, accessCode);
+    PrescriptionSecretStore.set(task.id, secret);
+    console.log(`📥 Accepted prescription ${task.id}`);
+
+    return KbvBundleParser.parseBundle(bundle as FhirResource);
   }
 
-  // Get request details with questionnaire response
-  static async getRequestDetails(requestId: string): Promise<RequestDetails | null> {
-    try {
-      const task = await this.getTask(requestId);
-      
-      // Extract questionnaire reference from task input
-      const questionnaireInput = task.input?.find((input: any) => 
-        input.type?.text === 'questionnaire'
-      );
+  // Hand out an accepted prescription: $close with the MedicationDispense, returns the receipt
+  static async dispensePrescription(prescriptionId: string): Promise<Bundle> {
+    const dispense: MedicationDispense = {
+      resourceType: 'MedicationDispense',
+      status: 'completed',
+      identifier: [{ system: PRESCRIPTION_ID_SYSTEM, value: prescriptionId }],
+      whenHandedOver: new Date().toISOString().slice(0, 10)
+    };
+    return tiFlowClient.closePrescriptionTask(prescriptionId, this.getSecret(prescriptionId), dispense);
+  }
 
-      if (!questionnaireInput?.valueReference?.reference) {
-        throw new Error('No questionnaire found in task');
-      }
+  // Return an accepted prescription ($reject); it is ready for other pharmacies and the Secret is void
+  static async returnPrescription(prescriptionId: string): Promise<void> {
+    await tiFlowClient.rejectPrescriptionTask(prescriptionId, this.getSecret(prescriptionId));
+    PrescriptionSecretStore.remove(prescriptionId);
+  }
 
-      // Get questionnaire ID from reference
-      const questionnaireRef = questionnaireInput.valueReference.reference;
-      const questionnaireId = questionnaireRef.split('/')[1];
-      
-      // Fetch the questionnaire
-      const questionnaire = await this.fetchWithAuth(`${BASE_URL}/Questionnaire/${questionnaireId}`);
-
-      return {
-        id: task.id,
-        type: questionnaire.title || 'Unknown Request',
-        kind: 'flow-request',
-        status: task.status,
-        requestDate: task.authoredOn || new Date().toISOString(),
-        lastUpdated: task.lastModified || task.authoredOn || new Date().toISOString(),
-        questionnaireResponse: {
-          resourceType: 'QuestionnaireResponse',
-          questionnaire: questionnaireId,
-          status: 'completed',
-          item: questionnaire.item.map((item: any) => ({
-            linkId: item.linkId,
-            text: item.text,
-            answer: item.initial || [{ valueString: 'Nicht angegeben' }]
-          }))
-        }
-      };
-    } catch (error) {
-      console.error('Failed to get request details:', error);
-      return null;
+  private static getSecret(prescriptionId: string): string {
+    const secret = PrescriptionSecretStore.get(prescriptionId);
+    if (!secret) {
+      throw new Error(`Prescription ${prescriptionId} was not accepted by this pharmacy`);
     }
+    return secret;
   }
 }
 
@@ -0,0 +1,195 @@
+// Tests of the KBV bundle parser against the sample prescriptions in public/data/prescriptions.
+// Run them in the browser console of the dev server (npm run dev):
+//   await (await import('/src/test/kbvBundleParserTest.ts')).testKbvBundleParser()
+import { KbvBundleParser } from '../services/kbvBundleParser';
+import type { Patient, Prescription } from '../types';
+
+type XmlLoader = (file: string) => Promise<string>;
+
+const fetchSample: XmlLoader = async file => {
+  const response = await fetch(`/data/prescriptions/${file}`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.text();
+};
+
+interface Expectation {
+  patient: Partial<Patient>;
+  prescription: Partial<Prescription>;
+}
+
+const SAMPLES: Record<string, Expectation> = {
+  'Beispiel_1_PZN.xml': {
+    patient: { firstName: 'Ludger', lastName: 'Königsstein', insuranceNumber: 'K220635158', address: 'Blumenweg, 26427 Esens, D' },
+    prescription: {
+      id: '160.100.000.000.006.24',
+      compositionType: 'e16A',
+      kind: 'medication',
+      medication: 'Januvia® 50 mg 28 Filmtabletten N1',
+      medicationType: 'pzn',
+      pzn: '00814665',
+      dosage: '50 mg',
+      doctor: 'Dr. med. Paul Freiherr von Müller',
+      doctorLanr: '123456628',
+      coverageType: 'GKV',
+      payor: 'AOK Nordost'
+    }
+  },
+  'Beispiel_22_Freitextverordnung.xml': {
+    patient: { firstName: 'Karl-Friederich', lastName: 'Graf Freiherr von Schaumberg', insuranceNumber: 'S040464113' },
+    prescription: {
+      id: '160.100.000.000.023.70',
+      compositionType: 'e16A',
+      medication: 'Metformin 850mg Tabletten N3',
+      medicationType: 'freitext',
+      pzn: undefined,
+      doctorLanr: '987654423'
+    }
+  },
+  'Beispiel_3_PKV.xml': {
+    patient: { firstName: 'Paula', lastName: 'Privati', insuranceNumber: 'P123464113' },
+    prescription: {
+      id: '160.100.000.000.007.22',
+      compositionType: 'e16A',
+      medication: 'Beloc-Zok® mite 47,5 mg, 30 Retardtabletten N1',
+      pzn: '03879429',
+      dosage: '1-0-0-0',
+      doctor: 'Dr. med. Emma Schneider',
+      doctorLanr: '999999900',
+      coverageType: 'PKV',
+      payor: 'Allianz Private Krankenversicherung'
+    }
+  },
+  'evdga.xml': {
+    patient: { firstName: 'Ludger', lastName: 'Königsstein', insuranceNumber: 'X234567890' },
+    prescription: {
+      id: '162.100.000.000.027.75',
+      compositionType: 'e16D',
+      kind: 'diga',
+      deviceRequestId: 'a1533e28-4631-4afa-b5e6-f233fad87f53',
+      medication: 'Vantis KHK und Herzinfarkt 001',
+      medicationType: undefined,
+      pzn: '19205615',
+      doctorLanr: '838382202',
+      issueDate: '26.3.2023',
+      validUntil: undefined
+    }
+  }
+};
+
+// Minimal KBV bundle around a Medication, for the profiles the samples do not cover
+function bundleWith(medication: object) {
+  const reference = (resourceType: string) => ({ reference: `${resourceType}/1` });
+  return {
+    resourceType: 'Bundle',
+    id: 'bundle-1',
+    identifier: { system: 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_PrescriptionId', value: '160.000.000.000.000.01' },
+    timestamp: '2024-05-20T08:30:00Z',
+    entry: [
+      { fullUrl: 'urn:uuid:c', resource: { resourceType: 'Composition', id: '1', type: { coding: [{ code: 'e16A' }] }, subject: reference('Patient') } },
+      {
+        fullUrl: 'urn:uuid:r',
+        resource: {
+          resourceType: 'MedicationRequest',
+          id: '1',
+          medicationReference: reference('Medication'),
+          subject: reference('Patient'),
+          dosageInstruction: [{ text: '1-0-1' }],
+          dispenseRequest: { quantity: { value: 2 } }
+        }
+      },
+      { fullUrl: 'urn:uuid:m', resource: { resourceType: 'Medication', id: '1', ...medication } },
+      { fullUrl: 'urn:uuid:p', resource: { resourceType: 'Patient', id: '1', name: [{ family: 'Muster', given: ['Erika'] }] } }
+    ]
+  };
+}
+
+const PROFILES: Record<string, { medication: object; prescription: Partial<Prescription> }> = {
+  Wirkstoff: {
+    medication: {
+      code: { coding: [{ system: 'https://fhir.kbv.de/CodeSystem/KBV_CS_ERP_Medication_Type', code: 'wirkstoff' }] },
+      form: { text: 'Tabletten' },
+      ingredient: [{ itemCodeableConcept: { text: 'Ramipril' }, strength: { numerator: { value: 5, unit: 'mg' } } }]
+    },
+    prescription: { medicationType: 'wirkstoff', medication: 'Ramipril 5 mg, Tabletten', dosage: '1-0-1', quantity: 2, patientId: '1' }
+  },
+  Rezeptur: {
+    medication: {
+      meta: { profile: ['https://fhir.kbv.de/StructureDefinition/KBV_PR_ERP_Medication_Compounding|1.1.0'] },
+      code: { coding: [{ system: 'https://fhir.kbv.de/CodeSystem/KBV_CS_ERP_Medication_Type', code: 'rezeptur' }] },
+      form: { text: 'Salbe' },
+      ingredient: [
+        { itemCodeableConcept: { text: 'Triamcinolonacetonid' }, strength: { numerator: { value: 0.1, unit: 'g' } } },
+        { itemCodeableConcept: { text: 'Basiscreme DAC' }, strength: { numerator: { value: 99.9, unit: 'g' } } }
+      ]
+    },
+    prescription: { medicationType: 'rezeptur', medication: 'Triamcinolonacetonid 0.1 g, Basiscreme DAC 99.9 g, Salbe' }
+  }
+};
+
+function assertFields(label: string, actual: object, expected: object) {
+  for (const [key, value] of Object.entries(expected)) {
+    const actualValue = (actual as Record<string, unknown>)[key];
+    if (actualValue !== value) {
+      throw new Error(`${label}.${key}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actualValue)}`);
+    }
+  }
+}
+
+export async function testKbvBundleParser(loadXml: XmlLoader = fetchSample): Promise<number> {
+  let failures = 0;
+
+  const test = async (name: string, fn: () => Promise<void> | void) => {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failures++;
+      console.error(`❌ ${name}`);
+      console.error(`   ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  console.log('🧪 Testing the KBV bundle parser\n');
+
+  for (const [file, expected] of Object.entries(SAMPLES)) {
+    await test(file, async () => {
+      const { patient, prescription, fhirBundle } = KbvBundleParser.parseXml(await loadXml(file));
+      assertFields('patient', patient, expected.patient);
+      assertFields('prescription', prescription, { ...expected.prescription, patientId: patient.id });
+      assertFields('fhirBundle', fhirBundle, { prescriptionId: prescription.id });
+      assertFields('fhirBundle.resource', fhirBundle.resource, { resourceType: 'Bundle', id: fhirBundle.id });
+    });
+  }
+
+  for (const [profile, expected] of Object.entries(PROFILES)) {
+    await test(`${profile} medication`, () => {
+      const { prescription } = KbvBundleParser.parseBundle(bundleWith(expected.medication));
+      assertFields('prescription', prescription, expected.prescription);
+    });
+  }
+
+  await test('DiGA validity period', async () => {
+    const { fhirBundle } = KbvBundleParser.parseXml(await loadXml('evdga.xml'));
+    const deviceRequest = fhirBundle.entries.find(entry => entry.resource.resourceType === 'DeviceRequest')!.resource;
+    deviceRequest.occurrencePeriod = { start: '2023-03-26', end: '2023-06-26' };
+
+    const { prescription } = KbvBundleParser.parseBundle(fhirBundle.resource);
+    assertFields('prescription', prescription, { kind: 'diga', validFrom: '26.3.2023', validUntil: '26.6.2023' });
+  });
+
+  await test('bundles without Composition type are rejected', () => {
+    const bundle = bundleWith({});
+    bundle.entry[0].resource.type = { coding: [] };
+    try {
+      KbvBundleParser.parseBundle(bundle);
+    } catch {
+      return;
+    }
+    throw new Error('expected an error');
+  });
+
+  console.log(`\n${failures === 0 ? '✅ All tests passed' : `❌ ${failures} test(s) failed`}`);
+  return failures;
+}
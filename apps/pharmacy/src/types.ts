@@ -1,3 +1,5 @@
+import type { QuestionnaireResponse } from '@ti-flow/client';
+
 export interface Patient {
   id: string;
   firstName: string;
@@ -17,15 +19,36 @@ export interface Prescription {
   doctorLanr?: string; // Added LANR field
   issueDate: string;
   status: 'pending' | 'dispensed' | 'cancelled';
+  // Accepted by this pharmacy at the E-Rezept-Fachdienst and not yet dispensed or returned
+  accepted?: boolean;
   compositionType: string;
+  kind: PrescriptionKind;
+  // KBV medication profile and the PZN of PZN prescriptions
+  medicationType?: MedicationType;
+  pzn?: string;
+  // Kostenträger: insurance type (GKV, PKV, ...) and payor name
+  coverageType?: string;
+  payor?: string;
+  // DiGA prescriptions (Muster 16D): the prescribed DeviceRequest and the
+  // period it may be redeemed in (DeviceRequest.occurrencePeriod)
+  deviceRequestId?: string;
+  validFrom?: string;
+  validUntil?: string;
 }
 
+// Medication (MedicationRequest) or digital health application (DiGA, DeviceRequest)
+export type PrescriptionKind = 'medication' | 'diga';
+
+export type MedicationType = 'pzn' | 'freitext' | 'wirkstoff' | 'rezeptur';
+
 // Enhanced FHIR types for complete prescription handling
 export interface FhirBundle {
   id: string;
   prescriptionId: string;
   timestamp: string;
   entries: FhirEntry[];
+  // The complete Bundle as converted from the KBV XML, the $populate launch context
+  resource: FhirResource;
 }
 
 export interface FhirEntry {
@@ -169,96 +192,19 @@ export interface FhirContactPoint {
   value: string;
 }
 
-export interface CodeSystemConcept {
-  code: string;
-  display: string;
-  definition?: string;
-  concept?: CodeSystemConcept[]; // Support for nested concepts
-}
-
-export interface CodeSystem {
-  resourceType: string;
-  id: string;
-  url: string;
-  version: string;
-  name: string;
-  title: string;
-  status: string;
-  concept: CodeSystemConcept[];
-}
-
-// FHIR Questionnaire types
-export interface QuestionnaireItem {
-  type: string;
-  linkId: string;
-  code?: Array<{
-    system: string;
-    code: string;
-  }>;
-  text: string;
-  required?: boolean;
-  repeats?: boolean;
-  item?: QuestionnaireItem[];
-  answerValueSet?: string; // Reference to a ValueSet for choice options
-  initial?: Array<{
-    valueString?: string;
-    valueInteger?: number;
-    valueBoolean?: boolean;
-  }>;
-}
-
-export interface Questionnaire {
-  resourceType: string;
-  title: string;
-  status: string;
-  code?: Array<{
-    system: string;
-    code: string;
-    display: string;
-  }>;
-  item: QuestionnaireItem[];
-}
-
-export interface FHIRParameters {
-  resourceType: string;
-  parameter: Array<{
-    name: string;
-    resource?: any;
-    valueString?: string;
-  }>;
-}
-
-export interface QuestionnaireResponse {
-  resourceType: string;
-  questionnaire: string;
-  status: string;
-  item: Array<{
-    linkId: string;
-    answer: Array<{
-      valueString?: string;
-      valueInteger?: number;
-      valueBoolean?: boolean;
-      valueDate?: string;
-      valueQuantity?: {
-        value: number;
-        unit: string;
-      };
-    }>;
-    item?: Array<{
-      linkId: string;
-      answer: Array<{
-        valueString?: string;
-        valueInteger?: number;
-        valueBoolean?: boolean;
-        valueDate?: string;
-        valueQuantity?: {
-          value: number;
-          unit: string;
-        };
-      }>;
-    }>;
-  }>;
-}
+// FHIR resources exchanged with the TI-Flow backend, shared with the doctor app
+export type {
+  CodeSystemConcept,
+  Questionnaire,
+  QuestionnaireItem,
+  QuestionnaireItemEnableWhen,
+  QuestionnaireResponse,
+  QuestionnaireResponseItem,
+  QuestionnaireResponseItemAnswer,
+  QuestionnaireResponseRevision,
+  Task as FlowTask,
+  TaskHistoryEntry
+} from '@ti-flow/client';
 
 // Request tracking types
 export interface ActiveRequest {
@@ -279,56 +225,3 @@ export interface ActiveRequest {
 export interface RequestDetails extends ActiveRequest {
   questionnaireResponse: QuestionnaireResponse;
 }
-
-// Flow service types
-export interface FlowTask {
-  resourceType: 'Task';
-  id: string;
-  status: string;
-  businessStatus: {
-    text: string;
-  };
-  intent: string;
-  priority: string;
-  description: string;
-  authoredOn: string;
-  lastModified: string;
-  requester: {
-    reference: string;
-  };
-  owner: {
-    reference: string;
-  };
-  for: {
-    reference: string;
-  };
-  input: Array<{
-    type: {
-      text: string;
-    };
-    valueReference: {
-      reference: string;
-    };
-  }>;
-  output?: Array<{
-    type: {
-      text: string;
-    };
-    valueReference?: {
-      reference: string;
-      display: string;
-    };
-    valueString?: string;
-  }>;
-}
-
-export interface FlowQuestionnaire {
-  resourceType: 'Questionnaire';
-  id: string;
-  status: string;
-  date: string;
-  title: string;
-  description?: string;
-  items: QuestionnaireItem[];
-  created?: string;
-}
@@ -0,0 +1,164 @@
+import type { Coding, Quantity, Reference } from '@ti-flow/client';
+import type {
+  QuestionnaireItem,
+  QuestionnaireItemEnableWhen,
+  QuestionnaireResponseItem,
+  QuestionnaireResponseItemAnswer
+} from '../types';
+
+type TypedValue = [type: string | null, value: unknown];
+
+/**
+ * The value[x] of an answer or enableWhen as [type suffix, value], e.g. ['Coding', {...}]
+ */
+const valueOf = (element: object, prefix: string): TypedValue => {
+  const entry = Object.entries(element).find(([key, value]) => key.startsWith(prefix) && value !== undefined);
+  return entry ? [entry[0].slice(prefix.length), entry[1]] : [null, undefined];
+};
+
+/**
+ * Compare two values of the same type; a number for ordered types,
+ * 0 for equal values and NaN for values that are neither equal nor ordered
+ */
+const compareValues = (type: string, left: unknown, right: unknown): number => {
+  switch (type) {
+    case 'Coding': {
+      const [leftCoding, rightCoding] = [left as Coding, right as Coding];
+      return leftCoding.code === rightCoding.code
+        && (!leftCoding.system || !rightCoding.system || leftCoding.system === rightCoding.system) ? 0 : NaN;
+    }
+    case 'Quantity': {
+      const [leftQuantity, rightQuantity] = [left as Quantity, right as Quantity];
+      const leftUnit = leftQuantity.code || leftQuantity.unit;
+      const rightUnit = rightQuantity.code || rightQuantity.unit;
+      if (leftUnit && rightUnit && leftUnit !== rightUnit) return NaN;
+      return Number(leftQuantity.value) - Number(rightQuantity.value);
+    }
+    case 'Reference':
+      return (left as Reference).reference === (right as Reference).reference ? 0 : NaN;
+    case 'Boolean':
+      return left === right ? 0 : NaN;
+    case 'Decimal':
+    case 'Integer':
+      return Number(left) - Number(right);
+    default:
+      return left === right ? 0 : String(left) < String(right) ? -1 : 1;
+  }
+};
+
+const isNumeric = (type: string | null) => type === 'Decimal' || type === 'Integer';
+
+/**
+ * Whether the answers of the question fulfil one enableWhen condition
+ */
+const matchesEnableWhen = (enableWhen: QuestionnaireItemEnableWhen, answers: QuestionnaireResponseItemAnswer[]): boolean => {
+  const [type, expected] = valueOf(enableWhen, 'answer');
+
+  if (enableWhen.operator === 'exists') {
+    return (answers.length > 0) === (expected === true);
+  }
+  if (!type) {
+    return false;
+  }
+
+  // Answers of a different type never match
+  const comparisons = answers
+    .map(answer => valueOf(answer, 'value'))
+    .filter(([answerType]) => answerType === type || (isNumeric(answerType) && isNumeric(type)))
+    .map(([, value]) => compareValues(type, value, expected));
+
+  switch (enableWhen.operator) {
+    case '=':
+      return comparisons.some(result => result === 0);
+    case '!=':
+      return comparisons.every(result => result !== 0);
+    case '>':
+      return comparisons.some(result => result > 0);
+    case '<':
+      return comparisons.some(result => result < 0);
+    case '>=':
+      return comparisons.some(result => result >= 0);
+    case '<=':
+      return comparisons.some(result => result <= 0);
+    default:
+      return false;
+  }
+};
+
+const containsQuestion = (items: QuestionnaireResponseItem[], linkId: string): boolean =>
+  items.some(item => item.linkId === linkId || containsQuestion(item.item || [], linkId));
+
+const collectAnswers = (items: QuestionnaireResponseItem[], linkId: string): QuestionnaireResponseItemAnswer[] =>
+  items.flatMap(item => [
+    ...(item.linkId === linkId ? item.answer || [] : []),
+    ...collectAnswers(item.item || [], linkId)
+  ]);
+
+/**
+ * Answers to the question with the given linkId, looked up in the innermost
+ * context first (e.g. the entry of a repeating group), then outwards
+ */
+const findAnswers = (linkId: string, scopes: QuestionnaireResponseItem[][]): QuestionnaireResponseItemAnswer[] => {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (containsQuestion(scopes[i], linkId)) {
+      return collectAnswers(scopes[i], linkId);
+    }
+  }
+  return [];
+};
+
+/**
+ * Whether an item is enabled by its enableWhen conditions
+ * @param scopes - Response item lists from the root of the response to the item's context
+ */
+export function isItemEnabled(item: QuestionnaireItem, scopes: QuestionnaireResponseItem[][]): boolean {
+  if (!item.enableWhen?.length) {
+    return true;
+  }
+
+  const results = item.enableWhen.map(condition => matchesEnableWhen(condition, findAnswers(condition.question, scopes)));
+  return item.enableBehavior === 'any' ? results.some(Boolean) : results.every(Boolean);
+}
+
+const pruneDisabledItems = (
+  questionnaireItems: QuestionnaireItem[],
+  responseItems: QuestionnaireResponseItem[],
+  scopes: QuestionnaireResponseItem[][]
+): QuestionnaireResponseItem[] =>
+  responseItems.flatMap(responseItem => {
+    const definition = questionnaireItems.find(item => item.linkId === responseItem.linkId);
+    if (!definition) {
+      return [responseItem];
+    }
+    if (!isItemEnabled(definition, scopes)) {
+      return [];
+    }
+    if (!responseItem.item) {
+      return [responseItem];
+    }
+
+    const children = pruneDisabledItems(definition.item || [], responseItem.item, [...scopes, responseItem.item]);
+    return children.length > 0 ? [{ ...responseItem, item: children }] : [];
+  });
+
+const countItems = (items: QuestionnaireResponseItem[]): number =>
+  items.reduce((count, item) => count + 1 + countItems(item.item || []), 0);
+
+/**
+ * Response items without the items (and their answers) that are disabled by enableWhen.
+ * Answers of a disabled item do not count for the conditions of other items, so items
+ * are removed until every remaining item is enabled by the remaining answers.
+ */
+export function removeDisabledItems(
+  questionnaireItems: QuestionnaireItem[] = [],
+  responseItems: QuestionnaireResponseItem[] = []
+): QuestionnaireResponseItem[] {
+  let current = responseItems;
+  for (;;) {
+    const pruned = pruneDisabledItems(questionnaireItems, current, [current]);
+    if (countItems(pruned) === countItems(current)) {
+      return pruned;
+    }
+    current = pruned;
+  }
+}
@@ -30,13 +30,15 @@ export class FhirDataUtils {
    * Resolve a FHIR reference within a bundle
    */
   static resolveReference<T extends FhirResource>(bundle: FhirBundle, reference: string): T | null {
-    // Handle different reference formats (urn:uuid:, Patient/, etc.)
+    // Handle different reference formats (urn:uuid:, Patient/, etc.); relative
+    // references also have to match the resource type, as ids may repeat across types
+    const [resourceType, id] = reference.includes(':') ? [undefined, undefined] : reference.split('/').slice(-2);
     const entry = bundle.entries.find(entry => {
-      return entry.fullUrl === reference || 
+      return entry.fullUrl === reference ||
              entry.fullUrl === `urn:uuid:${reference}` ||
-             entry.resource.id === reference.split('/').pop();
+             (id !== undefined && entry.resource.resourceType === resourceType && entry.resource.id === id);
     });
-    
+
     return entry ? (entry.resource as T) : null;
   }
 
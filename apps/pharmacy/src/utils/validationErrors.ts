@@ -0,0 +1,23 @@
+import { TiFlowError, issueLinkId } from '@ti-flow/client';
+
+// Error messages of a failed submit by linkId; messages without an item location are kept under ''
+export type FieldErrors = Record<string, string[]>;
+
+/**
+ * Field errors from a failed submit: the validation issues the backend reports
+ * with 422 are assigned to the items they point to, any other error is general
+ */
+export function toFieldErrors(error: unknown): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (error instanceof TiFlowError && error.status === 422) {
+    for (const issue of error.outcome.issue) {
+      const linkId = issueLinkId(issue) || '';
+      errors[linkId] = [...(errors[linkId] || []), issue.details?.text || issue.diagnostics || 'Ungültige Angabe'];
+    }
+  } else {
+    errors[''] = [error instanceof Error ? error.message : String(error)];
+  }
+
+  return errors;
+}
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Check the client's operation table against the backend's OpenAPI description.
+ * Fails if the client calls an operation that openapi.yaml does not describe,
+ * or if openapi.yaml describes an operation the client does not cover.
+ *
+ * Usage: npm run check:openapi (from packages/ti-flow-client)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import yaml from 'js-yaml';
+
+const packageDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const operationsFile = path.join(packageDir, 'src', 'operations.ts');
+const openapiFile = path.resolve(packageDir, '..', '..', 'apps', 'backend', 'openapi.yaml');
+
+// operations.ts only declares data, so it can be loaded after stripping its types
+async function loadClientOperations() {
+  const source = fs.readFileSync(operationsFile, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+  });
+  const module = await import(`data:text/javascript;base64,${Buffer.from(outputText).toString('base64')}`);
+  return module.TI_FLOW_OPERATIONS;
+}
+
+function loadOpenApiOperations() {
+  const document = yaml.load(fs.readFileSync(openapiFile, 'utf8'));
+  const operations = new Set();
+  for (const [route, item] of Object.entries(document.paths || {})) {
+    for (const method of Object.keys(item)) {
+      if (['get', 'post', 'put', 'patch', 'delete'].includes(method)) {
+        operations.add(`${method.toUpperCase()} ${route}`);
+      }
+    }
+  }
+  return operations;
+}
+
+async function checkOpenApi() {
+  console.log('🔍 Checking TI-Flow client operations against openapi.yaml');
+
+  const clientOperations = await loadClientOperations();
+  const documented = loadOpenApiOperations();
+  const covered = new Set();
+  const errors = [];
+
+  for (const [name, { method, path: route }] of Object.entries(clientOperations)) {
+    const key = `${method} ${route}`;
+    covered.add(key);
+    if (documented.has(key)) {
+      console.log(`   ✅ ${name}: ${key}`);
+    } else {
+      errors.push(`${name} calls ${key}, which openapi.yaml does not describe`);
+    }
+  }
+
+  for (const key of documented) {
+    if (!covered.has(key)) {
+      errors.push(`openapi.yaml describes ${key}, which the client does not cover`);
+    }
+  }
+
+  if (errors.length > 0) {
+    errors.forEach(error => console.log(`   ❌ ${error}`));
+    console.log(`💥 ${errors.length} mismatch(es) between client and openapi.yaml`);
+    process.exit(1);
+  }
+
+  console.log(`🎉 All ${covered.size} operations match openapi.yaml`);
+}
+
+checkOpenApi().catch(error => {
+  console.error('💥 Check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,657 @@
+import type {
+  Bundle,
+  CodeSystem,
+  Medication,
+  MedicationDispense,
+  MedicationRequest,
+  OperationOutcome,
+  OperationOutcomeIssue,
+  Parameters,
+  Patient,
+  PrescriptionTask,
+  Questionnaire,
+  QuestionnaireItem,
+  QuestionnaireResponse,
+  Resource,
+  Subscription,
+  Task,
+  ValueSet
+} from './fhir';
+import { TiFlowError } from './errors';
+import { TI_FLOW_OPERATIONS, type OperationDefinition } from './operations';
+
+// Credentials the backend's local SMC-B key store issues access tokens for
+export interface TiFlowCredentials {
+  telematikId: string;
+  clientSecret: string;
+}
+
+export interface TiFlowClientOptions {
+  // Base URL of the TI-Flow backend, e.g. http://localhost:3001
+  baseUrl: string;
+  // Credentials for authenticated operations; read on every token request,
+  // so they may change at runtime (e.g. after the own telematik-ID is loaded)
+  credentials?: () => TiFlowCredentials;
+  // Delay before a failed or closed notification stream is set up again
+  subscriptionRetryDelay?: number;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+// Result of the Task state machine operations ($receive, $accept, $reject, $counter-offer, $close)
+export interface TaskOperationResult {
+  message: string;
+  task: Task;
+}
+
+export interface DocumentRequestResult extends TaskOperationResult {
+  taskId: string;
+  questionnaireResponseId: string;
+  requester_tid: string;
+  receiver_tid: string;
+}
+
+export interface ResetDatabaseResult {
+  message: string;
+  storage: string;
+}
+
+// Search parameters of GET /Task; repeated parameters are given as arrays
+export type TaskSearchParams = Record<string, string | number | Array<string | number> | undefined>;
+
+// Search parameters of GET /Questionnaire; url may carry the version as 'url|version'
+export interface QuestionnaireSearchParams {
+  url?: string;
+  version?: string;
+  code?: string;
+}
+
+// Search parameters of GET /CodeSystem
+export interface CodeSystemSearchParams {
+  url?: string;
+  version?: string;
+  name?: string;
+  code?: string;
+}
+
+// ValueSet of $expand and ValueSet/$validate-code: a canonical url, or the
+// answerValueSet of a questionnaire item as context '<questionnaire url>#<linkId>'
+export interface ValueSetExpandParams {
+  url?: string;
+  context?: string;
+  filter?: string;
+  excludeNested?: boolean;
+}
+
+// Revision of a negotiated request: the initial QuestionnaireResponse or a counter-offer
+export interface QuestionnaireResponseRevision {
+  revision: number;
+  id: string;
+  author?: string;
+  authored?: string;
+  questionnaireResponse: QuestionnaireResponse;
+}
+
+// Result of $extract: the transaction Bundle and the issues found during extraction
+export interface QuestionnaireResponseExtraction {
+  bundle: Bundle<Patient | Medication | MedicationRequest>;
+  issues: OperationOutcomeIssue[];
+}
+
+// AccessCode (ac) or Secret that authorizes an operation on a prescription Task
+export type PrescriptionTaskCodes = {
+  ac?: string;
+  secret?: string;
+};
+
+// Result of $accept: the Task with the pharmacy's Secret and the KBV prescription bundle
+export interface PrescriptionAcceptance {
+  task: PrescriptionTask;
+  secret: string;
+  bundle: Bundle;
+}
+
+interface RequestOptions {
+  params?: Record<string, string>;
+  query?: TaskSearchParams;
+  body?: unknown;
+  authenticated?: boolean;
+}
+
+const DEFAULT_SUBSCRIPTION_RETRY_DELAY = 5000;
+
+const ERP_NAMING_SYSTEM = 'https://gematik.de/fhir/erp/NamingSystem/GEM_ERP_NS_';
+const FLOW_TYPE_SYSTEM = 'https://gematik.de/fhir/erp/CodeSystem/GEM_ERP_CS_FlowType';
+
+// Renew access tokens this long before they expire
+const TOKEN_RENEWAL_MARGIN = 30000;
+
+export class TiFlowClient {
+  readonly baseUrl: string;
+  private readonly credentials?: () => TiFlowCredentials;
+  private readonly subscriptionRetryDelay: number;
+  private accessToken: string | null = null;
+  private tokenOwner: string | null = null;
+  private expiresAt = 0;
+
+  constructor(options: TiFlowClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.credentials = options.credentials;
+    this.subscriptionRetryDelay = options.subscriptionRetryDelay ?? DEFAULT_SUBSCRIPTION_RETRY_DELAY;
+  }
+
+  // Absolute URL of an operation with its path parameters filled in
+  url(operation: OperationDefinition, params: Record<string, string> = {}, query: TaskSearchParams = {}): string {
+    const path = operation.path.replace(/\{(\w+)\}/g, (_, name: string) => {
+      if (params[name] === undefined) {
+        throw new Error(`Missing path parameter ${name} for ${operation.path}`);
+      }
+      return encodeURIComponent(params[name]);
+    });
+
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(query)) {
+      for (const item of [value].flat()) {
+        if (item !== undefined) search.append(name, String(item));
+      }
+    }
+
+    const queryString = search.toString();
+    return `${this.baseUrl}${path}${queryString ? `?${queryString}` : ''}`;
+  }
+
+  // Get an access token bound to the configured telematik-ID, renewed shortly before it expires
+  async getAccessToken(): Promise<string> {
+    if (!this.credentials) {
+      throw new Error('TiFlowClient has no credentials for authenticated operations');
+    }
+
+    const { telematikId, clientSecret } = this.credentials();
+    if (this.accessToken && this.tokenOwner === telematikId && Date.now() < this.expiresAt - TOKEN_RENEWAL_MARGIN) {
+      return this.accessToken;
+    }
+
+    const token = await this.issueToken(telematikId, clientSecret);
+    this.accessToken = token.access_token;
+    this.tokenOwner = telematikId;
+    this.expiresAt = Date.now() + token.expires_in * 1000;
+    return this.accessToken;
+  }
+
+  private async request<T>(operation: OperationDefinition, options: RequestOptions = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Accept': 'application/fhir+json, application/json' };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (options.authenticated !== false) {
+      headers['Authorization'] = `Bearer ${await this.getAccessToken()}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.url(operation, options.params, options.query), {
+        method: operation.method,
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body)
+      });
+    } catch (error) {
+      throw TiFlowError.fromNetworkError(error);
+    }
+
+    if (!response.ok) {
+      throw await TiFlowError.fromResponse(response);
+    }
+
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  // Health & Status
+
+  async getHealth(): Promise<Record<string, unknown>> {
+    return this.request(TI_FLOW_OPERATIONS.getHealth, { authenticated: false });
+  }
+
+  async getStatus(): Promise<Record<string, unknown>> {
+    return this.request(TI_FLOW_OPERATIONS.getStatus, { authenticated: false });
+  }
+
+  // Auth Service
+
+  async issueToken(telematikId: string, clientSecret: string): Promise<TokenResponse> {
+    return this.request(TI_FLOW_OPERATIONS.issueToken, {
+      body: { telematikId, clientSecret },
+      authenticated: false
+    });
+  }
+
+  async getJwks(): Promise<JsonWebKeySet> {
+    return this.request(TI_FLOW_OPERATIONS.getJwks, { authenticated: false });
+  }
+
+  // Information Service
+
+  async getDocumentOperations(): Promise<CodeSystem> {
+    return this.request(TI_FLOW_OPERATIONS.getDocumentOperations, { authenticated: false });
+  }
+
+  async getRequestOperations(): Promise<CodeSystem> {
+    return this.request(TI_FLOW_OPERATIONS.getRequestOperations, { authenticated: false });
+  }
+
+  // Validation report of the forms and CodeSystems the backend serves
+  async validateContent(): Promise<OperationOutcome> {
+    return this.request(TI_FLOW_OPERATIONS.validateContent, { authenticated: false });
+  }
+
+  // Questionnaire of a single request operation
+  async getRequestOperationQuestionnaire(code: string): Promise<Questionnaire> {
+    return this.request(TI_FLOW_OPERATIONS.getRequestOperations, { query: { code }, authenticated: false });
+  }
+
+  // Questionnaires matching all given parameters, latest version first
+  async searchQuestionnaires(search: QuestionnaireSearchParams = {}): Promise<Bundle<Questionnaire>> {
+    return this.request(TI_FLOW_OPERATIONS.searchQuestionnaires, { query: { ...search }, authenticated: false });
+  }
+
+  // Questionnaire with the given canonical URL, e.g. the one a QuestionnaireResponse answers;
+  // the latest version unless the URL names one ('url|version')
+  async findQuestionnaireByUrl(url: string): Promise<Questionnaire | undefined> {
+    const bundle = await this.searchQuestionnaires({ url });
+    return bundle.entry?.[0]?.resource;
+  }
+
+  // Terminology Service
+
+  async searchCodeSystems(search: CodeSystemSearchParams = {}): Promise<Bundle<CodeSystem>> {
+    return this.request(TI_FLOW_OPERATIONS.searchCodeSystems, { query: { ...search }, authenticated: false });
+  }
+
+  async getCodeSystem(id: string): Promise<CodeSystem> {
+    return this.request(TI_FLOW_OPERATIONS.getCodeSystem, { params: { id }, authenticated: false });
+  }
+
+  // Display, parent and child codes of a code
+  async lookupCode(system: string, code: string): Promise<Parameters> {
+    return this.request(TI_FLOW_OPERATIONS.lookupCode, { query: { system, code }, authenticated: false });
+  }
+
+  // Parameters with 'result' and, if invalid, 'message'
+  async validateCode(url: string, code: string, display?: string): Promise<Parameters> {
+    return this.request(TI_FLOW_OPERATIONS.validateCode, { query: { url, code, display }, authenticated: false });
+  }
+
+  async expandValueSet({ excludeNested, ...params }: ValueSetExpandParams): Promise<ValueSet> {
+    return this.request(TI_FLOW_OPERATIONS.expandValueSet, {
+      query: { ...params, excludeNested: excludeNested ? 'true' : undefined },
+      authenticated: false
+    });
+  }
+
+  // Expand the answerValueSets of the choice items with $expand and contain the
+  // expansions, so the options of every item can be read from the Questionnaire.
+  // A value set that cannot be expanded stays as it is.
+  async withExpandedValueSets(questionnaire: Questionnaire): Promise<Questionnaire> {
+    const collect = (items: QuestionnaireItem[] = []): QuestionnaireItem[] =>
+      items.flatMap(item => [
+        ...(item.answerValueSet && !item.answerOption?.length ? [item] : []),
+        ...collect(item.item)
+      ]);
+
+    const choiceItems = collect(questionnaire.item);
+    if (!questionnaire.url || choiceItems.length === 0) {
+      return questionnaire;
+    }
+
+    const expansions = await Promise.all(choiceItems.map(async (item): Promise<ValueSet | null> => {
+      try {
+        const valueSet = await this.expandValueSet({ context: `${questionnaire.url}#${item.linkId}` });
+        const reference = item.answerValueSet!;
+        return reference.startsWith('#') ? { ...valueSet, id: reference.substring(1) } : { ...valueSet, url: reference };
+      } catch (error) {
+        console.warn(`Could not expand answerValueSet of '${item.linkId}':`, error);
+        return null;
+      }
+    }));
+
+    const expanded = expansions.filter((valueSet): valueSet is ValueSet => valueSet !== null);
+    const isReplaced = (resource: Resource) => resource.resourceType === 'ValueSet'
+      && expanded.some(valueSet => (valueSet.id && valueSet.id === resource.id) || (valueSet.url && valueSet.url === (resource as ValueSet).url));
+
+    return {
+      ...questionnaire,
+      contained: [...(questionnaire.contained || []).filter(resource => !isReplaced(resource)), ...expanded]
+    };
+  }
+
+  async validateValueSetCode(
+    valueSet: Pick<ValueSetExpandParams, 'url' | 'context'>,
+    coding: { system?: string; code: string; display?: string }
+  ): Promise<Parameters> {
+    return this.request(TI_FLOW_OPERATIONS.validateValueSetCode, { query: { ...valueSet, ...coding }, authenticated: false });
+  }
+
+  // SDC $populate; returns the Parameters with the populated 'response'
+  async populateQuestionnaire(questionnaireId: string, parameters: Parameters): Promise<Parameters> {
+    return this.request(TI_FLOW_OPERATIONS.populateQuestionnaire, {
+      params: { id: questionnaireId },
+      body: parameters,
+      authenticated: false
+    });
+  }
+
+  // SDC $extract of a submitted QuestionnaireResponse into Patient, Medication and MedicationRequest
+  async extractQuestionnaireResponse(questionnaireResponseId: string): Promise<QuestionnaireResponseExtraction> {
+    const parameters = await this.request<Parameters>(TI_FLOW_OPERATIONS.extractQuestionnaireResponse, {
+      params: { id: questionnaireResponseId }
+    });
+    const output = (name: string) => parameters.parameter?.find(parameter => parameter.name === name)?.resource;
+
+    return {
+      bundle: output('return') as Bundle<Patient | Medication | MedicationRequest>,
+      issues: (output('issues') as OperationOutcome | undefined)?.issue || []
+    };
+  }
+
+  // Flow Service
+
+  // FHIR $validate of a QuestionnaireResponse against its Questionnaire; every issue's
+  // expression is the FHIRPath location of the offending item (see issueLinkId)
+  async validateQuestionnaireResponse(questionnaireResponse: QuestionnaireResponse): Promise<OperationOutcome> {
+    return this.request(TI_FLOW_OPERATIONS.validateQuestionnaireResponse, {
+      body: questionnaireResponse,
+      authenticated: false
+    });
+  }
+
+  async searchTasks(search: TaskSearchParams = {}): Promise<Bundle<Task | QuestionnaireResponse>> {
+    return this.request(TI_FLOW_OPERATIONS.searchTasks, { query: search });
+  }
+
+  // Tasks of a search, without included resources
+  async findTasks(search: TaskSearchParams = {}): Promise<Task[]> {
+    return bundleResources<Task>(await this.searchTasks(search), 'Task');
+  }
+
+  async startFlowRequest(questionnaireResponse: QuestionnaireResponse): Promise<Task> {
+    return this.request(TI_FLOW_OPERATIONS.startFlowRequest, { body: questionnaireResponse });
+  }
+
+  async startDocumentRequest(questionnaireResponse: QuestionnaireResponse): Promise<DocumentRequestResult> {
+    return this.request(TI_FLOW_OPERATIONS.startDocumentRequest, { body: questionnaireResponse });
+  }
+
+  async getTask(taskId: string): Promise<Task> {
+    return this.request(TI_FLOW_OPERATIONS.getTask, { params: { id: taskId } });
+  }
+
+  // All versions of a task as history Bundle, newest first
+  async getTaskHistory(taskId: string): Promise<Bundle<Task>> {
+    return this.request(TI_FLOW_OPERATIONS.getTaskHistory, { params: { id: taskId } });
+  }
+
+  async getTaskVersion(taskId: string, versionId: string): Promise<Bundle<Task>> {
+    return this.request(TI_FLOW_OPERATIONS.getTaskVersion, { params: { id: taskId, vid: versionId } });
+  }
+
+  // Submit a counter-offer: the changed QuestionnaireResponse becomes the next revision
+  async submitCounterOffer(taskId: string, questionnaireResponse: QuestionnaireResponse): Promise<TaskOperationResult> {
+    return this.request(TI_FLOW_OPERATIONS.submitCounterOffer, {
+      params: { id: taskId },
+      body: {
+        resourceType: 'Parameters',
+        parameter: [{ name: 'questionnaireResponse', resource: questionnaireResponse }]
+      } satisfies Parameters
+    });
+  }
+
+  async rejectTask(taskId: string): Promise<TaskOperationResult> {
+    return this.request(TI_FLOW_OPERATIONS.rejectTask, { params: { id: taskId } });
+  }
+
+  // Mark a task as received; called when the receiver opens the request
+  async receiveTask(taskId: string): Promise<TaskOperationResult> {
+    return this.request(TI_FLOW_OPERATIONS.receiveTask, { params: { id: taskId } });
+  }
+
+  async acceptTask(taskId: string): Promise<TaskOperationResult> {
+    return this.request(TI_FLOW_OPERATIONS.acceptTask, { params: { id: taskId } });
+  }
+
+  // Complete a task with the data of the created document (e.g. the e-prescription)
+  async closeTask(taskId: string, documentData: { docId: string; docPw: string }): Promise<TaskOperationResult> {
+    return this.request(TI_FLOW_OPERATIONS.closeTask, { params: { id: taskId }, body: documentData });
+  }
+
+  async getQuestionnaire(questionnaireId: string): Promise<Questionnaire> {
+    return this.request(TI_FLOW_OPERATIONS.getQuestionnaire, { params: { id: questionnaireId } });
+  }
+
+  async getQuestionnaireResponse(questionnaireResponseId: string): Promise<QuestionnaireResponse> {
+    return this.request(TI_FLOW_OPERATIONS.getQuestionnaireResponse, { params: { id: questionnaireResponseId } });
+  }
+
+  // All QuestionnaireResponse revisions of a task (initial request and counter-offers), oldest first
+  async getQuestionnaireResponseRevisions(task: Task): Promise<QuestionnaireResponseRevision[]> {
+    const references = (task.input || [])
+      .filter(input => input.type.text === 'questionnaire-response' && input.valueReference?.reference)
+      .map(input => input.valueReference!.reference!.replace('QuestionnaireResponse/', ''));
+
+    const responses = await Promise.all(references.map(id => this.getQuestionnaireResponse(id)));
+    return responses.map((questionnaireResponse, index) => ({
+      revision: index + 1,
+      id: references[index],
+      author: questionnaireResponse.author?.reference?.replace('Organization/', ''),
+      authored: questionnaireResponse.authored,
+      questionnaireResponse
+    }));
+  }
+
+  // Wipe all tasks, questionnaires and history (admin: caller listed in FLOW_ADMIN_TELEMATIK_IDS)
+  async resetDatabase(): Promise<ResetDatabaseResult> {
+    return this.request(TI_FLOW_OPERATIONS.resetDatabase);
+  }
+
+  // Prescription Service
+
+  // KBV prescription bundles the caller imported or prescribed, latest import first
+  async searchPrescriptionBundles(): Promise<Bundle<Bundle>> {
+    return this.request(TI_FLOW_OPERATIONS.searchPrescriptionBundles);
+  }
+
+  // Import a KBV prescription bundle; returns the stored bundle if its PrescriptionId is already known
+  async importPrescriptionBundle(bundle: Bundle): Promise<Bundle> {
+    return this.request(TI_FLOW_OPERATIONS.importPrescriptionBundle, { body: bundle });
+  }
+
+  // KBV bundle of a prescription the caller takes part in, or of one it holds the AccessCode or Secret of
+  async getPrescriptionBundle(prescriptionId: string, codes: PrescriptionTaskCodes = {}): Promise<Bundle> {
+    return this.request(TI_FLOW_OPERATIONS.getPrescriptionBundle, { params: { id: prescriptionId }, query: codes });
+  }
+
+  // MedicationRequests of the caller's prescriptions; patient is a KVNR or Patient reference
+  async searchMedicationRequests(patient?: string): Promise<Bundle<MedicationRequest>> {
+    return this.request(TI_FLOW_OPERATIONS.searchMedicationRequests, { query: { patient } });
+  }
+
+  // Prescription Tasks of the local E-Rezept-Fachdienst
+
+  // New Task with PrescriptionId and AccessCode; workflowType 160, 162, 169, 200 or 209
+  async createPrescriptionTask(workflowType = '160'): Promise<PrescriptionTask> {
+    return this.request(TI_FLOW_OPERATIONS.createPrescriptionTask, {
+      body: {
+        resourceType: 'Parameters',
+        parameter: [{ name: 'workflowType', valueCoding: { system: FLOW_TYPE_SYSTEM, code: workflowType } }]
+      } satisfies Parameters
+    });
+  }
+
+  // Task for the holder of its AccessCode or, with the Secret included, of its Secret
+  async getPrescriptionTask(taskId: string, codes: PrescriptionTaskCodes): Promise<PrescriptionTask> {
+    return this.request(TI_FLOW_OPERATIONS.getPrescriptionTask, { params: { id: taskId }, query: codes });
+  }
+
+  // Store the KBV bundle of a draft Task; the Task becomes ready for pharmacies
+  async activatePrescriptionTask(taskId: string, accessCode: string, bundle: Bundle): Promise<PrescriptionTask> {
+    return this.request(TI_FLOW_OPERATIONS.activatePrescriptionTask, {
+      params: { id: taskId },
+      query: { ac: accessCode },
+      body: { resourceType: 'Parameters', parameter: [{ name: 'ePrescription', resource: bundle }] } satisfies Parameters
+    });
+  }
+
+  // Accept a ready prescription with the AccessCode the patient handed over
+  async acceptPrescriptionTask(taskId: string, accessCode: string): Promise<PrescriptionAcceptance> {
+    const result = await this.request<Bundle<PrescriptionTask | Bundle>>(TI_FLOW_OPERATIONS.acceptPrescriptionTask, {
+      params: { id: taskId },
+      query: { ac: accessCode }
+    });
+
+    const task = bundleResources<PrescriptionTask>(result, 'Task')[0];
+    return {
+      task,
+      secret: prescriptionTaskIdentifier(task, 'Secret') || '',
+      bundle: bundleResources<Bundle>(result, 'Bundle')[0]
+    };
+  }
+
+  // Return an accepted prescription; it is ready for other pharmacies again
+  async rejectPrescriptionTask(taskId: string, secret: string): Promise<void> {
+    await this.request(TI_FLOW_OPERATIONS.rejectPrescriptionTask, { params: { id: taskId }, query: { secret } });
+  }
+
+  // Complete an accepted prescription; returns the receipt
+  async closePrescriptionTask(taskId: string, secret: string, dispense?: MedicationDispense): Promise<Bundle> {
+    return this.request(TI_FLOW_OPERATIONS.closePrescriptionTask, {
+      params: { id: taskId },
+      query: { secret },
+      body: dispense
+    });
+  }
+
+  // Cancel a prescription: before acceptance with the AccessCode, while accepted with the Secret
+  async abortPrescriptionTask(taskId: string, codes: PrescriptionTaskCodes): Promise<void> {
+    await this.request(TI_FLOW_OPERATIONS.abortPrescriptionTask, { params: { id: taskId }, query: codes });
+  }
+
+  // Subscription Service
+
+  async createSubscription(subscription: Subscription): Promise<Subscription> {
+    return this.request(TI_FLOW_OPERATIONS.createSubscription, { body: subscription });
+  }
+
+  async getSubscription(subscriptionId: string): Promise<Subscription> {
+    return this.request(TI_FLOW_OPERATIONS.getSubscription, { params: { id: subscriptionId } });
+  }
+
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    await this.request(TI_FLOW_OPERATIONS.deleteSubscription, { params: { id: subscriptionId } });
+  }
+
+  // URL of the Server-Sent Events stream of a subscription. EventSource cannot
+  // send headers, so the access token goes into the query.
+  async getSubscriptionEventsUrl(subscriptionId: string): Promise<string> {
+    return this.url(TI_FLOW_OPERATIONS.subscriptionEvents, { id: subscriptionId }, {
+      access_token: await this.getAccessToken()
+    });
+  }
+
+  // Subscribe to changes of our tasks; calls onChange with the changed task for every
+  // notification and returns a function that ends the subscription
+  subscribeToTaskChanges(onChange: (task: Task) => void, reason = 'Task changes'): () => void {
+    return this.subscribe<Task>('Task', onChange, reason);
+  }
+
+  // Subscribe to imported prescriptions; calls onImport with every new KBV bundle
+  subscribeToPrescriptionImports(onImport: (bundle: Bundle) => void, reason = 'Imported prescriptions'): () => void {
+    return this.subscribe<Bundle>('Bundle', onImport, reason);
+  }
+
+  // Subscription on the given resource type whose notifications carry the changed resource
+  private subscribe<T extends Resource>(criteria: T['resourceType'], onNotification: (resource: T) => void, reason: string): () => void {
+    let closed = false;
+    let subscriptionId: string | null = null;
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const deleteSubscription = () => {
+      if (subscriptionId) {
+        this.deleteSubscription(subscriptionId).catch(() => undefined);
+        subscriptionId = null;
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const subscription = await this.createSubscription({
+          resourceType: 'Subscription',
+          status: 'requested',
+          reason,
+          criteria,
+          channel: { type: 'sse', payload: 'application/fhir+json' }
+        });
+        subscriptionId = subscription.id!;
+        if (closed) {
+          deleteSubscription();
+          return;
+        }
+
+        source = new EventSource(await this.getSubscriptionEventsUrl(subscriptionId));
+
+        source.addEventListener('event-notification', (event) => {
+          const bundle: Bundle = JSON.parse((event as MessageEvent).data);
+          const resource = bundle.entry?.find(entry => entry.resource?.resourceType === criteria)?.resource;
+          if (resource) {
+            onNotification(resource as T);
+          }
+        });
+
+        // The stream is closed for good (expired token, backend restart): subscribe again
+        source.onerror = () => {
+          if (source?.readyState === EventSource.CLOSED) {
+            source = null;
+            deleteSubscription();
+            scheduleReconnect();
+          }
+        };
+      } catch (error) {
+        console.error(`Failed to subscribe to ${criteria} notifications:`, error);
+        scheduleReconnect();
+      }
+    };
+
+    const scheduleReconnect = () => {
+      if (!closed) {
+        retryTimer = setTimeout(connect, this.subscriptionRetryDelay);
+      }
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      source?.close();
+      deleteSubscription();
+    };
+  }
+}
+
+// PrescriptionId, AccessCode or Secret of a prescription Task
+export function prescriptionTaskIdentifier(task: PrescriptionTask, type: 'PrescriptionId' | 'AccessCode' | 'Secret'): string | undefined {
+  return task.identifier.find(identifier => identifier.system === `${ERP_NAMING_SYSTEM}${type}`)?.value;
+}
+
+// Entries of a Bundle that are resources of the given type
+export function bundleResources<T extends Resource>(bundle: Bundle, resourceType: T['resourceType']): T[] {
+  return (bundle.entry || [])
+    .map(entry => entry.resource)
+    .filter((resource): resource is T => resource?.resourceType === resourceType);
+}
@@ -0,0 +1,86 @@
+import type { OperationOutcome, OperationOutcomeIssue } from './fhir';
+
+// OperationOutcome issue codes for HTTP errors the backend reports as { error, message }
+const ISSUE_CODE_BY_STATUS: Record<number, string> = {
+  400: 'invalid',
+  401: 'login',
+  403: 'forbidden',
+  404: 'not-found',
+  409: 'conflict'
+};
+
+/**
+ * Error of a backend call. Every failure is described by an OperationOutcome:
+ * the one returned by the backend, or one built from its { error, message } body
+ * or from the network error.
+ */
+export class TiFlowError extends Error {
+  readonly status: number;
+  readonly outcome: OperationOutcome;
+
+  constructor(status: number, outcome: OperationOutcome) {
+    super(operationOutcomeMessage(outcome) || `HTTP ${status}`);
+    this.name = 'TiFlowError';
+    this.status = status;
+    this.outcome = outcome;
+  }
+
+  // Build the error from a failed response
+  static async fromResponse(response: Response): Promise<TiFlowError> {
+    const text = await response.text();
+    let body: unknown = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      // Not JSON; the text itself is the diagnostic
+    }
+
+    if (isOperationOutcome(body)) {
+      return new TiFlowError(response.status, body);
+    }
+
+    const { error, message } = (body || {}) as { error?: string; message?: string };
+    return new TiFlowError(response.status, {
+      resourceType: 'OperationOutcome',
+      issue: [{
+        severity: 'error',
+        code: ISSUE_CODE_BY_STATUS[response.status] || 'exception',
+        details: { text: error || response.statusText || `HTTP ${response.status}` },
+        diagnostics: message || (body ? undefined : text || undefined)
+      }]
+    });
+  }
+
+  // Build the error for a request that did not reach the backend
+  static fromNetworkError(error: unknown): TiFlowError {
+    return new TiFlowError(0, {
+      resourceType: 'OperationOutcome',
+      issue: [{
+        severity: 'error',
+        code: 'transient',
+        details: { text: 'TI-Flow backend not reachable' },
+        diagnostics: error instanceof Error ? error.message : String(error)
+      }]
+    });
+  }
+}
+
+export function isOperationOutcome(value: unknown): value is OperationOutcome {
+  return typeof value === 'object' && value !== null &&
+    (value as { resourceType?: unknown }).resourceType === 'OperationOutcome';
+}
+
+// Human readable summary of the error issues of an OperationOutcome
+export function operationOutcomeMessage(outcome: OperationOutcome): string {
+  return outcome.issue
+    .filter(issue => issue.severity === 'error' || issue.severity === 'fatal')
+    .map(issue => [issue.details?.text, issue.diagnostics].filter(Boolean).join(': '))
+    .join('; ');
+}
+
+// linkId of the QuestionnaireResponse item a validation issue points to, e.g. 'pzn' for
+// QuestionnaireResponse.item.where(linkId='change_request').item.where(linkId='pzn').answer[0]
+export function issueLinkId(issue: OperationOutcomeIssue): string | undefined {
+  const linkIds = [...(issue.expression?.[0] || '').matchAll(/linkId='((?:[^'\\]|\\.)*)'/g)];
+  return linkIds[linkIds.length - 1]?.[1];
+}
@@ -0,0 +1,405 @@
+// FHIR R4 resource types as far as the TI-Flow backend uses them.
+// Fields follow the R4 specification; only the elements exchanged with the backend are modelled.
+
+export interface Meta {
+  versionId?: string;
+  lastUpdated?: string;
+  profile?: string[];
+}
+
+export interface Extension {
+  url: string;
+  valueCode?: string;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueInteger?: number;
+  valueCoding?: Coding;
+  valueReference?: Reference;
+  extension?: Extension[];
+}
+
+export interface Coding {
+  system?: string;
+  version?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  type?: string;
+  display?: string;
+}
+
+export interface Quantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface Attachment {
+  contentType?: string;
+  data?: string;
+  url?: string;
+  size?: number;
+  title?: string;
+}
+
+// Common base of all resources
+export interface Resource {
+  resourceType: string;
+  id?: string;
+  meta?: Meta;
+}
+
+export interface DomainResource extends Resource {
+  contained?: Resource[];
+  extension?: Extension[];
+}
+
+// Task
+
+export interface TaskInput {
+  type: { text: string; coding?: Coding[] };
+  valueReference?: Reference;
+  valueString?: string;
+}
+
+export type TaskOutput = TaskInput;
+
+// Task as the backend returns it: participants are Organization references by telematik-ID,
+// businessStatus.text carries the TI-Flow state (e.g. in_progress(Bearbeiter)) and input
+// lists the QuestionnaireResponse revisions, oldest first
+export interface Task extends DomainResource {
+  resourceType: 'Task';
+  id: string;
+  status: string;
+  businessStatus: { text: string };
+  intent: string;
+  priority: string;
+  code?: CodeableConcept;
+  description: string;
+  authoredOn: string;
+  lastModified: string;
+  requester: { reference: string };
+  owner: { reference: string };
+  for: { reference: string };
+  input: TaskInput[];
+  output?: TaskOutput[];
+}
+
+// Questionnaire
+
+export interface QuestionnaireItemInitial {
+  valueString?: string;
+  valueInteger?: number;
+  valueDecimal?: number;
+  valueBoolean?: boolean;
+  valueDate?: string;
+  valueDateTime?: string;
+  valueTime?: string;
+  valueUri?: string;
+  valueCoding?: Coding;
+  valueQuantity?: Quantity;
+  valueReference?: Reference;
+  valueAttachment?: Attachment;
+}
+
+export interface QuestionnaireItemAnswerOption {
+  valueString?: string;
+  valueInteger?: number;
+  valueDate?: string;
+  valueTime?: string;
+  valueCoding?: Coding;
+  valueReference?: Reference;
+  initialSelected?: boolean;
+}
+
+// Condition on the answers of another question for an item to be enabled
+export interface QuestionnaireItemEnableWhen {
+  question: string;
+  operator: 'exists' | '=' | '!=' | '>' | '<' | '>=' | '<=';
+  answerBoolean?: boolean;
+  answerDecimal?: number;
+  answerInteger?: number;
+  answerDate?: string;
+  answerDateTime?: string;
+  answerTime?: string;
+  answerString?: string;
+  answerCoding?: Coding;
+  answerQuantity?: Quantity;
+  answerReference?: Reference;
+}
+
+export interface QuestionnaireItem {
+  linkId: string;
+  // Element the answer is extracted into by $extract, e.g. http://hl7.org/fhir/StructureDefinition/Patient#Patient.name.text
+  definition?: string;
+  text?: string;
+  type: string;
+  code?: Coding[];
+  required?: boolean;
+  repeats?: boolean;
+  readOnly?: boolean;
+  enableWhen?: QuestionnaireItemEnableWhen[];
+  enableBehavior?: 'all' | 'any';
+  answerValueSet?: string;
+  answerOption?: QuestionnaireItemAnswerOption[];
+  initial?: QuestionnaireItemInitial[];
+  // Older forms contain the answerValueSet in the item instead of the Questionnaire
+  contained?: Resource[];
+  extension?: Extension[];
+  item?: QuestionnaireItem[];
+}
+
+export interface Questionnaire extends DomainResource {
+  resourceType: 'Questionnaire';
+  url?: string;
+  version?: string;
+  name?: string;
+  title?: string;
+  status: string;
+  date?: string;
+  description?: string;
+  code?: Coding[];
+  item?: QuestionnaireItem[];
+}
+
+// QuestionnaireResponse
+
+export interface QuestionnaireResponseItemAnswer {
+  valueString?: string;
+  valueInteger?: number;
+  valueDecimal?: number;
+  valueBoolean?: boolean;
+  valueDate?: string;
+  valueDateTime?: string;
+  valueTime?: string;
+  valueUri?: string;
+  valueCoding?: Coding;
+  valueQuantity?: Quantity;
+  valueReference?: Reference;
+  valueAttachment?: Attachment;
+  item?: QuestionnaireResponseItem[];
+}
+
+export interface QuestionnaireResponseItem {
+  linkId: string;
+  text?: string;
+  answer?: QuestionnaireResponseItemAnswer[];
+  item?: QuestionnaireResponseItem[];
+}
+
+export interface QuestionnaireResponse extends DomainResource {
+  resourceType: 'QuestionnaireResponse';
+  questionnaire?: string;
+  status: string;
+  authored?: string;
+  author?: Reference;
+  item?: QuestionnaireResponseItem[];
+}
+
+// Resources extracted from QuestionnaireResponses ($extract)
+
+export interface Identifier {
+  system?: string;
+  value?: string;
+}
+
+export interface HumanName {
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface Patient extends DomainResource {
+  resourceType: 'Patient';
+  identifier?: Identifier[];
+  name?: HumanName[];
+  birthDate?: string;
+}
+
+export interface Medication extends DomainResource {
+  resourceType: 'Medication';
+  code?: CodeableConcept;
+  form?: CodeableConcept;
+}
+
+export interface MedicationRequest extends DomainResource {
+  resourceType: 'MedicationRequest';
+  status: string;
+  intent: string;
+  medicationReference?: Reference;
+  subject?: Reference;
+  authoredOn?: string;
+  note?: Array<{ text: string }>;
+  dosageInstruction?: Array<{ text?: string }>;
+  dispenseRequest?: { quantity?: Quantity };
+}
+
+export interface MedicationDispense extends DomainResource {
+  resourceType: 'MedicationDispense';
+  status: string;
+  identifier?: Identifier[];
+  medicationReference?: Reference;
+  subject?: Reference;
+  whenHandedOver?: string;
+  dosageInstruction?: Array<{ text?: string }>;
+}
+
+// Prescription Task of the local E-Rezept-Fachdienst (/erp/Task): its id is the
+// PrescriptionId; identifier carries the AccessCode (returned by $create and
+// $activate) and, for the pharmacy that accepted it, the Secret
+export interface PrescriptionTask extends DomainResource {
+  resourceType: 'Task';
+  id: string;
+  identifier: Identifier[];
+  status: 'draft' | 'ready' | 'in-progress' | 'completed' | 'cancelled';
+  intent: string;
+  authoredOn: string;
+  lastModified: string;
+  owner?: Reference;
+  input?: Array<{ type: CodeableConcept; valueReference?: Reference }>;
+}
+
+// Bundle
+
+export interface BundleEntry<T extends Resource = Resource> {
+  fullUrl?: string;
+  resource?: T;
+  search?: { mode?: 'match' | 'include' | 'outcome' };
+  request?: { method: string; url: string };
+}
+
+export interface Bundle<T extends Resource = Resource> extends Resource {
+  resourceType: 'Bundle';
+  identifier?: Identifier;
+  type: string;
+  total?: number;
+  timestamp?: string;
+  link?: Array<{ relation: string; url: string }>;
+  entry?: BundleEntry<T>[];
+}
+
+// Parameters
+
+export interface ParametersParameter {
+  name: string;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueCode?: string;
+  valueUri?: string;
+  valueCoding?: Coding;
+  resource?: Resource;
+  part?: ParametersParameter[];
+}
+
+export interface Parameters extends Resource {
+  resourceType: 'Parameters';
+  parameter?: ParametersParameter[];
+}
+
+// OperationOutcome
+
+export interface OperationOutcomeIssue {
+  severity: 'fatal' | 'error' | 'warning' | 'information';
+  code: string;
+  details?: CodeableConcept;
+  diagnostics?: string;
+  expression?: string[];
+}
+
+export interface OperationOutcome extends DomainResource {
+  resourceType: 'OperationOutcome';
+  issue: OperationOutcomeIssue[];
+}
+
+// CodeSystem
+
+export interface CodeSystemConcept {
+  code: string;
+  display?: string;
+  definition?: string;
+  concept?: CodeSystemConcept[];
+}
+
+export interface CodeSystem extends DomainResource {
+  resourceType: 'CodeSystem';
+  url?: string;
+  version?: string;
+  name?: string;
+  title?: string;
+  status: string;
+  // Canonical of the value set with all concepts
+  valueSet?: string;
+  count?: number;
+  concept?: CodeSystemConcept[];
+}
+
+// ValueSet (answer options of choice items)
+
+export interface ValueSetConcept {
+  code: string;
+  display?: string;
+}
+
+export interface ValueSetInclude {
+  system?: string;
+  version?: string;
+  concept?: ValueSetConcept[];
+  filter?: { property: string; op: string; value: string }[];
+}
+
+// Expansion entry; concepts of hierarchical code systems nest their children
+export interface ValueSetExpansionContains {
+  system?: string;
+  version?: string;
+  code?: string;
+  display?: string;
+  abstract?: boolean;
+  contains?: ValueSetExpansionContains[];
+}
+
+export interface ValueSet extends DomainResource {
+  resourceType: 'ValueSet';
+  url?: string;
+  status?: string;
+  compose?: {
+    include: ValueSetInclude[];
+    exclude?: ValueSetInclude[];
+  };
+  expansion?: {
+    identifier?: string;
+    timestamp?: string;
+    total?: number;
+    contains?: ValueSetExpansionContains[];
+  };
+}
+
+// Subscription (R4, with the R4B backport channel type 'sse')
+
+export interface Subscription extends DomainResource {
+  resourceType: 'Subscription';
+  status: string;
+  reason: string;
+  criteria: string;
+  channel: {
+    type: string;
+    endpoint?: string;
+    payload?: string;
+  };
+}
+
+export interface SubscriptionStatus extends Resource {
+  resourceType: 'SubscriptionStatus';
+  status: string;
+  type: 'handshake' | 'heartbeat' | 'event-notification';
+  eventsSinceSubscriptionStart: string;
+  subscription: Reference;
+}
@@ -0,0 +1,35 @@
+import type { Bundle, Extension, Task } from './fhir';
+
+const TASK_HISTORY_EVENT_EXTENSION = 'http://gematik.de/fhir/ti-flow/StructureDefinition/task-history-event';
+
+// Task history (audit trail) entry, parsed from a FHIR history Bundle
+export interface TaskHistoryEntry {
+  versionId: string;
+  operation: string;
+  actor?: string;
+  previousStatus?: string;
+  status: string;
+  timestamp: string;
+  references: string[];
+}
+
+// Parse a task history Bundle into audit trail entries, oldest version first
+export function toTaskHistoryEntries(bundle: Bundle<Task>): TaskHistoryEntry[] {
+  const entries = (bundle.entry || []).flatMap(entry => entry.resource ? [entry.resource] : []).map(task => {
+    const event: Extension[] = task.extension?.find(ext => ext.url === TASK_HISTORY_EVENT_EXTENSION)?.extension || [];
+    const valueOf = (url: string) => event.find(ext => ext.url === url);
+
+    return {
+      versionId: task.meta?.versionId || '',
+      operation: valueOf('operation')?.valueCode || 'unknown',
+      actor: valueOf('actor')?.valueString,
+      previousStatus: valueOf('previousStatus')?.valueString,
+      status: task.businessStatus?.text || task.status,
+      timestamp: task.meta?.lastUpdated || task.lastModified || '',
+      references: event
+        .filter(ext => ext.url === 'reference' && ext.valueReference?.reference)
+        .map(ext => ext.valueReference!.reference!)
+    };
+  });
+  return entries.reverse();
+}
@@ -0,0 +1,25 @@
+// Typed client for the TI-Flow backend API (see apps/backend/openapi.yaml)
+export * from './fhir';
+export { TiFlowClient, bundleResources, prescriptionTaskIdentifier } from './client';
+export type {
+  TiFlowClientOptions,
+  TiFlowCredentials,
+  TokenResponse,
+  JsonWebKeySet,
+  TaskOperationResult,
+  DocumentRequestResult,
+  ResetDatabaseResult,
+  TaskSearchParams,
+  QuestionnaireSearchParams,
+  CodeSystemSearchParams,
+  ValueSetExpandParams,
+  QuestionnaireResponseRevision,
+  QuestionnaireResponseExtraction,
+  PrescriptionTaskCodes,
+  PrescriptionAcceptance
+} from './client';
+export { TiFlowError, isOperationOutcome, operationOutcomeMessage, issueLinkId } from './errors';
+export { toTaskHistoryEntries } from './history';
+export type { TaskHistoryEntry } from './history';
+export { TI_FLOW_OPERATIONS } from './operations';
+export type { HttpMethod, OperationDefinition, OperationName } from './operations';
@@ -0,0 +1,61 @@
+// Every backend operation the client calls, keyed by client method name.
+// scripts/check-openapi.js verifies this table against apps/backend/openapi.yaml,
+// so a path that is missing from or wrong in the API description fails the check.
+
+export type HttpMethod = 'GET' | 'POST' | 'DELETE';
+
+export interface OperationDefinition {
+  method: HttpMethod;
+  path: string;
+}
+
+export const TI_FLOW_OPERATIONS = {
+  getHealth: { method: 'GET', path: '/health' },
+  getStatus: { method: 'GET', path: '/status' },
+  issueToken: { method: 'POST', path: '/auth/token' },
+  getJwks: { method: 'GET', path: '/auth/jwks' },
+  getDocumentOperations: { method: 'GET', path: '/$document-operations' },
+  getRequestOperations: { method: 'GET', path: '/$request-operations' },
+  validateContent: { method: 'GET', path: '/$validate-content' },
+  searchQuestionnaires: { method: 'GET', path: '/Questionnaire' },
+  searchCodeSystems: { method: 'GET', path: '/CodeSystem' },
+  getCodeSystem: { method: 'GET', path: '/CodeSystem/{id}' },
+  lookupCode: { method: 'GET', path: '/CodeSystem/$lookup' },
+  validateCode: { method: 'GET', path: '/CodeSystem/$validate-code' },
+  expandValueSet: { method: 'GET', path: '/ValueSet/$expand' },
+  validateValueSetCode: { method: 'GET', path: '/ValueSet/$validate-code' },
+  populateQuestionnaire: { method: 'POST', path: '/Questionnaire/{id}/$populate' },
+  extractQuestionnaireResponse: { method: 'POST', path: '/QuestionnaireResponse/{id}/$extract' },
+  validateQuestionnaireResponse: { method: 'POST', path: '/QuestionnaireResponse/$validate' },
+  searchTasks: { method: 'GET', path: '/Task' },
+  startFlowRequest: { method: 'POST', path: '/Task/$start-flow-request' },
+  startDocumentRequest: { method: 'POST', path: '/Task/$start-document-request' },
+  getTask: { method: 'GET', path: '/Task/{id}' },
+  getTaskHistory: { method: 'GET', path: '/Task/{id}/_history' },
+  getTaskVersion: { method: 'GET', path: '/Task/{id}/_history/{vid}' },
+  submitCounterOffer: { method: 'POST', path: '/Task/{id}/$counter-offer' },
+  rejectTask: { method: 'POST', path: '/Task/{id}/$reject' },
+  receiveTask: { method: 'POST', path: '/Task/{id}/$receive' },
+  acceptTask: { method: 'POST', path: '/Task/{id}/$accept' },
+  closeTask: { method: 'POST', path: '/Task/{id}/$close' },
+  getQuestionnaire: { method: 'GET', path: '/Questionnaire/{id}' },
+  resetDatabase: { method: 'POST', path: '/$reset-database' },
+  getQuestionnaireResponse: { method: 'GET', path: '/QuestionnaireResponse/{id}' },
+  searchPrescriptionBundles: { method: 'GET', path: '/Bundle' },
+  importPrescriptionBundle: { method: 'POST', path: '/Bundle' },
+  getPrescriptionBundle: { method: 'GET', path: '/Bundle/{id}' },
+  searchMedicationRequests: { method: 'GET', path: '/MedicationRequest' },
+  createPrescriptionTask: { method: 'POST', path: '/erp/Task/$create' },
+  getPrescriptionTask: { method: 'GET', path: '/erp/Task/{id}' },
+  activatePrescriptionTask: { method: 'POST', path: '/erp/Task/{id}/$activate' },
+  acceptPrescriptionTask: { method: 'POST', path: '/erp/Task/{id}/$accept' },
+  rejectPrescriptionTask: { method: 'POST', path: '/erp/Task/{id}/$reject' },
+  closePrescriptionTask: { method: 'POST', path: '/erp/Task/{id}/$close' },
+  abortPrescriptionTask: { method: 'POST', path: '/erp/Task/{id}/$abort' },
+  createSubscription: { method: 'POST', path: '/Subscription' },
+  getSubscription: { method: 'GET', path: '/Subscription/{id}' },
+  deleteSubscription: { method: 'DELETE', path: '/Subscription/{id}' },
+  subscriptionEvents: { method: 'GET', path: '/Subscription/{id}/$events' }
+} as const satisfies Record<string, OperationDefinition>;
+
+export type OperationName = keyof typeof TI_FLOW_OPERATIONS;
@@ -0,0 +1,279 @@
+import type { Attachment, Questionnaire, QuestionnaireItem } from '@ti-flow/client';
+import {
+  getChoiceOptions,
+  getUnitOptions,
+  type FieldValue,
+  type QuantityFieldValue
+} from './questionnaireAnswers';
+
+interface QuestionnaireItemInputProps {
+  item: QuestionnaireItem;
+  // Questionnaire the item belongs to, for answerValueSets contained in it
+  questionnaire?: Questionnaire;
+  fieldId: string;
+  value: FieldValue | undefined;
+  onChange: (value: FieldValue) => void;
+  locked?: boolean;
+  inputClassName?: string;
+  textareaClassName?: string;
+  selectClassName?: string;
+}
+
+// Choice items with more options than this are rendered as a select instead of radio buttons
+const MAX_RADIO_OPTIONS = 5;
+
+// Attachment with the content of a selected file, base64 encoded
+const readAttachment = (file: File): Promise<Attachment> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({
+        contentType: file.type || 'application/octet-stream',
+        data: dataUrl.substring(dataUrl.indexOf(',') + 1),
+        size: file.size,
+        title: file.name
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Input control for a Questionnaire item of any R4 type except group and display;
+ * value and changes are field values as defined in questionnaireAnswers
+ */
+export function QuestionnaireItemInput({
+  item,
+  questionnaire,
+  fieldId,
+  value,
+  onChange,
+  locked = false,
+  inputClassName = 'questionnaire-input',
+  textareaClassName = 'questionnaire-textarea',
+  selectClassName = 'questionnaire-select'
+}: QuestionnaireItemInputProps) {
+  const text = typeof value === 'string' ? value : '';
+
+  switch (item.type) {
+    case 'boolean':
+      return (
+        <input
+          id={fieldId}
+          type="checkbox"
+          checked={text === 'true'}
+          onChange={(e) => onChange(String(e.target.checked))}
+          className="questionnaire-checkbox"
+          disabled={locked}
+        />
+      );
+
+    case 'integer':
+    case 'decimal':
+      return (
+        <input
+          id={fieldId}
+          type="number"
+          step={item.type === 'integer' ? 1 : 'any'}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          readOnly={locked}
+        />
+      );
+
+    case 'date':
+    case 'dateTime':
+    case 'time':
+      return (
+        <input
+          id={fieldId}
+          type={item.type === 'dateTime' ? 'datetime-local' : item.type}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          readOnly={locked}
+        />
+      );
+
+    case 'text':
+      return (
+        <textarea
+          id={fieldId}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={textareaClassName}
+          rows={3}
+          readOnly={locked}
+        />
+      );
+
+    case 'url':
+      return (
+        <input
+          id={fieldId}
+          type="url"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          placeholder="https://"
+          readOnly={locked}
+        />
+      );
+
+    case 'reference':
+      return (
+        <input
+          id={fieldId}
+          type="text"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          placeholder="z.B. Patient/123"
+          readOnly={locked}
+        />
+      );
+
+    case 'choice': {
+      const options = getChoiceOptions(item, questionnaire);
+
+      if (options.length > MAX_RADIO_OPTIONS) {
+        return (
+          <select
+            id={fieldId}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            className={selectClassName}
+            disabled={locked}
+          >
+            <option value="">-- Auswählen --</option>
+            {options.map(option => (
+              <option key={option.code} value={option.code}>{option.display}</option>
+            ))}
+          </select>
+        );
+      }
+
+      return (
+        <div className="radio-group">
+          {options.map((option) => (
+            <div key={option.code} className="radio-option">
+              <input
+                type="radio"
+                id={`${fieldId}-${option.code}`}
+                name={fieldId}
+                value={option.code}
+                checked={text === option.code}
+                onChange={(e) => onChange(e.target.value)}
+                disabled={locked}
+              />
+              <label htmlFor={`${fieldId}-${option.code}`} className="radio-label">
+                {option.display}
+              </label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'open-choice': {
+      // Options are suggested, any other text is answered as valueString
+      const options = getChoiceOptions(item, questionnaire);
+      const selected = options.find(option => option.code === text);
+      return (
+        <>
+          <input
+            id={fieldId}
+            type="text"
+            list={`${fieldId}-options`}
+            value={selected ? selected.display : text}
+            onChange={(e) => onChange(options.find(option => option.display === e.target.value)?.code ?? e.target.value)}
+            className={inputClassName}
+            readOnly={locked}
+          />
+          <datalist id={`${fieldId}-options`}>
+            {options.map(option => (
+              <option key={option.code} value={option.display} />
+            ))}
+          </datalist>
+        </>
+      );
+    }
+
+    case 'quantity': {
+      const quantity: QuantityFieldValue = typeof value === 'object' && 'value' in value ? value : { value: '', unit: '' };
+      const unitOptions = getUnitOptions(item);
+      return (
+        <div className="quantity-input-group">
+          <input
+            id={fieldId}
+            type="number"
+            step="any"
+            value={quantity.value}
+            onChange={(e) => onChange({ ...quantity, value: e.target.value })}
+            className={`${inputClassName} quantity-value`}
+            placeholder="Menge"
+            readOnly={locked}
+          />
+          {unitOptions.length > 0 ? (
+            <select
+              value={quantity.unit}
+              onChange={(e) => onChange({ ...quantity, unit: e.target.value })}
+              className={`${selectClassName} quantity-unit`}
+              disabled={locked}
+            >
+              <option value="">-- Einheit --</option>
+              {unitOptions.map(unit => (
+                <option key={unit.code} value={unit.code}>{unit.display || unit.code}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={quantity.unit}
+              onChange={(e) => onChange({ ...quantity, unit: e.target.value })}
+              className={`${inputClassName} quantity-unit`}
+              placeholder="Einheit (z.B. mg, ml)"
+              readOnly={locked}
+            />
+          )}
+        </div>
+      );
+    }
+
+    case 'attachment': {
+      const attachment = typeof value === 'object' && !('value' in value) ? value : undefined;
+      return (
+        <div className="attachment-input">
+          <input
+            id={fieldId}
+            type="file"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                onChange(await readAttachment(file));
+              }
+            }}
+            disabled={locked}
+          />
+          {attachment?.title && (
+            <span className="attachment-name">📎 {attachment.title}</span>
+          )}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <input
+          id={fieldId}
+          type="text"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+          readOnly={locked}
+        />
+      );
+  }
+}
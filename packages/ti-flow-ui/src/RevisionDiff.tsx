@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import type { QuestionnaireResponseRevision } from '@ti-flow/client';
+import { QuestionnaireResponseDiff } from './questionnaireResponseDiff';
+import './RevisionDiff.css';
+
+interface RevisionDiffProps {
+  previous: QuestionnaireResponseRevision;
+  current: QuestionnaireResponseRevision;
+  // Revisions authored by this telematik-ID are labelled ownLabel, e.g. 'Ihre Apotheke'
+  ownTelematikId: string;
+  ownLabel: string;
+}
+
+export function RevisionDiff({ previous, current, ownTelematikId, ownLabel }: RevisionDiffProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const rows = QuestionnaireResponseDiff.diff(previous.questionnaireResponse, current.questionnaireResponse);
+  const changedCount = rows.filter(row => row.changed).length;
+
+  const authorLabel = (revision: QuestionnaireResponseRevision) =>
+    revision.author === ownTelematikId ? ownLabel : revision.author || 'Unbekannt';
+
+  return (
+    <div className="revision-diff">
+      <div className="revision-diff-header">
+        <h3 className="revision-diff-title">🔀 Änderungen in Revision {current.revision}</h3>
+        <label className="revision-diff-toggle">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+          />
+          Unveränderte Angaben anzeigen
+        </label>
+      </div>
+      <p className="revision-diff-summary">
+        {changedCount === 0
+          ? 'Keine inhaltlichen Änderungen gegenüber der vorherigen Revision.'
+          : `${changedCount} ${changedCount === 1 ? 'Angabe' : 'Angaben'} von ${authorLabel(current)} geändert.`}
+      </p>
+      <table className="revision-diff-table">
+        <thead>
+          <tr>
+            <th>Angabe</th>
+            <th>Revision {previous.revision} ({authorLabel(previous)})</th>
+            <th>Revision {current.revision} ({authorLabel(current)})</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.filter(row => row.changed || showUnchanged).map(row => (
+            <tr key={row.linkId} className={row.changed ? 'revision-diff-changed' : ''}>
+              <td className="revision-diff-question">{row.text}</td>
+              <td className="revision-diff-previous">{row.previous || '—'}</td>
+              <td className="revision-diff-current">{row.current || '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { TaskHistoryEntry } from '@ti-flow/client';
+import './TaskHistoryTimeline.css';
+
+interface TaskHistoryTimelineProps {
+  entries: TaskHistoryEntry[];
+}
+
+const operationLabels: Record<string, string> = {
+  'create': 'Anfrage erstellt',
+  'receive': 'Anfrage empfangen',
+  'counter-offer': 'Gegenangebot',
+  'accept': 'Angenommen',
+  'reject': 'Abgelehnt',
+  'close': 'Abgeschlossen'
+};
+
+const operationIcons: Record<string, string> = {
+  'create': '📤',
+  'receive': '📥',
+  'counter-offer': '🔄',
+  'accept': '✅',
+  'reject': '❌',
+  'close': '📄'
+};
+
+export function TaskHistoryTimeline({ entries }: TaskHistoryTimelineProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="task-history">
+      <h3 className="task-history-title">🕒 Verlauf</h3>
+      <ol className="task-history-timeline">
+        {entries.map(entry => (
+          <li key={entry.versionId} className={`task-history-entry task-history-${entry.operation}`}>
+            <span className="task-history-icon">{operationIcons[entry.operation] || '•'}</span>
+            <div className="task-history-content">
+              <div className="task-history-header">
+                <strong>{operationLabels[entry.operation] || entry.operation}</strong>
+                <span className="task-history-time">
+                  {new Date(entry.timestamp).toLocaleString('de-DE')}
+                </span>
+              </div>
+              <div className="task-history-details">
+                {entry.actor && <span>von {entry.actor}</span>}
+                <span>
+                  {entry.previousStatus ? `${entry.previousStatus} → ` : ''}{entry.status}
+                </span>
+                {entry.references.map(reference => (
+                  <code key={reference}>{reference}</code>
+                ))}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
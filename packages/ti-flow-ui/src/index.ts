@@ -0,0 +1,14 @@
+export { QuestionnaireResponseDiff } from './questionnaireResponseDiff';
+export type { AnswerDiffRow } from './questionnaireResponseDiff';
+export {
+  fromAnswer,
+  getChoiceOptions,
+  getInitialFieldValue,
+  getUnitOptions,
+  isEmptyFieldValue,
+  toAnswer
+} from './questionnaireAnswers';
+export type { ChoiceOption, FieldValue, QuantityFieldValue } from './questionnaireAnswers';
+export { QuestionnaireItemInput } from './QuestionnaireItemInput';
+export { RevisionDiff } from './RevisionDiff';
+export { TaskHistoryTimeline } from './TaskHistoryTimeline';
@@ -0,0 +1,222 @@
+import type {
+  Attachment,
+  Coding,
+  Questionnaire,
+  QuestionnaireItem,
+  QuestionnaireItemInitial,
+  QuestionnaireResponseItemAnswer,
+  ValueSet,
+  ValueSetExpansionContains
+} from '@ti-flow/client';
+
+const UNIT_OPTION_URL = 'http://hl7.org/fhir/StructureDefinition/questionnaire-unitOption';
+
+// Quantity as entered: the unit is the code of the selected unitOption or free text
+export interface QuantityFieldValue {
+  value: string;
+  unit: string;
+}
+
+// Value of a form field: input text for most item types, quantity and attachment as objects
+export type FieldValue = string | QuantityFieldValue | Attachment;
+
+// One selectable answer of a choice or open-choice item
+export interface ChoiceOption {
+  code: string;
+  display: string;
+  answer: QuestionnaireResponseItemAnswer;
+}
+
+/**
+ * Options of a choice item: its inline answerOption list, or the concepts of the
+ * ValueSet its answerValueSet points to if that is contained in the Questionnaire
+ * (or, as in older forms, in the item). Contained canonical value sets are found by
+ * their url, expansions of hierarchical code systems are flattened and abstract
+ * concepts are not selectable.
+ */
+export function getChoiceOptions(item: QuestionnaireItem, questionnaire?: Questionnaire): ChoiceOption[] {
+  if (item.answerOption && item.answerOption.length > 0) {
+    return item.answerOption.flatMap((option): ChoiceOption[] => {
+      if (option.valueCoding) {
+        const code = option.valueCoding.code || '';
+        return [{ code, display: option.valueCoding.display || code, answer: { valueCoding: option.valueCoding } }];
+      }
+      if (option.valueString !== undefined) {
+        return [{ code: option.valueString, display: option.valueString, answer: { valueString: option.valueString } }];
+      }
+      if (option.valueInteger !== undefined) {
+        const code = option.valueInteger.toString();
+        return [{ code, display: code, answer: { valueInteger: option.valueInteger } }];
+      }
+      if (option.valueDate !== undefined) {
+        return [{ code: option.valueDate, display: option.valueDate, answer: { valueDate: option.valueDate } }];
+      }
+      if (option.valueTime !== undefined) {
+        return [{ code: option.valueTime, display: option.valueTime, answer: { valueTime: option.valueTime } }];
+      }
+      if (option.valueReference) {
+        const code = option.valueReference.reference || '';
+        return [{ code, display: option.valueReference.display || code, answer: { valueReference: option.valueReference } }];
+      }
+      return [];
+    });
+  }
+
+  const reference = item.answerValueSet;
+  if (!reference) {
+    return [];
+  }
+
+  const valueSet = [...(questionnaire?.contained || []), ...(item.contained || [])]
+    .find((resource): resource is ValueSet => resource.resourceType === 'ValueSet'
+      && (reference.startsWith('#') ? resource.id === reference.substring(1) : (resource as ValueSet).url === reference));
+
+  const flatten = (contains: ValueSetExpansionContains[]): ValueSetExpansionContains[] =>
+    contains.flatMap(({ contains: nested, ...entry }) => [entry, ...flatten(nested || [])]);
+
+  const codings: Coding[] = valueSet?.expansion?.contains
+    ? flatten(valueSet.expansion.contains)
+      .filter(entry => !entry.abstract)
+      .map(({ system, code, display }) => ({ system, code, display }))
+    : (valueSet?.compose?.include || []).flatMap(include =>
+      (include.concept || []).map(concept => ({ system: include.system, code: concept.code, display: concept.display })));
+
+  return codings.map(coding => ({
+    code: coding.code || '',
+    display: coding.display || coding.code || '',
+    answer: { valueCoding: coding }
+  }));
+}
+
+/**
+ * Units a quantity item may be answered in (questionnaire-unitOption extensions)
+ */
+export function getUnitOptions(item: QuestionnaireItem): Coding[] {
+  return (item.extension || [])
+    .filter(extension => extension.url === UNIT_OPTION_URL && extension.valueCoding)
+    .map(extension => extension.valueCoding!);
+}
+
+/**
+ * Options marked as initialSelected, or the initial value, as field value
+ */
+export function getInitialFieldValue(item: QuestionnaireItem, questionnaire?: Questionnaire): FieldValue | undefined {
+  const selected = item.answerOption?.find(option => option.initialSelected);
+  if (selected) {
+    const option = getChoiceOptions({ ...item, answerOption: [selected] }, questionnaire)[0];
+    return option?.code;
+  }
+  return item.initial?.[0] ? fromAnswer(item, item.initial[0]) : undefined;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// 2024-05-20T14:30 (datetime-local input, local time) -> 2024-05-20T14:30:00+02:00
+const toFhirDateTime = (value: string): string => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  return `${value.substring(0, 16)}:00${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+// FHIR dateTime -> value of a datetime-local input in local time
+const toLocalDateTime = (value: string): string => {
+  if (value.length <= 10) return value.length === 10 ? `${value}T00:00` : '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value.substring(0, 16);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Whether a field has no value that could be submitted
+ */
+export function isEmptyFieldValue(value: FieldValue | undefined): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if ('value' in value) return value.value === '';
+  return !value.data && !value.url;
+}
+
+/**
+ * Answer in the value type of the item; null if the field is empty or not a valid value
+ */
+export function toAnswer(item: QuestionnaireItem, value: FieldValue | undefined, questionnaire?: Questionnaire): QuestionnaireResponseItemAnswer | null {
+  if (isEmptyFieldValue(value)) {
+    return null;
+  }
+
+  if (item.type === 'attachment') {
+    return typeof value === 'object' && !('value' in value) ? { valueAttachment: value } : null;
+  }
+
+  if (item.type === 'quantity') {
+    const quantity = typeof value === 'object' && 'value' in value ? value : { value: String(value), unit: '' };
+    const number = parseFloat(quantity.value);
+    if (Number.isNaN(number)) return null;
+
+    const unitOption = getUnitOptions(item).find(unit => unit.code === quantity.unit);
+    return {
+      valueQuantity: unitOption
+        ? { value: number, unit: unitOption.display || unitOption.code, system: unitOption.system, code: unitOption.code }
+        : { value: number, ...(quantity.unit ? { unit: quantity.unit } : {}) }
+    };
+  }
+
+  const text = typeof value === 'string' ? value.trim() : '';
+
+  switch (item.type) {
+    case 'boolean':
+      return text === 'true' || text === 'false' ? { valueBoolean: text === 'true' } : null;
+    case 'integer': {
+      const number = parseInt(text, 10);
+      return Number.isNaN(number) ? null : { valueInteger: number };
+    }
+    case 'decimal': {
+      const number = parseFloat(text.replace(',', '.'));
+      return Number.isNaN(number) ? null : { valueDecimal: number };
+    }
+    case 'date':
+      return { valueDate: text };
+    case 'dateTime':
+      return { valueDateTime: toFhirDateTime(text) };
+    case 'time':
+      return { valueTime: text.length === 5 ? `${text}:00` : text };
+    case 'url':
+      return { valueUri: text };
+    case 'reference':
+      return { valueReference: { reference: text } };
+    case 'choice':
+    case 'open-choice': {
+      // Options are selected by code; open-choice also accepts the display text or free text
+      const options = getChoiceOptions(item, questionnaire);
+      const option = options.find(candidate => candidate.code === text)
+        || (item.type === 'open-choice' ? options.find(candidate => candidate.display === text) : undefined);
+      return option ? option.answer : { valueString: text };
+    }
+    default:
+      return { valueString: typeof value === 'string' ? value : text };
+  }
+}
+
+/**
+ * Field value for an answer or initial value, the inverse of toAnswer
+ */
+export function fromAnswer(item: QuestionnaireItem, answer: QuestionnaireResponseItemAnswer | QuestionnaireItemInitial): FieldValue {
+  if (answer.valueQuantity) {
+    const { value, unit, code } = answer.valueQuantity;
+    const unitOption = getUnitOptions(item).find(option => option.code === code || option.display === unit);
+    return { value: value?.toString() ?? '', unit: unitOption?.code || unit || code || '' };
+  }
+  if (answer.valueAttachment) return answer.valueAttachment;
+  if (answer.valueCoding) return answer.valueCoding.code || '';
+  if (answer.valueReference) return answer.valueReference.reference || '';
+  if (answer.valueBoolean !== undefined) return answer.valueBoolean.toString();
+  if (answer.valueInteger !== undefined) return answer.valueInteger.toString();
+  if (answer.valueDecimal !== undefined) return answer.valueDecimal.toString();
+  if (answer.valueDateTime !== undefined) return item.type === 'date' ? answer.valueDateTime.substring(0, 10) : toLocalDateTime(answer.valueDateTime);
+  if (answer.valueDate !== undefined) return item.type === 'dateTime' ? toLocalDateTime(answer.valueDate) : answer.valueDate;
+  if (answer.valueTime !== undefined) return answer.valueTime.substring(0, 5);
+  if (answer.valueUri !== undefined) return answer.valueUri;
+  return answer.valueString ?? '';
+}
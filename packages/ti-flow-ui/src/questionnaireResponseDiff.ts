@@ -0,0 +1,174 @@
+import type {
+  Questionnaire,
+  QuestionnaireItem,
+  QuestionnaireResponse,
+  QuestionnaireResponseItem,
+  QuestionnaireResponseItemAnswer
+} from '@ti-flow/client';
+import { fromAnswer, toAnswer, type FieldValue } from './questionnaireAnswers';
+
+// Item of a questionnaire by linkId, nested items included
+const findItem = (items: QuestionnaireItem[] = [], linkId: string): QuestionnaireItem | undefined => {
+  for (const item of items) {
+    const found = item.linkId === linkId ? item : findItem(item.item, linkId);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const isSameFieldValue = (a: FieldValue | undefined, b: FieldValue | undefined) => JSON.stringify(a) === JSON.stringify(b);
+
+// One answered question in the comparison of two revisions
+export interface AnswerDiffRow {
+  linkId: string;
+  text: string;
+  previous: string;
+  current: string;
+  changed: boolean;
+}
+
+export class QuestionnaireResponseDiff {
+  /**
+   * Item of a questionnaire by linkId, nested items included
+   */
+  static findItem(questionnaire: Questionnaire | undefined, linkId: string): QuestionnaireItem | undefined {
+    return findItem(questionnaire?.item, linkId);
+  }
+
+  /**
+   * Display text of a single answer
+   */
+  static formatAnswer(answer: QuestionnaireResponseItemAnswer): string {
+    if (answer.valueString !== undefined) return answer.valueString;
+    if (answer.valueInteger !== undefined) return answer.valueInteger.toString();
+    if (answer.valueDecimal !== undefined) return answer.valueDecimal.toString();
+    if (answer.valueBoolean !== undefined) return answer.valueBoolean ? 'Ja' : 'Nein';
+    if (answer.valueDate !== undefined) return answer.valueDate;
+    if (answer.valueDateTime !== undefined) return answer.valueDateTime;
+    if (answer.valueCoding) return answer.valueCoding.display || answer.valueCoding.code || '';
+    if (answer.valueQuantity) return `${answer.valueQuantity.value} ${answer.valueQuantity.unit || ''}`.trim();
+    if (answer.valueReference) return answer.valueReference.display || answer.valueReference.reference || '';
+    return '';
+  }
+
+  /**
+   * Answers of all questions keyed by linkId, nested groups included
+   */
+  static flattenAnswers(response: QuestionnaireResponse): Map<string, { text: string; value: string }> {
+    const answers = new Map<string, { text: string; value: string }>();
+
+    const visit = (items: QuestionnaireResponseItem[] = []) => {
+      for (const item of items) {
+        if (item.item && item.item.length > 0) {
+          visit(item.item);
+        } else {
+          answers.set(item.linkId, {
+            text: item.text || item.linkId,
+            value: (item.answer || []).map(answer => this.formatAnswer(answer)).join(', ')
+          });
+        }
+      }
+    };
+
+    visit(response.item);
+    return answers;
+  }
+
+  /**
+   * Compare two revisions question by question, in the order of the current revision;
+   * questions only answered in the previous revision are listed last
+   */
+  static diff(previous: QuestionnaireResponse, current: QuestionnaireResponse): AnswerDiffRow[] {
+    const previousAnswers = this.flattenAnswers(previous);
+    const currentAnswers = this.flattenAnswers(current);
+    const linkIds = [...currentAnswers.keys(), ...[...previousAnswers.keys()].filter(linkId => !currentAnswers.has(linkId))];
+
+    return linkIds.map(linkId => {
+      const before = previousAnswers.get(linkId);
+      const after = currentAnswers.get(linkId);
+      return {
+        linkId,
+        text: (after || before)!.text,
+        previous: before?.value || '',
+        current: after?.value || '',
+        changed: (before?.value || '') !== (after?.value || '')
+      };
+    });
+  }
+
+  /**
+   * Field values of the answered questions keyed by linkId, in the form the input of
+   * their questionnaire item edits them (e.g. the code of a selected option); questions
+   * the questionnaire does not define are edited as display text
+   */
+  static getFieldValues(response: QuestionnaireResponse, questionnaire?: Questionnaire): Record<string, FieldValue> {
+    const values: Record<string, FieldValue> = {};
+
+    const visit = (items: QuestionnaireResponseItem[] = []) => {
+      for (const item of items) {
+        if (item.item && item.item.length > 0) {
+          visit(item.item);
+          continue;
+        }
+
+        const questionnaireItem = findItem(questionnaire?.item, item.linkId);
+        const answers = item.answer || [];
+        values[item.linkId] = questionnaireItem
+          ? (answers[0] ? fromAnswer(questionnaireItem, answers[0]) : '')
+          : answers.map(answer => this.formatAnswer(answer)).join(', ');
+      }
+    };
+
+    visit(response.item);
+    return values;
+  }
+
+  /**
+   * Build the next revision from edited field values (see getFieldValues). Unchanged
+   * answers are kept as they are. Changed answers take the value type of their
+   * questionnaire item, e.g. the valueCoding of the selected answerOption; questions
+   * the questionnaire does not define keep the value type of the previous answer where possible.
+   */
+  static applyAnswerValues(
+    response: QuestionnaireResponse,
+    values: Record<string, FieldValue>,
+    questionnaire?: Questionnaire
+  ): QuestionnaireResponse {
+    const previousValues = this.getFieldValues(response, questionnaire);
+
+    const fromText = (previous: QuestionnaireResponseItemAnswer | undefined, value: string): QuestionnaireResponseItemAnswer => {
+      if (previous?.valueInteger !== undefined && /^-?\d+$/.test(value)) return { valueInteger: parseInt(value, 10) };
+      if (previous?.valueDecimal !== undefined && !isNaN(Number(value))) return { valueDecimal: Number(value) };
+      if (previous?.valueBoolean !== undefined && ['Ja', 'Nein'].includes(value)) return { valueBoolean: value === 'Ja' };
+      if (previous?.valueDate !== undefined) return { valueDate: value };
+      if (previous?.valueQuantity && !isNaN(Number(value))) return { valueQuantity: { ...previous.valueQuantity, value: Number(value) } };
+      return { valueString: value };
+    };
+
+    const update = (item: QuestionnaireResponseItem): QuestionnaireResponseItem => {
+      if (item.item && item.item.length > 0) {
+        return { ...item, item: item.item.map(update) };
+      }
+
+      const value = values[item.linkId];
+      if (value === undefined || isSameFieldValue(value, previousValues[item.linkId])) {
+        return item;
+      }
+
+      const questionnaireItem = findItem(questionnaire?.item, item.linkId);
+      if (questionnaireItem) {
+        const answer = toAnswer(questionnaireItem, value, questionnaire);
+        return { ...item, answer: answer ? [answer] : [] };
+      }
+
+      const text = typeof value === 'string' ? value : '';
+      return { ...item, answer: text === '' ? [] : [fromText(item.answer?.[0], text)] };
+    };
+
+    return {
+      ...response,
+      status: 'completed',
+      item: (response.item || []).map(update)
+    };
+  }
+}
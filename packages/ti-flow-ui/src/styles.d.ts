@@ -0,0 +1,2 @@
+// Stylesheets imported by the components are bundled by the app's Vite build
+declare module '*.css';